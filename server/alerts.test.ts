@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Client } from 'discord.js';
+import { ALERT_RETRY_DELAY_MS, Alerts } from './alerts';
+import type { AlertContext } from './alerts';
+import { MemStorage } from './storage';
+
+const CHANNEL_ID = '123456789012345678';
+const LOW_HEALTH: AlertContext = { botId: 'main', reason: 'Health dropped to 4', value: 4, recentChat: [] };
+
+// A Discord client whose alert channel accepts messages until `failing` is set
+function fakeClient() {
+  const state = { failing: false };
+  const send = vi.fn(async () => {
+    if (state.failing) throw new Error('Missing Permissions');
+  });
+  const client = {
+    user: { id: 'bot' },
+    channels: { fetch: vi.fn(async () => ({ isSendable: () => true, send })) },
+  } as unknown as Client;
+  return { client, send, state };
+}
+
+async function setup(cooldown: number) {
+  const storage = new MemStorage();
+  await storage.createAlertRule({ event: 'low_health', cooldown, destination: 'channel', targetId: CHANNEL_ID, enabled: true });
+  const { client, send, state } = fakeClient();
+  const log = vi.fn(async () => {});
+  const alerts = new Alerts({ storage, getClient: () => client, log });
+  return { alerts, send, state, log };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Alerts.trigger', () => {
+  it('sends once per cooldown', async () => {
+    const { alerts, send } = await setup(300);
+
+    await alerts.trigger('low_health', LOW_HEALTH);
+    vi.advanceTimersByTime(5000);
+    await alerts.trigger('low_health', LOW_HEALTH);
+    expect(send).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(300 * 1000);
+    await alerts.trigger('low_health', LOW_HEALTH);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off after a failed delivery, then retries before the cooldown is up', async () => {
+    const { alerts, send, state, log } = await setup(300);
+    state.failing = true;
+
+    // Low health is reported every 5s while it lasts
+    for (let elapsed = 0; elapsed < ALERT_RETRY_DELAY_MS; elapsed += 5000) {
+      await alerts.trigger('low_health', LOW_HEALTH);
+      vi.advanceTimersByTime(5000);
+    }
+    expect(send).toHaveBeenCalledOnce();
+    expect(log).toHaveBeenCalledOnce();
+    expect(log).toHaveBeenCalledWith('main', 'warn', expect.stringContaining('Failed to send low_health alert'));
+
+    state.failing = false;
+    await alerts.trigger('low_health', LOW_HEALTH);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(log).toHaveBeenLastCalledWith('main', 'info', expect.stringContaining('low_health alert sent'));
+  });
+});
@@ -0,0 +1,140 @@
+import type { APIEmbed, APIEmbedField, Client, MessageCreateOptions } from 'discord.js';
+import type { IStorage } from './storage';
+import type { AlertEvent, AlertRule, InsertAlertRule } from '../shared/schema';
+
+const MAX_FIELD_VALUE = 1024;
+// Wait before trying a rule again after its alert couldn't be delivered
+export const ALERT_RETRY_DELAY_MS = 60 * 1000;
+
+// Thresholds of rules saved without one
+export const DEFAULT_ALERT_THRESHOLDS: Partial<Record<AlertEvent, number>> = {
+  low_health: 6,
+  kick: 1,
+};
+
+const ALERT_TITLES: Record<AlertEvent, string> = {
+  death: '💀 Bot died',
+  kick: '👢 Bot was kicked',
+  low_health: '❤️ Low health',
+  reconnect_failed: '🚫 Gave up reconnecting',
+};
+
+// What happened, as reported where the event is detected
+export interface AlertContext {
+  botId: string;
+  reason: string;
+  value?: number; // Health for low_health, kicks in a row for kick
+  position?: { x: number; y: number; z: number } | null;
+  recentChat: string[];
+}
+
+interface AlertsOptions {
+  storage: IStorage;
+  getClient: () => Client | null;
+  log: (botId: string, level: 'info' | 'warn', message: string) => Promise<void>;
+}
+
+export function alertThreshold(rule: Pick<AlertRule, 'event' | 'threshold'>): number | undefined {
+  return rule.threshold ?? DEFAULT_ALERT_THRESHOLDS[rule.event];
+}
+
+// Problems the schema can't express; null when the rule can be saved
+export function alertRuleProblem(rule: InsertAlertRule): string | null {
+  if (rule.destination === 'role' && !rule.channelId) return 'Role alerts need a channel to mention the role in';
+  if (rule.event === 'kick' && rule.threshold !== undefined && rule.threshold < 1) return 'Kick threshold must be at least 1';
+  return null;
+}
+
+export function alertRuleMatches(rule: AlertRule, event: AlertEvent, context: AlertContext): boolean {
+  if (!rule.enabled || rule.event !== event) return false;
+  if (rule.botId && rule.botId !== context.botId) return false;
+  const threshold = alertThreshold(rule);
+  if (event === 'low_health') return context.value !== undefined && context.value <= threshold;
+  if (event === 'kick') return context.value !== undefined && context.value >= threshold;
+  return true;
+}
+
+// "channel 123", "DM 456", "role 789 in channel 123" for the log
+export function describeAlertDestination(rule: Pick<AlertRule, 'destination' | 'targetId' | 'channelId'>): string {
+  if (rule.destination === 'user') return `DM ${rule.targetId}`;
+  if (rule.destination === 'role') return `role ${rule.targetId} in channel ${rule.channelId}`;
+  return `channel ${rule.targetId}`;
+}
+
+export function buildAlertMessage(rule: AlertRule, context: AlertContext): MessageCreateOptions {
+  const fields: APIEmbedField[] = [
+    { name: '🤖 Bot', value: context.botId, inline: true },
+  ];
+  if (context.position) {
+    const { x, y, z } = context.position;
+    fields.push({ name: '📍 Position', value: `X: ${Math.floor(x)}, Y: ${Math.floor(y)}, Z: ${Math.floor(z)}`, inline: true });
+  }
+  if (context.recentChat.length > 0) {
+    // Keep the newest lines when the block is too long for a field
+    let chat = context.recentChat.join('\n').replace(/```/g, "'''");
+    if (chat.length > MAX_FIELD_VALUE - 8) chat = chat.slice(chat.length - (MAX_FIELD_VALUE - 8));
+    fields.push({ name: '💬 Recent Chat', value: `\`\`\`\n${chat}\n\`\`\``, inline: false });
+  }
+
+  const embed: APIEmbed = {
+    title: ALERT_TITLES[rule.event],
+    description: context.reason.slice(0, 4096),
+    fields,
+    color: 0xff0000,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (rule.destination === 'role') {
+    return { content: `<@&${rule.targetId}>`, embeds: [embed], allowedMentions: { roles: [rule.targetId] } };
+  }
+  return { embeds: [embed] };
+}
+
+// Sends critical bot events (deaths, kicks, low health, reconnect give-ups) to the
+// destinations of the matching alert rules, at most once per cooldown per rule and bot
+export class Alerts {
+  // Per rule and bot: when the next alert may go out
+  private readonly nextAttempt = new Map<string, number>();
+
+  constructor(private readonly options: AlertsOptions) {}
+
+  async trigger(event: AlertEvent, context: AlertContext): Promise<void> {
+    try {
+      const rules = (await this.options.storage.getAlertRules()).filter(rule => alertRuleMatches(rule, event, context));
+      for (const rule of rules) {
+        const key = `${rule.id}:${context.botId}`;
+        if (Date.now() < (this.nextAttempt.get(key) ?? 0)) continue;
+        // Only a delivered alert starts the cooldown; a failed one (and any event while this one
+        // is on its way) waits the retry delay, so a dead destination isn't hit every few seconds
+        this.nextAttempt.set(key, Date.now() + ALERT_RETRY_DELAY_MS);
+        if (await this.send(rule, context)) this.nextAttempt.set(key, Date.now() + rule.cooldown * 1000);
+      }
+    } catch (error) {
+      console.log(`Failed to send ${event} alerts:`, error.message);
+    }
+  }
+
+  // Delivers one alert; failures are logged rather than thrown
+  async send(rule: AlertRule, context: AlertContext): Promise<boolean> {
+    const client = this.options.getClient();
+    if (!client?.user) return false;
+
+    const destination = describeAlertDestination(rule);
+    try {
+      const message = buildAlertMessage(rule, context);
+      if (rule.destination === 'user') {
+        const user = await client.users.fetch(rule.targetId);
+        await user.send(message);
+      } else {
+        const channel = await client.channels.fetch(rule.destination === 'role' ? rule.channelId : rule.targetId);
+        if (!channel?.isSendable()) throw new Error('channel is not a text channel the bot can send to');
+        await channel.send(message);
+      }
+      await this.options.log(context.botId, 'info', `🚨 ${rule.event} alert sent to ${destination}`);
+      return true;
+    } catch (error) {
+      await this.options.log(context.botId, 'warn', `Failed to send ${rule.event} alert to ${destination}: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { IncomingHttpHeaders } from 'node:http';
+import type express from 'express';
+import type { IStorage } from './storage';
+import type { User, UserRole, ApiKey, ApiKeyScope } from '../shared/schema';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'afk_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+export const API_KEY_PREFIX = 'afk_';
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000; // lastUsedAt granularity, keeps polling scripts from rewriting storage
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash: _keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+export function isApiKeyToken(token: string | null): boolean {
+  return !!token?.startsWith(API_KEY_PREFIX);
+}
+
+export function hasRole(user: { role?: UserRole } | null | undefined, role: UserRole): boolean {
+  return !!user?.role && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+// Stored as scrypt:<salt>:<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (name) cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+// Bearer token (API clients) or session cookie (dashboard)
+export function tokenFromHeaders(headers: IncomingHttpHeaders): string | null {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return parseCookies(headers.cookie)[SESSION_COOKIE] || null;
+}
+
+export function sessionCookie(token: string, maxAgeMs = SESSION_TTL_MS): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${Math.floor(maxAgeMs / 1000)}${secure}`;
+}
+
+export class AuthService {
+  constructor(private readonly storage: IStorage) {}
+
+  async hasUsers(): Promise<boolean> {
+    return (await this.storage.getUsers()).length > 0;
+  }
+
+  async createUser(username: string, password: string, role: UserRole): Promise<PublicUser> {
+    if (await this.storage.getUserByUsername(username)) {
+      throw new Error(`User ${username} already exists`);
+    }
+    const user = await this.storage.createUser({
+      username,
+      passwordHash: await hashPassword(password),
+      role,
+    });
+    return toPublicUser(user);
+  }
+
+  async setPassword(userId: string, password: string): Promise<void> {
+    await this.storage.updateUser(userId, { passwordHash: await hashPassword(password) });
+    // Changing the password signs the user out everywhere
+    await this.storage.deleteUserSessions(userId);
+  }
+
+  // Returns a new session token, or null if the credentials are wrong
+  async login(username: string, password: string): Promise<{ token: string; user: PublicUser } | null> {
+    const user = await this.storage.getUserByUsername(username);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const now = Date.now();
+    await this.storage.createSession({
+      id: hashToken(token),
+      userId: user.id,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    });
+    const updated = await this.storage.updateUser(user.id, { lastLogin: new Date(now).toISOString() });
+    return { token, user: toPublicUser(updated) };
+  }
+
+  async authenticate(token: string | null): Promise<PublicUser | null> {
+    if (!token) return null;
+
+    const session = await this.storage.getSession(hashToken(token));
+    if (!session) return null;
+    if (new Date(session.expiresAt).getTime() < Date.now()) {
+      await this.storage.deleteSession(session.id);
+      return null;
+    }
+
+    const user = await this.storage.getUser(session.userId);
+    return user ? toPublicUser(user) : null;
+  }
+
+  async logout(token: string | null): Promise<void> {
+    if (token) await this.storage.deleteSession(hashToken(token));
+  }
+
+  // Returns the plaintext key once; only its hash is stored
+  async createApiKey(name: string, scopes: ApiKeyScope[], createdBy: string, expiresAt?: string): Promise<{ key: string; apiKey: PublicApiKey }> {
+    const key = API_KEY_PREFIX + randomBytes(24).toString('hex');
+    const apiKey = await this.storage.createApiKey({
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      scopes,
+      createdBy,
+      expiresAt,
+    });
+    return { key, apiKey: toPublicApiKey(apiKey) };
+  }
+
+  async authenticateApiKey(token: string | null): Promise<ApiKey | null> {
+    if (!isApiKeyToken(token)) return null;
+
+    const apiKey = await this.storage.getApiKeyByHash(hashToken(token));
+    if (!apiKey) return null;
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() < Date.now()) {
+      return null;
+    }
+
+    const lastUsed = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+    if (Date.now() - lastUsed > API_KEY_TOUCH_INTERVAL_MS) {
+      return this.storage.updateApiKey(apiKey.id, { lastUsedAt: new Date().toISOString() });
+    }
+    return apiKey;
+  }
+
+  // Creates the first admin from DASHBOARD_ADMIN_USERNAME / DASHBOARD_ADMIN_PASSWORD
+  async ensureAdminFromEnv(): Promise<PublicUser | null> {
+    const username = process.env.DASHBOARD_ADMIN_USERNAME;
+    const password = process.env.DASHBOARD_ADMIN_PASSWORD;
+    if (!username || !password || await this.hasUsers()) return null;
+    return this.createUser(username, password, 'admin');
+  }
+}
+
+// Sets res.locals.user from the session cookie or bearer token; 401 if missing.
+// API keys also set res.locals.apiKey and act as "key:<name>" with no role.
+export function authenticate(auth: AuthService): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const token = tokenFromHeaders(req.headers);
+      if (isApiKeyToken(token)) {
+        const apiKey = await auth.authenticateApiKey(token);
+        if (!apiKey) {
+          res.status(401).json({ error: 'Invalid or expired API key' });
+          return;
+        }
+        res.locals.apiKey = apiKey;
+        res.locals.user = { id: `apikey:${apiKey.id}`, username: `key:${apiKey.name}` };
+        next();
+        return;
+      }
+
+      const user = await auth.authenticate(token);
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+      res.locals.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Signed-in users need the role; API keys need the scope (routes without one reject keys)
+export function requireRole(role: UserRole, scope?: ApiKeyScope): express.RequestHandler {
+  return (req, res, next) => {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    if (apiKey) {
+      if (!scope || !apiKey.scopes.includes(scope)) {
+        res.status(403).json({ error: scope ? `API key requires ${scope} scope` : 'Not available to API keys' });
+        return;
+      }
+    } else if (!hasRole(res.locals.user, role)) {
+      res.status(403).json({ error: `Requires ${role} role` });
+      return;
+    }
+    next();
+  };
+}
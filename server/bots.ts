@@ -0,0 +1,210 @@
+import type { Bot } from 'mineflayer';
+import type { Vec3 } from 'vec3';
+import { DEFAULT_BOT_ID } from '../shared/schema';
+import type { ServerPingResult } from './serverPing';
+
+// Chat lines kept for alerts
+const CHAT_HISTORY = 10;
+const STABLE_SESSION = 5 * 60 * 1000; // Connected this long after a spawn, earlier kicks stop counting
+
+// Bot ids end up in URLs and Socket.IO room names
+const BOT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidBotId(botId: string): boolean {
+  return BOT_ID_PATTERN.test(botId);
+}
+
+export function generateBotId(name?: string): string {
+  const slug = (name || 'bot')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32) || 'bot';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+// Goto session management
+export interface GotoSession {
+  targetPlayer: string;
+  initiator: string;
+  state: 'traveling' | 'awaiting_reply' | 'completed';
+  startTime: number;
+  timeoutId?: NodeJS.Timeout;
+}
+
+export interface ControlLock {
+  owner: string | null;
+  ownerId: string | null;
+  lastHeartbeat: number | null;
+  timeout: number;
+}
+
+export interface MovementStates {
+  forward: boolean;
+  back: boolean;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  sneak: boolean;
+  sprint: boolean;
+}
+
+// A player or mob as the radar view draws it
+export interface EntitySummary {
+  id: string;
+  type: string;
+  kind: string;
+  username: string;
+  health: number;
+  pos: Vec3;
+}
+
+export interface WorldSnapshot {
+  bot: { pos: { x: number; y: number; z: number }; yaw: number; health: number; food: number };
+  entities: EntitySummary[];
+  lastUpdate: number;
+}
+
+// Result of a bot action shared by the REST API and Discord; status is the HTTP status of a failure
+export interface BotActionResult {
+  success: boolean;
+  message: string;
+  status?: number;
+}
+
+// Runtime state of a single Minecraft bot (config lives in storage)
+export class BotInstance {
+  minecraftBot: Bot | null = null;
+
+  // Control lock system
+  controlLock: ControlLock = {
+    owner: null,
+    ownerId: null,
+    lastHeartbeat: null,
+    timeout: 30000 // 30 seconds
+  };
+
+  // Movement control states
+  currentMovementStates: MovementStates = {
+    forward: false,
+    back: false,
+    left: false,
+    right: false,
+    jump: false,
+    sneak: false,
+    sprint: false
+  };
+
+  // Bot control states
+  isManualControl = false;
+  pvpEnabled = false;
+  pvpTarget: string | null = null;
+  botLook = { yaw: 0, pitch: 0 };
+
+  // Movement timing for natural player behavior
+  movementStartTime = 0;
+  movementTickInterval: NodeJS.Timeout | null = null;
+  controllerSocketId: string | null = null;
+
+  readonly activeGotoSessions = new Map<string, GotoSession>();
+
+  // World snapshot for radar view
+  worldSnapshot: WorldSnapshot = {
+    bot: { pos: { x: 0, y: 0, z: 0 }, yaw: 0, health: 20, food: 20 },
+    entities: [],
+    lastUpdate: Date.now()
+  };
+
+  // Connection management
+  connectionAttempts = 0;
+  reconnectTimeout: NodeJS.Timeout | null = null;
+  isReconnecting = false;
+  isConnecting = false;
+  connectGeneration = 0; // Bumped by a disconnect; attempts started before it are cancelled
+  lastError: string | null = null;
+  serverStatus: ServerPingResult | null = null; // Last Server List Ping of the bot's server
+
+  // Session history for the Discord live status
+  connectedAt: number | null = null;
+  private kickTimes: number[] = [];
+  consecutiveKicks = 0; // Reset by a stable session or a manual connect; auto-reconnect stops at 3
+  private stableTimer: NodeJS.Timeout | null = null;
+  readonly recentChat: string[] = [];
+
+  constructor(readonly id: string) {}
+
+  // Socket.IO room that receives this bot's real-time events
+  get room(): string {
+    return `bot:${this.id}`;
+  }
+
+  isControlLockValid(): boolean {
+    if (!this.controlLock.owner || !this.controlLock.lastHeartbeat) return false;
+    return Date.now() - this.controlLock.lastHeartbeat < this.controlLock.timeout;
+  }
+
+  // Returns the number of kicks in a row, this one included
+  recordKick(): number {
+    this.kickTimes.push(Date.now());
+    this.cancelStableTimer();
+    return ++this.consecutiveKicks;
+  }
+
+  // Called on spawn: staying connected for STABLE_SESSION clears the kick streak
+  startStableTimer() {
+    this.cancelStableTimer();
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.consecutiveKicks = 0;
+    }, STABLE_SESSION);
+  }
+
+  cancelStableTimer() {
+    if (this.stableTimer) clearTimeout(this.stableTimer);
+    this.stableTimer = null;
+  }
+
+  recordChat(line: string) {
+    this.recentChat.push(line);
+    if (this.recentChat.length > CHAT_HISTORY) this.recentChat.shift();
+  }
+
+  // Kicks since local midnight
+  kicksToday(): number {
+    const midnight = new Date().setHours(0, 0, 0, 0);
+    this.kickTimes = this.kickTimes.filter(time => time >= midnight);
+    return this.kickTimes.length;
+  }
+
+  resetMovementStates() {
+    Object.keys(this.currentMovementStates).forEach(key => {
+      this.currentMovementStates[key as keyof MovementStates] = false;
+    });
+  }
+}
+
+// Keeps one BotInstance per bot id, created on first use
+export class BotRegistry {
+  private readonly instances = new Map<string, BotInstance>();
+
+  get(botId: string = DEFAULT_BOT_ID): BotInstance {
+    let instance = this.instances.get(botId);
+    if (!instance) {
+      instance = new BotInstance(botId);
+      this.instances.set(botId, instance);
+    }
+    return instance;
+  }
+
+  list(): BotInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  remove(botId: string) {
+    this.instances.delete(botId);
+  }
+
+  hasConnectedBot(): boolean {
+    return this.list().some(instance => !!instance.minecraftBot);
+  }
+}
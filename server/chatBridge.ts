@@ -0,0 +1,170 @@
+import type { Message, Webhook } from 'discord.js';
+import type { IStorage } from './storage';
+import type { BotInstance, BotRegistry } from './bots';
+import type { DiscordChannels } from './discordChannels';
+import { ChatBridgeConfigSchema } from '../shared/schema';
+import type { ChannelBinding, ChatBridgeConfig } from '../shared/schema';
+
+const WEBHOOK_NAME = 'AFK Chat Bridge';
+const MAX_MINECRAFT_CHAT = 256;
+const MAX_DISCORD_MESSAGE = 2000;
+
+interface ChatBridgeOptions {
+  storage: IStorage;
+  registry: BotRegistry;
+  channels: DiscordChannels;
+  log: (instance: BotInstance, level: 'info' | 'warn' | 'error', message: string) => Promise<void>;
+}
+
+// Fills {name} placeholders; unknown ones are left as typed
+export function formatBridgeMessage(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => key in values ? values[key] : match);
+}
+
+// Keeps relayed text from pinging anyone, even if allowedMentions were ignored
+export function sanitizeMentions(text: string): string {
+  return text
+    .replace(/@(everyone|here)/gi, '@\u200b$1')
+    .replace(/<(@[!&]?|#)(\d+)>/g, '<$1\u200b$2>');
+}
+
+// Escapes Discord markdown in names (underscores in usernames otherwise turn into italics)
+export function escapeDiscordMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, '\\$1');
+}
+
+// One line of plain chat: no color codes, no newlines, and never a command
+export function toMinecraftChat(text: string): string {
+  return text
+    .replace(/<a?:(\w+):\d+>/g, ':$1:') // custom emoji
+    .replace(/§./g, '')
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/\p{Cc}/gu, '')
+    .trim()
+    .replace(/^\/+/, '')
+    .slice(0, MAX_MINECRAFT_CHAT);
+}
+
+export function skinAvatarUrl(username: string, uuid?: string): string {
+  return `https://mc-heads.net/avatar/${encodeURIComponent(uuid || username)}/64`;
+}
+
+// Two-way chat relay between Minecraft bots and the Discord channels bound for chat.
+// Bindings without a bot follow the bridged bot from the dashboard settings.
+export class ChatBridge {
+  // Webhooks we own, per channel; null means the channel can't have one (missing permission)
+  private readonly webhooks = new Map<string, Webhook | null>();
+
+  constructor(private readonly options: ChatBridgeOptions) {}
+
+  async getConfig(): Promise<ChatBridgeConfig> {
+    const discordConfig = await this.options.storage.getDiscordConfig();
+    return ChatBridgeConfigSchema.parse(discordConfig?.chatBridge ?? {});
+  }
+
+  // Drops cached webhooks, e.g. when the Discord client is replaced
+  reset() {
+    this.webhooks.clear();
+  }
+
+  // In-game chat from a player, posted as that player when a webhook is available
+  async relayToDiscord(instance: BotInstance, username: string, message: string): Promise<void> {
+    const config = await this.getConfig();
+    if (!config.toDiscord) return;
+
+    const content = sanitizeMentions(message).slice(0, MAX_DISCORD_MESSAGE);
+    if (!content.trim()) return;
+
+    const seen = new Set<string>();
+    for (const binding of await this.options.channels.forEvent('chat', instance.id)) {
+      if ((binding.botId ?? config.botId) !== instance.id || seen.has(binding.channelId)) continue;
+      seen.add(binding.channelId);
+      await this.postToChannel(binding, config, instance, username, content);
+    }
+  }
+
+  // Messages typed in a channel bound for chat, said in game by that channel's bot.
+  // Returns true when the message was relayed.
+  async relayToMinecraft(message: Message): Promise<boolean> {
+    if (message.author.bot || message.webhookId) return false;
+
+    const binding = (await this.options.channels.forPurpose('chat')).find(b => b.channelId === message.channelId);
+    if (!binding) return false;
+
+    const config = await this.getConfig();
+    if (!config.toMinecraft) return false;
+
+    const instance = this.options.registry.get(binding.botId ?? config.botId);
+    if (!instance.minecraftBot?.entity) return false;
+
+    const text = toMinecraftChat([message.cleanContent, ...message.attachments.map(() => '[attachment]')].join(' '));
+    if (!text) return false;
+
+    const user = toMinecraftChat(message.member?.displayName || message.author.username);
+    const line = toMinecraftChat(formatBridgeMessage(config.minecraftFormat, {
+      prefix: config.minecraftPrefix,
+      user,
+      message: text,
+    }));
+    if (!line) return false;
+
+    instance.minecraftBot.chat(line);
+    await this.options.log(instance, 'info', `🌉 Discord → Minecraft: ${line}`);
+    return true;
+  }
+
+  private async postToChannel(binding: ChannelBinding, config: ChatBridgeConfig, instance: BotInstance, username: string, content: string) {
+    if (config.useWebhook) {
+      const webhook = await this.getWebhook(binding);
+      try {
+        if (webhook) {
+          await webhook.send({
+            content,
+            username,
+            avatarURL: skinAvatarUrl(username, instance.minecraftBot?.players?.[username]?.uuid),
+            allowedMentions: { parse: [] },
+          });
+          return;
+        }
+      } catch (error) {
+        // Webhook names have their own rules (e.g. no "discord"), so post it as the bot instead;
+        // the webhook may also have been deleted, so look it up again next time
+        console.log('Chat bridge webhook send failed:', error.message);
+        this.webhooks.delete(binding.channelId);
+      }
+    }
+
+    try {
+      const channel = await this.options.channels.fetchChannel(binding);
+      if (channel) {
+        const text = formatBridgeMessage(config.discordFormat, {
+          player: escapeDiscordMarkdown(username),
+          message: content,
+          bot: instance.id,
+        });
+        await channel.send({ content: text.slice(0, MAX_DISCORD_MESSAGE), allowedMentions: { parse: [] } });
+      }
+    } catch (error) {
+      console.log('Failed to relay chat to Discord:', error.message);
+    }
+  }
+
+  private async getWebhook(binding: ChannelBinding): Promise<Webhook | null> {
+    if (this.webhooks.has(binding.channelId)) return this.webhooks.get(binding.channelId);
+
+    let webhook: Webhook | null = null;
+    try {
+      const channel = await this.options.channels.fetchChannel(binding);
+      if (channel && 'fetchWebhooks' in channel && 'createWebhook' in channel) {
+        const existing = await channel.fetchWebhooks();
+        webhook = existing.find(hook => hook.owner?.id === channel.client.user.id && hook.name === WEBHOOK_NAME && !!hook.token)
+          ?? await channel.createWebhook({ name: WEBHOOK_NAME, reason: 'Minecraft chat bridge' });
+      }
+    } catch (error) {
+      console.log('Chat bridge webhook unavailable, falling back to bot messages:', error.message);
+    }
+
+    this.webhooks.set(binding.channelId, webhook);
+    return webhook;
+  }
+}
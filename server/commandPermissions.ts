@@ -0,0 +1,121 @@
+import { PermissionFlagsBits } from 'discord.js';
+import type { AutocompleteInteraction, ChatInputCommandInteraction, MessageComponentInteraction } from 'discord.js';
+import type { IStorage } from './storage';
+import type { CommandRegistry } from './discordCommands';
+import type { CommandPermission } from '../shared/schema';
+
+export type PermissionList = 'roleIds' | 'userIds' | 'channelIds';
+
+export interface PermissionCheck {
+  allowed: boolean;
+  reason?: string; // Why it was denied
+}
+
+export interface PermissionContext {
+  command: string; // The command the rule is for, aliases already resolved
+  restricted: boolean; // Needs Manage Server without a rule
+  guildId: string | null;
+  channelId: string;
+  userId: string;
+  roleIds: string[];
+  canManageGuild: boolean;
+}
+
+interface CommandPermissionsOptions {
+  storage: IStorage;
+  commands: CommandRegistry;
+}
+
+// Members with Manage Server always pass, so no rule can lock the server's admins out.
+// A rule replaces the default: its channels must match, then its users or roles (the
+// guild id stands for @everyone). A rule naming only channels keeps a restricted command
+// at Manage Server; @everyone has to be allowed explicitly.
+export function evaluateCommandPermission(rule: CommandPermission | undefined, context: PermissionContext): PermissionCheck {
+  if (context.canManageGuild) return { allowed: true };
+
+  if (context.command === 'permissions') return { allowed: false, reason: 'needs Manage Server' };
+  if (!context.guildId || !rule) {
+    if (!context.restricted) return { allowed: true };
+    return { allowed: false, reason: context.guildId ? 'needs Manage Server or a /permissions rule' : 'only available in a server' };
+  }
+
+  if (rule.channelIds.length > 0 && !rule.channelIds.includes(context.channelId)) {
+    return { allowed: false, reason: 'not allowed in this channel' };
+  }
+  if (rule.roleIds.length === 0 && rule.userIds.length === 0) {
+    return context.restricted ? { allowed: false, reason: 'needs Manage Server or an allowed role' } : { allowed: true };
+  }
+  if (rule.userIds.includes(context.userId)) return { allowed: true };
+  if (rule.roleIds.some(roleId => roleId === context.guildId || context.roleIds.includes(roleId))) return { allowed: true };
+  return { allowed: false, reason: 'missing an allowed role' };
+}
+
+// "roles: @Mods · channels: #bot" for replies and listings
+export function describeCommandPermission(rule: CommandPermission): string {
+  const parts = [
+    rule.roleIds.length > 0 && `roles: ${rule.roleIds.map(id => id === rule.guildId ? '@everyone' : `<@&${id}>`).join(', ')}`,
+    rule.userIds.length > 0 && `users: ${rule.userIds.map(id => `<@${id}>`).join(', ')}`,
+    rule.channelIds.length > 0 && `channels: ${rule.channelIds.map(id => `<#${id}>`).join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'everyone, everywhere';
+}
+
+// Per-guild rules for who may run which slash command, managed with /permissions and the dashboard
+export class CommandPermissions {
+  constructor(private readonly options: CommandPermissionsOptions) {}
+
+  list(guildId?: string): Promise<CommandPermission[]> {
+    return this.options.storage.getCommandPermissions(guildId);
+  }
+
+  async find(guildId: string, command: string): Promise<CommandPermission | undefined> {
+    const ruleCommand = this.options.commands.ruleCommand(command);
+    return (await this.list(guildId)).find(rule => rule.command === ruleCommand);
+  }
+
+  // Buttons, menus and autocomplete are checked against the command they act for
+  async check(interaction: ChatInputCommandInteraction | MessageComponentInteraction | AutocompleteInteraction, command: string): Promise<PermissionCheck> {
+    const roles = interaction.member?.roles;
+    return evaluateCommandPermission(
+      interaction.guildId ? await this.find(interaction.guildId, command) : undefined,
+      {
+        command: this.options.commands.ruleCommand(command),
+        restricted: this.options.commands.isRestricted(command),
+        guildId: interaction.guildId,
+        channelId: interaction.channelId,
+        userId: interaction.user.id,
+        roleIds: Array.isArray(roles) ? roles : roles ? [...roles.cache.keys()] : [],
+        canManageGuild: interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) ?? false,
+      },
+    );
+  }
+
+  // Replaces a command's rule; a rule left with no ids is removed (back to the default)
+  async save(guildId: string, command: string, lists: Record<PermissionList, string[]>, updatedBy?: string): Promise<CommandPermission | null> {
+    if (lists.roleIds.length === 0 && lists.userIds.length === 0 && lists.channelIds.length === 0) {
+      await this.reset(guildId, command);
+      return null;
+    }
+    return this.options.storage.saveCommandPermission({ guildId, command: this.options.commands.ruleCommand(command), ...lists, updatedBy });
+  }
+
+  // Adds ids to (or removes them from) the lists of a command's rule
+  async change(guildId: string, command: string, ids: Partial<Record<PermissionList, string[]>>, add: boolean, updatedBy?: string): Promise<CommandPermission | null> {
+    const rule = await this.find(guildId, command);
+    const lists: Record<PermissionList, string[]> = {
+      roleIds: rule?.roleIds ?? [],
+      userIds: rule?.userIds ?? [],
+      channelIds: rule?.channelIds ?? [],
+    };
+    for (const [list, changed] of Object.entries(ids) as [PermissionList, string[]][]) {
+      lists[list] = add ? [...new Set([...lists[list], ...changed])] : lists[list].filter(id => !changed.includes(id));
+    }
+    return this.save(guildId, command, lists, updatedBy);
+  }
+
+  // Drops a command's rule, back to the default; false when there was none
+  async reset(guildId: string, command: string): Promise<boolean> {
+    const rule = await this.find(guildId, command);
+    return rule ? this.options.storage.deleteCommandPermission(rule.id) : false;
+  }
+}
@@ -0,0 +1,104 @@
+import { RESTJSONErrorCodes } from 'discord.js';
+import type { Client, MessageCreateOptions, SendableChannels } from 'discord.js';
+import type { IStorage } from './storage';
+import { ChannelEventSchema, DEFAULT_CHANNEL_EVENTS } from '../shared/schema';
+import type { ChannelBinding, ChannelEvent, ChannelPurpose, InsertChannelBinding } from '../shared/schema';
+
+interface DiscordChannelsOptions {
+  storage: IStorage;
+  getClient: () => Client | null;
+}
+
+export function effectiveEvents(binding: ChannelBinding): ChannelEvent[] {
+  return binding.events?.length ? binding.events : DEFAULT_CHANNEL_EVENTS[binding.purpose];
+}
+
+// "events: chat, join_leave · bot: alt-1" for replies and listings
+export function describeBinding(binding: ChannelBinding): string {
+  const events = effectiveEvents(binding);
+  const parts = [`events: ${events.length > 0 ? events.join(', ') : 'none'}${binding.events?.length ? '' : ' (default)'}`];
+  if (binding.botId) parts.push(`bot: ${binding.botId}`);
+  return parts.join(' · ');
+}
+
+// "chat, join_leave" -> events, plus anything that isn't an event name
+export function parseChannelEvents(input: string): { events: ChannelEvent[]; invalid: string[] } {
+  const events: ChannelEvent[] = [];
+  const invalid: string[] = [];
+  for (const name of input.split(',').map(part => part.trim().toLowerCase()).filter(Boolean)) {
+    const parsed = ChannelEventSchema.safeParse(name);
+    if (parsed.success) {
+      if (!events.includes(parsed.data)) events.push(parsed.data);
+    } else {
+      invalid.push(name);
+    }
+  }
+  return { events, invalid };
+}
+
+// Channel bindings made with /setup, and delivery of events to them
+export class DiscordChannels {
+  constructor(private readonly options: DiscordChannelsOptions) {}
+
+  bind(binding: InsertChannelBinding): Promise<ChannelBinding> {
+    return this.options.storage.saveChannelBinding(binding);
+  }
+
+  // Removes this channel's bindings (only the given purpose when set) and returns them
+  async unbind(channelId: string, purpose?: ChannelPurpose): Promise<ChannelBinding[]> {
+    const bindings = (await this.options.storage.getChannelBindings())
+      .filter(binding => binding.channelId === channelId && (!purpose || binding.purpose === purpose));
+    for (const binding of bindings) {
+      await this.options.storage.deleteChannelBinding(binding.id);
+    }
+    return bindings;
+  }
+
+  list(guildId?: string): Promise<ChannelBinding[]> {
+    return this.options.storage.getChannelBindings(guildId);
+  }
+
+  async forPurpose(purpose: ChannelPurpose): Promise<ChannelBinding[]> {
+    return (await this.list()).filter(binding => binding.purpose === purpose);
+  }
+
+  // Bindings that take this event; those tied to another bot are skipped
+  async forEvent(event: ChannelEvent, botId?: string): Promise<ChannelBinding[]> {
+    return (await this.list()).filter(binding =>
+      effectiveEvents(binding).includes(event) && (!botId || !binding.botId || binding.botId === botId)
+    );
+  }
+
+  // The bound channel, or null when it can't be sent to; deleted channels lose their bindings
+  async fetchChannel(binding: ChannelBinding): Promise<SendableChannels | null> {
+    const client = this.options.getClient();
+    if (!client?.user) return null;
+    try {
+      const channel = await client.channels.fetch(binding.channelId);
+      return channel && channel.isSendable() ? channel : null;
+    } catch (error) {
+      if (error.code === RESTJSONErrorCodes.UnknownChannel) {
+        await this.options.storage.deleteChannelBinding(binding.id);
+        console.log(`🗑️ Removed ${binding.purpose} binding for deleted channel ${binding.channelId}`);
+      }
+      return null;
+    }
+  }
+
+  // Sends to every channel bound for this event (each channel once)
+  async notify(event: ChannelEvent, message: string | MessageCreateOptions, botId?: string): Promise<void> {
+    const seen = new Set<string>();
+    for (const binding of await this.forEvent(event, botId)) {
+      if (seen.has(binding.channelId)) continue;
+      seen.add(binding.channelId);
+
+      const channel = await this.fetchChannel(binding);
+      if (!channel) continue;
+      try {
+        await channel.send(message);
+      } catch (error) {
+        console.log(`Failed to send ${event} to Discord channel ${binding.channelId}:`, error.message);
+      }
+    }
+  }
+}
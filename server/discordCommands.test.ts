@@ -0,0 +1,292 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MessageFlags } from 'discord.js';
+import type { AutocompleteInteraction, ButtonInteraction, ChatInputCommandInteraction } from 'discord.js';
+import type { Bot } from 'mineflayer';
+import { BotRegistry } from './bots';
+import { CommandPermissions } from './commandPermissions';
+import { CommandRegistry, dispatchAutocomplete, dispatchCommand, dispatchPanelPermission } from './discordCommands';
+import type { CommandDispatch } from './discordCommands';
+import { createSlashCommands } from './slashCommands';
+import type { BotActions, SlashCommandDeps } from './slashCommands';
+import { MemStorage } from './storage';
+
+const GUILD_ID = 'guild-1';
+
+interface FakeInteractionOptions {
+  strings?: Record<string, string>;
+  subcommand?: string;
+  focused?: { name: string; value: string };
+  canManageGuild?: boolean;
+  roleIds?: string[];
+  channelId?: string;
+}
+
+// Records every reply the way Discord would show it, in order
+interface Recorded {
+  method: 'reply' | 'deferReply' | 'editReply' | 'followUp' | 'respond';
+  payload: unknown;
+}
+
+// Just enough of ChatInputCommandInteraction/AutocompleteInteraction for the dispatch and the handlers
+function fakeInteraction(commandName: string, options: FakeInteractionOptions = {}) {
+  const calls: Recorded[] = [];
+  const record = (method: Recorded['method']) => vi.fn(async (payload?: unknown) => {
+    calls.push({ method, payload });
+    if (method === 'reply' || method === 'deferReply') interaction.replied = true;
+  });
+  const interaction = {
+    commandName,
+    guildId: GUILD_ID,
+    channelId: options.channelId ?? 'channel-1',
+    user: { id: 'user-1', tag: 'steve#0001' },
+    member: { roles: options.roleIds ?? [] },
+    memberPermissions: { has: () => options.canManageGuild ?? false },
+    replied: false,
+    options: {
+      getString: (name: string) => options.strings?.[name] ?? null,
+      getSubcommand: () => options.subcommand,
+      getFocused: () => options.focused,
+    },
+    reply: record('reply'),
+    deferReply: record('deferReply'),
+    editReply: record('editReply'),
+    followUp: record('followUp'),
+    respond: record('respond'),
+  };
+  return { interaction, calls };
+}
+
+const asCommand = (interaction: object) => interaction as unknown as ChatInputCommandInteraction;
+const asAutocomplete = (interaction: object) => interaction as unknown as AutocompleteInteraction;
+const asButton = (interaction: object) => interaction as unknown as ButtonInteraction;
+
+// A bot with players online and one stack in its inventory
+function fakeBot(): Bot {
+  const bread = { name: 'bread', displayName: 'Bread', count: 12, slot: 37 };
+  return {
+    username: 'AFKBot',
+    players: { AFKBot: {}, Steve: {}, Stella: {}, Alex: {} },
+    inventory: { items: () => [bread], slots: { 37: bread } },
+  } as unknown as Bot;
+}
+
+function setup() {
+  const storage = new MemStorage();
+  const bots = new BotRegistry();
+  const commands = new CommandRegistry();
+  const permissions = new CommandPermissions({ storage, commands });
+  const actions = {
+    goto: vi.fn(async () => ({ success: true, message: 'Walking to Steve' })),
+    setPvpEnabled: vi.fn(async () => {}),
+    setPvpTarget: vi.fn(async () => ({ success: true, message: 'PvP target set' })),
+    dropItem: vi.fn(async () => ({ success: true, message: 'Dropped' })),
+    useItem: vi.fn(async () => ({ success: true, message: 'Used' })),
+  } satisfies BotActions;
+  const lifecycle = {
+    connect: vi.fn(async (_botId: string, _config: unknown, onProgress?: (progress: { stage: string; message: string }) => Promise<void>) => {
+      await onProgress?.({ stage: 'ping', message: 'Pinging localhost:25565' });
+      await onProgress?.({ stage: 'spawn', message: 'Spawned as AFKBot' });
+      return { success: true, message: 'Connected' };
+    }),
+  };
+  // Handlers under test only use storage, the lifecycle and the bot actions
+  const deps = {
+    storage,
+    commands,
+    lifecycle,
+    permissions,
+    actions,
+    log: vi.fn(async () => {}),
+  } as unknown as SlashCommandDeps;
+  commands.register(...createSlashCommands(deps));
+
+  const dispatch: CommandDispatch = {
+    commands,
+    permissions,
+    findBot: async (botRef) => botRef === null || botRef === 'main' ? bots.get() : null,
+    log: vi.fn(async () => {}),
+  };
+  return { storage, bots, commands, permissions, actions, lifecycle, dispatch };
+}
+
+describe('dispatchCommand', () => {
+  it('denies a restricted command to members without Manage Server or a rule', async () => {
+    const { actions, dispatch } = setup();
+    const { interaction, calls } = fakeInteraction('goto', { strings: { player: 'Steve' } });
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(false);
+    expect(actions.goto).not.toHaveBeenCalled();
+    expect(calls).toEqual([{
+      method: 'reply',
+      payload: { content: "🚫 You can't use /goto here (needs Manage Server or a /permissions rule)", flags: MessageFlags.Ephemeral },
+    }]);
+    expect(dispatch.log).toHaveBeenCalledWith('warn', expect.stringContaining('Denied /goto for steve#0001'), expect.any(String));
+  });
+
+  it('keeps /restart and /startserver to Manage Server without a rule', async () => {
+    const { lifecycle, dispatch } = setup();
+
+    for (const name of ['restart', 'startserver']) {
+      const { interaction, calls } = fakeInteraction(name);
+      expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(false);
+      expect(calls).toEqual([{
+        method: 'reply',
+        payload: { content: `🚫 You can't use /${name} here (needs Manage Server or a /permissions rule)`, flags: MessageFlags.Ephemeral },
+      }]);
+    }
+    expect(lifecycle.connect).not.toHaveBeenCalled();
+  });
+
+  it('denies a command outside the channels of its rule', async () => {
+    const { permissions, actions, dispatch } = setup();
+    await permissions.save(GUILD_ID, 'goto', { roleIds: [GUILD_ID], userIds: [], channelIds: ['channel-2'] });
+    const { interaction, calls } = fakeInteraction('goto', { strings: { player: 'Steve' } });
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(false);
+    expect(actions.goto).not.toHaveBeenCalled();
+    expect(calls[0].payload).toMatchObject({ content: "🚫 You can't use /goto here (not allowed in this channel)" });
+  });
+
+  it('keeps a restricted command to Manage Server when its rule only names channels', async () => {
+    const { permissions, actions, dispatch } = setup();
+    await permissions.save(GUILD_ID, 'goto', { roleIds: [], userIds: [], channelIds: ['channel-1'] });
+    const { interaction, calls } = fakeInteraction('goto', { strings: { player: 'Steve' } });
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(false);
+    expect(actions.goto).not.toHaveBeenCalled();
+    expect(calls[0].payload).toMatchObject({ content: "🚫 You can't use /goto here (needs Manage Server or an allowed role)" });
+  });
+
+  it('runs a restricted command for a role its rule allows', async () => {
+    const { permissions, actions, dispatch } = setup();
+    await permissions.save(GUILD_ID, 'goto', { roleIds: ['role-mods'], userIds: [], channelIds: [] });
+    const { interaction, calls } = fakeInteraction('goto', { strings: { player: 'Steve' }, roleIds: ['role-mods'] });
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(true);
+    expect(actions.goto).toHaveBeenCalledWith(expect.anything(), 'Steve', 'discord:steve#0001');
+    expect(calls).toEqual([{ method: 'reply', payload: '🎯 Walking to Steve' }]);
+  });
+
+  it('replies to an unknown bot without running the command', async () => {
+    const { actions, dispatch } = setup();
+    const { interaction, calls } = fakeInteraction('goto', { strings: { player: 'Steve', bot: 'nope' }, canManageGuild: true });
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(false);
+    expect(actions.goto).not.toHaveBeenCalled();
+    expect(calls).toEqual([{ method: 'reply', payload: '❌ Unknown bot: nope' }]);
+  });
+
+  it('edits the reply as the lifecycle goes through its stages', async () => {
+    const { storage, lifecycle, dispatch } = setup();
+    await storage.saveMinecraftConfig({ serverIP: 'localhost', serverPort: '25565', username: 'AFKBot' } as never);
+    const { interaction, calls } = fakeInteraction('start');
+
+    expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(true);
+    expect(lifecycle.connect).toHaveBeenCalledOnce();
+    expect(calls.map(call => [call.method, call.payload])).toEqual([
+      ['reply', '🔄 Starting Minecraft bot connection...'],
+      ['editReply', '📡 Pinging localhost:25565'],
+      ['editReply', '✅ Spawned as AFKBot'],
+    ]);
+  });
+});
+
+describe('dispatchPanelPermission', () => {
+  it('holds panel buttons to the rule of the slash command they stand for', async () => {
+    const { permissions, dispatch } = setup();
+    await permissions.save(GUILD_ID, 'panel', { roleIds: [GUILD_ID], userIds: [], channelIds: [] });
+    await permissions.save(GUILD_ID, 'pvp', { roleIds: ['role-mods'], userIds: [], channelIds: [] });
+
+    const refresh = fakeInteraction('panel');
+    expect(await dispatchPanelPermission(asButton(refresh.interaction), 'refresh', dispatch)).toBe(true);
+    expect(refresh.calls).toEqual([]);
+
+    const pvp = fakeInteraction('panel');
+    expect(await dispatchPanelPermission(asButton(pvp.interaction), 'pvp', dispatch)).toBe(false);
+    expect(pvp.calls).toEqual([{
+      method: 'reply',
+      payload: { content: "🚫 You can't use pvp here (missing an allowed role)", flags: MessageFlags.Ephemeral },
+    }]);
+    expect(dispatch.log).toHaveBeenCalledWith('warn', expect.stringContaining('Denied panel pvp for steve#0001'), expect.any(String));
+
+    const mod = fakeInteraction('panel', { roleIds: ['role-mods'] });
+    expect(await dispatchPanelPermission(asButton(mod.interaction), 'pvp', dispatch)).toBe(true);
+  });
+});
+
+describe('control lock', () => {
+  const lock = (registry: BotRegistry) => {
+    const instance = registry.get();
+    instance.minecraftBot = fakeBot();
+    instance.controlLock = { ...instance.controlLock, owner: 'alice', ownerId: 'socket-1', lastHeartbeat: Date.now() };
+    return instance;
+  };
+
+  it('keeps movement commands away from a bot driven from the dashboard', async () => {
+    const { bots, actions, dispatch } = setup();
+    lock(bots);
+
+    for (const [name, options] of [
+      ['goto', { strings: { player: 'Steve' } }],
+      ['pvp', { subcommand: 'on' }],
+      ['drop', { strings: { item: '37' } }],
+    ] as const) {
+      const { interaction, calls } = fakeInteraction(name, { ...options, canManageGuild: true });
+      expect(await dispatchCommand(asCommand(interaction), dispatch)).toBe(true);
+      expect(calls).toEqual([{
+        method: 'reply',
+        payload: { content: '🔒 alice is controlling the bot from the dashboard', flags: MessageFlags.Ephemeral },
+      }]);
+    }
+    expect(actions.goto).not.toHaveBeenCalled();
+    expect(actions.setPvpEnabled).not.toHaveBeenCalled();
+    expect(actions.dropItem).not.toHaveBeenCalled();
+  });
+
+  it('lets commands through once the lock has timed out', async () => {
+    const { bots, actions, dispatch } = setup();
+    const instance = lock(bots);
+    instance.controlLock.lastHeartbeat = Date.now() - instance.controlLock.timeout - 1;
+    const { interaction } = fakeInteraction('goto', { strings: { player: 'Steve' }, canManageGuild: true });
+
+    await dispatchCommand(asCommand(interaction), dispatch);
+    expect(actions.goto).toHaveBeenCalledOnce();
+  });
+});
+
+describe('dispatchAutocomplete', () => {
+  it('suggests online players other than the bot', async () => {
+    const { bots, dispatch } = setup();
+    bots.get().minecraftBot = fakeBot();
+    const { interaction, calls } = fakeInteraction('goto', { focused: { name: 'player', value: 'st' }, canManageGuild: true });
+
+    await dispatchAutocomplete(asAutocomplete(interaction), dispatch);
+    expect(calls).toEqual([{ method: 'respond', payload: [{ name: 'Stella', value: 'Stella' }, { name: 'Steve', value: 'Steve' }] }]);
+  });
+
+  it('suggests inventory items by slot', async () => {
+    const { bots, dispatch } = setup();
+    bots.get().minecraftBot = fakeBot();
+    const { interaction, calls } = fakeInteraction('drop', { focused: { name: 'item', value: 'bre' }, canManageGuild: true });
+
+    await dispatchAutocomplete(asAutocomplete(interaction), dispatch);
+    expect(calls[0].payload).toEqual([{ name: expect.stringContaining('slot 37'), value: '37' }]);
+  });
+
+  it('suggests nothing to members who may not run the command', async () => {
+    const { bots, dispatch } = setup();
+    bots.get().minecraftBot = fakeBot();
+    const { interaction, calls } = fakeInteraction('goto', { focused: { name: 'player', value: '' } });
+
+    await dispatchAutocomplete(asAutocomplete(interaction), dispatch);
+    expect(calls).toEqual([{ method: 'respond', payload: [] }]);
+  });
+
+  it('suggests nothing while the bot is offline', async () => {
+    const { dispatch } = setup();
+    const { interaction, calls } = fakeInteraction('goto', { focused: { name: 'player', value: '' }, canManageGuild: true });
+
+    await dispatchAutocomplete(asAutocomplete(interaction), dispatch);
+    expect(calls).toEqual([{ method: 'respond', payload: [] }]);
+  });
+});
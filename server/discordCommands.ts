@@ -0,0 +1,190 @@
+import { MessageFlags } from 'discord.js';
+import type { AutocompleteInteraction, ButtonInteraction, ChatInputCommandInteraction, Client, RESTPostAPIChatInputApplicationCommandsJSONBody, StringSelectMenuInteraction } from 'discord.js';
+import type { BotInstance } from './bots';
+import type { CommandPermissions } from './commandPermissions';
+import { PANEL_ACTION_COMMANDS } from './discordPanel';
+import type { PanelAction } from './discordPanel';
+import { itemChoices, playerChoices } from './discordOptions';
+
+// What a handler gets for one slash command run
+export interface CommandContext {
+  interaction: ChatInputCommandInteraction;
+  instance: BotInstance; // The bot picked with the bot option, or the main bot
+  botRef: string | null; // The bot option as typed; null when it was left out
+}
+
+// A SlashCommandBuilder, or anything else that serializes to a command definition
+export interface CommandData {
+  readonly name: string;
+  toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody;
+}
+
+export interface SlashCommand {
+  data: CommandData;
+  restricted?: boolean; // Needs Manage Server unless a /permissions rule says otherwise
+  aliases?: string[]; // Registered as copies that share the handler and permission rule
+  handle(context: CommandContext): Promise<void>;
+}
+
+export interface CommandRegistration {
+  scope: 'guild' | 'global';
+  guilds: number; // Guilds the commands were set in (cleared in, for global registration)
+  failed: string[]; // Guild ids that rejected the update
+}
+
+// What dispatching an interaction to a command needs besides the command itself
+export interface CommandDispatch {
+  commands: CommandRegistry;
+  permissions: Pick<CommandPermissions, 'check'>;
+  findBot(botRef: string | null): Promise<BotInstance | null>; // Main bot without a ref, null when unknown
+  log(level: 'info' | 'warn', message: string, details?: string): Promise<void>;
+}
+
+// Discord actions that move or equip the bot wait while someone drives it from the dashboard
+export async function replyIfControlLocked(
+  interaction: ChatInputCommandInteraction | ButtonInteraction | StringSelectMenuInteraction,
+  instance: BotInstance
+): Promise<boolean> {
+  if (!instance.isControlLockValid()) return false;
+  await interaction.reply({ content: `🔒 ${instance.controlLock.owner} is controlling the bot from the dashboard`, flags: MessageFlags.Ephemeral });
+  return true;
+}
+
+// Slash commands by name, with the definitions Discord gets and the permission defaults
+// the rules fall back to
+export class CommandRegistry {
+  private readonly commands = new Map<string, SlashCommand>();
+  private readonly aliases = new Map<string, string>();
+
+  register(...commands: SlashCommand[]): this {
+    for (const command of commands) {
+      const name = command.data.name;
+      if (this.get(name)) throw new Error(`Slash command /${name} is already registered`);
+      this.commands.set(name, command);
+      for (const alias of command.aliases ?? []) {
+        if (this.get(alias)) throw new Error(`Slash command /${alias} is already registered`);
+        this.aliases.set(alias, name);
+      }
+    }
+    return this;
+  }
+
+  get(name: string): SlashCommand | undefined {
+    return this.commands.get(this.aliases.get(name) ?? name);
+  }
+
+  // Aliases share the rule of the command they stand for
+  ruleCommand(name: string): string {
+    return this.aliases.get(name) ?? name;
+  }
+
+  // Commands a rule can be set for, without aliases
+  names(): string[] {
+    return [...this.commands.keys()];
+  }
+
+  isRestricted(name: string): boolean {
+    return this.get(name)?.restricted ?? false;
+  }
+
+  restricted(): string[] {
+    return this.names().filter(name => this.isRestricted(name));
+  }
+
+  definitions(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+    return [...this.commands.values()].flatMap(command => {
+      const definition = command.data.toJSON();
+      const aliases = (command.aliases ?? []).map(alias => ({
+        ...definition,
+        name: alias,
+        description: `${definition.description} (alias)`.slice(0, 100),
+      }));
+      return [definition, ...aliases];
+    });
+  }
+
+  // Runs the handler of the interaction's command; false when no command has that name.
+  // Permission checks and picking the bot happen before (dispatchCommand), so handlers can be
+  // called with any interaction-shaped object
+  async run(context: CommandContext): Promise<boolean> {
+    const command = this.get(context.interaction.commandName);
+    if (!command) return false;
+    await command.handle(context);
+    return true;
+  }
+
+  // Guild commands update instantly, global ones can take up to an hour; whichever scope is
+  // not used is cleared so no command shows up twice
+  async deploy(client: Client, global: boolean): Promise<CommandRegistration> {
+    if (!client.application) throw new Error('Discord client is not ready');
+    const definitions = this.definitions();
+    const guilds = [...client.guilds.cache.values()];
+    const failed: string[] = [];
+
+    await client.application.commands.set(global ? definitions : []);
+    for (const guild of guilds) {
+      try {
+        await guild.commands.set(global ? [] : definitions);
+      } catch {
+        failed.push(guild.id);
+      }
+    }
+    return { scope: global ? 'global' : 'guild', guilds: guilds.length - failed.length, failed };
+  }
+}
+
+// Checks the command's permission rule, picks the bot and runs the command; false when it was
+// denied or named an unknown bot (the user already got a reply saying so)
+export async function dispatchCommand(interaction: ChatInputCommandInteraction, dispatch: CommandDispatch): Promise<boolean> {
+  const { commandName, user, channelId } = interaction;
+  const permission = await dispatch.permissions.check(interaction, commandName);
+  if (!permission.allowed) {
+    await dispatch.log('warn', `🚫 Denied /${commandName} for ${user.tag}: ${permission.reason}`, `Guild: ${interaction.guildId ?? 'DM'}, channel: ${channelId}, user: ${user.id}`);
+    await interaction.reply({ content: `🚫 You can't use /${commandName} here (${permission.reason})`, flags: MessageFlags.Ephemeral });
+    return false;
+  }
+
+  // Commands that act on a Minecraft bot accept an optional bot id or name
+  const botRef = interaction.options.getString('bot');
+  const instance = await dispatch.findBot(botRef);
+  if (!instance) {
+    await interaction.reply(`❌ Unknown bot: ${botRef}`);
+    return false;
+  }
+
+  if (!await dispatch.commands.run({ interaction, instance, botRef })) {
+    await interaction.reply('❓ Unknown command');
+  }
+  return true;
+}
+
+// Checks the rule a /panel button or menu follows (its slash command's, or /panel's); false when
+// it was denied (the user already got a reply saying so)
+export async function dispatchPanelPermission(
+  interaction: ButtonInteraction | StringSelectMenuInteraction,
+  action: PanelAction,
+  dispatch: CommandDispatch
+): Promise<boolean> {
+  const { user, channelId } = interaction;
+  const permission = await dispatch.permissions.check(interaction, PANEL_ACTION_COMMANDS[action] ?? 'panel');
+  if (permission.allowed) return true;
+  await dispatch.log('warn', `🚫 Denied panel ${action} for ${user.tag}: ${permission.reason}`, `Guild: ${interaction.guildId ?? 'DM'}, channel: ${channelId}, user: ${user.id}`);
+  await interaction.reply({ content: `🚫 You can't use ${action} here (${permission.reason})`, flags: MessageFlags.Ephemeral });
+  return false;
+}
+
+// Player and item choices for slash command options, read from the bot the command targets
+export async function dispatchAutocomplete(interaction: AutocompleteInteraction, dispatch: CommandDispatch): Promise<void> {
+  const permission = await dispatch.permissions.check(interaction, interaction.commandName);
+  if (!permission.allowed) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const bot = (await dispatch.findBot(interaction.options.getString('bot')))?.minecraftBot ?? null;
+  const focused = interaction.options.getFocused(true);
+  const choices = focused.name === 'player' ? playerChoices(bot, focused.value)
+    : focused.name === 'item' ? itemChoices(bot, focused.value)
+    : [];
+  await interaction.respond(choices);
+}
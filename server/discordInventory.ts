@@ -0,0 +1,98 @@
+import { ButtonStyle, ComponentType } from 'discord.js';
+import type { APIActionRowComponent, APIButtonComponentWithCustomId, APIComponentInActionRow, APIEmbed, APIEmbedField } from 'discord.js';
+import type { Bot } from 'mineflayer';
+
+type Item = NonNullable<Bot['inventory']['slots'][number]>;
+
+// Item stacks per page; keeps every section field well under Discord's 1024 characters
+const ITEMS_PER_PAGE = 15;
+const PREFIX = 'inventory';
+
+// Player inventory window slots, in the order the embed lists them
+const SECTIONS: { name: string; from: number; to: number; label?: (slot: number) => string }[] = [
+  { name: '🛡️ Armor', from: 5, to: 8, label: slot => ['Head', 'Chest', 'Legs', 'Feet'][slot - 5] },
+  { name: '🔢 Hotbar', from: 36, to: 44, label: slot => String(slot - 35) },
+  { name: '🎒 Inventory', from: 9, to: 35 },
+  { name: '✋ Offhand', from: 45, to: 45 },
+];
+
+export interface InventoryEntry {
+  section: string;
+  line: string;
+}
+
+// "inventory:2:minecraft_server" opens page 3; bot ids can't contain ':'
+export function inventoryCustomId(page: number, botId: string): string {
+  return `${PREFIX}:${page}:${botId}`;
+}
+
+export function parseInventoryCustomId(customId: string): { page: number; botId: string } | null {
+  const [prefix, page, botId] = customId.split(':');
+  if (prefix !== PREFIX || !botId || !/^\d+$/.test(page)) return null;
+  return { page: parseInt(page), botId };
+}
+
+// "Diamond Pickaxe ×1 · 🔧 1200/1561"
+export function inventoryItemText(item: Item): string {
+  const durability = item.maxDurability ? ` · 🔧 ${item.maxDurability - (item.durabilityUsed || 0)}/${item.maxDurability}` : '';
+  return `${item.displayName || item.name} ×${item.count}${durability}`;
+}
+
+// One line per occupied slot, read from the live bot rather than the stored snapshot
+export function inventoryEntries(bot: Bot): InventoryEntry[] {
+  const entries: InventoryEntry[] = [];
+  for (const section of SECTIONS) {
+    for (let slot = section.from; slot <= section.to; slot++) {
+      const item = bot.inventory.slots[slot];
+      if (!item) continue;
+      const held = section.from === 36 && slot - 36 === bot.quickBarSlot ? ' 👈' : '';
+      const label = section.label ? `\`${section.label(slot)}\` ` : '';
+      entries.push({ section: section.name, line: `${label}${inventoryItemText(item)}${held}` });
+    }
+  }
+  return entries;
+}
+
+// Page of the /inventory embed with previous/next/refresh buttons; out-of-range pages are clamped
+export function buildInventoryMessage(bot: Bot, botId: string, page: number): { embeds: APIEmbed[]; components: APIActionRowComponent<APIComponentInActionRow>[] } {
+  const entries = inventoryEntries(bot);
+  const pages = Math.max(1, Math.ceil(entries.length / ITEMS_PER_PAGE));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+
+  const fields: APIEmbedField[] = [];
+  for (const entry of entries.slice(current * ITEMS_PER_PAGE, (current + 1) * ITEMS_PER_PAGE)) {
+    const field = fields[fields.length - 1];
+    if (field?.name === entry.section) {
+      field.value += `\n${entry.line}`;
+    } else {
+      fields.push({ name: entry.section, value: entry.line, inline: false });
+    }
+  }
+
+  const button = (target: number, label: string, disabled: boolean): APIButtonComponentWithCustomId => ({
+    type: ComponentType.Button,
+    custom_id: inventoryCustomId(target, botId),
+    label,
+    style: ButtonStyle.Secondary,
+    disabled,
+  });
+
+  return {
+    embeds: [{
+      title: `🎒 Bot Inventory · ${botId}`,
+      description: entries.length === 0 ? 'Inventory is empty' : undefined,
+      fields,
+      color: 0x8B4513,
+      timestamp: new Date().toISOString(),
+      footer: { text: `Page ${current + 1}/${pages} · ${entries.length} stack${entries.length === 1 ? '' : 's'}` },
+    }],
+    components: [{
+      type: ComponentType.ActionRow,
+      components: [
+        button(current - 1, '◀️ Previous', current === 0),
+        button(current + 1, 'Next ▶️', current >= pages - 1),
+        button(current, '🔄 Refresh', false),
+      ],
+    }],
+  };
+}
@@ -0,0 +1,157 @@
+import { randomBytes } from 'node:crypto';
+import { ButtonStyle, ComponentType } from 'discord.js';
+import type { APIActionRowComponent, APIButtonComponentWithCustomId, APIComponentInActionRow, APIEmbed, AttachmentPayload } from 'discord.js';
+import type { LogEntry, LogPage, LogQuery } from '../shared/schema';
+
+// Entries per embed page; ten lines stay well under Discord's 4096-character description
+const ENTRIES_PER_PAGE = 10;
+const MAX_LINE = 250;
+// Entries fetched for one /logs run, the most a log query returns
+export const MAX_LOG_RESULTS = 500;
+// Queries behind /logs buttons are kept this long, then the buttons stop working
+const VIEW_TTL = 15 * 60 * 1000;
+const MAX_VIEWS = 100;
+const PREFIX = 'logs';
+
+const LEVEL_ICONS: Record<LogEntry['level'], string> = {
+  info: 'ℹ️',
+  warn: '⚠️',
+  error: '❌',
+  debug: '🐛',
+};
+
+const SINCE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type LogExportFormat = 'txt' | 'json';
+export type LogsAction = 'page' | LogExportFormat;
+
+// "logs:page:1a2b3c4d:2" opens page 3 of a saved query, "logs:json:1a2b3c4d" exports it
+export function logsCustomId(action: LogsAction, viewId: string, page = 0): string {
+  return action === 'page' ? `${PREFIX}:page:${viewId}:${page}` : `${PREFIX}:${action}:${viewId}`;
+}
+
+export function parseLogsCustomId(customId: string): { action: LogsAction; viewId: string; page: number } | null {
+  const [prefix, action, viewId, page = '0'] = customId.split(':');
+  if (prefix !== PREFIX || !viewId || !['page', 'txt', 'json'].includes(action) || !/^\d+$/.test(page)) return null;
+  return { action: action as LogsAction, viewId, page: parseInt(page) };
+}
+
+// "30m", "2h", "7d", "1w" back from now, or a date like "2026-10-01"; null when unreadable
+export function parseSince(input: string, now = Date.now()): Date | null {
+  const relative = /^(\d+)\s*([mhdw])$/i.exec(input.trim());
+  if (relative) return new Date(now - parseInt(relative[1]) * SINCE_UNITS[relative[2].toLowerCase()]);
+  const date = new Date(input.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// "⚠️ <date> <time> `minecraft · bot_2` Kicked from server", dates shown in the reader's timezone
+export function logLine(entry: LogEntry): string {
+  const seconds = Math.floor(new Date(entry.timestamp).getTime() / 1000);
+  const bot = entry.botId ? ` · ${entry.botId}` : '';
+  const message = entry.message.length > MAX_LINE ? `${entry.message.slice(0, MAX_LINE - 1)}…` : entry.message;
+  return `${LEVEL_ICONS[entry.level]} <t:${seconds}:d> <t:${seconds}:T> \`${entry.type}${bot}\` ${message}`;
+}
+
+// "type: minecraft · level: warn · search: "kick"" for the embed
+export function describeLogQuery(query: LogQuery): string {
+  const parts = [
+    query.type && `type: ${query.type}`,
+    query.level?.length && `level: ${query.level.join(', ')}`,
+    query.search && `search: "${query.search}"`,
+    query.botId && `bot: ${query.botId}`,
+    query.from && `since <t:${Math.floor(query.from.getTime() / 1000)}:f>`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'all logs';
+}
+
+// Page of the /logs embed, newest first, with paging and export buttons; out-of-range pages are clamped
+export function buildLogsMessage(result: LogPage, query: LogQuery, viewId: string, page: number): { embeds: APIEmbed[]; components: APIActionRowComponent<APIComponentInActionRow>[] } {
+  const entries = result.logs;
+  const pages = Math.max(1, Math.ceil(entries.length / ENTRIES_PER_PAGE));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+  const shown = entries.slice(current * ENTRIES_PER_PAGE, (current + 1) * ENTRIES_PER_PAGE);
+  const truncated = result.total > entries.length ? ` (newest ${entries.length} of ${result.total})` : '';
+
+  const button = (action: LogsAction, label: string, disabled: boolean, target = current): APIButtonComponentWithCustomId => ({
+    type: ComponentType.Button,
+    custom_id: logsCustomId(action, viewId, target),
+    label,
+    style: action === 'page' ? ButtonStyle.Secondary : ButtonStyle.Primary,
+    disabled,
+  });
+
+  return {
+    embeds: [{
+      title: '📜 Logs',
+      description: [
+        `**Filter:** ${describeLogQuery(query)}`,
+        '',
+        ...(shown.length > 0 ? shown.map(logLine) : ['No log entries match']),
+      ].join('\n'),
+      color: 0x5865f2,
+      timestamp: new Date().toISOString(),
+      footer: { text: `Page ${current + 1}/${pages} · ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}${truncated}` },
+    }],
+    components: [{
+      type: ComponentType.ActionRow,
+      components: [
+        button('page', '◀️ Previous', current === 0, current - 1),
+        button('page', 'Next ▶️', current >= pages - 1, current + 1),
+        button('txt', '📄 Export .txt', entries.length === 0),
+        button('json', '🧾 Export .json', entries.length === 0),
+      ],
+    }],
+  };
+}
+
+// The whole result as a file, oldest first like a log file reads
+export function exportLogs(entries: LogEntry[], format: LogExportFormat): AttachmentPayload {
+  const ordered = [...entries].reverse();
+  const content = format === 'json'
+    ? JSON.stringify(ordered, null, 2)
+    : ordered.map(entry => {
+        const bot = entry.botId ? ` (${entry.botId})` : '';
+        const details = entry.details ? `\n    ${entry.details.replace(/\n/g, '\n    ')}` : '';
+        return `[${entry.timestamp}] ${entry.level.toUpperCase()} ${entry.type}${bot}: ${entry.message}${details}`;
+      }).join('\n');
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return { attachment: Buffer.from(content, 'utf8'), name: `logs-${stamp}.${format}` };
+}
+
+// Queries of recent /logs replies, so their buttons can page and export the same results.
+// The end of the range is fixed when the query is saved, so new entries don't shift pages.
+export class LogViews {
+  private readonly views = new Map<string, { query: LogQuery; expiresAt: number }>();
+
+  save(query: LogQuery): string {
+    this.prune();
+    const id = randomBytes(4).toString('hex');
+    this.views.set(id, { query, expiresAt: Date.now() + VIEW_TTL });
+    return id;
+  }
+
+  get(id: string): LogQuery | null {
+    const view = this.views.get(id);
+    if (!view || view.expiresAt < Date.now()) {
+      this.views.delete(id);
+      return null;
+    }
+    return view.query;
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [id, view] of this.views) {
+      if (view.expiresAt < now) this.views.delete(id);
+    }
+    // Oldest first, so the views of the latest replies survive
+    while (this.views.size >= MAX_VIEWS) {
+      this.views.delete(this.views.keys().next().value);
+    }
+  }
+}
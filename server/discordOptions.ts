@@ -0,0 +1,45 @@
+import type { ApplicationCommandOptionChoiceData } from 'discord.js';
+import type { Bot } from 'mineflayer';
+import { inventoryItemText } from './discordInventory';
+
+// Discord shows at most 25 autocomplete choices, with names up to 100 characters
+const MAX_CHOICES = 25;
+const MAX_CHOICE_NAME = 100;
+
+// Online players other than the bot, by name
+export function onlinePlayers(bot: Bot | null): string[] {
+  if (!bot?.players) return [];
+  return Object.keys(bot.players).filter(name => name !== bot.username).sort((a, b) => a.localeCompare(b));
+}
+
+export function playerChoices(bot: Bot | null, query: string): ApplicationCommandOptionChoiceData<string>[] {
+  const search = query.toLowerCase();
+  return onlinePlayers(bot)
+    .filter(name => name.toLowerCase().includes(search))
+    .slice(0, MAX_CHOICES)
+    .map(name => ({ name, value: name }));
+}
+
+// Inventory stacks as "Bread ×12 · slot 37"; the value is the slot
+export function itemChoices(bot: Bot | null, query: string): ApplicationCommandOptionChoiceData<string>[] {
+  if (!bot?.inventory) return [];
+  const search = query.toLowerCase();
+  return bot.inventory.items()
+    .filter(item => item.name.includes(search.replace(/ /g, '_')) || item.displayName.toLowerCase().includes(search))
+    .slice(0, MAX_CHOICES)
+    .map(item => ({ name: `${inventoryItemText(item)} · slot ${item.slot}`.slice(0, MAX_CHOICE_NAME), value: String(item.slot) }));
+}
+
+// Slot picked from the item choices, or the first stack matching a typed item name
+export function resolveInventorySlot(bot: Bot | null, ref: string): number | null {
+  if (!bot?.inventory) return null;
+  if (/^\d+$/.test(ref)) {
+    const slot = parseInt(ref);
+    return bot.inventory.slots[slot] ? slot : null;
+  }
+  const name = ref.trim().toLowerCase();
+  const item = bot.inventory.items().find(item =>
+    item.name === name.replace(/^minecraft:/, '').replace(/ /g, '_') || item.displayName.toLowerCase() === name
+  );
+  return item ? item.slot : null;
+}
@@ -0,0 +1,102 @@
+import { ButtonStyle, ComponentType } from 'discord.js';
+import type { APIActionRowComponent, APIButtonComponentWithCustomId, APIComponentInActionRow, APIEmbed } from 'discord.js';
+import type { BotInstance } from './bots';
+import { onlinePlayers } from './discordOptions';
+
+export const PANEL_ACTIONS = ['connect', 'disconnect', 'respawn', 'stop', 'pvp', 'eat', 'refresh', 'goto'] as const;
+export type PanelAction = typeof PANEL_ACTIONS[number];
+
+// Panel actions that do what a slash command does follow that command's permission rule;
+// the rest follow the rule for /panel
+export const PANEL_ACTION_COMMANDS: Partial<Record<PanelAction, string>> = {
+  connect: 'start',
+  disconnect: 'close',
+  pvp: 'pvp',
+  eat: 'use',
+  goto: 'goto',
+};
+
+const PREFIX = 'panel';
+const MAX_SELECT_OPTIONS = 25;
+
+// "panel:pvp:minecraft_server"; bot ids can't contain ':'
+export function panelCustomId(action: PanelAction, botId: string): string {
+  return `${PREFIX}:${action}:${botId}`;
+}
+
+export function parsePanelCustomId(customId: string): { action: PanelAction; botId: string } | null {
+  const [prefix, action, botId] = customId.split(':');
+  if (prefix !== PREFIX || !botId || !PANEL_ACTIONS.includes(action as PanelAction)) return null;
+  return { action: action as PanelAction, botId };
+}
+
+// Status embed and controls of a /panel message, rebuilt after every click
+export function buildPanelMessage(instance: BotInstance): { embeds: APIEmbed[]; components: APIActionRowComponent<APIComponentInActionRow>[] } {
+  const bot = instance.minecraftBot;
+  const online = !!bot?.entity;
+  const locked = instance.isControlLockValid();
+  const players = onlinePlayers(bot);
+
+  const fields = [
+    { name: '🎮 Minecraft Bot', value: online ? '🟢 Online' : instance.isConnecting ? '🟡 Connecting' : '🔴 Offline', inline: true },
+    { name: '⚔️ PvP', value: instance.pvpEnabled ? `On${instance.pvpTarget ? ` (${instance.pvpTarget})` : ''}` : 'Off', inline: true },
+    { name: '🕹️ Control', value: locked ? `🔒 ${instance.controlLock.owner}` : 'Free', inline: true },
+  ];
+  if (online) {
+    fields.push(
+      { name: '❤️ Health', value: `${Math.round(bot.health || 0)}/20`, inline: true },
+      { name: '🍖 Food', value: `${bot.food || 0}/20`, inline: true },
+      { name: '👥 Players', value: String(players.length), inline: true },
+    );
+  }
+
+  const button = (action: PanelAction, label: string, style: APIButtonComponentWithCustomId['style'], disabled = false): APIButtonComponentWithCustomId => ({
+    type: ComponentType.Button,
+    custom_id: panelCustomId(action, instance.id),
+    label,
+    style,
+    disabled,
+  });
+
+  return {
+    embeds: [{
+      title: `🎛️ Control Panel · ${instance.id}`,
+      fields,
+      color: online ? 0x00ff00 : 0xff0000,
+      timestamp: new Date().toISOString(),
+      footer: { text: locked ? 'Controls are locked while someone drives the bot from the dashboard' : 'Press 🔄 to refresh' },
+    }],
+    components: [
+      {
+        type: ComponentType.ActionRow,
+        components: [
+          button('connect', '▶️ Connect', ButtonStyle.Success, !!bot),
+          button('disconnect', '⏹️ Disconnect', ButtonStyle.Danger, !bot),
+          button('respawn', '💀 Respawn', ButtonStyle.Secondary, !bot),
+          button('stop', '✋ Stop Moving', ButtonStyle.Secondary, !online),
+        ],
+      },
+      {
+        type: ComponentType.ActionRow,
+        components: [
+          button('pvp', instance.pvpEnabled ? '⚔️ PvP: On' : '🛡️ PvP: Off', instance.pvpEnabled ? ButtonStyle.Primary : ButtonStyle.Secondary, !online),
+          button('eat', '🍖 Eat', ButtonStyle.Secondary, !online),
+          button('refresh', '🔄 Refresh', ButtonStyle.Secondary),
+        ],
+      },
+      {
+        type: ComponentType.ActionRow,
+        components: [{
+          type: ComponentType.StringSelect,
+          custom_id: panelCustomId('goto', instance.id),
+          placeholder: players.length > 0 ? '🎯 Go to player...' : 'No players online',
+          // Select menus need an option even while disabled
+          options: players.length > 0
+            ? players.slice(0, MAX_SELECT_OPTIONS).map(name => ({ label: name, value: name }))
+            : [{ label: 'No players online', value: '-' }],
+          disabled: !online || players.length === 0,
+        }],
+      },
+    ],
+  };
+}
@@ -4,7 +4,9 @@ import path from 'path';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import { createRoutes } from './routes';
+import { IStorage } from './storage';
 import { FileStorage } from './storage.file';
+import { SqliteStorage } from './storage.sqlite';
 
 const app = express();
 const port = process.env.PORT || (process.env.NODE_ENV === 'production' ? 5000 : 3001);
@@ -20,8 +22,19 @@ const io = new SocketIOServer(httpServer, {
   }
 });
 
-// Initialize storage
-const storage = new FileStorage();
+// Initialize storage: STORAGE_BACKEND=sqlite uses SQLITE_PATH (imports data/state.json once), file is the default
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || 'file';
+  if (backend === 'sqlite') {
+    return new SqliteStorage(process.env.SQLITE_PATH || './data/afk.db');
+  }
+  if (backend !== 'file') {
+    console.warn(`⚠️ Unknown STORAGE_BACKEND "${backend}", using file storage`);
+  }
+  return new FileStorage();
+}
+
+const storage = createStorage();
 
 async function startServer() {
   try {
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Bot } from 'mineflayer';
+import { BotRegistry } from './bots';
+import { BotLifecycle } from './lifecycle';
+import type { ConnectResult } from './lifecycle';
+import { MemStorage } from './storage';
+import { DEFAULT_BOT_ID } from '../shared/schema';
+import type { InsertMinecraftServerConfig } from '../shared/schema';
+
+const CONFIG = { serverIP: 'localhost', serverPort: '25565', username: 'AFKBot' } as InsertMinecraftServerConfig;
+
+// A connect attempt that waits until the test lets it finish, like one still pinging or logging in
+function pendingAttempt() {
+  let finish!: (result: ConnectResult, spawned?: boolean) => void;
+  const bot = { quit: vi.fn() };
+  const connectAttempt = vi.fn((instance) => new Promise<ConnectResult>(resolve => {
+    finish = (result, spawned = false) => {
+      if (spawned) instance.minecraftBot = bot as unknown as Bot;
+      resolve(result);
+    };
+  }));
+  return { connectAttempt, bot, finish: (result: ConnectResult, spawned?: boolean) => finish(result, spawned) };
+}
+
+async function setup(connectAttempt: ReturnType<typeof pendingAttempt>['connectAttempt']) {
+  const storage = new MemStorage();
+  await storage.saveMinecraftConfig(CONFIG);
+  const registry = new BotRegistry();
+  const lifecycle = new BotLifecycle({ storage, registry, connectAttempt, log: vi.fn(async () => {}) });
+  return { registry, lifecycle, instance: registry.get() };
+}
+
+describe('BotLifecycle.disconnect', () => {
+  it('reports when there was nothing to disconnect', async () => {
+    const { lifecycle } = await setup(pendingAttempt().connectAttempt);
+    expect(await lifecycle.disconnect(DEFAULT_BOT_ID)).toBe('not_connected');
+  });
+
+  it('cancels an attempt that is still connecting and lets go of the bot if it joins anyway', async () => {
+    const attempt = pendingAttempt();
+    const { lifecycle, instance } = await setup(attempt.connectAttempt);
+
+    const connecting = lifecycle.connect(DEFAULT_BOT_ID, CONFIG);
+    await vi.waitFor(() => expect(attempt.connectAttempt).toHaveBeenCalled());
+    expect(await lifecycle.disconnect(DEFAULT_BOT_ID)).toBe('cancelled');
+
+    attempt.finish({ success: true, message: 'Spawned' }, true);
+    expect(await connecting).toMatchObject({ success: false, shouldRetry: false });
+    expect(attempt.bot.quit).toHaveBeenCalledOnce();
+    expect(instance.minecraftBot).toBeNull();
+    expect((await lifecycle.status(DEFAULT_BOT_ID)).state).toBe('disconnected');
+  });
+
+  it("doesn't retry an attempt that failed after a disconnect", async () => {
+    vi.useFakeTimers();
+    try {
+      const attempt = pendingAttempt();
+      const { lifecycle, instance } = await setup(attempt.connectAttempt);
+
+      const connecting = lifecycle.connect(DEFAULT_BOT_ID, CONFIG);
+      await vi.waitFor(() => expect(attempt.connectAttempt).toHaveBeenCalled());
+      await lifecycle.disconnect(DEFAULT_BOT_ID);
+
+      attempt.finish({ success: false, message: 'Login timed out', shouldRetry: true });
+      await connecting;
+      expect(instance.reconnectTimeout).toBeNull();
+      expect(instance.isReconnecting).toBe(false);
+      await vi.runAllTimersAsync();
+      expect(attempt.connectAttempt).toHaveBeenCalledOnce();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('still retries a failed attempt nobody cancelled', async () => {
+    vi.useFakeTimers();
+    try {
+      const attempt = pendingAttempt();
+      const { lifecycle, instance } = await setup(attempt.connectAttempt);
+
+      const connecting = lifecycle.connect(DEFAULT_BOT_ID, CONFIG);
+      await vi.waitFor(() => expect(attempt.connectAttempt).toHaveBeenCalled());
+      attempt.finish({ success: false, message: 'Login timed out', shouldRetry: true });
+      await connecting;
+
+      expect(instance.isReconnecting).toBe(true);
+      expect(await lifecycle.disconnect(DEFAULT_BOT_ID)).toBe('cancelled');
+      expect(instance.reconnectTimeout).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,284 @@
+import { EventEmitter } from 'node:events';
+import type { IStorage } from './storage';
+import type { BotInstance, BotRegistry } from './bots';
+import type { InsertMinecraftServerConfig } from '../shared/schema';
+
+// Stages a connection goes through, in order; failed/retry/disconnected end a run.
+// 'server' only happens when the server was offline and gets auto-started, 'auth' only
+// for Microsoft accounts.
+export type LifecycleStage = 'ping' | 'server' | 'auth' | 'connect' | 'spawn' | 'failed' | 'retry' | 'disconnected';
+
+export interface LifecycleProgress {
+  botId: string;
+  stage: LifecycleStage;
+  message: string;
+  attempt: number;
+  timestamp: string;
+}
+
+export type ProgressListener = (progress: LifecycleProgress) => void | Promise<void>;
+
+export interface ConnectResult {
+  success: boolean;
+  message: string;
+  shouldRetry?: boolean;
+}
+
+// Performs a single connection attempt (ping, login, wait for spawn)
+export type ConnectAttempt = (
+  instance: BotInstance,
+  config: InsertMinecraftServerConfig,
+  isRetry: boolean,
+  retryCount: number,
+  onProgress: (stage: LifecycleStage, message: string) => Promise<void>
+) => Promise<ConnectResult>;
+
+export interface GiveUpEvent {
+  botId: string;
+  attempts: number;
+  message: string;
+}
+
+export type LifecycleState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// What disconnect() stopped: a connected bot, a connection still being made (or waiting to
+// retry), or nothing
+export type DisconnectResult = 'disconnected' | 'cancelled' | 'not_connected';
+
+export interface LifecycleStatus {
+  botId: string;
+  state: LifecycleState;
+  serverIP: string | null;
+  serverPort: string | null;
+  username: string | null;
+  attempts: number;
+  lastError: string | null;
+  lastProgress: LifecycleProgress | null;
+}
+
+interface LifecycleOptions {
+  storage: IStorage;
+  registry: BotRegistry;
+  connectAttempt: ConnectAttempt;
+  log: (instance: BotInstance, level: 'info' | 'warn' | 'error', message: string) => Promise<void>;
+  maxRetries?: number;
+}
+
+// Connect/disconnect/restart for Minecraft bots, shared by the REST API and Discord.
+// Emits 'progress' (LifecycleProgress) for every stage of every bot, and 'giveUp'
+// (GiveUpEvent) when retries run out.
+export class BotLifecycle extends EventEmitter {
+  readonly maxRetries: number;
+  private readonly lastProgress = new Map<string, LifecycleProgress>();
+
+  constructor(private readonly options: LifecycleOptions) {
+    super();
+    this.maxRetries = options.maxRetries ?? 5;
+  }
+
+  // Runs the first connection attempt and resolves with its result.
+  // Retryable failures schedule further attempts with exponential backoff.
+  // A manual connect starts a fresh kick streak; auto-reconnects keep counting.
+  async connect(botId: string, config?: InsertMinecraftServerConfig, onProgress?: ProgressListener): Promise<ConnectResult> {
+    const instance = this.options.registry.get(botId);
+    if (!instance.isConnecting) instance.consecutiveKicks = 0;
+    return this.start(instance, config, onProgress);
+  }
+
+  async disconnect(botId: string): Promise<DisconnectResult> {
+    const { storage, registry, log } = this.options;
+    const instance = registry.get(botId);
+
+    // Clear any pending reconnection attempts, and make an attempt still running give up
+    const pending = instance.isConnecting || instance.isReconnecting;
+    this.cancelRetry(instance);
+    instance.connectGeneration++;
+    instance.connectionAttempts = 0;
+    instance.cancelStableTimer();
+
+    if (!instance.minecraftBot) {
+      if (!pending) return 'not_connected';
+      await log(instance, 'info', '🛑 Minecraft bot connection cancelled');
+      await this.progress(instance, 'disconnected', 'Connection cancelled');
+      return 'cancelled';
+    }
+
+    instance.minecraftBot.quit();
+    instance.minecraftBot = null;
+
+    await storage.updateMinecraftConfig({ isConnected: false }, instance.id);
+    await this.syncBotStatus();
+
+    await log(instance, 'info', '🛑 Minecraft bot manually disconnected');
+    await storage.clearLogs('minecraft', instance.id);
+    await this.progress(instance, 'disconnected', 'Minecraft bot disconnected');
+    return 'disconnected';
+  }
+
+  // Reconnects a bot that dropped (kicked, server restart) after a delay; disconnect() cancels it
+  async scheduleReconnect(botId: string, delayMs: number, reason: string): Promise<void> {
+    const { registry, log } = this.options;
+    const instance = registry.get(botId);
+
+    this.cancelRetry(instance);
+    instance.isReconnecting = true;
+    await log(instance, 'info', `🔄 Auto-reconnecting in ${delayMs/1000} seconds...`);
+    await this.progress(instance, 'retry', `${reason}, reconnecting in ${delayMs/1000} seconds`);
+
+    instance.reconnectTimeout = setTimeout(() => {
+      instance.reconnectTimeout = null;
+      instance.isReconnecting = false;
+      this.start(instance).catch(async (error) => {
+        await log(instance, 'error', `Failed to reconnect: ${error.message}`);
+      });
+    }, delayMs);
+  }
+
+  async restart(botId: string, onProgress?: ProgressListener): Promise<ConnectResult> {
+    await this.disconnect(botId);
+    return this.connect(botId, undefined, onProgress);
+  }
+
+  async status(botId: string): Promise<LifecycleStatus> {
+    const instance = this.options.registry.get(botId);
+    const config = await this.options.storage.getMinecraftConfig(botId);
+
+    let state: LifecycleState = 'disconnected';
+    if (instance.minecraftBot) state = 'connected';
+    else if (instance.isConnecting) state = 'connecting';
+    else if (instance.isReconnecting) state = 'reconnecting';
+
+    return {
+      botId,
+      state,
+      serverIP: config?.serverIP || null,
+      serverPort: config?.serverPort || null,
+      username: config?.username || null,
+      attempts: instance.connectionAttempts,
+      lastError: instance.lastError,
+      lastProgress: this.lastProgress.get(botId) || null,
+    };
+  }
+
+  // Clears earlier failures and runs the first attempt
+  private async start(instance: BotInstance, config?: InsertMinecraftServerConfig, onProgress?: ProgressListener): Promise<ConnectResult> {
+    const { storage, log } = this.options;
+
+    if (instance.isConnecting) {
+      return { success: false, message: 'A connection attempt is already in progress', shouldRetry: false };
+    }
+
+    const botConfig = config || await storage.getMinecraftConfig(instance.id);
+    if (!botConfig || !botConfig.serverIP || !botConfig.serverPort || !botConfig.username) {
+      return { success: false, message: 'No Minecraft server configuration found. Please configure the server in the dashboard first.', shouldRetry: false };
+    }
+
+    this.cancelRetry(instance);
+    instance.connectionAttempts = 0;
+    instance.lastError = null;
+
+    await log(instance, 'info', `🚀 Starting connection to ${botConfig.serverIP}:${botConfig.serverPort}...`);
+    return this.attempt(instance, botConfig, 0, onProgress);
+  }
+
+  private async attempt(instance: BotInstance, config: InsertMinecraftServerConfig, retryCount: number, onProgress?: ProgressListener): Promise<ConnectResult> {
+    const { storage, connectAttempt, log } = this.options;
+    const generation = instance.connectGeneration;
+
+    instance.isConnecting = true;
+    instance.connectionAttempts = retryCount + 1;
+    let result: ConnectResult;
+    try {
+      result = await connectAttempt(instance, config, retryCount > 0, retryCount,
+        (stage, message) => this.progress(instance, stage, message, onProgress));
+    } catch (error) {
+      result = { success: false, message: `Connection attempt failed: ${error.message}`, shouldRetry: true };
+    } finally {
+      instance.isConnecting = false;
+    }
+
+    // Disconnected while this attempt ran: let go of a bot that joined anyway, and don't retry
+    if (instance.connectGeneration !== generation) {
+      const bot = instance.minecraftBot;
+      if (bot) {
+        instance.minecraftBot = null;
+        bot.quit();
+        await storage.updateMinecraftConfig({ isConnected: false }, instance.id);
+        await this.syncBotStatus();
+      }
+      return { success: false, message: 'Connection cancelled by a disconnect', shouldRetry: false };
+    }
+
+    if (result.success) {
+      await log(instance, 'info', `🎮 Successfully connected! ${result.message}`);
+      await storage.updateMinecraftConfig({ ...config, isConnected: true }, instance.id);
+      await this.syncBotStatus();
+      return result;
+    }
+
+    instance.lastError = result.message;
+    await this.progress(instance, 'failed', result.message, onProgress);
+
+    if (result.shouldRetry && retryCount < this.maxRetries) {
+      const delay = Math.min(30000 * Math.pow(2, retryCount), 300000); // Exponential backoff, max 5 minutes
+      await log(instance, 'warn', `⏳ Retry ${retryCount + 1}/${this.maxRetries} in ${delay/1000} seconds: ${result.message}`);
+      await this.progress(instance, 'retry', `Retry ${retryCount + 1}/${this.maxRetries} in ${delay/1000} seconds`, onProgress);
+
+      // Later attempts only report through 'progress' events
+      instance.isReconnecting = true;
+      instance.reconnectTimeout = setTimeout(() => {
+        instance.reconnectTimeout = null;
+        instance.isReconnecting = false;
+        this.attempt(instance, config, retryCount + 1).catch(async (error) => {
+          await log(instance, 'error', `Retry ${retryCount + 1} failed: ${error.message}`);
+        });
+      }, delay);
+    } else {
+      await log(instance, 'error', `❌ Connection failed after ${retryCount + 1} attempts: ${result.message}`);
+      await storage.updateMinecraftConfig({ ...config, isConnected: false }, instance.id);
+      if (result.shouldRetry || retryCount > 0) {
+        const giveUp: GiveUpEvent = { botId: instance.id, attempts: retryCount + 1, message: result.message };
+        this.emit('giveUp', giveUp);
+      }
+    }
+
+    return result;
+  }
+
+  private cancelRetry(instance: BotInstance) {
+    if (instance.reconnectTimeout) {
+      clearTimeout(instance.reconnectTimeout);
+      instance.reconnectTimeout = null;
+    }
+    instance.isReconnecting = false;
+  }
+
+  private async progress(instance: BotInstance, stage: LifecycleStage, message: string, onProgress?: ProgressListener) {
+    const progress: LifecycleProgress = {
+      botId: instance.id,
+      stage,
+      message,
+      attempt: instance.connectionAttempts,
+      timestamp: new Date().toISOString(),
+    };
+    this.lastProgress.set(instance.id, progress);
+    this.emit('progress', progress);
+
+    try {
+      await onProgress?.(progress);
+    } catch (error) {
+      console.error('Lifecycle progress listener failed:', error);
+    }
+  }
+
+  private async syncBotStatus() {
+    const { storage, registry } = this.options;
+    const botStatus = await storage.getBotStatus();
+    await storage.updateBotStatus({
+      discordConnected: botStatus?.discordConnected || false,
+      minecraftConnected: registry.hasConnectedBot(),
+      lastActivity: new Date().toISOString(),
+      totalUptime: botStatus?.totalUptime || '0m',
+    });
+  }
+}
@@ -0,0 +1,193 @@
+import { RESTJSONErrorCodes } from 'discord.js';
+import type { APIEmbed, APIEmbedField, SendableChannels } from 'discord.js';
+import type { Bot } from 'mineflayer';
+import type { IStorage } from './storage';
+import type { BotInstance, BotRegistry } from './bots';
+import type { DiscordChannels } from './discordChannels';
+import { pingServer } from './serverPing';
+import { proxyPingOptions } from './proxy';
+import type { ServerPingResult } from './serverPing';
+import type { AddressResolver } from './serverAddress';
+import { DEFAULT_BOT_ID, DiscordBotConfigSchema } from '../shared/schema';
+import type { ChannelBinding, MinecraftServerConfig } from '../shared/schema';
+
+const NEARBY_RANGE = 32; // blocks
+const MAX_FIELD_VALUE = 1024;
+
+interface LiveStatusOptions {
+  storage: IStorage;
+  registry: BotRegistry;
+  channels: DiscordChannels;
+  resolver: AddressResolver;
+}
+
+// "2d 4h", "3h 12m", "5m"
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// "minecraft:the_nether" -> "The Nether"
+export function dimensionName(dimension: string | undefined): string {
+  if (!dimension) return 'Unknown';
+  return dimension
+    .replace(/^minecraft:/, '')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Other players whose entities are loaded within range of the bot, nearest first
+export function nearbyPlayers(bot: Bot | null, range = NEARBY_RANGE): string[] {
+  if (!bot?.entity) return [];
+  return Object.values(bot.players)
+    .filter(player => player.entity && player.username !== bot.username)
+    .map(player => ({ name: player.username, distance: player.entity.position.distanceTo(bot.entity.position) }))
+    .filter(player => player.distance <= range)
+    .sort((a, b) => a.distance - b.distance)
+    .map(player => `${player.name} (${Math.round(player.distance)}m)`);
+}
+
+// One pinned status message per channel bound for status, edited in place on every refresh
+// and posted again when someone deletes it
+export class LiveStatus {
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  constructor(private readonly options: LiveStatusOptions) {}
+
+  async getInterval(): Promise<number> {
+    const config = await this.options.storage.getDiscordConfig();
+    return DiscordBotConfigSchema.shape.statusInterval.parse(config?.statusInterval);
+  }
+
+  // (Re)starts the refresh timer with the saved interval and refreshes right away
+  async start(): Promise<void> {
+    this.stop();
+    const seconds = await this.getInterval();
+    this.timer = setInterval(() => { this.refresh(); }, seconds * 1000);
+    await this.refresh();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  async refresh(): Promise<void> {
+    // A slow server ping must not stack refreshes
+    if (this.refreshing) return;
+    this.refreshing = true;
+    try {
+      const interval = await this.getInterval();
+      const embeds = new Map<string, Promise<APIEmbed>>();
+      for (const binding of await this.options.channels.forPurpose('status')) {
+        const botId = binding.botId ?? DEFAULT_BOT_ID;
+        if (!embeds.has(botId)) embeds.set(botId, this.buildEmbed(this.options.registry.get(botId), interval));
+        try {
+          await this.update(binding, await embeds.get(botId));
+        } catch (error) {
+          console.log(`Status update failed for channel ${binding.channelId}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.log('Status update failed:', error.message);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async update(binding: ChannelBinding, embed: APIEmbed) {
+    const channel = await this.options.channels.fetchChannel(binding);
+    if (!channel) return;
+
+    if (binding.statusMessageId) {
+      try {
+        await channel.messages.edit(binding.statusMessageId, { embeds: [embed] });
+        return;
+      } catch (error) {
+        if (error.code !== RESTJSONErrorCodes.UnknownMessage) throw error;
+      }
+    }
+    await this.post(binding, channel, embed);
+  }
+
+  private async post(binding: ChannelBinding, channel: SendableChannels, embed: APIEmbed) {
+    const message = await channel.send({ embeds: [embed] });
+    await this.options.storage.setChannelBindingMessage(binding.id, message.id);
+    try {
+      await message.pin();
+    } catch (error) {
+      console.log(`Could not pin status message in ${binding.channelId} (needs Manage Messages):`, error.message);
+    }
+  }
+
+  private async ping(config: MinecraftServerConfig | null): Promise<ServerPingResult | null> {
+    if (!config?.serverIP) return null;
+    try {
+      const { host, port } = await this.options.resolver.resolve(config.serverIP, config.serverPort);
+      return await pingServer(host, port, proxyPingOptions(config));
+    } catch {
+      return null;
+    }
+  }
+
+  private async buildEmbed(instance: BotInstance, interval: number): Promise<APIEmbed> {
+    const config = await this.options.storage.getMinecraftConfig(instance.id);
+    const server = await this.ping(config);
+    const bot = instance.minecraftBot;
+    const online = !!bot?.entity;
+
+    const fields: APIEmbedField[] = [
+      { name: '🎮 Minecraft Bot', value: online ? '🟢 Online & Active' : '🔴 Offline', inline: true },
+      { name: '⏱️ Uptime', value: online && instance.connectedAt ? formatDuration(Date.now() - instance.connectedAt) : 'N/A', inline: true },
+      { name: '👢 Kicks Today', value: String(instance.kicksToday()), inline: true },
+    ];
+
+    if (online) {
+      const pos = bot.entity.position;
+      const nearby = nearbyPlayers(bot);
+      fields.push(
+        { name: '❤️ Health', value: `${Math.round(bot.health || 0)}/20`, inline: true },
+        { name: '🍖 Food', value: `${bot.food || 0}/20`, inline: true },
+        { name: '🌍 Dimension', value: dimensionName(bot.game?.dimension), inline: true },
+        { name: '📍 Position', value: `X: ${Math.floor(pos.x)}, Y: ${Math.floor(pos.y)}, Z: ${Math.floor(pos.z)}`, inline: true },
+        { name: `👀 Nearby Players (${nearby.length})`, value: (nearby.join(', ') || 'None').slice(0, MAX_FIELD_VALUE), inline: false },
+      );
+    }
+
+    if (!config) {
+      fields.push({ name: '📡 Server', value: 'Not configured', inline: true });
+    } else if (!server) {
+      fields.push({ name: '📡 Server', value: '🔴 Unreachable', inline: true });
+    } else {
+      fields.push(
+        { name: '📡 Server', value: `🟢 ${server.version}`, inline: true },
+        { name: '📶 Latency', value: server.latency !== null ? `${server.latency}ms` : 'N/A', inline: true },
+        { name: '👥 Players', value: `${server.playersOnline}/${server.playersMax}`, inline: true },
+      );
+      if (server.motd) {
+        fields.push({ name: '📝 MOTD', value: server.motd.slice(0, MAX_FIELD_VALUE), inline: false });
+      }
+    }
+
+    return {
+      title: '🤖 AFKsrbot Live Status',
+      description: `Bot **${config?.name || instance.id}**${config ? ` on \`${config.serverIP}\`` : ''}`,
+      fields,
+      color: online ? 0x00ff00 : server ? 0xffa500 : 0xff0000,
+      timestamp: new Date().toISOString(),
+      footer: { text: `Updates every ${interval} seconds` },
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { createHash, randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CacheFactory } from 'prismarine-auth';
+import { MicrosoftAuth, MicrosoftAuthError } from './microsoftAuth';
+import type { AuthflowFactory, JavaAuthflow } from './microsoftAuth';
+
+const ACCOUNT = 'steve@example.com';
+const BOT_ID = 'main';
+const DEVICE_CODE = { user_code: 'ABCD-1234', verification_uri: 'https://www.microsoft.com/link', expires_in: 900, message: 'Enter ABCD-1234' };
+const PROFILE = { id: '069a79f4-44e9-4726-a5be-fca90e38aaf5', name: 'Steve' };
+
+type OnCode = Parameters<AuthflowFactory>[2];
+
+// Stands in for prismarine-auth's Authflow: `run` gets the token cache and code callback it was built with
+function stubAuthflow(run: (cache: CacheFactory, onCode: OnCode) => ReturnType<JavaAuthflow['getMinecraftJavaToken']>): AuthflowFactory {
+  return (_account, cache, onCode) => ({ getMinecraftJavaToken: () => run(cache, onCode) });
+}
+
+// Signs in the way a fresh account does: device code first, then tokens written to the cache
+const signInWithCode = (until: Promise<void> = Promise.resolve()) => stubAuthflow(async (cache, onCode) => {
+  onCode(DEVICE_CODE);
+  await until;
+  await cache({ cacheName: 'live', username: ACCOUNT }).setCached({ token: { refresh_token: 'refresh-secret' } });
+  await cache({ cacheName: 'mca', username: ACCOUNT }).setCachedPartial({ mca: { access_token: 'mc-token' } });
+  return { token: 'mc-token', profile: PROFILE };
+});
+
+let dir: string;
+let key: Buffer;
+
+const createAuth = (createAuthflow: AuthflowFactory, masterKey = key) =>
+  new MicrosoftAuth({ cacheDir: dir, masterKey: async () => masterKey, createAuthflow });
+
+// prismarine-auth names cache files after a hash of the account
+const cacheFile = (cacheName: string, suffix: string) =>
+  path.join(dir, BOT_ID, `${createHash('sha1').update(ACCOUNT).digest('hex').slice(0, 6)}_${cacheName}${suffix}`);
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'afk-msauth-'));
+  key = randomBytes(32);
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('MicrosoftAuth', () => {
+  it('shows the device code while waiting, then signs in', async () => {
+    let enterCode!: () => void;
+    const entered = new Promise<void>(resolve => { enterCode = resolve; });
+    const auth = createAuth(signInWithCode(entered));
+    const onCode = vi.fn();
+
+    const login = auth.login(BOT_ID, ACCOUNT, onCode);
+    await vi.waitFor(() => expect(onCode).toHaveBeenCalled());
+    const pending = await auth.status(BOT_ID);
+    expect(pending.state).toBe('pending');
+    expect(pending.prompt).toMatchObject({ userCode: 'ABCD-1234', verificationUri: 'https://www.microsoft.com/link', message: 'Enter ABCD-1234' });
+    expect(onCode.mock.calls[0][0]).toEqual(pending.prompt);
+
+    enterCode();
+    expect(await login).toEqual({ token: 'mc-token', profile: PROFILE, certificates: undefined });
+    expect(await auth.status(BOT_ID)).toEqual({ state: 'signed_in', prompt: null, profileName: 'Steve', lastError: null });
+  });
+
+  it('keeps the token cache encrypted and private', async () => {
+    await createAuth(signInWithCode()).login(BOT_ID, ACCOUNT);
+
+    const file = cacheFile('live', '-cache.enc');
+    const stored = await fs.readFile(file, 'utf-8');
+    expect(stored).toMatch(/^enc:v1:/);
+    expect(stored).not.toContain('refresh-secret');
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    expect((await fs.readdir(path.join(dir, BOT_ID))).filter(name => name.endsWith('.json'))).toEqual([]);
+  });
+
+  it('refreshes from the cached tokens without a new code', async () => {
+    await createAuth(signInWithCode()).login(BOT_ID, ACCOUNT);
+
+    const onCode = vi.fn();
+    const refresh = createAuth(stubAuthflow(async (cache) => {
+      const { token } = await cache({ cacheName: 'live', username: ACCOUNT }).getCached() as { token?: { refresh_token: string } };
+      if (token?.refresh_token !== 'refresh-secret') throw new Error('No refresh token cached');
+      return { token: 'mc-token-2', profile: PROFILE };
+    }));
+
+    expect(await refresh.login(BOT_ID, ACCOUNT, onCode)).toMatchObject({ token: 'mc-token-2' });
+    expect(onCode).not.toHaveBeenCalled();
+  });
+
+  it('remembers the profile name across restarts', async () => {
+    await createAuth(signInWithCode()).login(BOT_ID, ACCOUNT);
+
+    expect(await fs.readFile(path.join(dir, BOT_ID, 'profile.enc'), 'utf-8')).not.toContain('Steve');
+    expect(await createAuth(signInWithCode()).status(BOT_ID)).toEqual({ state: 'signed_in', prompt: null, profileName: 'Steve', lastError: null });
+  });
+
+  it('encrypts a plaintext cache left by an earlier version', async () => {
+    const plaintext = cacheFile('live', '-cache.json');
+    await fs.mkdir(path.dirname(plaintext), { recursive: true });
+    await fs.writeFile(plaintext, JSON.stringify({ token: { refresh_token: 'old-refresh' } }));
+
+    const cached = vi.fn();
+    await createAuth(stubAuthflow(async (cache) => {
+      cached(await cache({ cacheName: 'live', username: ACCOUNT }).getCached());
+      return { token: 'mc-token', profile: PROFILE };
+    })).login(BOT_ID, ACCOUNT);
+
+    expect(cached).toHaveBeenCalledWith({ token: { refresh_token: 'old-refresh' } });
+    await expect(fs.access(plaintext)).rejects.toThrow();
+    expect(await fs.readFile(cacheFile('live', '-cache.enc'), 'utf-8')).not.toContain('old-refresh');
+  });
+
+  it('starts over when the master key changed', async () => {
+    await createAuth(signInWithCode()).login(BOT_ID, ACCOUNT);
+
+    const cached = vi.fn();
+    await createAuth(stubAuthflow(async (cache) => {
+      cached(await cache({ cacheName: 'live', username: ACCOUNT }).getCached());
+      return { token: 'mc-token', profile: PROFILE };
+    }), randomBytes(32)).login(BOT_ID, ACCOUNT);
+
+    expect(cached).toHaveBeenCalledWith({});
+  });
+
+  it('reports an expired device code', async () => {
+    const auth = createAuth(stubAuthflow(async (_cache, onCode) => {
+      onCode(DEVICE_CODE);
+      throw new Error('Authentication failed, timed out');
+    }));
+
+    const error = await auth.login(BOT_ID, ACCOUNT).catch(error => error);
+    expect(error).toBeInstanceOf(MicrosoftAuthError);
+    expect(error).toMatchObject({ kind: 'code_expired', retryable: false });
+    expect(await auth.status(BOT_ID)).toEqual({
+      state: 'signed_out',
+      prompt: null,
+      profileName: null,
+      lastError: 'Nobody signed in before the device code expired',
+    });
+  });
+
+  it("rejects an account that doesn't own the game", async () => {
+    const auth = createAuth(stubAuthflow(async () => ({ token: 'xbox-only', profile: null })));
+
+    await expect(auth.login(BOT_ID, ACCOUNT)).rejects.toMatchObject({ kind: 'no_game', retryable: false });
+  });
+
+  it('forgets the tokens on logout', async () => {
+    const auth = createAuth(signInWithCode());
+    await auth.login(BOT_ID, ACCOUNT);
+
+    await auth.logout(BOT_ID);
+    expect(await auth.status(BOT_ID)).toEqual({ state: 'signed_out', prompt: null, profileName: null, lastError: null });
+    await expect(fs.access(path.join(dir, BOT_ID))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,291 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { EventEmitter } from 'node:events';
+import prismarineAuth from 'prismarine-auth';
+import type { Cache, CacheFactory } from 'prismarine-auth';
+import { SecretCipher, loadMasterKey } from './secrets';
+
+// How long a device code prompt stays on the dashboard when prismarine-auth doesn't say
+const DEFAULT_CODE_LIFETIME = 15 * 60;
+const CACHE_SUFFIX = '-cache.enc';
+const PLAINTEXT_CACHE_SUFFIX = '-cache.json'; // What prismarine-auth's own file cache writes
+const PROFILE_FILE = 'profile.enc'; // Name of the signed-in profile, which the token caches don't keep
+
+export type MicrosoftAuthErrorKind = 'no_game' | 'account' | 'code_expired' | 'sign_in_failed' | 'network' | 'unknown';
+
+// A Microsoft login that failed, with whether trying again without a person can help
+export class MicrosoftAuthError extends Error {
+  constructor(message: string, readonly kind: MicrosoftAuthErrorKind, readonly retryable: boolean) {
+    super(message);
+    this.name = 'MicrosoftAuthError';
+  }
+}
+
+// Shown while the bot waits for someone to sign in at the verification page
+export interface DeviceCodePrompt {
+  userCode: string;
+  verificationUri: string;
+  expiresAt: string;
+  message: string;
+}
+
+export interface MicrosoftSession {
+  token: string;
+  profile: { id: string; name: string };
+  certificates?: object;
+}
+
+export interface MicrosoftAuthStatus {
+  state: 'signed_out' | 'pending' | 'signed_in';
+  prompt: DeviceCodePrompt | null;
+  profileName: string | null;
+  lastError: string | null;
+}
+
+// The part of prismarine-auth's Authflow a login needs
+export interface JavaAuthflow {
+  getMinecraftJavaToken(options: { fetchProfile: boolean; fetchCertificates: boolean }): Promise<{
+    token: string;
+    profile: { id: string; name: string } | null;
+    certificates?: object;
+  }>;
+}
+
+export type AuthflowFactory = (
+  account: string,
+  cache: CacheFactory,
+  onCode: (response: { user_code: string; verification_uri: string; expires_in: number; message: string }) => void
+) => JavaAuthflow;
+
+interface MicrosoftAuthOptions {
+  cacheDir: string;
+  // The tokens are encrypted with the master key, like the secrets in storage
+  masterKey?: () => Promise<Buffer>;
+  // Swapped for a stub to log in against a fake endpoint
+  createAuthflow?: AuthflowFactory;
+}
+
+// The minecraft-protocol client fields an auth function fills in
+interface ProtocolClient extends EventEmitter {
+  session?: object;
+  username?: string;
+}
+
+interface ProtocolOptions {
+  accessToken?: string;
+  haveCredentials?: boolean;
+  connect(client: ProtocolClient): void;
+}
+
+// Same title and flow minecraft-protocol uses for auth: 'microsoft'
+const defaultAuthflow: AuthflowFactory = (account, cache, onCode) =>
+  new prismarineAuth.Authflow(account, cache, { authTitle: prismarineAuth.Titles.MinecraftNintendoSwitch, deviceType: 'Nintendo', flow: 'live' }, onCode);
+
+// One prismarine-auth token cache (msal, xbl, mca...) as an encrypted file only the server's user can read.
+// A plaintext cache left by earlier versions is encrypted on first read and removed.
+class EncryptedTokenCache implements Cache {
+  private cache: object | undefined;
+
+  constructor(
+    private readonly file: string,
+    private readonly plaintextFile: string,
+    private readonly cipher: SecretCipher
+  ) {}
+
+  async getCached(): Promise<object> {
+    if (this.cache === undefined) this.cache = await this.load();
+    return this.cache;
+  }
+
+  async setCached(value: object): Promise<void> {
+    this.cache = value;
+    await fs.mkdir(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.file, this.cipher.encrypt(JSON.stringify(value)), { mode: 0o600 });
+  }
+
+  async setCachedPartial(value: object): Promise<void> {
+    await this.setCached({ ...await this.getCached(), ...value });
+  }
+
+  async reset(): Promise<void> {
+    await this.setCached({});
+  }
+
+  private async load(): Promise<object> {
+    try {
+      return JSON.parse(this.cipher.decrypt(await fs.readFile(this.file, 'utf-8')));
+    } catch {
+      // Not written yet, or encrypted with another master key; both mean signing in again
+    }
+    try {
+      const plaintext = JSON.parse(await fs.readFile(this.plaintextFile, 'utf-8'));
+      await this.setCached(plaintext);
+      await fs.rm(this.plaintextFile, { force: true });
+      return plaintext;
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Same file names as prismarine-auth's own cache, so an existing plaintext cache is found
+function tokenCacheName(account: string, cacheName: string): string {
+  const hash = createHash('sha1').update(account ?? '', 'binary').digest('hex').slice(0, 6);
+  return `${hash}_${cacheName}`;
+}
+
+// Maps prismarine-auth and Xbox Live failures to what the dashboard should say
+export function classifyMicrosoftAuthError(error: Error): MicrosoftAuthError {
+  if (error instanceof MicrosoftAuthError) return error;
+  const message = error.message || String(error);
+
+  if (/does the account own minecraft|minecraft\/profile|NOT_FOUND|404 Not Found/i.test(message)) {
+    return new MicrosoftAuthError("This Microsoft account doesn't own Minecraft: Java Edition", 'no_game', false);
+  }
+  if (/Xbox profile|banned|guardian|Terms of Service|region|proof of age|XErr/i.test(message)) {
+    return new MicrosoftAuthError(`Xbox Live refused the account: ${message.split('\n')[0]}`, 'account', false);
+  }
+  if (/timed out/i.test(message)) {
+    return new MicrosoftAuthError('Nobody signed in before the device code expired', 'code_expired', false);
+  }
+  if (/authorization code|device code|refresh token/i.test(message)) {
+    return new MicrosoftAuthError(`Microsoft sign-in failed: ${message}`, 'sign_in_failed', false);
+  }
+  if (/ENOTFOUND|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|fetch failed|^5\d\d /i.test(message)) {
+    return new MicrosoftAuthError(`Couldn't reach the Microsoft login servers: ${message}`, 'network', true);
+  }
+  return new MicrosoftAuthError(`Microsoft login failed: ${message}`, 'unknown', false);
+}
+
+// minecraft-protocol `auth` function that joins with a session from MicrosoftAuth.login
+export function microsoftSessionAuth(session: MicrosoftSession) {
+  return (client: ProtocolClient, options: ProtocolOptions) => {
+    const clientSession = {
+      accessToken: session.token,
+      selectedProfile: session.profile,
+      availableProfile: [session.profile],
+    };
+    Object.assign(client, session.certificates);
+    client.session = clientSession;
+    client.username = session.profile.name;
+    options.accessToken = session.token;
+    options.haveCredentials = true;
+    client.emit('session', clientSession);
+    options.connect(client);
+  };
+}
+
+// Microsoft account logins for online-mode servers, with an encrypted token cache per bot.
+// The first login prints a device code; later ones refresh the cached tokens silently.
+export class MicrosoftAuth {
+  private readonly prompts = new Map<string, DeviceCodePrompt>();
+  private readonly profiles = new Map<string, string>();
+  private readonly errors = new Map<string, string>();
+  private readonly createAuthflow: AuthflowFactory;
+  private cipher: Promise<SecretCipher> | null = null;
+
+  constructor(private readonly options: MicrosoftAuthOptions) {
+    this.createAuthflow = options.createAuthflow ?? defaultAuthflow;
+  }
+
+  cacheDir(botId: string): string {
+    return path.join(this.options.cacheDir, botId);
+  }
+
+  // Encrypted token caches in the bot's cache directory
+  private async tokenCache(botId: string): Promise<CacheFactory> {
+    const cipher = await this.loadCipher();
+    const dir = this.cacheDir(botId);
+    return ({ cacheName, username }) => {
+      const name = tokenCacheName(username, cacheName);
+      return new EncryptedTokenCache(path.join(dir, name + CACHE_SUFFIX), path.join(dir, name + PLAINTEXT_CACHE_SUFFIX), cipher);
+    };
+  }
+
+  async login(botId: string, account: string, onCode?: (prompt: DeviceCodePrompt) => void | Promise<void>): Promise<MicrosoftSession> {
+    this.errors.delete(botId);
+    try {
+      const authflow = this.createAuthflow(account, await this.tokenCache(botId), (response) => {
+        const prompt: DeviceCodePrompt = {
+          userCode: response.user_code,
+          verificationUri: response.verification_uri,
+          expiresAt: new Date(Date.now() + (response.expires_in || DEFAULT_CODE_LIFETIME) * 1000).toISOString(),
+          message: response.message || `Open ${response.verification_uri} and enter the code ${response.user_code}`,
+        };
+        this.prompts.set(botId, prompt);
+        Promise.resolve(onCode?.(prompt)).catch(error => console.log('Device code listener failed:', error.message));
+      });
+
+      const { token, profile, certificates } = await authflow.getMinecraftJavaToken({ fetchProfile: true, fetchCertificates: true });
+      if (!profile?.name) throw new MicrosoftAuthError("This Microsoft account doesn't own Minecraft: Java Edition", 'no_game', false);
+
+      this.profiles.set(botId, profile.name);
+      await this.saveProfileName(botId, profile.name);
+      return { token, profile: { id: profile.id, name: profile.name }, certificates };
+    } catch (error) {
+      const authError = classifyMicrosoftAuthError(error);
+      this.errors.set(botId, authError.message);
+      throw authError;
+    } finally {
+      this.prompts.delete(botId);
+    }
+  }
+
+  async status(botId: string): Promise<MicrosoftAuthStatus> {
+    const prompt = this.prompts.get(botId) ?? null;
+    const cached = await this.hasCachedTokens(botId);
+    return {
+      state: prompt ? 'pending' : cached ? 'signed_in' : 'signed_out',
+      prompt,
+      profileName: cached ? this.profiles.get(botId) ?? await this.loadProfileName(botId) : null,
+      lastError: this.errors.get(botId) ?? null,
+    };
+  }
+
+  // Forgets the cached tokens; the next login asks for a device code again
+  async logout(botId: string): Promise<void> {
+    await fs.rm(this.cacheDir(botId), { recursive: true, force: true });
+    this.profiles.delete(botId);
+    this.errors.delete(botId);
+  }
+
+  private async hasCachedTokens(botId: string): Promise<boolean> {
+    try {
+      return (await fs.readdir(this.cacheDir(botId))).some(file => file.endsWith(CACHE_SUFFIX) || file.endsWith(PLAINTEXT_CACHE_SUFFIX));
+    } catch {
+      return false;
+    }
+  }
+
+  private async saveProfileName(botId: string, name: string): Promise<void> {
+    const cipher = await this.loadCipher();
+    await fs.mkdir(this.cacheDir(botId), { recursive: true, mode: 0o700 });
+    await fs.writeFile(path.join(this.cacheDir(botId), PROFILE_FILE), cipher.encrypt(JSON.stringify({ name })), { mode: 0o600 });
+  }
+
+  // The profile name saved by an earlier run, so status has it before the next login
+  private async loadProfileName(botId: string): Promise<string | null> {
+    try {
+      const cipher = await this.loadCipher();
+      const { name } = JSON.parse(cipher.decrypt(await fs.readFile(path.join(this.cacheDir(botId), PROFILE_FILE), 'utf-8')));
+      if (typeof name !== 'string') return null;
+      this.profiles.set(botId, name);
+      return name;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadCipher(): Promise<SecretCipher> {
+    if (!this.cipher) {
+      this.cipher = (this.options.masterKey ?? loadMasterKey)()
+        .then(key => new SecretCipher(key))
+        .catch((error) => {
+          this.cipher = null;
+          throw error;
+        });
+    }
+    return this.cipher;
+  }
+}
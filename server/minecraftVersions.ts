@@ -0,0 +1,54 @@
+import mineflayer from 'mineflayer';
+import minecraftData from 'minecraft-data';
+import type { ServerPingResult } from './serverPing';
+
+// ServerConfig version that picks one from the server's Server List Ping
+export const AUTO_VERSION = 'auto';
+export const DEFAULT_VERSION = '1.20.4';
+
+// Versions mineflayer is tested against, oldest first
+export const SUPPORTED_VERSIONS = mineflayer.testedVersions;
+
+export interface VersionMatch {
+  protocol: number | null;
+  version: string | null; // What the bot should connect as; null when no supported version speaks the protocol
+  tested: boolean; // One of SUPPORTED_VERSIONS, not just a version minecraft-data knows
+}
+
+function protocolOf(version: string): number | null {
+  return minecraftData.versionsByMinecraftVersion.pc[version]?.version ?? null;
+}
+
+// The version to join a server with that speaks its protocol, preferring tested versions.
+// Pre-1.8 servers (everything that only answers the legacy ping) can't be joined
+export function matchServerVersion(server: ServerPingResult): VersionMatch {
+  const protocol = server.protocol;
+  if (protocol === null || server.legacy) return { protocol, version: null, tested: false };
+  // Newest first, snapshots included
+  const candidates = minecraftData.versions.pc
+    .filter(entry => entry.version === protocol && entry.usesNetty !== false)
+    .map(entry => entry.minecraftVersion);
+
+  const tested = candidates.find(version => SUPPORTED_VERSIONS.includes(version));
+  if (tested) return { protocol, version: tested, tested: true };
+
+  // Untested releases between the oldest and newest supported version usually work
+  const oldest = protocolOf(SUPPORTED_VERSIONS[0]);
+  const newest = protocolOf(SUPPORTED_VERSIONS[SUPPORTED_VERSIONS.length - 1]);
+  const release = candidates.find(version => /^\d+\.\d+(\.\d+)?$/.test(version) && minecraftData(version));
+  if (release && protocol >= oldest && protocol <= newest) return { protocol, version: release, tested: false };
+
+  return { protocol, version: null, tested: false };
+}
+
+// Whether a configured version speaks the server's protocol; unknown protocols never mismatch
+export function versionMatchesServer(version: string, server: ServerPingResult): boolean {
+  if (server.protocol === null || server.legacy || version === AUTO_VERSION) return true;
+  const own = protocolOf(version);
+  return own === null || own === server.protocol;
+}
+
+// "1.8.8 - 1.21.4"
+export function supportedRange(): string {
+  return `${SUPPORTED_VERSIONS[0]} - ${SUPPORTED_VERSIONS[SUPPORTED_VERSIONS.length - 1]}`;
+}
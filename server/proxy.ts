@@ -0,0 +1,151 @@
+import http from 'node:http';
+import type net from 'node:net';
+import type { EventEmitter } from 'node:events';
+import { SocksClient } from 'socks';
+import type { MinecraftServerConfig } from '../shared/schema';
+import { AddressError, formatAddress, parseServerAddress } from './serverAddress';
+import type { PingOptions, SocketFactory } from './serverPing';
+
+const PROXY_TIMEOUT = 10000;
+const DEFAULT_PROXY_PORTS = { socks5: 1080, http: 8080 };
+
+export type ProxyType = keyof typeof DEFAULT_PROXY_PORTS;
+
+export interface ProxySettings {
+  type: ProxyType;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+export type ProxyErrorKind = 'config' | 'unreachable' | 'auth' | 'rejected' | 'timeout' | 'protocol';
+
+// A failure at the proxy rather than the Minecraft server, with whether trying again can help
+export class ProxyError extends Error {
+  constructor(message: string, readonly kind: ProxyErrorKind, readonly retryable: boolean) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+type ProxyConfig = Pick<MinecraftServerConfig, 'proxyType' | 'proxyHost' | 'proxyPort' | 'proxyUsername' | 'proxyPassword'>;
+
+// The minecraft-protocol client fields a `connect` function uses
+interface ProtocolClient extends EventEmitter {
+  setSocket(socket: net.Socket): void;
+}
+
+// The bot's proxy, or null to connect directly; throws a 'config' ProxyError for a bad host or port
+export function proxyFromConfig(config: ProxyConfig | null | undefined): ProxySettings | null {
+  const type = config?.proxyType;
+  if (!type || type === 'none') return null;
+  if (!config.proxyHost?.trim()) throw new ProxyError('Proxy host is required', 'config', false);
+
+  try {
+    const { host, port } = parseServerAddress(config.proxyHost, config.proxyPort || String(DEFAULT_PROXY_PORTS[type]));
+    return {
+      type,
+      host,
+      port,
+      username: config.proxyUsername?.trim() || undefined,
+      password: config.proxyPassword || undefined,
+    };
+  } catch (error) {
+    if (error instanceof AddressError) throw new ProxyError(`Invalid proxy address: ${error.message}`, 'config', false);
+    throw error;
+  }
+}
+
+// "SOCKS5 proxy 10.0.0.2:1080" for logs; never includes the credentials
+export function describeProxy(proxy: ProxySettings): string {
+  return `${proxy.type === 'socks5' ? 'SOCKS5' : 'HTTP'} proxy ${formatAddress(proxy.host, proxy.port)}`;
+}
+
+// Maps socket, SOCKS and HTTP CONNECT failures to what the logs should say
+export function classifyProxyError(proxy: ProxySettings, error: Error): ProxyError {
+  if (error instanceof ProxyError) return error;
+  const message = error.message || String(error);
+  const label = describeProxy(proxy);
+
+  if (/Authentication failed|no accepted authentication type/i.test(message)) {
+    return new ProxyError(`${label} rejected the ${proxy.username ? 'username or password' : 'connection without credentials'}`, 'auth', false);
+  }
+  if (/rejected connection/i.test(message)) {
+    return new ProxyError(`${label} couldn't reach the server (${message.split(' - ')[1] ?? message})`, 'rejected', true);
+  }
+  if (/timed out|ETIMEDOUT/i.test(message)) {
+    return new ProxyError(`${label} didn't answer in time`, 'timeout', true);
+  }
+  if (/ECONNREFUSED|ENOTFOUND|EHOSTUNREACH|ENETUNREACH|ECONNRESET|EAI_AGAIN|Socket closed|socket hang up/i.test(message)) {
+    return new ProxyError(`Couldn't reach ${label}: ${message}`, 'unreachable', true);
+  }
+  return new ProxyError(`${label} failed: ${message}`, 'protocol', true);
+}
+
+// HTTP CONNECT tunnel; the socket Node hands back carries the Minecraft protocol from then on
+function httpConnect(proxy: ProxySettings, host: string, port: number, timeoutMs: number): Promise<net.Socket> {
+  const target = formatAddress(host, port);
+  const headers: Record<string, string> = { Host: target };
+  if (proxy.username) {
+    headers['Proxy-Authorization'] = `Basic ${Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64')}`;
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = http.request({ host: proxy.host, port: proxy.port, method: 'CONNECT', path: target, headers, agent: false, timeout: timeoutMs });
+    request.once('connect', (response, socket, head) => {
+      socket.setTimeout(0);
+      if (response.statusCode === 407) {
+        socket.destroy();
+        reject(new ProxyError(`${describeProxy(proxy)} rejected the ${proxy.username ? 'username or password' : 'connection without credentials'}`, 'auth', false));
+        return;
+      }
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        reject(new ProxyError(`${describeProxy(proxy)} couldn't reach the server (HTTP ${response.statusCode} ${response.statusMessage})`, 'rejected', true));
+        return;
+      }
+      if (head.length > 0) socket.unshift(head);
+      resolve(socket);
+    });
+    request.once('timeout', () => request.destroy(new Error('Proxy connection timed out')));
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+// Opens a tunnel to host:port through the proxy, resolving once the server is reachable through it
+export async function connectThroughProxy(proxy: ProxySettings, host: string, port: number, timeoutMs = PROXY_TIMEOUT): Promise<net.Socket> {
+  try {
+    if (proxy.type === 'http') return await httpConnect(proxy, host, port, timeoutMs);
+    const { socket } = await SocksClient.createConnection({
+      proxy: { host: proxy.host, port: proxy.port, type: 5, userId: proxy.username, password: proxy.password },
+      command: 'connect',
+      destination: { host, port },
+      timeout: timeoutMs,
+    });
+    return socket;
+  } catch (error) {
+    throw classifyProxyError(proxy, error);
+  }
+}
+
+// Server List Ping options for a bot: through its proxy when it has one
+export function proxyPingOptions(config: ProxyConfig | null | undefined): PingOptions {
+  const proxy = proxyFromConfig(config);
+  if (!proxy) return {};
+  const connect: SocketFactory = (host, port, timeoutMs) => connectThroughProxy(proxy, host, port, timeoutMs);
+  return { connect };
+}
+
+// minecraft-protocol `connect` option that joins through the proxy instead of a direct socket
+export function proxiedConnect(proxy: ProxySettings, host: string, port: number) {
+  return (client: ProtocolClient) => {
+    connectThroughProxy(proxy, host, port)
+      .then((socket) => {
+        client.setSocket(socket);
+        client.emit('connect');
+      })
+      .catch(error => client.emit('error', error));
+  };
+}
@@ -1,78 +1,221 @@
 import express from 'express';
-import { Client, GatewayIntentBits } from 'discord.js';
+import { Client, GatewayIntentBits, AutocompleteInteraction, ButtonInteraction, StringSelectMenuInteraction, MessageFlags } from 'discord.js';
 import mineflayer from 'mineflayer';
+import type { ControlState } from 'mineflayer';
 import { pathfinder, Movements } from 'mineflayer-pathfinder';
 import { plugin as pvp } from 'mineflayer-pvp';
-import { IStorage } from './storage';
+import { IStorage, matchesLogScope } from './storage';
+import { BotRegistry, BotInstance, BotActionResult, EntitySummary, GotoSession, isValidBotId, generateBotId } from './bots';
+import { BotLifecycle, GiveUpEvent, LifecycleProgress, LifecycleStage } from './lifecycle';
+import { ServerProvider, ServerPowerState, ServerPlayers, createServerProvider, serverProviderKey } from './serverProvider';
+import { PingOptions, describeServerStatus, pingServer } from './serverPing';
+import { AddressError, AddressResolver, ResolvedAddress, formatAddress, parseServerAddress } from './serverAddress';
+import { ProxyError, ProxySettings, describeProxy, proxiedConnect, proxyFromConfig, proxyPingOptions } from './proxy';
+import { AUTO_VERSION, DEFAULT_VERSION, matchServerVersion, supportedRange, versionMatchesServer } from './minecraftVersions';
+import { stripSecrets } from './secrets';
+import { ChatBridge } from './chatBridge';
+import { LiveStatus } from './liveStatus';
+import { DiscordChannels } from './discordChannels';
+import { CommandPermissions } from './commandPermissions';
+import { CommandRegistry, dispatchAutocomplete, dispatchCommand, dispatchPanelPermission, replyIfControlLocked } from './discordCommands';
+import type { CommandDispatch } from './discordCommands';
+import { createSlashCommands, disconnectReplies } from './slashCommands';
+import { Alerts, AlertContext, alertRuleProblem } from './alerts';
+import { buildInventoryMessage, parseInventoryCustomId } from './discordInventory';
+import { LogViews, LogsAction, buildLogsMessage, exportLogs, parseLogsCustomId } from './discordLogs';
+import { PanelAction, buildPanelMessage, parsePanelCustomId } from './discordPanel';
+import { MicrosoftAuth, MicrosoftAuthError, MicrosoftAuthStatus, MicrosoftSession, microsoftSessionAuth } from './microsoftAuth';
+import { AuthService, authenticate, requireRole, hasRole, verifyPassword, tokenFromHeaders, sessionCookie, toPublicApiKey, PublicUser } from './auth';
 import { 
+  DEFAULT_BOT_ID,
+  UserRoleSchema,
+  ApiKeyScopeSchema,
+  LogQuerySchema,
+  ChatBridgeConfigSchema,
+  DiscordBotConfigSchema,
+  insertCommandPermissionSchema,
+  insertAlertRuleSchema,
   insertDiscordBotConfigSchema, 
   insertMinecraftServerConfigSchema, 
   insertConsoleCommandSchema,
   insertLogEntrySchema 
 } from '../shared/schema';
+import type { MinecraftServerConfig, InsertMinecraftServerConfig, DiscordBotConfig, AternosConfig, LogEntry, LogQuery, InsertAlertRule } from '../shared/schema';
 
 export function createRoutes(storage: IStorage, io?: any) {
   const router = express.Router();
   
+  // Bot-scoped routes, served under /api/bots/:botId and (for the default bot) under /api
+  const botRouter = express.Router({ mergeParams: true });
+  const botOf = (res: express.Response): BotInstance => res.locals.bot;
+  
   // Discord Bot instance with extended properties
-  let discordBot: (Client & { statusInterval?: NodeJS.Timeout }) | null = null;
-  let minecraftBot: any = null; // mineflayer bot
+  let discordBot: Client | null = null;
   
-  // Control lock system
-  let controlLock = {
-    owner: null as string | null,
-    ownerId: null as string | null,
-    lastHeartbeat: null as number | null,
-    timeout: 30000 // 30 seconds
-  };
+  // Runtime state for every Minecraft bot, keyed by bot id
+  const registry = new BotRegistry();
+  
+  // Dashboard accounts and sessions
+  const auth = new AuthService(storage);
+  auth.ensureAdminFromEnv().then(admin => {
+    if (admin) console.log(`🔐 Created admin user "${admin.username}" from environment`);
+  }).catch(error => console.error('Failed to create admin user:', error));
+  
+  // Turns configured server addresses into where to connect (SRV records, IPv6)
+  const addressResolver = new AddressResolver();
   
-  // Movement control states
-  let currentMovementStates = {
-    forward: false,
-    back: false,
-    left: false,
-    right: false,
-    jump: false,
-    sneak: false,
-    sprint: false
+  // Microsoft sign-ins of bots that join online-mode servers, tokens cached (encrypted) per bot
+  const microsoftAuth = new MicrosoftAuth({ cacheDir: process.env.MICROSOFT_AUTH_DIR || './data/auth' });
+  
+  // Sign-in state goes to operators only: whoever sees the device code can sign the bot's account in
+  const emitMicrosoftAuth = async (instance: BotInstance, status?: MicrosoftAuthStatus) => {
+    if (!io) return;
+    const current = status ?? await microsoftAuth.status(instance.id);
+    for (const socket of await io.in(instance.room).fetchSockets()) {
+      if (hasRole(socket.data.user, 'operator')) socket.emit('microsoft_auth', current);
+    }
   };
   
-  // Bot control states
-  let isManualControl = false;
-  let pvpEnabled = false;
-  let pvpTarget = null;
-  let botLook = { yaw: 0, pitch: 0 };
+  // Connect/disconnect/restart, shared by the REST API and Discord commands
+  const lifecycle = new BotLifecycle({
+    storage,
+    registry,
+    connectAttempt: (...args) => connectToMinecraftServer(...args),
+    log: (instance, level, message) => addBotLog(instance, 'minecraft', level, message),
+  });
+  
+  if (io) {
+    lifecycle.on('progress', (progress: LifecycleProgress) => {
+      io.to(registry.get(progress.botId).room).emit('bot_lifecycle', progress);
+    });
+  }
+  
+  // Discord channels bound with /setup (persisted per guild)
+  const discordChannels = new DiscordChannels({ storage, getClient: () => discordBot });
+  
+  // Slash commands of the Discord bot, registered once the helpers they use exist
+  const slashCommands = new CommandRegistry();
+  
+  // Queries behind the buttons of /logs replies
+  const logViews = new LogViews();
+  
+  // Who may run which slash command, per guild
+  const commandPermissions = new CommandPermissions({ storage, commands: slashCommands });
+  
+  // Two-way chat relay between Minecraft bots and the channels bound for chat
+  const chatBridge = new ChatBridge({
+    storage,
+    registry,
+    channels: discordChannels,
+    log: (instance, level, message) => addBotLog(instance, 'discord', level, message),
+  });
+  
+  // Pinned status message in the channels bound for status, edited in place
+  const liveStatus = new LiveStatus({ storage, registry, channels: discordChannels, resolver: addressResolver });
+  
+  // Alert rules for deaths, kicks, low health and reconnect give-ups
+  const alerts = new Alerts({
+    storage,
+    getClient: () => discordBot,
+    log: (botId, level, message) => addLog('discord', level, message, undefined, botId),
+  });
+  
+  lifecycle.on('giveUp', (giveUp: GiveUpEvent) => {
+    alerts.trigger('reconnect_failed', alertContext(registry.get(giveUp.botId), `Connection failed after ${giveUp.attempts} attempts: ${giveUp.message}`));
+  });
+  
+  // What an alert reports about a bot besides the reason
+  function alertContext(instance: BotInstance, reason: string, value?: number): AlertContext {
+    return {
+      botId: instance.id,
+      reason,
+      value,
+      position: instance.minecraftBot?.entity?.position ?? null,
+      recentChat: [...instance.recentChat],
+    };
+  }
+  
+  // Server power control (start/stop/status), configured on the Aternos page
+  let serverProvider: ServerProvider | null = null;
+  let serverProviderConfigKey = '';
+  
+  // Returns the provider for the saved settings, swapping it only while the server is down
+  async function getServerProvider(): Promise<ServerProvider> {
+    const config = await storage.getAternosConfig();
+    const key = serverProviderKey(config);
+    if (serverProvider && key !== serverProviderConfigKey) {
+      const state = await serverProvider.status();
+      if (state === 'offline' || state === 'unknown') {
+        serverProvider.dispose();
+        serverProvider = null;
+      }
+    }
+    if (!serverProvider) {
+      serverProvider = createServerProvider(config);
+      serverProviderConfigKey = key;
+      serverProvider.on('status', (state: ServerPowerState) => { onServerStatus(state); });
+      serverProvider.on('players', (players: ServerPlayers) => { onServerPlayers(players); });
+      serverProvider.on('crash', (crash: { code: number | null; output: string[] }) => {
+        addLog('system', 'error', `💥 Server process exited unexpectedly (code ${crash.code})`, crash.output.slice(-10).join('\n'));
+        discordChannels.notify('alert', `💥 Server process exited unexpectedly (code ${crash.code})`);
+      });
+    }
+    return serverProvider;
+  }
   
-  // Movement timing for natural player behavior
-  let movementStartTime = 0;
-  let movementTickInterval: NodeJS.Timeout | null = null;
-  let controllerSocketId: string | null = null;
+  const serverStatusMessages: Partial<Record<ServerPowerState, string>> = {
+    starting: '🔄 Server is starting...',
+    online: '✅ Server is online!',
+    stopping: '🛑 Server is stopping...',
+    offline: '📴 Server is offline',
+  };
   
-  // Global channel tracking for Discord features
-  let statusChannel: string | null = null;
-  let logChannel: string | null = null;
+  async function onServerStatus(state: ServerPowerState) {
+    try {
+      if (await storage.getAternosConfig()) {
+        await storage.updateAternosConfig({ serverStatus: state, ...(state === 'offline' ? { playerCount: '0/20' } : {}) });
+      }
+      await addLog('system', state === 'offline' ? 'warn' : 'info', serverStatusMessages[state] || `Server status: ${state}`);
+      if (io) io.emit('server_status', { status: state });
+      
+      // Let the bound Discord channels know about power changes
+      if (serverStatusMessages[state]) {
+        await discordChannels.notify('server_power', serverStatusMessages[state]);
+      }
+    } catch (error) {
+      console.log('Failed to record server status:', error.message);
+    }
+  }
   
-  // Goto session management
-  interface GotoSession {
-    targetPlayer: string;
-    initiator: string;
-    state: 'traveling' | 'awaiting_reply' | 'completed';
-    startTime: number;
-    timeoutId?: NodeJS.Timeout;
+  async function onServerPlayers(players: ServerPlayers) {
+    try {
+      if (await storage.getAternosConfig()) {
+        await storage.updateAternosConfig({ playerCount: `${players.online}/${players.max}` });
+      }
+      if (io) io.emit('server_players', players);
+    } catch (error) {
+      console.log('Failed to record server players:', error.message);
+    }
   }
   
-  const activeGotoSessions = new Map<string, GotoSession>();
+  // Resolve a bot by id or display name (case-insensitive)
+  async function findBotId(ref: string): Promise<string | null> {
+    const configs = await storage.getMinecraftConfigs();
+    const match = configs.find(config => config.id === ref)
+      || configs.find(config => config.name?.toLowerCase() === ref.toLowerCase());
+    return match ? match.id : null;
+  }
   
   // Helper functions for goto sessions
-  function cleanupGotoSession(sessionId: string) {
-    const session = activeGotoSessions.get(sessionId);
+  function cleanupGotoSession(instance: BotInstance, sessionId: string) {
+    const session = instance.activeGotoSessions.get(sessionId);
     if (session?.timeoutId) {
       clearTimeout(session.timeoutId);
     }
-    activeGotoSessions.delete(sessionId);
+    instance.activeGotoSessions.delete(sessionId);
   }
   
-  function createGotoSession(targetPlayer: string, initiator: string): string {
+  function createGotoSession(instance: BotInstance, targetPlayer: string, initiator: string): string {
     const sessionId = `${initiator}_${targetPlayer}_${Date.now()}`;
     const session: GotoSession = {
       targetPlayer,
@@ -83,38 +226,38 @@ export function createRoutes(storage: IStorage, io?: any) {
     
     // Auto-cleanup after 5 minutes
     session.timeoutId = setTimeout(() => {
-      cleanupGotoSession(sessionId);
+      cleanupGotoSession(instance, sessionId);
     }, 5 * 60 * 1000);
     
-    activeGotoSessions.set(sessionId, session);
+    instance.activeGotoSessions.set(sessionId, session);
     return sessionId;
   }
   
   // Goto command implementation
-  async function handleGotoCommand(targetPlayerName: string, initiator: string): Promise<{success: boolean, message: string}> {
-    if (!minecraftBot) {
+  async function handleGotoCommand(instance: BotInstance, targetPlayerName: string, initiator: string): Promise<{success: boolean, message: string}> {
+    if (!instance.minecraftBot) {
       return { success: false, message: 'Bot not connected to Minecraft server' };
     }
     
-    if (isManualControl) {
+    if (instance.isManualControl) {
       return { success: false, message: 'Cannot use goto while manual control is active' };
     }
     
     // Check if target player exists
-    const targetPlayer = minecraftBot.players[targetPlayerName];
+    const targetPlayer = instance.minecraftBot.players[targetPlayerName];
     if (!targetPlayer || !targetPlayer.entity) {
       return { success: false, message: `Player ${targetPlayerName} not found or not online` };
     }
     
     // Create goto session
-    const sessionId = createGotoSession(targetPlayerName, initiator);
+    const sessionId = createGotoSession(instance, targetPlayerName, initiator);
     
     try {
       // Clear any existing movement states
-      minecraftBot.clearControlStates();
+      instance.minecraftBot.clearControlStates();
       
       // Use pathfinder to go to the player
-      const { pathfinder } = minecraftBot;
+      const { pathfinder } = instance.minecraftBot;
       const targetPos = targetPlayer.entity.position;
       
       // Dynamically import goals for ES module compatibility
@@ -123,136 +266,324 @@ export function createRoutes(storage: IStorage, io?: any) {
       const goal = new goals.GoalNear(targetPos.x, targetPos.y, targetPos.z, 2);
       pathfinder.setGoal(goal);
       
-      await addLog('minecraft', 'info', `🎯 Started goto command: Moving to ${targetPlayerName}`);
+      await addBotLog(instance, 'minecraft', 'info', `🎯 Started goto command: Moving to ${targetPlayerName}`);
       
-      // Listen for goal reached - events are emitted on pathfinder, not bot
+      // Listen for goal reached - mineflayer-pathfinder emits its events on the bot
       const onGoalReached = () => {
-        const session = activeGotoSessions.get(sessionId);
+        const session = instance.activeGotoSessions.get(sessionId);
         if (session && session.state === 'traveling') {
           // 5% chance to initiate conversation
           if (Math.random() < 0.05) {
             session.state = 'awaiting_reply';
-            minecraftBot.chat(`hey ${targetPlayerName} do you love the server`);
-            addLog('minecraft', 'info', `💬 Initiated conversation with ${targetPlayerName}`);
+            instance.minecraftBot.chat(`hey ${targetPlayerName} do you love the server`);
+            addBotLog(instance, 'minecraft', 'info', `💬 Initiated conversation with ${targetPlayerName}`);
             
             // Set timeout for response (30 seconds)
             session.timeoutId = setTimeout(() => {
-              cleanupGotoSession(sessionId);
+              cleanupGotoSession(instance, sessionId);
             }, 30000);
           } else {
             // Just reached player, no conversation
-            cleanupGotoSession(sessionId);
-            addLog('minecraft', 'info', `✅ Reached ${targetPlayerName} silently`);
+            cleanupGotoSession(instance, sessionId);
+            addBotLog(instance, 'minecraft', 'info', `✅ Reached ${targetPlayerName} silently`);
           }
         }
       };
       
       const onGoalReset = () => {
-        const session = activeGotoSessions.get(sessionId);
+        const session = instance.activeGotoSessions.get(sessionId);
         // Only treat as failure if session is still in 'traveling' state
         // If it's 'awaiting_reply' or completed, this is a normal reset after success
         if (session && session.state === 'traveling') {
-          cleanupGotoSession(sessionId);
-          addLog('minecraft', 'warn', `❌ Failed to reach ${targetPlayerName} - goal reset`);
+          cleanupGotoSession(instance, sessionId);
+          addBotLog(instance, 'minecraft', 'warn', `❌ Failed to reach ${targetPlayerName} - goal reset`);
         }
       };
       
       // Path update handler to detect failures (noPath, timeout, etc.)
       const onPathUpdate = (results: any) => {
         if (results.status === 'noPath' || results.status === 'timeout') {
-          cleanupGotoSession(sessionId);
-          addLog('minecraft', 'warn', `❌ Failed to reach ${targetPlayerName} - ${results.status}`);
-          pathfinder.off('path_update', onPathUpdate); // Remove listener after firing
+          cleanupGotoSession(instance, sessionId);
+          addBotLog(instance, 'minecraft', 'warn', `❌ Failed to reach ${targetPlayerName} - ${results.status}`);
+          instance.minecraftBot?.off('path_update', onPathUpdate); // Remove listener after firing
         }
       };
       
       // Use pathfinder events with proper failure handling
-      pathfinder.once('goal_reached', onGoalReached);
-      pathfinder.once('goal_reset', onGoalReset); // Goal cleared (may be after success)
-      pathfinder.on('path_update', onPathUpdate); // Detect pathfinding failures
+      instance.minecraftBot.once('goal_reached', onGoalReached);
+      instance.minecraftBot.once('goal_updated', onGoalReset); // Goal replaced (may be after success)
+      instance.minecraftBot.on('path_update', onPathUpdate); // Detect pathfinding failures
       
       return { success: true, message: `Moving to ${targetPlayerName}...` };
       
     } catch (error) {
-      cleanupGotoSession(sessionId);
+      cleanupGotoSession(instance, sessionId);
       return { success: false, message: `Failed to move to ${targetPlayerName}: ${error.message}` };
     }
   }
   
-  // World snapshot for radar view
-  let worldSnapshot = {
-    bot: { pos: { x: 0, y: 0, z: 0 }, yaw: 0, health: 20, food: 20 },
-    entities: [] as any[],
-    lastUpdate: Date.now()
-  };
+  // PvP switch shared by the REST API and the Discord panel
+  async function setPvpEnabled(instance: BotInstance, enabled: boolean) {
+    instance.pvpEnabled = enabled;
+    if (!enabled) {
+      instance.pvpTarget = null;
+      instance.minecraftBot?.pvp?.stop();
+    }
+    
+    await addBotLog(instance, 'minecraft', 'info', `PvP mode ${enabled ? 'enabled' : 'disabled'}`);
+    
+    if (io) {
+      io.to(instance.room).emit('pvp_status', { enabled: instance.pvpEnabled, target: instance.pvpTarget });
+    }
+  }
   
-  // Control lock functions
-  function isControlLockValid() {
-    if (!controlLock.owner || !controlLock.lastHeartbeat) return false;
-    return Date.now() - controlLock.lastHeartbeat < controlLock.timeout;
+  // Releases every movement key and drops the pathfinding goal (e.g. a goto)
+  function stopMovement(instance: BotInstance) {
+    instance.resetMovementStates();
+    updateBotMovement(instance);
+    instance.minecraftBot?.pathfinder?.setGoal(null);
+  }
+  
+  // Eats the first food item in the inventory
+  async function eatFood(instance: BotInstance): Promise<{success: boolean, message: string}> {
+    const bot = instance.minecraftBot;
+    if (!bot?.entity) {
+      return { success: false, message: 'Bot not connected to Minecraft server' };
+    }
+    if (bot.food >= 20) {
+      return { success: false, message: 'Bot is not hungry' };
+    }
+    
+    const food = bot.inventory.items().find(item => isFood(item.name));
+    if (!food) {
+      return { success: false, message: 'No food in inventory' };
+    }
+    
+    try {
+      await bot.equip(food, 'hand');
+      await bot.consume();
+      await addBotLog(instance, 'minecraft', 'info', `🍖 Ate ${food.name}`);
+      if (io) io.to(instance.room).emit('inventory_updated');
+      return { success: true, message: `Ate ${food.displayName || food.name}` };
+    } catch (error) {
+      return { success: false, message: `Failed to eat ${food.name}: ${error.message}` };
+    }
+  }
+  
+  // Sets (or clears, without a username) the player PvP mode attacks
+  async function setPvpTarget(instance: BotInstance, username: string | null): Promise<BotActionResult> {
+    const bot = instance.minecraftBot;
+    if (!bot) {
+      return { success: false, status: 400, message: 'Bot not connected' };
+    }
+    
+    if (!username) {
+      instance.pvpTarget = null;
+      return { success: true, message: 'Target cleared' };
+    }
+    
+    const targetEntity = Object.values(bot.entities).find((entity: { username?: string }) => entity.username === username);
+    if (!targetEntity) {
+      return { success: false, status: 404, message: 'Target player not found' };
+    }
+    
+    instance.pvpTarget = username;
+    await addBotLog(instance, 'minecraft', 'info', `PvP target set to ${username}`);
+    
+    if (instance.pvpEnabled && bot.pvp) {
+      bot.pvp.attack(targetEntity);
+    }
+    
+    if (io) {
+      io.to(instance.room).emit('pvp_status', { enabled: instance.pvpEnabled, target: instance.pvpTarget });
+    }
+    
+    return { success: true, message: `PvP target set to ${username}` };
+  }
+  
+  // Drops count items from an inventory slot (the whole stack without a count)
+  async function dropItem(instance: BotInstance, slot: number, count?: number): Promise<BotActionResult> {
+    if (!instance.minecraftBot || !instance.minecraftBot.inventory) {
+      return { success: false, status: 400, message: 'Bot not connected' };
+    }
+    
+    if (slot === undefined) {
+      return { success: false, status: 400, message: 'Slot is required' };
+    }
+    
+    const item = instance.minecraftBot.inventory.slots[slot];
+    if (!item) {
+      return { success: false, status: 400, message: 'No item in specified slot' };
+    }
+    
+    const dropCount = Math.min(count || item.count, item.count);
+    
+    // Drop the item(s)
+    if (dropCount >= item.count) {
+      await instance.minecraftBot.tossStack(item);
+      await addBotLog(instance, 'minecraft', 'info', `Dropped all ${item.count} ${item.name} from slot ${slot}`);
+    } else {
+      await instance.minecraftBot.toss(item.type, null, dropCount);
+      await addBotLog(instance, 'minecraft', 'info', `Dropped ${dropCount} ${item.name} from slot ${slot}`);
+    }
+    
+    // Emit real-time update
+    if (io) {
+      io.to(instance.room).emit('inventory_updated');
+    }
+    
+    return { success: true, message: `Dropped ${dropCount} ${item.name}` };
+  }
+  
+  // Eats food until full, or equips and uses any other item
+  async function useItem(instance: BotInstance, slot: number): Promise<BotActionResult> {
+    if (!instance.minecraftBot || !instance.minecraftBot.inventory) {
+      return { success: false, status: 400, message: 'Bot not connected' };
+    }
+    
+    if (slot === undefined) {
+      return { success: false, status: 400, message: 'Slot is required' };
+    }
+    
+    const item = instance.minecraftBot.inventory.slots[slot];
+    if (!item) {
+      return { success: false, status: 400, message: 'No item in specified slot' };
+    }
+
+    const itemName = item.name || item.displayName || 'Unknown';
+    
+    // Check if item is food
+    if (isFood(itemName)) {
+      try {
+        // Equip the food item to hand
+        await instance.minecraftBot.equip(item, 'hand');
+        await addBotLog(instance, 'minecraft', 'info', `Equipped ${itemName} to hand`);
+        
+        // Start eating
+        await instance.minecraftBot.activateItem();
+        await addBotLog(instance, 'minecraft', 'info', `Started eating ${itemName}`);
+        
+        // Keep eating until food/health is full or item is consumed
+        const eatInterval = setInterval(async () => {
+          try {
+            if (!instance.minecraftBot || instance.minecraftBot.food >= 20 || instance.minecraftBot.health >= 20) {
+              clearInterval(eatInterval);
+              instance.minecraftBot.deactivateItem();
+              await addBotLog(instance, 'minecraft', 'info', 'Stopped eating - full or healthy');
+              return;
+            }
+            
+            // Check if we still have the food item
+            const currentItem = instance.minecraftBot.heldItem;
+            if (!currentItem || !isFood(currentItem.name || '')) {
+              clearInterval(eatInterval);
+              await addBotLog(instance, 'minecraft', 'info', 'Stopped eating - no food item in hand');
+              return;
+            }
+          } catch (error) {
+            clearInterval(eatInterval);
+            await addBotLog(instance, 'minecraft', 'error', `Error during eating: ${error.message}`);
+          }
+        }, 1000);
+        
+        // Auto-stop after 30 seconds to prevent infinite eating
+        setTimeout(() => {
+          clearInterval(eatInterval);
+          if (instance.minecraftBot) {
+            instance.minecraftBot.deactivateItem();
+          }
+        }, 30000);
+        
+      } catch (error) {
+        await addBotLog(instance, 'minecraft', 'error', `Failed to eat ${itemName}: ${error.message}`);
+      }
+    } else {
+      // For non-food items, just equip and use
+      try {
+        await instance.minecraftBot.equip(item, 'hand');
+        await instance.minecraftBot.activateItem();
+        await addBotLog(instance, 'minecraft', 'info', `Used ${itemName}`);
+        
+        // Deactivate after a short time
+        setTimeout(() => {
+          if (instance.minecraftBot) {
+            instance.minecraftBot.deactivateItem();
+          }
+        }, 2000);
+      } catch (error) {
+        await addBotLog(instance, 'minecraft', 'error', `Failed to use ${itemName}: ${error.message}`);
+      }
+    }
+
+    // Emit real-time update
+    if (io) {
+      io.to(instance.room).emit('inventory_updated');
+      io.to(instance.room).emit('bot_status_updated');
+    }
+    
+    return { success: true, message: `Used ${itemName}` };
   }
   
-  function releaseControlLock() {
-    controlLock.owner = null;
-    controlLock.ownerId = null;
-    controlLock.lastHeartbeat = null;
-    isManualControl = false;
-    controllerSocketId = null;
+  // Control lock functions
+  function releaseControlLock(instance: BotInstance) {
+    instance.controlLock.owner = null;
+    instance.controlLock.ownerId = null;
+    instance.controlLock.lastHeartbeat = null;
+    instance.isManualControl = false;
+    instance.controllerSocketId = null;
     
     // Stop movement tick
-    if (movementTickInterval) {
-      clearInterval(movementTickInterval);
-      movementTickInterval = null;
+    if (instance.movementTickInterval) {
+      clearInterval(instance.movementTickInterval);
+      instance.movementTickInterval = null;
     }
     
     // Reset all movement states
-    Object.keys(currentMovementStates).forEach(key => {
-      currentMovementStates[key] = false;
-    });
-    updateBotMovement();
+    instance.resetMovementStates();
+    updateBotMovement(instance);
     
     // Re-enable autonomous behavior if bot is connected
-    if (minecraftBot) {
+    if (instance.minecraftBot) {
       console.log('🤖 Re-enabling autonomous behavior');
       // Reset any manual overrides
     }
     
     if (io) {
-      io.emit('control_released');
+      io.to(instance.room).emit('control_released');
     }
   }
   
   // Server-authoritative movement tick for smooth player-like movement
-  function startMovementTick() {
-    if (movementTickInterval) {
-      clearInterval(movementTickInterval);
+  function startMovementTick(instance: BotInstance) {
+    if (instance.movementTickInterval) {
+      clearInterval(instance.movementTickInterval);
     }
     
-    movementTickInterval = setInterval(() => {
-      if (!minecraftBot || !isManualControl) return;
+    instance.movementTickInterval = setInterval(() => {
+      if (!instance.minecraftBot || !instance.isManualControl) return;
       
       try {
         // Handle sprint logic - auto-sprint when moving forward for >250ms
         const now = Date.now();
-        if (currentMovementStates.forward && !currentMovementStates.sneak) {
-          if (movementStartTime === 0) {
-            movementStartTime = now;
-          } else if (now - movementStartTime > 250 && !currentMovementStates.sprint) {
-            currentMovementStates.sprint = true;
+        if (instance.currentMovementStates.forward && !instance.currentMovementStates.sneak) {
+          if (instance.movementStartTime === 0) {
+            instance.movementStartTime = now;
+          } else if (now - instance.movementStartTime > 250 && !instance.currentMovementStates.sprint) {
+            instance.currentMovementStates.sprint = true;
           }
         } else {
-          movementStartTime = 0;
-          currentMovementStates.sprint = false;
+          instance.movementStartTime = 0;
+          instance.currentMovementStates.sprint = false;
         }
         
         // Apply all control states continuously for smooth movement
-        minecraftBot.setControlState('forward', currentMovementStates.forward);
-        minecraftBot.setControlState('back', currentMovementStates.back);
-        minecraftBot.setControlState('left', currentMovementStates.left);
-        minecraftBot.setControlState('right', currentMovementStates.right);
-        minecraftBot.setControlState('jump', currentMovementStates.jump);
-        minecraftBot.setControlState('sneak', currentMovementStates.sneak);
-        minecraftBot.setControlState('sprint', currentMovementStates.sprint);
+        instance.minecraftBot.setControlState('forward', instance.currentMovementStates.forward);
+        instance.minecraftBot.setControlState('back', instance.currentMovementStates.back);
+        instance.minecraftBot.setControlState('left', instance.currentMovementStates.left);
+        instance.minecraftBot.setControlState('right', instance.currentMovementStates.right);
+        instance.minecraftBot.setControlState('jump', instance.currentMovementStates.jump);
+        instance.minecraftBot.setControlState('sneak', instance.currentMovementStates.sneak);
+        instance.minecraftBot.setControlState('sprint', instance.currentMovementStates.sprint);
         
       } catch (error) {
         console.error('Movement tick error:', error);
@@ -260,15 +591,15 @@ export function createRoutes(storage: IStorage, io?: any) {
     }, 50); // 20 Hz for smooth movement
   }
   
-  function updateWorldSnapshot() {
-    if (!minecraftBot || !minecraftBot.entity) return;
+  function updateWorldSnapshot(instance: BotInstance) {
+    if (!instance.minecraftBot || !instance.minecraftBot.entity) return;
     
     try {
-      const entities = [];
+      const entities: EntitySummary[] = [];
       
       // Add nearby players
-      for (const [username, player] of Object.entries(minecraftBot.players)) {
-        if ((player as any).entity && username !== minecraftBot.username) {
+      for (const [username, player] of Object.entries(instance.minecraftBot.players)) {
+        if ((player as any).entity && username !== instance.minecraftBot.username) {
           const playerEntity = (player as any).entity;
           entities.push({
             id: username,
@@ -282,9 +613,9 @@ export function createRoutes(storage: IStorage, io?: any) {
       }
       
       // Add nearby entities (mobs, items)
-      for (const [id, entity] of Object.entries(minecraftBot.entities)) {
+      for (const [id, entity] of Object.entries(instance.minecraftBot.entities)) {
         const ent = entity as any;
-        if (ent.position && ent.name && ent.name !== minecraftBot.username) {
+        if (ent.position && ent.name && ent.name !== instance.minecraftBot.username) {
           entities.push({
             id: id,
             type: ent.type || 'unknown',
@@ -296,68 +627,142 @@ export function createRoutes(storage: IStorage, io?: any) {
         }
       }
       
-      worldSnapshot = {
+      instance.worldSnapshot = {
         bot: {
-          pos: minecraftBot.entity.position,
-          yaw: minecraftBot.entity.yaw,
-          health: minecraftBot.health,
-          food: minecraftBot.food
+          pos: instance.minecraftBot.entity.position,
+          yaw: instance.minecraftBot.entity.yaw,
+          health: instance.minecraftBot.health,
+          food: instance.minecraftBot.food
         },
         entities: entities.slice(0, 50), // Limit to 50 entities for performance
         lastUpdate: Date.now()
       };
       
-      // Emit to all connected clients (marked as volatile for performance)
+      // Emit to clients watching this bot (marked as volatile for performance)
       if (io) {
-        io.volatile.emit('world_snapshot', worldSnapshot);
+        io.to(instance.room).volatile.emit('world_snapshot', { botId: instance.id, ...instance.worldSnapshot });
       }
     } catch (error) {
       console.error('World snapshot error:', error);
     }
   }
   
+  // Same session cookie / bearer token as the REST API (token may also come in the handshake auth)
+  const authenticateSocket = async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token || tokenFromHeaders(socket.handshake.headers);
+      const user = await auth.authenticate(token);
+      if (!user) return next(new Error('Authentication required'));
+      socket.data.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+  
+  // Live log stream: sockets on /logs subscribe with the same filters as GET /api/logs
+  const logStream = io ? io.of('/logs') : null;
+  if (logStream) {
+    logStream.use(authenticateSocket);
+    
+    logStream.on('connection', (socket) => {
+      socket.data.logQuery = null;
+      
+      // Replies with the entries newer than `since` when given, so a reconnecting page can catch up
+      socket.on('logs_subscribe', async (params, ack) => {
+        const reply = typeof ack === 'function' ? ack : () => {};
+        const parsed = LogQuerySchema.omit({ cursor: true }).safeParse(params ?? {});
+        if (!parsed.success) {
+          return reply({ error: 'Invalid log query', details: parsed.error.issues });
+        }
+        
+        socket.data.logQuery = parsed.data;
+        try {
+          reply(parsed.data.since ? { backlog: await storage.queryLogs(parsed.data) } : {});
+        } catch (error) {
+          reply({ error: 'Failed to fetch log backlog', details: error.message });
+        }
+      });
+    });
+  }
+  
+  const publishLog = (entry: LogEntry) => {
+    if (!logStream) return;
+    for (const socket of logStream.sockets.values()) {
+      const query: LogQuery | null = socket.data.logQuery;
+      if (!query || !matchesLogScope(entry, query)) continue;
+      if (query.level?.length && !query.level.includes(entry.level)) continue;
+      socket.emit('log_entry', entry);
+    }
+  };
+  
   // Socket.IO event listeners for real-time control
   if (io) {
+    io.use(authenticateSocket);
+    
+    // Each socket controls the bot named in its handshake; like resolveBot for REST, only a
+    // configured bot gets an instance, anything else gets the default bot
+    io.use(async (socket, next) => {
+      try {
+        const requestedBotId = socket.handshake.query?.botId;
+        const botId = typeof requestedBotId === 'string' && isValidBotId(requestedBotId)
+          ? requestedBotId
+          : DEFAULT_BOT_ID;
+        socket.data.botId = botId === DEFAULT_BOT_ID || await storage.getMinecraftConfig(botId) ? botId : DEFAULT_BOT_ID;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
+    
     io.on('connection', (socket) => {
       console.log('🔌 Client connected to Socket.IO:', socket.id);
       
+      const instance = registry.get(socket.data.botId);
+      socket.join(instance.room);
+      
       // Send current world snapshot on connection
-      socket.emit('world_snapshot', worldSnapshot);
+      socket.emit('world_snapshot', { botId: instance.id, ...instance.worldSnapshot });
       socket.emit('control_status', {
-        locked: isControlLockValid(),
-        owner: controlLock.owner,
-        manual: isManualControl
+        locked: instance.isControlLockValid(),
+        owner: instance.controlLock.owner,
+        manual: instance.isManualControl
       });
       
       // Handle control requests
       socket.on('control_request', (data) => {
-        const { clientId } = data;
+        const user: PublicUser = socket.data.user;
+        if (!hasRole(user, 'operator')) {
+          socket.emit('control_denied', { reason: 'Viewers cannot take control of the bot' });
+          return;
+        }
+        const clientId = user.username || data?.clientId;
         
-        if (isControlLockValid() && controlLock.ownerId !== socket.id) {
+        if (instance.isControlLockValid() && instance.controlLock.ownerId !== socket.id) {
           socket.emit('control_denied', { reason: 'Control locked by another user' });
           return;
         }
         
-        controlLock.owner = clientId || socket.id;
-        controlLock.ownerId = socket.id;
-        controlLock.lastHeartbeat = Date.now();
-        isManualControl = true;
-        controllerSocketId = socket.id;
+        instance.controlLock.owner = clientId || socket.id;
+        instance.controlLock.ownerId = socket.id;
+        instance.controlLock.lastHeartbeat = Date.now();
+        instance.isManualControl = true;
+        instance.controllerSocketId = socket.id;
         
         // Disable autonomous behaviors for clean manual control
-        if (minecraftBot) {
+        if (instance.minecraftBot) {
           try {
             // Clear any existing pathfinder goals
-            if ((minecraftBot as any).pathfinder) {
-              (minecraftBot as any).pathfinder.setGoal(null);
+            if ((instance.minecraftBot as any).pathfinder) {
+              (instance.minecraftBot as any).pathfinder.setGoal(null);
             }
             // Stop any PvP activity
-            if ((minecraftBot as any).pvp) {
-              (minecraftBot as any).pvp.stop();
+            if ((instance.minecraftBot as any).pvp) {
+              (instance.minecraftBot as any).pvp.stop();
             }
             // Clear existing control states
-            Object.keys(currentMovementStates).forEach(key => {
-              minecraftBot.setControlState(key, false);
+            Object.keys(instance.currentMovementStates).forEach((key: ControlState) => {
+              instance.minecraftBot.setControlState(key, false);
             });
             console.log('🎮 Disabled autonomous behaviors for manual control');
           } catch (error) {
@@ -366,36 +771,36 @@ export function createRoutes(storage: IStorage, io?: any) {
         }
         
         // Start smooth movement tick
-        startMovementTick();
+        startMovementTick(instance);
         
         socket.emit('control_granted');
-        socket.broadcast.emit('control_status', {
+        socket.to(instance.room).emit('control_status', {
           locked: true,
-          owner: controlLock.owner,
-          manual: isManualControl
+          owner: instance.controlLock.owner,
+          manual: instance.isManualControl
         });
         
-        console.log(`🎮 Control granted to ${controlLock.owner}`);
+        console.log(`🎮 Control granted to ${instance.controlLock.owner}`);
       });
       
       // Handle control heartbeats
       socket.on('control_heartbeat', () => {
-        if (controlLock.ownerId === socket.id) {
-          controlLock.lastHeartbeat = Date.now();
+        if (instance.controlLock.ownerId === socket.id) {
+          instance.controlLock.lastHeartbeat = Date.now();
         }
       });
       
       // Handle control release
       socket.on('control_release', () => {
-        if (controlLock.ownerId === socket.id) {
-          console.log(`🎮 Control released by ${controlLock.owner}`);
-          releaseControlLock();
+        if (instance.controlLock.ownerId === socket.id) {
+          console.log(`🎮 Control released by ${instance.controlLock.owner}`);
+          releaseControlLock(instance);
         }
       });
       
       // Handle keys state updates for smooth movement (20Hz from client)
       socket.on('keys_state', (data) => {
-        if (!isControlLockValid() || controlLock.ownerId !== socket.id) {
+        if (!instance.isControlLockValid() || instance.controlLock.ownerId !== socket.id) {
           socket.emit('control_denied', { reason: 'No control lock' });
           return;
         }
@@ -403,45 +808,45 @@ export function createRoutes(storage: IStorage, io?: any) {
         // Update movement states - server tick will apply them continuously
         const { forward, back, left, right, jump, sneak } = data;
         
-        if (typeof forward === 'boolean') currentMovementStates.forward = forward;
-        if (typeof back === 'boolean') currentMovementStates.back = back;
-        if (typeof left === 'boolean') currentMovementStates.left = left;
-        if (typeof right === 'boolean') currentMovementStates.right = right;
-        if (typeof jump === 'boolean') currentMovementStates.jump = jump;
-        if (typeof sneak === 'boolean') currentMovementStates.sneak = sneak;
+        if (typeof forward === 'boolean') instance.currentMovementStates.forward = forward;
+        if (typeof back === 'boolean') instance.currentMovementStates.back = back;
+        if (typeof left === 'boolean') instance.currentMovementStates.left = left;
+        if (typeof right === 'boolean') instance.currentMovementStates.right = right;
+        if (typeof jump === 'boolean') instance.currentMovementStates.jump = jump;
+        if (typeof sneak === 'boolean') instance.currentMovementStates.sneak = sneak;
         
         // Movement tick will handle the actual bot control state updates
       });
       
       // Legacy movement_control support (for compatibility)
       socket.on('movement_control', (data) => {
-        if (!isControlLockValid() || controlLock.ownerId !== socket.id) {
+        if (!instance.isControlLockValid() || instance.controlLock.ownerId !== socket.id) {
           socket.emit('control_denied', { reason: 'No control lock' });
           return;
         }
         
         const { action, key, pressed } = data;
         
-        if (action === 'movement' && currentMovementStates.hasOwnProperty(key)) {
-          currentMovementStates[key] = pressed;
+        if (action === 'movement' && instance.currentMovementStates.hasOwnProperty(key)) {
+          instance.currentMovementStates[key] = pressed;
         }
       });
       
       // Handle look controls
       socket.on('look_delta', (data) => {
-        if (!isControlLockValid() || controlLock.ownerId !== socket.id || !minecraftBot) {
+        if (!instance.isControlLockValid() || instance.controlLock.ownerId !== socket.id || !instance.minecraftBot) {
           return;
         }
         
         const { deltaYaw, deltaPitch } = data;
-        botLook.yaw += deltaYaw;
-        botLook.pitch += deltaPitch;
+        instance.botLook.yaw += deltaYaw;
+        instance.botLook.pitch += deltaPitch;
         
         // Clamp pitch
-        botLook.pitch = Math.max(-Math.PI/2, Math.min(Math.PI/2, botLook.pitch));
+        instance.botLook.pitch = Math.max(-Math.PI/2, Math.min(Math.PI/2, instance.botLook.pitch));
         
         try {
-          minecraftBot.look(botLook.yaw, botLook.pitch);
+          instance.minecraftBot.look(instance.botLook.yaw, instance.botLook.pitch);
         } catch (error) {
           console.error('Look control error:', error);
         }
@@ -449,67 +854,69 @@ export function createRoutes(storage: IStorage, io?: any) {
       
       // Handle stop all movement
       socket.on('stop_all', () => {
-        if (!isControlLockValid() || controlLock.ownerId !== socket.id) {
+        if (!instance.isControlLockValid() || instance.controlLock.ownerId !== socket.id) {
           return;
         }
         
-        Object.keys(currentMovementStates).forEach(key => {
-          currentMovementStates[key] = false;
-        });
-        updateBotMovement();
+        instance.resetMovementStates();
+        updateBotMovement(instance);
       });
       
       socket.on('disconnect', () => {
         console.log('🔌 Client disconnected from Socket.IO:', socket.id);
         
         // Release control if this client had it
-        if (controlLock.ownerId === socket.id) {
+        if (instance.controlLock.ownerId === socket.id) {
           console.log(`🎮 Control auto-released due to disconnect`);
-          releaseControlLock();
+          releaseControlLock(instance);
         }
       });
     });
     
     // Periodic position updates during movement (optimized)
     setInterval(() => {
-      if (minecraftBot && minecraftBot.entity && Object.values(currentMovementStates).some(state => state)) {
-        io.volatile.emit('bot_position_update', minecraftBot.entity.position);
+      for (const instance of registry.list()) {
+        if (instance.minecraftBot && instance.minecraftBot.entity && Object.values(instance.currentMovementStates).some(state => state)) {
+          io.to(instance.room).volatile.emit('bot_position_update', instance.minecraftBot.entity.position);
+        }
       }
     }, 200); // Reduced to 5 Hz, marked as volatile
     
     // Periodic world snapshot updates (optimized to 5 Hz)
     setInterval(() => {
-      updateWorldSnapshot();
+      registry.list().forEach(updateWorldSnapshot);
     }, 200); // 5 times per second for better performance
     
     // Check control lock timeouts
     setInterval(() => {
-      if (controlLock.owner && !isControlLockValid()) {
-        console.log('🎮 Control lock expired, releasing');
-        releaseControlLock();
+      for (const instance of registry.list()) {
+        if (instance.controlLock.owner && !instance.isControlLockValid()) {
+          console.log(`🎮 Control lock expired for bot ${instance.id}, releasing`);
+          releaseControlLock(instance);
+        }
       }
     }, 5000); // Check every 5 seconds
   }
   
   // Function to update bot movement based on current states
-  function updateBotMovement() {
-    if (!minecraftBot) return;
+  function updateBotMovement(instance: BotInstance) {
+    if (!instance.minecraftBot) return;
     
     try {
       // Set control states on the bot
-      minecraftBot.setControlState('forward', currentMovementStates.forward);
-      minecraftBot.setControlState('back', currentMovementStates.back);
-      minecraftBot.setControlState('left', currentMovementStates.left);
-      minecraftBot.setControlState('right', currentMovementStates.right);
-      minecraftBot.setControlState('jump', currentMovementStates.jump);
-      minecraftBot.setControlState('sneak', currentMovementStates.sneak);
+      instance.minecraftBot.setControlState('forward', instance.currentMovementStates.forward);
+      instance.minecraftBot.setControlState('back', instance.currentMovementStates.back);
+      instance.minecraftBot.setControlState('left', instance.currentMovementStates.left);
+      instance.minecraftBot.setControlState('right', instance.currentMovementStates.right);
+      instance.minecraftBot.setControlState('jump', instance.currentMovementStates.jump);
+      instance.minecraftBot.setControlState('sneak', instance.currentMovementStates.sneak);
       
       // Emit position updates if there's movement
-      if (io && (currentMovementStates.forward || currentMovementStates.back || 
-                 currentMovementStates.left || currentMovementStates.right ||
-                 currentMovementStates.jump)) {
-        const position = minecraftBot.entity ? minecraftBot.entity.position : null;
-        io.emit('bot_position_update', position);
+      if (io && (instance.currentMovementStates.forward || instance.currentMovementStates.back || 
+                 instance.currentMovementStates.left || instance.currentMovementStates.right ||
+                 instance.currentMovementStates.jump)) {
+        const position = instance.minecraftBot.entity ? instance.minecraftBot.entity.position : null;
+        io.to(instance.room).emit('bot_position_update', position);
       }
     } catch (error) {
       console.error('Movement control error:', error);
@@ -563,76 +970,526 @@ export function createRoutes(storage: IStorage, io?: any) {
   }
 
   // Helper function to add logs
-  const addLog = async (type: 'discord' | 'minecraft' | 'system' | 'error', level: 'info' | 'warn' | 'error' | 'debug', message: string, details?: string) => {
-    await storage.addLog({
+  const addLog = async (type: 'discord' | 'minecraft' | 'system' | 'error', level: 'info' | 'warn' | 'error' | 'debug', message: string, details?: string, botId?: string) => {
+    const entry = await storage.addLog({
       type,
       level,
       message,
       details,
+      botId,
     });
+    publishLog(entry);
   };
 
-  // Discord Routes - NEVER return sensitive data like tokens
-  router.get('/api/discord/config', async (req, res) => {
+  // Helper function to add logs attributed to a specific bot
+  const addBotLog = (instance: BotInstance, type: 'discord' | 'minecraft' | 'system' | 'error', level: 'info' | 'warn' | 'error' | 'debug', message: string, details?: string) =>
+    addLog(type, level, message, details, instance.id);
+
+  // Slash command handlers get the bot actions and services they use, not the whole route closure
+  slashCommands.register(...createSlashCommands({
+    storage,
+    commands: slashCommands,
+    lifecycle,
+    channels: discordChannels,
+    liveStatus,
+    permissions: commandPermissions,
+    actions: { goto: handleGotoCommand, setPvpEnabled, setPvpTarget, dropItem, useItem },
+    logViews,
+    getServerProvider,
+    log: addLog,
+  }));
+
+  // Registers the slash commands per guild (instant) or globally (up to an hour), as configured
+  const deploySlashCommands = async () => {
+    if (!discordBot?.application) return;
     try {
       const config = await storage.getDiscordConfig();
-      if (!config) {
-        return res.json({ isConnected: false });
+      const result = await slashCommands.deploy(discordBot, config?.globalCommands ?? false);
+      const where = result.scope === 'global' ? 'globally' : `in ${result.guilds} server${result.guilds === 1 ? '' : 's'}`;
+      await addLog('discord', 'info', `✅ Slash commands registered ${where}`);
+      if (result.failed.length > 0) {
+        await addLog('discord', 'warn', `Failed to update slash commands in ${result.failed.length} server(s)`, `Guilds: ${result.failed.join(', ')}`);
+      }
+    } catch (error) {
+      await addLog('discord', 'error', `Failed to register slash commands: ${error.message}`);
+    }
+  };
+
+  // Slash commands and autocomplete go through the permission rules, then the bot they name
+  const commandDispatch: CommandDispatch = {
+    commands: slashCommands,
+    permissions: commandPermissions,
+    findBot: async (botRef) => {
+      const botId = botRef ? await findBotId(botRef) : DEFAULT_BOT_ID;
+      return botId ? registry.get(botId) : null;
+    },
+    log: (level, message, details) => addLog('discord', level, message, details),
+  };
+
+  const handleAutocomplete = async (interaction: AutocompleteInteraction) => {
+    try {
+      await dispatchAutocomplete(interaction, commandDispatch);
+    } catch (error) {
+      console.log('Discord autocomplete failed:', error.message);
+    }
+  };
+
+  // Runs one /panel button or menu action; the reply goes to the clicking user only
+  const runPanelAction = async (
+    interaction: ButtonInteraction | StringSelectMenuInteraction,
+    instance: BotInstance,
+    action: PanelAction
+  ): Promise<string | null> => {
+    const bot = instance.minecraftBot;
+    switch (action) {
+      case 'connect': {
+        if (bot) return '⚠️ Minecraft bot is already connected!';
+        const config = await storage.getMinecraftConfig(instance.id);
+        if (!config?.serverIP) return '❌ No Minecraft server configuration found. Please configure the server in the dashboard first.';
+        await interaction.followUp({ content: '🔄 Starting Minecraft bot connection...', flags: MessageFlags.Ephemeral });
+        const result = await lifecycle.connect(instance.id, config);
+        return result.success ? '✅ Minecraft bot connected!' : `❌ Connection failed: ${result.message}`;
+      }
+      case 'disconnect':
+        return disconnectReplies[await lifecycle.disconnect(instance.id)];
+      case 'respawn':
+        if (!bot?.entity) return '❌ Bot not connected to Minecraft server';
+        if (bot.health > 0) return 'ℹ️ Bot is alive, nothing to respawn';
+        bot.respawn();
+        return '💀 Respawning...';
+      case 'stop':
+        stopMovement(instance);
+        return '✋ All movement stopped';
+      case 'pvp':
+        if (!bot?.entity) return '❌ Bot not connected to Minecraft server';
+        await setPvpEnabled(instance, !instance.pvpEnabled);
+        return instance.pvpEnabled ? '⚔️ PvP mode enabled' : '🛡️ PvP mode disabled';
+      case 'eat': {
+        const result = await eatFood(instance);
+        return `${result.success ? '🍖' : '❌'} ${result.message}`;
       }
+      case 'goto': {
+        if (!interaction.isStringSelectMenu()) return null;
+        const result = await handleGotoCommand(instance, interaction.values[0], `discord:${interaction.user.tag}`);
+        return `${result.success ? '🎯' : '❌'} ${result.message}`;
+      }
+      default:
+        return null; // refresh only redraws the panel
+    }
+  };
+
+  // Panel clicks pass the same permission rules as the slash commands they stand for,
+  // and can't fight the dashboard user holding the control lock
+  const handlePanelInteraction = async (
+    interaction: ButtonInteraction | StringSelectMenuInteraction,
+    action: PanelAction,
+    botId: string
+  ) => {
+    const { user } = interaction;
+    const instance = registry.get(botId);
+    
+    try {
+      if (!await dispatchPanelPermission(interaction, action, commandDispatch)) return;
       
-      // Return only non-sensitive data
-      const safeConfig = {
-        isConnected: config.isConnected,
-        autoStart: config.autoStart,
-        logCommands: config.logCommands,
-        guildCount: config.guildCount,
-        commandsExecuted: config.commandsExecuted,
-        uptime: config.uptime,
-        lastConnected: config.lastConnected,
-        hasToken: !!config.token, // Show that token exists without revealing it
-      };
+      if (action !== 'refresh' && action !== 'connect' && await replyIfControlLocked(interaction, instance)) {
+        return;
+      }
       
-      res.json(safeConfig);
+      await interaction.deferUpdate();
+      const result = await runPanelAction(interaction, instance, action);
+      await interaction.editReply(buildPanelMessage(instance));
+      if (result) {
+        await interaction.followUp({ content: result, flags: MessageFlags.Ephemeral });
+      }
+      if (action !== 'refresh') {
+        await addBotLog(instance, 'discord', 'info', `🎛️ Panel ${action} by ${user.tag}`, result ?? undefined);
+      }
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get Discord config' });
+      console.error('Discord panel error:', error);
+      const content = `❌ An error occurred while running ${action}`;
+      if (interaction.deferred || interaction.replied) {
+        await interaction.followUp({ content, flags: MessageFlags.Ephemeral });
+      } else {
+        await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+      }
     }
-  });
+  };
 
-  router.post('/api/discord/connect', async (req, res) => {
+  // Paging buttons of an /inventory message; every page is read from the live inventory
+  const handleInventoryPage = async (interaction: ButtonInteraction, page: number, botId: string) => {
+    const { user, channelId } = interaction;
     try {
-      // SECURITY: Never log tokens or sensitive data
-      const { token, autoStart, logCommands } = req.body;
+      const permission = await commandPermissions.check(interaction, 'inventory');
+      if (!permission.allowed) {
+        await addLog('discord', 'warn', `🚫 Denied /inventory paging for ${user.tag}: ${permission.reason}`, `Guild: ${interaction.guildId ?? 'DM'}, channel: ${channelId}, user: ${user.id}`);
+        await interaction.reply({ content: `🚫 You can't use /inventory here (${permission.reason})`, flags: MessageFlags.Ephemeral });
+        return;
+      }
       
-      // Get existing config to check for stored token
-      const existingConfig = await storage.getDiscordConfig();
-      console.log('📦 Existing config hasToken:', !!existingConfig?.token);
-      const finalToken = token || existingConfig?.token;
+      const instance = registry.get(botId);
+      if (!instance.minecraftBot?.entity) {
+        await interaction.reply({ content: '❌ Minecraft bot is not connected', flags: MessageFlags.Ephemeral });
+        return;
+      }
+      await interaction.update(buildInventoryMessage(instance.minecraftBot, instance.id, page));
+    } catch (error) {
+      console.error('Discord inventory paging error:', error);
+      if (!interaction.replied) {
+        await interaction.reply({ content: '❌ An error occurred while loading the inventory', flags: MessageFlags.Ephemeral });
+      }
+    }
+  };
+
+  // Paging and export buttons of a /logs reply; pages are queried again, up to when /logs ran
+  const handleLogsButton = async (interaction: ButtonInteraction, action: LogsAction, viewId: string, page: number) => {
+    const { user, channelId } = interaction;
+    try {
+      const permission = await commandPermissions.check(interaction, 'logs');
+      if (!permission.allowed) {
+        await addLog('discord', 'warn', `🚫 Denied /logs ${action} for ${user.tag}: ${permission.reason}`, `Guild: ${interaction.guildId ?? 'DM'}, channel: ${channelId}, user: ${user.id}`);
+        await interaction.reply({ content: `🚫 You can't use /logs here (${permission.reason})`, flags: MessageFlags.Ephemeral });
+        return;
+      }
       
-      if (!finalToken) {
-        console.log('❌ No token available - new:', !!token, 'stored:', !!existingConfig?.token);
-        return res.status(400).json({ error: 'Discord bot token is required' });
+      const query = logViews.get(viewId);
+      if (!query) {
+        await interaction.reply({ content: '⌛ These results expired, run /logs again', flags: MessageFlags.Ephemeral });
+        return;
       }
       
-      console.log('✅ Using token for connection, length:', finalToken.length);
-
-      // Save token to storage FIRST (before attempting connection)
-      await storage.saveDiscordConfig({
-        token: finalToken,
-        isConnected: false, // Will be updated to true if connection succeeds
-        autoStart: autoStart !== undefined ? autoStart : existingConfig?.autoStart || false,
-        logCommands: logCommands !== undefined ? logCommands : existingConfig?.logCommands || true,
-        guildCount: existingConfig?.guildCount || 0,
-        commandsExecuted: existingConfig?.commandsExecuted || 0,
-        uptime: '0m',
-        lastConnected: existingConfig?.lastConnected,
+      const result = await storage.queryLogs(query);
+      if (action === 'page') {
+        await interaction.update(buildLogsMessage(result, query, viewId, page));
+        return;
+      }
+      await interaction.reply({
+        content: `📎 ${result.logs.length} log entr${result.logs.length === 1 ? 'y' : 'ies'}`,
+        files: [exportLogs(result.logs, action)],
+        flags: MessageFlags.Ephemeral,
       });
-      console.log('💾 Token saved to storage');
-
-      // Disconnect existing bot if any
-      if (discordBot) {
-        discordBot.destroy();
-        discordBot = null;
+      await addLog('discord', 'info', `📎 Logs exported as .${action} by ${user.tag}`, `${result.logs.length} entries`);
+    } catch (error) {
+      console.error('Discord logs button error:', error);
+      if (!interaction.replied) {
+        await interaction.reply({ content: '❌ An error occurred while loading the logs', flags: MessageFlags.Ephemeral });
       }
+    }
+  };
+
+  // GET responses never carry secret fields, whatever a route hands to res.json
+  router.use('/api', (req, res, next) => {
+    if (req.method === 'GET') {
+      const json = res.json.bind(res);
+      res.json = (body) => json(stripSecrets(body));
+    }
+    next();
+  });
+
+  // Auth routes - the only API routes reachable without signing in
+  router.get('/api/auth/status', async (req, res) => {
+    try {
+      const user = await auth.authenticate(tokenFromHeaders(req.headers));
+      res.json({ needsSetup: !(await auth.hasUsers()), user });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get auth status' });
+    }
+  });
+
+  // First-run setup: creates the initial admin while no users exist
+  router.post('/api/auth/setup', async (req, res) => {
+    try {
+      const { username, password } = req.body || {};
+      if (await auth.hasUsers()) {
+        return res.status(409).json({ error: 'Setup has already been completed' });
+      }
+      if (!username || typeof username !== 'string' || username.length < 3) {
+        return res.status(400).json({ error: 'Username must be at least 3 characters' });
+      }
+      if (!password || typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+      
+      await auth.createUser(username, password, 'admin');
+      const session = await auth.login(username, password);
+      await addLog('system', 'info', `🔐 Admin account "${username}" created`);
+      res.setHeader('Set-Cookie', sessionCookie(session.token));
+      res.status(201).json({ user: session.user, token: session.token });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to complete setup', details: error.message });
+    }
+  });
+
+  router.post('/api/auth/login', async (req, res) => {
+    try {
+      const { username, password } = req.body || {};
+      const session = typeof username === 'string' && typeof password === 'string'
+        ? await auth.login(username, password)
+        : null;
+      if (!session) {
+        await addLog('system', 'warn', `🔐 Failed login attempt for "${username}"`, `IP: ${req.ip}`);
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      
+      await addLog('system', 'info', `🔐 ${session.user.username} signed in`);
+      res.setHeader('Set-Cookie', sessionCookie(session.token));
+      res.json({ user: session.user, token: session.token });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to sign in', details: error.message });
+    }
+  });
+
+  router.post('/api/auth/logout', async (req, res) => {
+    try {
+      await auth.logout(tokenFromHeaders(req.headers));
+      res.setHeader('Set-Cookie', sessionCookie('', 0));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to sign out' });
+    }
+  });
+
+  // Everything below requires a signed-in user or API key; each route names its minimum role
+  // and, if scripts may call it, the API key scope that grants it
+  router.use('/api', authenticate(auth));
+
+  // Record every request made with an API key under the key's name
+  router.use('/api', (req, res, next) => {
+    if (res.locals.apiKey) {
+      addLog('system', 'debug', `🔑 API key "${res.locals.apiKey.name}" ${req.method} ${req.originalUrl}`).catch(() => {});
+    }
+    next();
+  });
+
+  router.post('/api/auth/password', requireRole('viewer'), async (req, res) => {
+    try {
+      const user: PublicUser = res.locals.user;
+      const { currentPassword, newPassword } = req.body || {};
+      const stored = await storage.getUser(user.id);
+      if (!stored || !(await verifyPassword(currentPassword || '', stored.passwordHash))) {
+        return res.status(400).json({ error: 'Current password is incorrect' });
+      }
+      if (!newPassword || newPassword.length < 8) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+      
+      await auth.setPassword(user.id, newPassword);
+      res.setHeader('Set-Cookie', sessionCookie('', 0));
+      res.json({ success: true, message: 'Password changed, please sign in again' });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to change password', details: error.message });
+    }
+  });
+
+  // User management (admin only)
+  router.get('/api/auth/users', requireRole('admin'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(({ passwordHash: _passwordHash, ...user }) => user));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list users' });
+    }
+  });
+
+  router.post('/api/auth/users', requireRole('admin'), async (req, res) => {
+    try {
+      const { username, password } = req.body || {};
+      const role = UserRoleSchema.safeParse(req.body?.role);
+      if (!username || typeof username !== 'string' || username.length < 3) {
+        return res.status(400).json({ error: 'Username must be at least 3 characters' });
+      }
+      if (!password || typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+      if (!role.success) {
+        return res.status(400).json({ error: 'Role must be viewer, operator or admin' });
+      }
+      
+      const user = await auth.createUser(username, password, role.data);
+      await addLog('system', 'info', `🔐 User "${username}" created with role ${role.data}`, `By: ${res.locals.user.username}`);
+      res.status(201).json(user);
+    } catch (error) {
+      res.status(400).json({ error: 'Failed to create user', details: error.message });
+    }
+  });
+
+  router.patch('/api/auth/users/:userId', requireRole('admin'), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const target = await storage.getUser(userId);
+      if (!target) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      if (req.body?.role !== undefined) {
+        const role = UserRoleSchema.safeParse(req.body.role);
+        if (!role.success) {
+          return res.status(400).json({ error: 'Role must be viewer, operator or admin' });
+        }
+        if (target.role === 'admin' && role.data !== 'admin' && !(await hasOtherAdmin(userId))) {
+          return res.status(400).json({ error: 'Cannot demote the last admin' });
+        }
+        await storage.updateUser(userId, { role: role.data });
+      }
+      if (req.body?.password !== undefined) {
+        if (typeof req.body.password !== 'string' || req.body.password.length < 8) {
+          return res.status(400).json({ error: 'Password must be at least 8 characters' });
+        }
+        await auth.setPassword(userId, req.body.password);
+      }
+      
+      await addLog('system', 'info', `🔐 User "${target.username}" updated`, `By: ${res.locals.user.username}`);
+      const { passwordHash: _passwordHash, ...user } = await storage.getUser(userId);
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update user', details: error.message });
+    }
+  });
+
+  router.delete('/api/auth/users/:userId', requireRole('admin'), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const target = await storage.getUser(userId);
+      if (!target) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (userId === res.locals.user.id) {
+        return res.status(400).json({ error: 'You cannot delete your own account' });
+      }
+      if (target.role === 'admin' && !(await hasOtherAdmin(userId))) {
+        return res.status(400).json({ error: 'Cannot delete the last admin' });
+      }
+      
+      await storage.deleteUser(userId);
+      await addLog('system', 'info', `🔐 User "${target.username}" deleted`, `By: ${res.locals.user.username}`);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete user', details: error.message });
+    }
+  });
+
+  router.get('/api/auth/keys', requireRole('admin'), async (req, res) => {
+    try {
+      const apiKeys = await storage.getApiKeys();
+      res.json(apiKeys.map(toPublicApiKey));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list API keys' });
+    }
+  });
+
+  router.post('/api/auth/keys', requireRole('admin'), async (req, res) => {
+    try {
+      const { name, expiresAt } = req.body || {};
+      const scopes = ApiKeyScopeSchema.array().min(1).safeParse(req.body?.scopes);
+      if (!name || typeof name !== 'string' || name.length > 64) {
+        return res.status(400).json({ error: 'Name is required (up to 64 characters)' });
+      }
+      if (!scopes.success) {
+        return res.status(400).json({ error: `Scopes must be one or more of ${ApiKeyScopeSchema.options.join(', ')}` });
+      }
+      if (expiresAt !== undefined && expiresAt !== null && !(new Date(expiresAt).getTime() > Date.now())) {
+        return res.status(400).json({ error: 'Expiry must be a date in the future' });
+      }
+      
+      const created = await auth.createApiKey(
+        name,
+        Array.from(new Set(scopes.data)),
+        res.locals.user.username,
+        expiresAt ? new Date(expiresAt).toISOString() : undefined
+      );
+      await addLog('system', 'info', `🔑 API key "${name}" created with ${created.apiKey.scopes.join(', ')}`, `By: ${res.locals.user.username}`);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create API key', details: error.message });
+    }
+  });
+
+  router.delete('/api/auth/keys/:keyId', requireRole('admin'), async (req, res) => {
+    try {
+      const apiKey = (await storage.getApiKeys()).find(key => key.id === req.params.keyId);
+      if (!apiKey || !(await storage.deleteApiKey(apiKey.id))) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      await addLog('system', 'info', `🔑 API key "${apiKey.name}" revoked`, `By: ${res.locals.user.username}`);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to revoke API key', details: error.message });
+    }
+  });
+
+  async function hasOtherAdmin(userId: string): Promise<boolean> {
+    const users = await storage.getUsers();
+    return users.some(user => user.role === 'admin' && user.id !== userId);
+  }
+
+  // Discord Routes - NEVER return sensitive data like tokens
+  router.get('/api/discord/config', requireRole('viewer'), async (req, res) => {
+    try {
+      const config = await storage.getDiscordConfig();
+      if (!config) {
+        return res.json({ isConnected: false });
+      }
+      
+      // Return only non-sensitive data
+      const safeConfig = {
+        isConnected: config.isConnected,
+        autoStart: config.autoStart,
+        logCommands: config.logCommands,
+        guildCount: config.guildCount,
+        commandsExecuted: config.commandsExecuted,
+        uptime: config.uptime,
+        lastConnected: config.lastConnected,
+        hasToken: !!config.token, // Show that token exists without revealing it
+        chatBridge: ChatBridgeConfigSchema.parse(config.chatBridge ?? {}),
+        statusInterval: DiscordBotConfigSchema.shape.statusInterval.parse(config.statusInterval),
+        globalCommands: config.globalCommands ?? false,
+      };
+      
+      res.json(safeConfig);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get Discord config' });
+    }
+  });
+
+  router.post('/api/discord/connect', requireRole('admin'), async (req, res) => {
+    try {
+      // SECURITY: Never log tokens or sensitive data
+      const { token, autoStart, logCommands } = req.body;
+      
+      // Get existing config to check for stored token
+      const existingConfig = await storage.getDiscordConfig();
+      console.log('📦 Existing config hasToken:', !!existingConfig?.token);
+      const finalToken = token || existingConfig?.token;
+      
+      if (!finalToken) {
+        console.log('❌ No token available - new:', !!token, 'stored:', !!existingConfig?.token);
+        return res.status(400).json({ error: 'Discord bot token is required' });
+      }
+      
+      console.log('✅ Using token for connection, length:', finalToken.length);
+
+      // Save token to storage FIRST (before attempting connection)
+      await storage.saveDiscordConfig({
+        token: finalToken,
+        isConnected: false, // Will be updated to true if connection succeeds
+        autoStart: autoStart !== undefined ? autoStart : existingConfig?.autoStart || false,
+        logCommands: logCommands !== undefined ? logCommands : existingConfig?.logCommands || true,
+        guildCount: existingConfig?.guildCount || 0,
+        commandsExecuted: existingConfig?.commandsExecuted || 0,
+        uptime: '0m',
+        lastConnected: existingConfig?.lastConnected,
+        chatBridge: existingConfig?.chatBridge,
+        statusInterval: existingConfig?.statusInterval,
+        globalCommands: existingConfig?.globalCommands,
+      });
+      console.log('💾 Token saved to storage');
+
+      // Disconnect existing bot if any
+      if (discordBot) {
+        liveStatus.stop();
+        discordBot.destroy();
+        discordBot = null;
+      }
+      chatBridge.reset();
 
       // Create new Discord client with basic intents
       discordBot = new Client({
@@ -643,89 +1500,13 @@ export function createRoutes(storage: IStorage, io?: any) {
         ]
       });
 
-      // Discord bot slash command definitions
-      const commands = [
-        {
-          name: 'setup',
-          description: 'Configure current channel for live status monitoring'
-        },
-        {
-          name: 'log',
-          description: 'Set current channel to receive all Minecraft chat and events'
-        },
-        {
-          name: 'logs',
-          description: 'Set current channel to receive all Minecraft chat and events (alias)'
-        },
-        {
-          name: 'start',
-          description: 'Start the Minecraft bot connection'
-        },
-        {
-          name: 'close',
-          description: 'Stop the Minecraft bot'
-        },
-        {
-          name: 'restart',
-          description: 'Restart the Minecraft bot connection'
-        },
-        {
-          name: 'status',
-          description: 'Display current bot status'
-        },
-        {
-          name: 'inventory',
-          description: 'Display bot\'s current inventory'
-        },
-        {
-          name: 'inv',
-          description: 'Display bot\'s current inventory (alias)'
-        },
-        {
-          name: 'command',
-          description: 'Execute a Minecraft command',
-          options: [
-            {
-              name: 'cmd',
-              type: 3, // STRING
-              description: 'The Minecraft command to execute',
-              required: true
-            }
-          ]
-        },
-        {
-          name: 'startserver',
-          description: 'Start the Aternos Minecraft server'
-        },
-        {
-          name: 'stopserver',
-          description: 'Stop the Aternos Minecraft server'
-        },
-        {
-          name: 'restartserver',
-          description: 'Restart the Aternos Minecraft server'
-        },
-        {
-          name: 'website',
-          description: 'Show the AFKSRBot website link'
-        }
-      ];
-
       // Setup event handlers
       discordBot.on('ready', async () => {
         if (!discordBot?.user) return;
         
         await addLog('discord', 'info', `🤖 Discord bot logged in as ${discordBot.user.tag}`);
         
-        // Register slash commands for all guilds
-        try {
-          if (discordBot.application) {
-            await discordBot.application.commands.set(commands);
-            await addLog('discord', 'info', '✅ Slash commands registered successfully');
-          }
-        } catch (error) {
-          await addLog('discord', 'error', `Failed to register slash commands: ${error.message}`);
-        }
+        await deploySlashCommands();
         
         // Update config with successful connection status
         const config = await storage.updateDiscordConfig({
@@ -742,322 +1523,49 @@ export function createRoutes(storage: IStorage, io?: any) {
           totalUptime: '0m',
         });
         
-        // Start periodic status updates
-        const statusUpdateInterval = setInterval(async () => {
-          if (!discordBot || !statusChannel) return;
-          
-          try {
-            const channel = await discordBot.channels.fetch(statusChannel);
-            if (!channel || !channel.isTextBased() || !('send' in channel)) return;
-            
-            const minecraftConfig = await storage.getMinecraftConfig();
-            const botStatus = await storage.getBotStatus();
-            
-            const statusEmbed = {
-              title: '🤖 AFKsrbot Live Status',
-              fields: [
-                {
-                  name: '🎮 Minecraft Bot',
-                  value: minecraftBot ? '🟢 Online & Active' : '🔴 Offline',
-                  inline: true
-                },
-                {
-                  name: '❤️ Health',
-                  value: minecraftBot ? `${minecraftBot.health || 0}/20` : '0/20',
-                  inline: true
-                },
-                {
-                  name: '🍖 Food',
-                  value: minecraftBot ? `${minecraftBot.food || 0}/20` : '0/20',
-                  inline: true
-                }
-              ],
-              color: minecraftBot ? 0x00ff00 : 0xff0000,
-              timestamp: new Date().toISOString(),
-              footer: { text: 'Updates every 30 seconds' }
-            };
-            
-            if (minecraftBot && minecraftBot.entity) {
-              const pos = minecraftBot.entity.position;
-              statusEmbed.fields.push({
-                name: '📍 Position',
-                value: `X: ${Math.floor(pos.x)}, Y: ${Math.floor(pos.y)}, Z: ${Math.floor(pos.z)}`,
-                inline: true
-              });
-              
-              if (minecraftConfig?.playersOnline) {
-                statusEmbed.fields.push({
-                  name: '👥 Players',
-                  value: minecraftConfig.playersOnline,
-                  inline: true
-                });
-              }
-            }
-            
-            await channel.send({ embeds: [statusEmbed] });
-          } catch (error) {
-            console.log('Status update failed:', error.message);
-          }
-        }, 30000); // Every 30 seconds
-        
-        // Store the interval for cleanup
-        discordBot.statusInterval = statusUpdateInterval;
+        // Keep the pinned status message in every channel bound for status up to date
+        await liveStatus.start();
       });
 
       
+      // Servers the bot joins get the guild commands right away
+      discordBot.on('guildCreate', async (guild) => {
+        try {
+          const config = await storage.getDiscordConfig();
+          if (!config?.globalCommands) await guild.commands.set(slashCommands.definitions());
+          await addLog('discord', 'info', `📥 Joined server ${guild.name}`);
+        } catch (error) {
+          await addLog('discord', 'error', `Failed to register slash commands in ${guild.name}: ${error.message}`);
+        }
+      });
+      
       // Handle slash command interactions
       discordBot.on('interactionCreate', async (interaction) => {
+        if (interaction.isAutocomplete()) {
+          await handleAutocomplete(interaction);
+          return;
+        }
+        if (interaction.isButton() || interaction.isStringSelectMenu()) {
+          const panel = parsePanelCustomId(interaction.customId);
+          const inventoryPage = parseInventoryCustomId(interaction.customId);
+          const logsButton = parseLogsCustomId(interaction.customId);
+          if (panel) {
+            await handlePanelInteraction(interaction, panel.action, panel.botId);
+          } else if (inventoryPage && interaction.isButton()) {
+            await handleInventoryPage(interaction, inventoryPage.page, inventoryPage.botId);
+          } else if (logsButton && interaction.isButton()) {
+            await handleLogsButton(interaction, logsButton.action, logsButton.viewId, logsButton.page);
+          }
+          return;
+        }
         if (!interaction.isChatInputCommand()) return;
         
-        const { commandName, user, channelId } = interaction;
+        const { commandName, user } = interaction;
         
         await addLog('discord', 'info', `Slash command: /${commandName}`, `From: ${user.tag}`);
         
         try {
-          switch (commandName) {
-            case 'setup':
-              statusChannel = channelId;
-              await interaction.reply('✅ This channel is now configured for live status monitoring!');
-              break;
-              
-            case 'log':
-            case 'logs':
-              logChannel = channelId;
-              await interaction.reply('✅ This channel will now receive all Minecraft chat and events!');
-              break;
-              
-            case 'start':
-              if (minecraftBot) {
-                await interaction.reply('⚠️ Minecraft bot is already connected!');
-                return;
-              }
-              
-              const mcConfig = await storage.getMinecraftConfig();
-              if (!mcConfig || !mcConfig.serverIP) {
-                await interaction.reply('❌ No Minecraft server configuration found. Please configure the server in the dashboard first.');
-                return;
-              }
-              
-              await interaction.reply('🔄 Starting Minecraft bot connection...');
-              // The bot connection logic would need to be extracted into a reusable function
-              break;
-              
-            case 'close':
-              if (!minecraftBot) {
-                await interaction.reply('⚠️ Minecraft bot is not connected!');
-                return;
-              }
-              
-              minecraftBot.quit();
-              minecraftBot = null;
-              await storage.updateMinecraftConfig({ isConnected: false });
-              await interaction.reply('✅ Minecraft bot disconnected!');
-              break;
-              
-            case 'restart':
-              if (minecraftBot) {
-                minecraftBot.quit();
-                minecraftBot = null;
-              }
-              await interaction.reply('🔄 Restarting Minecraft bot...');
-              // Restart logic would go here
-              break;
-              
-            case 'status':
-              const discordConfig = await storage.getDiscordConfig();
-              const minecraftConfig = await storage.getMinecraftConfig();
-              const botStatus = await storage.getBotStatus();
-              
-              const embed = {
-                title: '🤖 AFKsrbot Status',
-                fields: [
-                  {
-                    name: '📱 Discord Bot',
-                    value: discordConfig?.isConnected ? '🟢 Connected' : '🔴 Disconnected',
-                    inline: true
-                  },
-                  {
-                    name: '🎮 Minecraft Bot',
-                    value: minecraftConfig?.isConnected ? '🟢 Connected' : '🔴 Disconnected',
-                    inline: true
-                  },
-                  {
-                    name: '⏱️ Uptime',
-                    value: botStatus?.totalUptime || '0m',
-                    inline: true
-                  }
-                ],
-                color: 0x00ff00,
-                timestamp: new Date().toISOString()
-              };
-              
-              if (minecraftConfig?.isConnected) {
-                embed.fields.push(
-                  {
-                    name: '🏠 Server',
-                    value: `${minecraftConfig.serverIP}:${minecraftConfig.serverPort}`,
-                    inline: true
-                  },
-                  {
-                    name: '👥 Players Online',
-                    value: minecraftConfig.playersOnline || '0/100',
-                    inline: true
-                  },
-                  {
-                    name: '❤️ Bot Health',
-                    value: minecraftBot ? `${minecraftBot.health || 0}/20` : '0/20',
-                    inline: true
-                  }
-                );
-              }
-              
-              await interaction.reply({ embeds: [embed] });
-              break;
-              
-            case 'inventory':
-            case 'inv':
-              const inventory = await storage.getInventory();
-              
-              if (inventory.length === 0) {
-                await interaction.reply('🎒 Bot inventory is empty');
-                return;
-              }
-              
-              const inventoryEmbed = {
-                title: '🎒 Bot Inventory',
-                description: inventory.map(item => `${item.name}: ${item.count}`).join('\n'),
-                color: 0x8B4513,
-                timestamp: new Date().toISOString()
-              };
-              
-              await interaction.reply({ embeds: [inventoryEmbed] });
-              break;
-              
-            case 'command':
-              if (!minecraftBot) {
-                await interaction.reply('❌ Minecraft bot is not connected');
-                return;
-              }
-              
-              const command = interaction.options.getString('cmd');
-              if (!command) {
-                await interaction.reply('❌ Please provide a command to execute');
-                return;
-              }
-              
-              try {
-                minecraftBot.chat(`/${command}`);
-                await interaction.reply(`✅ Executed command: \`/${command}\``);
-                await addLog('minecraft', 'info', `Command executed: /${command}`, `Via Discord by ${user.tag}`);
-                
-                // Log command execution to Discord log channel if configured
-                if (logChannel && discordBot) {
-                  try {
-                    const channel = await discordBot.channels.fetch(logChannel);
-                    if (channel && channel.isTextBased() && 'send' in channel) {
-                      await channel.send(`🎮 **Command Executed**: \`/${command}\` (by ${user.tag})`);
-                    }
-                  } catch (err) {
-                    console.log('Failed to send command log to Discord:', err.message);
-                  }
-                }
-              } catch (error) {
-                await interaction.reply('❌ Failed to execute command');
-                await addLog('error', 'error', `Failed to execute command: ${command}`, error.message);
-              }
-              break;
-              
-            case 'startserver':
-              try {
-                // For now, simulate Aternos server start
-                await interaction.reply('🔄 Starting Aternos server... This may take a few minutes.');
-                await addLog('system', 'info', 'Aternos server start requested via Discord command', `By user: ${user.tag}`);
-                
-                // TODO: Implement actual Aternos API integration
-                setTimeout(async () => {
-                  if (logChannel) {
-                    const channel = await discordBot.channels.fetch(logChannel);
-                    if (channel && 'send' in channel) {
-                      await channel.send('✅ Aternos server started successfully!');
-                    }
-                  }
-                }, 3000);
-              } catch (error) {
-                await interaction.reply('❌ Failed to start Aternos server');
-                await addLog('error', 'error', 'Failed to start Aternos server', error.message);
-              }
-              break;
-              
-            case 'stopserver':
-              try {
-                await interaction.reply('🛑 Stopping Aternos server...');
-                await addLog('system', 'info', 'Aternos server stop requested via Discord command', `By user: ${user.tag}`);
-                
-                // TODO: Implement actual Aternos API integration
-                setTimeout(async () => {
-                  if (logChannel) {
-                    const channel = await discordBot.channels.fetch(logChannel);
-                    if (channel && 'send' in channel) {
-                      await channel.send('🛑 Aternos server stopped successfully!');
-                    }
-                  }
-                }, 2000);
-              } catch (error) {
-                await interaction.reply('❌ Failed to stop Aternos server');
-                await addLog('error', 'error', 'Failed to stop Aternos server', error.message);
-              }
-              break;
-              
-            case 'restartserver':
-              try {
-                await interaction.reply('🔄 Restarting Aternos server... This may take a few minutes.');
-                await addLog('system', 'info', 'Aternos server restart requested via Discord command', `By user: ${user.tag}`);
-                
-                // TODO: Implement actual Aternos API integration
-                setTimeout(async () => {
-                  if (logChannel) {
-                    const channel = await discordBot.channels.fetch(logChannel);
-                    if (channel && 'send' in channel) {
-                      await channel.send('🔄 Aternos server restarted successfully!');
-                    }
-                  }
-                }, 5000);
-              } catch (error) {
-                await interaction.reply('❌ Failed to restart Aternos server');
-                await addLog('error', 'error', 'Failed to restart Aternos server', error.message);
-              }
-              break;
-              
-            case 'website':
-              const websiteEmbed = {
-                title: '🌐 AFKSRBot Website',
-                description: 'Visit our official website for more information about AFKSRBot!',
-                url: process.env.REPLIT_DOMAIN || 'https://afksrbot-dashboard.replit.app',
-                color: 0x5865F2,
-                fields: [
-                  {
-                    name: '🎮 Features',
-                    value: '• 24/7 AFK bot for Minecraft\n• Discord integration\n• Aternos server control\n• Live monitoring dashboard',
-                    inline: false
-                  },
-                  {
-                    name: '📱 Dashboard',
-                    value: `[Open Dashboard](${process.env.REPLIT_DOMAIN || 'https://afksrbot-dashboard.replit.app'})`,
-                    inline: true
-                  }
-                ],
-                footer: {
-                  text: 'AFKSRBot - Your Minecraft companion'
-                },
-                timestamp: new Date().toISOString()
-              };
-              
-              await interaction.reply({ embeds: [websiteEmbed] });
-              break;
-              
-            default:
-              await interaction.reply('❓ Unknown command');
-          }
+          if (!await dispatchCommand(interaction, commandDispatch)) return;
           
           // Update command count
           const currentConfig = await storage.getDiscordConfig();
@@ -1075,6 +1583,15 @@ export function createRoutes(storage: IStorage, io?: any) {
         }
       });
 
+      // Chat typed in the bridged channel goes to Minecraft
+      discordBot.on('messageCreate', async (message) => {
+        try {
+          await chatBridge.relayToMinecraft(message);
+        } catch (error) {
+          console.log('Failed to relay chat to Minecraft:', error.message);
+        }
+      });
+
       discordBot.on('error', async (error) => {
         await addLog('discord', 'error', `Discord bot error: ${error.message}`);
         console.error('Discord bot error:', error);
@@ -1097,12 +1614,12 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.patch('/api/discord/config', async (req, res) => {
+  router.patch('/api/discord/config', requireRole('admin'), async (req, res) => {
     try {
       const updates = req.body;
       
       // Only allow specific fields to be updated
-      const allowedUpdates = ['autoStart', 'logCommands'];
+      const allowedUpdates = ['autoStart', 'logCommands', 'chatBridge', 'statusInterval', 'globalCommands'];
       const filteredUpdates: any = {};
       
       for (const key of allowedUpdates) {
@@ -1119,9 +1636,40 @@ export function createRoutes(storage: IStorage, io?: any) {
       if (!currentConfig) {
         return res.status(404).json({ error: 'Discord config not found' });
       }
+      
+      // Bridge settings are merged, so the dashboard can send one switch at a time
+      if (filteredUpdates.chatBridge !== undefined) {
+        const parsed = ChatBridgeConfigSchema.safeParse({ ...currentConfig.chatBridge, ...filteredUpdates.chatBridge });
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid chat bridge settings', details: parsed.error.issues });
+        }
+        filteredUpdates.chatBridge = parsed.data;
+      }
+      
+      if (filteredUpdates.statusInterval !== undefined) {
+        const parsed = DiscordBotConfigSchema.shape.statusInterval.safeParse(filteredUpdates.statusInterval);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Status refresh interval must be 10 to 3600 seconds', details: parsed.error.issues });
+        }
+        filteredUpdates.statusInterval = parsed.data;
+      }
+
+      if (filteredUpdates.globalCommands !== undefined && typeof filteredUpdates.globalCommands !== 'boolean') {
+        return res.status(400).json({ error: 'Global commands must be true or false' });
+      }
 
       const updatedConfig = await storage.updateDiscordConfig(filteredUpdates);
       
+      // A new refresh interval takes effect right away
+      if (filteredUpdates.statusInterval !== undefined && liveStatus.running) {
+        await liveStatus.start();
+      }
+      
+      // Moving the commands between guild and global scope re-registers them
+      if (filteredUpdates.globalCommands !== undefined && filteredUpdates.globalCommands !== currentConfig.globalCommands) {
+        await deploySlashCommands();
+      }
+      
       // Return only non-sensitive data
       const safeConfig = {
         isConnected: updatedConfig.isConnected,
@@ -1132,6 +1680,9 @@ export function createRoutes(storage: IStorage, io?: any) {
         uptime: updatedConfig.uptime,
         lastConnected: updatedConfig.lastConnected,
         hasToken: !!updatedConfig.token,
+        chatBridge: ChatBridgeConfigSchema.parse(updatedConfig.chatBridge ?? {}),
+        statusInterval: DiscordBotConfigSchema.shape.statusInterval.parse(updatedConfig.statusInterval),
+        globalCommands: updatedConfig.globalCommands ?? false,
       };
       
       res.json(safeConfig);
@@ -1140,14 +1691,154 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/discord/disconnect', async (req, res) => {
+  // Discord channel bindings made with /setup and /log
+  router.get('/api/discord/channels', requireRole('viewer'), async (req, res) => {
+    try {
+      const bindings = await discordChannels.list();
+      const guildNames = new Map(discordBot?.guilds.cache.map(guild => [guild.id, guild.name]) ?? []);
+      res.json(bindings.map(binding => ({
+        ...binding,
+        guildName: guildNames.get(binding.guildId) ?? null,
+        channelName: (discordBot?.channels.cache.get(binding.channelId) as { name?: string } | undefined)?.name ?? null,
+      })));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get channel bindings', details: error.message });
+    }
+  });
+
+  router.delete('/api/discord/channels/:bindingId', requireRole('admin'), async (req, res) => {
+    try {
+      if (!await storage.deleteChannelBinding(req.params.bindingId)) {
+        return res.status(404).json({ error: 'Channel binding not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove channel binding', details: error.message });
+    }
+  });
+
+  // Guilds of the Discord bot with their roles and text channels, for the rule pickers
+  const guildOptions = () => discordBot?.guilds.cache.map(guild => ({
+    id: guild.id,
+    name: guild.name,
+    roles: guild.roles.cache
+      .filter(role => !role.managed)
+      .sort((a, b) => b.position - a.position)
+      .map(role => ({ id: role.id, name: role.id === guild.id ? '@everyone' : role.name })),
+    channels: guild.channels.cache
+      .filter(channel => channel.isTextBased())
+      .map(channel => ({ id: channel.id, name: channel.name })),
+  })) ?? [];
+
+  // Slash command permission rules, with the roles and channels of every guild to pick from
+  router.get('/api/discord/permissions', requireRole('viewer'), async (req, res) => {
+    try {
+      const rules = await commandPermissions.list();
+      res.json({
+        rules,
+        commands: slashCommands.names().sort(),
+        restricted: slashCommands.restricted(),
+        guilds: guildOptions(),
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get command permissions', details: error.message });
+    }
+  });
+
+  // Replaces the rule for a guild and command; empty lists remove it
+  router.put('/api/discord/permissions', requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = insertCommandPermissionSchema.omit({ updatedBy: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid permission rule', details: parsed.error.issues });
+      }
+      const { guildId, command, roleIds = [], userIds = [], channelIds = [] } = parsed.data;
+      const rule = await commandPermissions.save(guildId, command, { roleIds, userIds, channelIds }, res.locals.user?.username);
+      await addLog('discord', 'info', `🔐 Permission rule for /${command} ${rule ? 'updated' : 'removed'}`, `By: ${res.locals.user?.username ?? 'API'}`);
+      res.json({ rule });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save command permission', details: error.message });
+    }
+  });
+
+  router.delete('/api/discord/permissions/:ruleId', requireRole('admin'), async (req, res) => {
+    try {
+      if (!await storage.deleteCommandPermission(req.params.ruleId)) {
+        return res.status(404).json({ error: 'Permission rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove command permission', details: error.message });
+    }
+  });
+
+  // Alert rules: Discord messages for deaths, kicks, low health and reconnect give-ups
+  router.get('/api/discord/alerts', requireRole('viewer'), async (req, res) => {
+    try {
+      res.json({ rules: await storage.getAlertRules(), guilds: guildOptions() });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get alert rules', details: error.message });
+    }
+  });
+
+  const parseAlertRule = (body: unknown) => {
+    const parsed = insertAlertRuleSchema.omit({ createdBy: true }).safeParse(body);
+    if (!parsed.success) return { error: 'Invalid alert rule', details: parsed.error.issues };
+    const problem = alertRuleProblem(parsed.data);
+    if (problem) return { error: problem };
+    // Fields left out are cleared rather than kept from the old rule
+    const rule: InsertAlertRule = { botId: undefined, threshold: undefined, channelId: undefined, ...parsed.data };
+    if (rule.destination !== 'role') rule.channelId = undefined;
+    return { rule };
+  };
+
+  router.post('/api/discord/alerts', requireRole('admin'), async (req, res) => {
+    try {
+      const { rule, error, details } = parseAlertRule(req.body);
+      if (error) {
+        return res.status(400).json({ error, details });
+      }
+      const created = await storage.createAlertRule({ ...rule, createdBy: res.locals.user?.username });
+      await addLog('discord', 'info', `🚨 Alert rule for ${created.event} created`, `By: ${res.locals.user?.username ?? 'API'}`);
+      res.json({ rule: created });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create alert rule', details: error.message });
+    }
+  });
+
+  router.put('/api/discord/alerts/:ruleId', requireRole('admin'), async (req, res) => {
+    try {
+      const existing = (await storage.getAlertRules()).find(rule => rule.id === req.params.ruleId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      const { rule, error, details } = parseAlertRule(req.body);
+      if (error) {
+        return res.status(400).json({ error, details });
+      }
+      const updated = await storage.updateAlertRule(existing.id, rule);
+      await addLog('discord', 'info', `🚨 Alert rule for ${updated.event} updated`, `By: ${res.locals.user?.username ?? 'API'}`);
+      res.json({ rule: updated });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update alert rule', details: error.message });
+    }
+  });
+
+  router.delete('/api/discord/alerts/:ruleId', requireRole('admin'), async (req, res) => {
+    try {
+      if (!await storage.deleteAlertRule(req.params.ruleId)) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove alert rule', details: error.message });
+    }
+  });
+
+  router.post('/api/discord/disconnect', requireRole('operator'), async (req, res) => {
     try {
       if (discordBot) {
-        // Clear status update interval
-        if (discordBot.statusInterval) {
-          clearInterval(discordBot.statusInterval);
-        }
-        
+        liveStatus.stop();
         discordBot.destroy();
         discordBot = null;
         
@@ -1169,16 +1860,124 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
+  // Fill in defaults for a bot that has no stored config yet
+  const withDefaultMinecraftConfig = (updates: Partial<InsertMinecraftServerConfig>): InsertMinecraftServerConfig => ({
+    name: updates.name,
+    serverIP: updates.serverIP || '127.0.0.1',
+    serverPort: updates.serverPort || '25565',
+    username: updates.username || '',
+    password: updates.password,
+    shouldRegister: updates.shouldRegister || false,
+    auth: updates.auth || 'offline',
+    version: updates.version || DEFAULT_VERSION,
+    platform: updates.platform || 'java',
+    proxyType: updates.proxyType || 'none',
+    proxyHost: updates.proxyHost,
+    proxyPort: updates.proxyPort,
+    proxyUsername: updates.proxyUsername,
+    proxyPassword: updates.proxyPassword,
+    autoReconnect: updates.autoReconnect !== undefined ? updates.autoReconnect : true,
+    mode24_7: updates.mode24_7 !== undefined ? updates.mode24_7 : true,
+    useWhitelist: updates.useWhitelist || false,
+    isConnected: false, // Don't change connection status when just saving settings
+    ping: 'N/A',
+    uptime: 'N/A',
+    playersOnline: '0/0',
+  });
+
+  // Bot registry summary - NEVER includes passwords
+  const toBotSummary = (botId: string, config: MinecraftServerConfig | null) => {
+    const instance = registry.get(botId);
+    return {
+      id: botId,
+      name: config?.name || config?.username || (botId === DEFAULT_BOT_ID ? 'Main bot' : botId),
+      serverIP: config?.serverIP || '',
+      serverPort: config?.serverPort || '',
+      username: config?.username || '',
+      isConnected: !!(instance.minecraftBot && instance.minecraftBot.entity),
+      controlLocked: instance.isControlLockValid(),
+      isDefault: botId === DEFAULT_BOT_ID,
+    };
+  };
+
+  // Bot registry routes
+  router.get('/api/bots', requireRole('viewer', 'status:read'), async (req, res) => {
+    try {
+      const configs = await storage.getMinecraftConfigs();
+      const bots = configs.map(config => toBotSummary(config.id, config));
+      
+      // The default bot always exists so legacy routes keep working
+      if (!configs.some(config => config.id === DEFAULT_BOT_ID)) {
+        bots.unshift(toBotSummary(DEFAULT_BOT_ID, null));
+      }
+      
+      res.json(bots);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list bots' });
+    }
+  });
+
+  router.post('/api/bots', requireRole('admin'), async (req, res) => {
+    try {
+      const settings = insertMinecraftServerConfigSchema.partial().parse(req.body);
+      const botId = generateBotId(settings.name);
+      const config = await storage.saveMinecraftConfig(withDefaultMinecraftConfig(settings), botId);
+      
+      await addLog('system', 'info', `🤖 Bot "${config.name || botId}" added`, undefined, botId);
+      res.status(201).json(toBotSummary(botId, config));
+    } catch (error) {
+      res.status(400).json({ error: 'Failed to add bot', details: error.message });
+    }
+  });
+
+  router.delete('/api/bots/:botId', requireRole('admin'), async (req, res) => {
+    try {
+      const { botId } = req.params;
+      
+      if (botId === DEFAULT_BOT_ID) {
+        return res.status(400).json({ error: 'The default bot cannot be removed' });
+      }
+      if (!(await storage.getMinecraftConfig(botId))) {
+        return res.status(404).json({ error: `Bot ${botId} not found` });
+      }
+      
+      // Stop everything the bot is doing before forgetting it
+      const instance = registry.get(botId);
+      if (instance.reconnectTimeout) {
+        clearTimeout(instance.reconnectTimeout);
+        instance.reconnectTimeout = null;
+      }
+      if (instance.controlLock.owner) {
+        releaseControlLock(instance);
+      }
+      if (instance.minecraftBot) {
+        instance.minecraftBot.quit();
+        instance.minecraftBot = null;
+      }
+      registry.remove(botId);
+      
+      await storage.deleteMinecraftConfig(botId);
+      await microsoftAuth.logout(botId);
+      await storage.clearLogs(undefined, botId);
+      await addLog('system', 'info', `🗑️ Bot ${botId} removed`);
+      
+      res.json({ success: true, message: `Bot ${botId} removed` });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove bot', details: error.message });
+    }
+  });
+
   // Minecraft Routes - NEVER return sensitive data like passwords
-  router.get('/api/minecraft/config', async (req, res) => {
+  botRouter.get('/minecraft/config', requireRole('viewer'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      const config = await storage.getMinecraftConfig();
+      const config = await storage.getMinecraftConfig(instance.id);
       if (!config) {
         return res.json({ isConnected: false });
       }
       
       // Check if bot is actually connected (not just stored config)
-      const actuallyConnected = !!(minecraftBot && minecraftBot.entity);
+      const actuallyConnected = !!(instance.minecraftBot && instance.minecraftBot.entity);
       
       // Update stored config if it doesn't match reality
       if (actuallyConnected !== config.isConnected) {
@@ -1187,18 +1986,27 @@ export function createRoutes(storage: IStorage, io?: any) {
           ping: actuallyConnected ? config.ping : 'N/A',
           uptime: actuallyConnected ? config.uptime : 'N/A', 
           playersOnline: actuallyConnected ? config.playersOnline : '0/0'
-        });
+        }, instance.id);
       }
       
       // Return only non-sensitive data with actual connection state
       const safeConfig = {
+        id: config.id,
+        name: config.name,
         serverIP: config.serverIP,
         serverPort: config.serverPort,
         username: config.username,
         // NEVER return password
+        hasPassword: !!config.password,
         shouldRegister: config.shouldRegister,
+        auth: config.auth || 'offline',
         version: config.version,
         platform: config.platform,
+        proxyType: config.proxyType || 'none',
+        proxyHost: config.proxyHost,
+        proxyPort: config.proxyPort,
+        proxyUsername: config.proxyUsername,
+        hasProxyPassword: !!config.proxyPassword,
         autoReconnect: config.autoReconnect,
         mode24_7: config.mode24_7,
         useWhitelist: config.useWhitelist,
@@ -1215,30 +2023,43 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
+  // Microsoft sign-in state: the device code while a login waits, the profile once signed in
+  // Operators only: whoever sees the device code can sign the bot's account in
+  botRouter.get('/auth/microsoft', requireRole('operator'), async (req, res) => {
+    try {
+      res.json(await microsoftAuth.status(botOf(res).id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get Microsoft sign-in status', details: error.message });
+    }
+  });
+
+  // Forget the cached Microsoft tokens; the next connect asks for a device code again
+  botRouter.delete('/auth/microsoft', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
+    try {
+      await microsoftAuth.logout(instance.id);
+      await addBotLog(instance, 'minecraft', 'info', '🔑 Signed out of Microsoft');
+      const status = await microsoftAuth.status(instance.id);
+      await emitMicrosoftAuth(instance, status);
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to sign out of Microsoft', details: error.message });
+    }
+  });
+
   // PATCH endpoint to save minecraft settings without connecting
-  router.patch('/api/minecraft/config', async (req, res) => {
+  botRouter.patch('/minecraft/config', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const updates = insertMinecraftServerConfigSchema.partial().parse(req.body);
       
       // Get existing config
-      const existingConfig = await storage.getMinecraftConfig();
+      const existingConfig = await storage.getMinecraftConfig(instance.id);
       
       let updatedConfig;
       if (!existingConfig) {
         // Create new config if none exists
-        updatedConfig = {
-          serverIP: updates.serverIP || '127.0.0.1',
-          serverPort: updates.serverPort || '25565',
-          username: updates.username || '',
-          password: updates.password,
-          shouldRegister: updates.shouldRegister || false,
-          version: updates.version || '1.20.4',
-          platform: updates.platform || 'java',
-          autoReconnect: updates.autoReconnect !== undefined ? updates.autoReconnect : true,
-          mode24_7: updates.mode24_7 !== undefined ? updates.mode24_7 : true,
-          useWhitelist: updates.useWhitelist || false,
-          isConnected: false, // Don't change connection status when just saving settings
-        };
+        updatedConfig = withDefaultMinecraftConfig(updates);
       } else {
         // Update existing config, preserving password if not provided
         updatedConfig = {
@@ -1246,6 +2067,7 @@ export function createRoutes(storage: IStorage, io?: any) {
           ...updates,
           // CRITICAL: Preserve existing password if undefined (prevent auto-save wipe)
           password: updates.password !== undefined ? updates.password : existingConfig.password,
+          proxyPassword: updates.proxyPassword !== undefined ? updates.proxyPassword : existingConfig.proxyPassword,
           // Don't change connection status when just saving settings
           isConnected: existingConfig.isConnected,
         };
@@ -1268,166 +2090,232 @@ export function createRoutes(storage: IStorage, io?: any) {
       }
       
       // Save the config since changes were detected
-      await storage.saveMinecraftConfig(updatedConfig);
+      await storage.saveMinecraftConfig(updatedConfig, instance.id);
       
       // Only log if not an auto-save to reduce spam
       if (!(updates as any).__autoSave) {
-        await addLog('minecraft', 'info', '💾 Server configuration saved');
+        await addBotLog(instance, 'minecraft', 'info', '💾 Server configuration saved');
       }
       
       res.json({ success: true, message: 'Settings saved successfully' });
       
     } catch (error) {
-      await addLog('minecraft', 'error', `Failed to save settings: ${error.message}`);
+      await addBotLog(instance, 'minecraft', 'error', `Failed to save settings: ${error.message}`);
       res.status(500).json({ error: 'Failed to save settings', details: error.message });
     }
   });
 
-  // Add server ping/status check endpoint
-  router.get('/api/minecraft/ping/:serverIP/:serverPort', async (req, res) => {
+  // Server List Ping of any address: MOTD, version, players and latency
+  botRouter.get('/minecraft/ping/:serverIP/:serverPort', requireRole('viewer', 'status:read'), async (req, res) => {
+    const instance = botOf(res);
+    const { serverIP, serverPort } = req.params;
+    
+    let address: ResolvedAddress;
     try {
-      const { serverIP, serverPort } = req.params;
-      const { Socket } = await import('node:net');
-      
-      await addLog('minecraft', 'info', `🔍 Checking server status: ${serverIP}:${serverPort}`);
-      
-      const socket = new Socket();
-      let isConnectable = false;
-      let connectionResult = 'offline';
-      let errorDetails = '';
-      
-      socket.setTimeout(5000); // 5 second timeout
-      
-      const connectionPromise = new Promise((resolve) => {
-        socket.on('connect', () => {
-          isConnectable = true;
-          connectionResult = 'online';
-          socket.destroy();
-          resolve('connected');
-        });
-        
-        socket.on('timeout', () => {
-          errorDetails = 'Connection timeout (5s)';
-          socket.destroy();
-          resolve('timeout');
-        });
-        
-        socket.on('error', (err) => {
-          errorDetails = err.message;
-          socket.destroy();
-          resolve('error');
-        });
-        
-        try {
-          socket.connect(parseInt(serverPort), serverIP);
-        } catch (err) {
-          errorDetails = err.message;
-          resolve('error');
-        }
-      });
-      
-      await connectionPromise;
-      
-      const status = isConnectable ? 'online' : 'offline';
-      const message = isConnectable 
-        ? `📡 Server ${serverIP}:${serverPort} is online and accepting connections`
-        : `📴 Server ${serverIP}:${serverPort} is offline or unreachable${errorDetails ? ` (${errorDetails})` : ''}`;
-      
-      await addLog('minecraft', isConnectable ? 'info' : 'warn', message);
+      address = await addressResolver.resolve(serverIP, serverPort);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid server address', details: error.message });
+    }
+    await addBotLog(instance, 'minecraft', 'info', `🔍 Checking server status: ${address.display}${address.srv ? ` (SRV record ${address.srv})` : ''}`);
+    
+    try {
+      const server = await pingServer(address.host, address.port, proxyPingOptions(await storage.getMinecraftConfig(instance.id)));
+      const message = `📡 Server ${address.display} is online (${describeServerStatus(server)})`;
+      await addBotLog(instance, 'minecraft', 'info', message);
+      res.json({ status: 'online', isOnline: true, serverIP: address.host, serverPort: address.port, message, errorDetails: '', server });
+    } catch (error) {
+      const message = error instanceof ProxyError
+        ? `🧦 Couldn't ping ${address.display} through the proxy (${error.message})`
+        : `📴 Server ${address.display} is offline or unreachable (${error.message})`;
+      await addBotLog(instance, 'minecraft', 'warn', message);
+      res.json({ status: 'offline', isOnline: false, serverIP: address.host, serverPort: address.port, message, errorDetails: error.message, server: null });
+    }
+  });
+
+  // Where an address typed in the server settings would connect to, checked before connecting
+  botRouter.get('/minecraft/resolve', requireRole('viewer', 'status:read'), async (req, res) => {
+    try {
+      const address = await addressResolver.resolve(String(req.query.serverIP ?? ''), String(req.query.serverPort ?? ''));
+      res.json({ valid: true, error: null, ...address });
+    } catch (error) {
+      if (error instanceof AddressError) {
+        return res.json({ valid: false, error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to resolve server address', details: error.message });
+    }
+  });
+
+  // Server List Ping of the bot's configured server, polled by the dashboard (not logged)
+  botRouter.get('/minecraft/status', requireRole('viewer', 'status:read'), async (req, res) => {
+    const instance = botOf(res);
+    const offline = (address: string | null, error: string) =>
+      res.json({ online: false, address, error, server: null, match: null, supportedVersions: supportedRange() });
+    try {
+      const config = await storage.getMinecraftConfig(instance.id);
+      if (!config?.serverIP) return offline(null, 'No server configured');
       
-      res.json({ 
-        status, 
-        isOnline: isConnectable,
-        serverIP,
-        serverPort: parseInt(serverPort),
-        message,
-        errorDetails
-      });
+      let address: ResolvedAddress;
+      try {
+        address = await addressResolver.resolve(config.serverIP, config.serverPort);
+      } catch (error) {
+        return offline(config.serverIP.trim(), error.message);
+      }
+      try {
+        instance.serverStatus = await pingServer(address.host, address.port, proxyPingOptions(config));
+        res.json({
+          online: true,
+          address: address.display,
+          error: null,
+          server: instance.serverStatus,
+          match: matchServerVersion(instance.serverStatus),
+          supportedVersions: supportedRange(),
+        });
+      } catch (error) {
+        offline(address.display, error.message);
+      }
     } catch (error) {
-      const errorMsg = `Failed to ping server: ${error.message}`;
-      await addLog('minecraft', 'error', errorMsg);
-      res.json({ 
-        status: 'error', 
-        isOnline: false,
-        serverIP: req.params.serverIP,
-        serverPort: parseInt(req.params.serverPort),
-        message: errorMsg,
-        errorDetails: error.message
-      });
+      res.status(500).json({ error: 'Failed to ping server', details: error.message });
     }
   });
 
-  // Global variables for connection management
-  let connectionAttempts = 0;
-  let maxRetries = 5;
-  let reconnectTimeout: NodeJS.Timeout | null = null;
-  let isReconnecting = false;
+  // "3/20", with the slot count from the last ping of the bot's server
+  const playerCount = (instance: BotInstance): string =>
+    `${Object.keys(instance.minecraftBot?.players ?? {}).length}/${instance.serverStatus?.playersMax ?? '?'}`;
+
+  // When the server is down and auto-start is on, start it and wait until the port answers
+  const autoStartServer = async (
+    instance: BotInstance,
+    host: string,
+    port: number,
+    pingOptions: PingOptions,
+    onProgress: (stage: LifecycleStage, message: string) => Promise<void>
+  ): Promise<boolean> => {
+    const aternosConfig = await storage.getAternosConfig();
+    const providerConfigured = aternosConfig?.provider === 'mock' || !!aternosConfig?.localCommand;
+    if (!aternosConfig?.autoStart || !providerConfigured) return false;
+    
+    const provider = await getServerProvider();
+    const state = await provider.status();
+    if (state === 'offline' || state === 'unknown') {
+      await addBotLog(instance, 'minecraft', 'info', `🖥️ Server is offline, auto-starting it via the ${provider.name} provider...`);
+      try {
+        await provider.start();
+      } catch (error) {
+        await addBotLog(instance, 'minecraft', 'error', `Failed to auto-start server: ${error.message}`);
+        return false;
+      }
+    } else {
+      await addBotLog(instance, 'minecraft', 'info', `🖥️ Server is ${state}, waiting for it to come online...`);
+    }
+    
+    const timeoutSeconds = aternosConfig.autoStartTimeout || 300;
+    await onProgress('server', `Starting the server, waiting up to ${timeoutSeconds}s for it to come online...`);
+    
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    let lastReport = Date.now();
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      
+      try {
+        instance.serverStatus = await pingServer(host, port, pingOptions);
+        await addBotLog(instance, 'minecraft', 'info', `✅ Server ${formatAddress(host, port)} is up after auto-start (${describeServerStatus(instance.serverStatus)})`);
+        return true;
+      } catch {
+        // Not answering yet
+      }
+      
+      // Stop waiting if the provider gave up (e.g. the process crashed too often)
+      if (await provider.status() === 'offline') {
+        await addBotLog(instance, 'minecraft', 'error', '❌ Server stopped while waiting for it to come online');
+        return false;
+      }
+      
+      if (Date.now() - lastReport >= 30000) {
+        lastReport = Date.now();
+        const remaining = Math.round((deadline - Date.now()) / 1000);
+        await addBotLog(instance, 'minecraft', 'info', `⏳ Still waiting for ${formatAddress(host, port)} to come online (${remaining}s left)...`);
+      }
+    }
+    
+    await addBotLog(instance, 'minecraft', 'error', `⏱️ Server did not come online within ${timeoutSeconds}s after auto-start`);
+    return false;
+  };
 
   // Helper function to connect/reconnect to Minecraft server
-  const connectToMinecraftServer = async (config: any, isRetry = false, retryCount = 0): Promise<{ success: boolean; message: string; shouldRetry?: boolean }> => {
-    try {
-      // Smart hostname parsing
-      let serverHost = config.serverIP;
-      let serverPort = config.serverPort;
-      
-      if (serverHost.includes(':')) {
-        const parts = serverHost.split(':');
-        if (parts.length === 2 && !isNaN(parseInt(parts[1]))) {
-          serverHost = parts[0];
-          serverPort = parts[1];
-          await addLog('minecraft', 'info', `Parsed server address: ${serverHost}:${serverPort}`);
-        }
+  const connectToMinecraftServer = async (
+    instance: BotInstance,
+    config: any,
+    isRetry = false,
+    retryCount = 0,
+    onProgress: (stage: LifecycleStage, message: string) => Promise<void> = async () => {}
+  ): Promise<{ success: boolean; message: string; shouldRetry?: boolean }> => {
+    try {
+      // Resolve the address first: validation, bracketed IPv6 and _minecraft._tcp SRV records
+      let address: ResolvedAddress;
+      try {
+        address = await addressResolver.resolve(config.serverIP, config.serverPort);
+      } catch (error) {
+        await addBotLog(instance, 'minecraft', 'error', `🧭 Invalid server address: ${error.message}`);
+        return { success: false, message: error.message, shouldRetry: false };
+      }
+      const { host: serverHost, port: serverPort, display: serverAddress } = address;
+      if (address.srv) {
+        await addBotLog(instance, 'minecraft', 'info', `🧭 ${config.serverIP.trim()} points to ${serverAddress} (SRV record ${address.srv})`);
+      } else {
+        await addBotLog(instance, 'minecraft', 'info', `🧭 Server address: ${serverAddress}`);
+      }
+
+      // The ping and the game connection both go out through the bot's proxy, if it has one
+      let proxy: ProxySettings | null;
+      try {
+        proxy = proxyFromConfig(config);
+      } catch (error) {
+        await addBotLog(instance, 'minecraft', 'error', `🧦 ${error.message}`);
+        return { success: false, message: error.message, shouldRetry: false };
+      }
+      const pingOptions = proxyPingOptions(config);
+      if (proxy) {
+        await addBotLog(instance, 'minecraft', 'info', `🧦 Connecting through ${describeProxy(proxy)}`);
       }
 
       // Check server connectivity with multiple attempts
-      await addLog('minecraft', 'info', `🔍 ${isRetry ? `Retry ${retryCount}:` : ''} Checking server connectivity...`);
+      await addBotLog(instance, 'minecraft', 'info', `🔍 ${isRetry ? `Retry ${retryCount}:` : ''} Checking server connectivity...`);
+      await onProgress('ping', `Pinging ${serverAddress}...`);
       
       let serverOnline = false;
+      let proxyError: ProxyError | null = null;
       for (let pingAttempt = 0; pingAttempt < 3; pingAttempt++) {
         try {
-          const { Socket } = await import('node:net');
-          const socket = new Socket();
-          
-          const pingResult = await new Promise((resolve) => {
-            socket.setTimeout(5000); // Increased timeout
-            
-            socket.on('connect', () => {
-              socket.destroy();
-              resolve('online');
-            });
-            
-            socket.on('timeout', () => {
-              socket.destroy();
-              resolve('timeout');
-            });
-            
-            socket.on('error', () => {
-              socket.destroy();
-              resolve('offline');
-            });
-            
-            socket.connect(parseInt(serverPort), serverHost);
-          });
-          
-          if (pingResult === 'online') {
-            serverOnline = true;
-            await addLog('minecraft', 'info', `✅ Server ${serverHost}:${serverPort} is online and reachable`);
-            break;
-          } else if (pingAttempt < 2) {
-            await addLog('minecraft', 'warn', `Ping attempt ${pingAttempt + 1} failed (${pingResult}), retrying...`);
-            await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
-          }
+          instance.serverStatus = await pingServer(serverHost, serverPort, pingOptions);
+          serverOnline = true;
+          proxyError = null;
+          await addBotLog(instance, 'minecraft', 'info', `✅ Server ${serverAddress} is online (${describeServerStatus(instance.serverStatus)})`);
+          break;
         } catch (pingError) {
+          proxyError = pingError instanceof ProxyError ? pingError : null;
+          // Wrong proxy credentials won't fix themselves
+          if (proxyError && !proxyError.retryable) break;
           if (pingAttempt < 2) {
-            await addLog('minecraft', 'warn', `Ping attempt ${pingAttempt + 1} error: ${pingError.message}, retrying...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
+            await addBotLog(instance, 'minecraft', 'warn', `Ping attempt ${pingAttempt + 1} failed (${pingError.message}), retrying...`);
+            await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
           }
         }
       }
       
+      // A broken proxy isn't the server being down, so don't try to start it
+      if (proxyError) {
+        await addBotLog(instance, 'minecraft', 'error', `🧦 Proxy error: ${proxyError.message}`, `kind: ${proxyError.kind}`);
+        return { success: false, message: proxyError.message, shouldRetry: proxyError.retryable };
+      }
+
+      // Start the server through its provider if auto-start is enabled
+      if (!serverOnline) {
+        serverOnline = await autoStartServer(instance, serverHost, serverPort, pingOptions, onProgress);
+      }
+      
       if (!serverOnline) {
-        const message = `Server ${serverHost}:${serverPort} is offline or unreachable. ${isRetry ? 'Retrying in 30 seconds...' : 'Will retry automatically.'}`;
-        await addLog('minecraft', 'error', `📴 ${message}`);
+        const message = `Server ${serverAddress} is offline or unreachable. ${isRetry ? 'Retrying in 30 seconds...' : 'Will retry automatically.'}`;
+        await addBotLog(instance, 'minecraft', 'error', `📴 ${message}`);
         return { 
           success: false, 
           message,
@@ -1436,28 +2324,72 @@ export function createRoutes(storage: IStorage, io?: any) {
       }
 
       // Disconnect existing bot if any
-      if (minecraftBot) {
+      if (instance.minecraftBot) {
         try {
-          minecraftBot.quit();
+          instance.minecraftBot.quit();
         } catch (e) {
-          await addLog('minecraft', 'warn', 'Error disconnecting existing bot: ' + e.message);
+          await addBotLog(instance, 'minecraft', 'warn', 'Error disconnecting existing bot: ' + e.message);
+        }
+        instance.minecraftBot = null;
+      }
+
+      // With version "auto", join as the version that speaks the protocol the server reported
+      const serverStatus = instance.serverStatus;
+      let version = config.version || DEFAULT_VERSION;
+      if (version === AUTO_VERSION) {
+        const match = matchServerVersion(serverStatus);
+        if (!match.version) {
+          const message = serverStatus.protocol === null && !serverStatus.legacy
+            ? `Couldn't detect the server's version; pick one in the server settings`
+            : `Server runs ${serverStatus.version}, which the bot can't join (supported: ${supportedRange()})`;
+          await addBotLog(instance, 'minecraft', 'error', `📦 ${message}`);
+          return { success: false, message, shouldRetry: false };
+        }
+        version = match.version;
+        await addBotLog(instance, 'minecraft', match.tested ? 'info' : 'warn', `📦 Server runs ${serverStatus.version} (protocol ${serverStatus.protocol}), connecting as Minecraft ${version}${match.tested ? '' : ' (untested)'}`);
+      } else if (!versionMatchesServer(version, serverStatus)) {
+        await addBotLog(instance, 'minecraft', 'warn', `📦 Server runs ${serverStatus.version} (protocol ${serverStatus.protocol}) but the bot is set to ${version}; set the version to Auto if it gets disconnected`);
+      }
+
+      // Sign in to Microsoft first; the cached tokens are refreshed, or a device code is shown
+      let session: MicrosoftSession | null = null;
+      if (config.auth === 'microsoft') {
+        await onProgress('auth', `Signing in to Microsoft as ${config.username}...`);
+        try {
+          session = await microsoftAuth.login(instance.id, config.username, async (prompt) => {
+            // Logs and progress reach viewers too, so the code itself stays on the operators' Server Config page
+            await addBotLog(instance, 'minecraft', 'warn', `🔑 Microsoft sign-in needed: an operator has to enter the code shown on the Server Config page at ${prompt.verificationUri}`);
+            await onProgress('auth', `Waiting for Microsoft sign-in, the code is on the Server Config page (expires ${new Date(prompt.expiresAt).toLocaleTimeString()})`);
+            await emitMicrosoftAuth(instance);
+          });
+        } catch (error) {
+          const authError = error instanceof MicrosoftAuthError ? error : null;
+          await addBotLog(instance, 'minecraft', 'error', `🔑 ${error.message}`, authError ? `kind: ${authError.kind}` : undefined);
+          await emitMicrosoftAuth(instance);
+          return { success: false, message: error.message, shouldRetry: authError?.retryable ?? false };
         }
-        minecraftBot = null;
+        await addBotLog(instance, 'minecraft', 'info', `🔑 Signed in to Microsoft as ${session.profile.name}`);
+        await emitMicrosoftAuth(instance);
       }
+      const playerName = session?.profile.name || config.username;
 
       // Create bot connection
-      await addLog('minecraft', 'info', `🔌 ${isRetry ? `Retry ${retryCount}:` : ''} Connecting to ${serverHost}:${serverPort} as ${config.username}...`);
+      await addBotLog(instance, 'minecraft', 'info', `🔌 ${isRetry ? `Retry ${retryCount}:` : ''} Connecting to ${serverAddress} as ${playerName}...`);
+      await onProgress('connect', `Server is online, logging in as ${playerName} (Minecraft ${version})...`);
       
       const botOptions: any = {
         host: serverHost,
-        port: parseInt(serverPort),
-        username: config.username,
-        version: config.version || '1.20.1',
-        auth: 'offline',
+        port: serverPort,
+        username: playerName,
+        version,
+        auth: session ? microsoftSessionAuth(session) : 'offline',
         hideErrors: false,
         checkTimeoutInterval: 30000,
         keepAlive: true,
       };
+      if (proxy) {
+        botOptions.connect = proxiedConnect(proxy, serverHost, serverPort);
+      }
 
       return new Promise((resolve) => {
         const bot = mineflayer.createBot(botOptions);
@@ -1483,18 +2415,19 @@ export function createRoutes(storage: IStorage, io?: any) {
           connectionResolved = true;
           clearTimeout(connectionTimeout);
           
-          minecraftBot = bot;
-          connectionAttempts = 0; // Reset attempts on successful connection
+          instance.minecraftBot = bot;
+          instance.connectionAttempts = 0; // Reset attempts on successful connection
           
-          await addLog('minecraft', 'info', `🎮 Successfully connected to ${serverHost}:${serverPort}!`);
-          await storage.saveMinecraftConfig({ ...config, isConnected: true });
+          await addBotLog(instance, 'minecraft', 'info', `🎮 Successfully connected to ${serverAddress}!`);
+          await storage.saveMinecraftConfig({ ...config, isConnected: true }, instance.id);
+          await onProgress('spawn', `Spawned on ${serverAddress} as ${bot.username || config.username}`);
           
           // Setup bot event handlers (moved to separate function)
-          setupBotEventHandlers(bot, config);
+          setupBotEventHandlers(instance, bot, config);
           
           resolve({
             success: true,
-            message: `Connected successfully to ${serverHost}:${serverPort}!`
+            message: `Connected successfully to ${serverAddress}!`
           });
         });
 
@@ -1506,13 +2439,16 @@ export function createRoutes(storage: IStorage, io?: any) {
           let errorMessage = '';
           let shouldRetry = true;
           
-          if (error.message.includes('getaddrinfo ENOTFOUND')) {
+          if (error instanceof ProxyError) {
+            errorMessage = `🧦 Proxy error: ${error.message}`;
+            shouldRetry = error.retryable;
+          } else if (error.message.includes('getaddrinfo ENOTFOUND')) {
             errorMessage = `❌ Server hostname "${serverHost}" not found. Check the server address.`;
             shouldRetry = false;
           } else if (error.message.includes('ECONNREFUSED')) {
-            errorMessage = `🚫 Connection refused by ${serverHost}:${serverPort}. Server may be offline or port is wrong.`;
+            errorMessage = `🚫 Connection refused by ${serverAddress}. Server may be offline or port is wrong.`;
           } else if (error.message.includes('ETIMEDOUT')) {
-            errorMessage = `⏱️ Connection timed out to ${serverHost}:${serverPort}. Server may be overloaded.`;
+            errorMessage = `⏱️ Connection timed out to ${serverAddress}. Server may be overloaded.`;
           } else if (error.message.includes('Invalid username')) {
             errorMessage = `👤 Invalid username "${config.username}". Check username format.`;
             shouldRetry = false;
@@ -1520,7 +2456,7 @@ export function createRoutes(storage: IStorage, io?: any) {
             errorMessage = `🔴 Connection failed: ${error.message}`;
           }
           
-          await addLog('minecraft', 'error', errorMessage);
+          await addBotLog(instance, 'minecraft', 'error', errorMessage);
           
           resolve({
             success: false,
@@ -1534,7 +2470,7 @@ export function createRoutes(storage: IStorage, io?: any) {
           connectionResolved = true;
           clearTimeout(connectionTimeout);
           
-          await addLog('minecraft', 'warn', 'Connection ended before spawn event');
+          await addBotLog(instance, 'minecraft', 'warn', 'Connection ended before spawn event');
           resolve({
             success: false,
             message: 'Connection ended unexpectedly before spawning in game.',
@@ -1544,7 +2480,7 @@ export function createRoutes(storage: IStorage, io?: any) {
       });
       
     } catch (error) {
-      await addLog('minecraft', 'error', `Connection attempt failed: ${error.message}`);
+      await addBotLog(instance, 'minecraft', 'error', `Connection attempt failed: ${error.message}`);
       return {
         success: false,
         message: `Connection attempt failed: ${error.message}`,
@@ -1554,24 +2490,24 @@ export function createRoutes(storage: IStorage, io?: any) {
   };
 
   // Function to setup bot event handlers and anti-AFK behavior
-  const setupBotEventHandlers = async (bot: any, config: any) => {
+  const setupBotEventHandlers = async (instance: BotInstance, bot: any, config: any) => {
     // Password handling if provided
     if (config.password) {
       if (config.shouldRegister) {
-        await addLog('minecraft', 'info', `Attempting to register with username: ${config.username}`);
+        await addBotLog(instance, 'minecraft', 'info', `Attempting to register with username: ${config.username}`);
       }
       // Login with password after spawn
       setTimeout(() => {
         if (bot && bot.chat) {
           bot.chat(`/login ${config.password}`);
-          addLog('minecraft', 'info', `Sent login command for ${config.username}`);
+          addBotLog(instance, 'minecraft', 'info', `Sent login command for ${config.username}`);
         }
       }, 2000);
     }
 
       // AFKsrbot state variables
       let afkIntervals: NodeJS.Timeout[] = [];
-      let kickCount = 0;
+      let kicked = false; // The kicked handler decides about reconnecting, not 'end'
       let lastPlayerInteraction = Date.now();
       let greetedPlayers = new Set<string>();
       
@@ -1585,17 +2521,17 @@ export function createRoutes(storage: IStorage, io?: any) {
       
       // Helper functions for player interactions
       const getDistanceToPlayer = (playerName: string) => {
-        if (!minecraftBot || !minecraftBot.entity || !minecraftBot.players[playerName]) return null;
-        const player = minecraftBot.players[playerName];
+        if (!instance.minecraftBot || !instance.minecraftBot.entity || !instance.minecraftBot.players[playerName]) return null;
+        const player = instance.minecraftBot.players[playerName];
         if (!player.entity) return null;
-        return minecraftBot.entity.position.distanceTo(player.entity.position);
+        return instance.minecraftBot.entity.position.distanceTo(player.entity.position);
       };
       
       const getRandomPlayer = () => {
-        if (!minecraftBot || !minecraftBot.players) return null;
-        const players = Object.keys(minecraftBot.players).filter(name => {
-          const player = minecraftBot.players[name];
-          if (name === minecraftBot.username || !player || !player.entity) return false;
+        if (!instance.minecraftBot || !instance.minecraftBot.players) return null;
+        const players = Object.keys(instance.minecraftBot.players).filter(name => {
+          const player = instance.minecraftBot.players[name];
+          if (name === instance.minecraftBot.username || !player || !player.entity) return false;
           
           // Check if player is within 40 blocks range
           const distance = getDistanceToPlayer(name);
@@ -1606,21 +2542,21 @@ export function createRoutes(storage: IStorage, io?: any) {
       };
       
       const moveTowardsPlayer = async (playerName: string, targetDistance: number) => {
-        if (!minecraftBot || !minecraftBot.entity || !minecraftBot.players[playerName]) return false;
-        const player = minecraftBot.players[playerName];
+        if (!instance.minecraftBot || !instance.minecraftBot.entity || !instance.minecraftBot.players[playerName]) return false;
+        const player = instance.minecraftBot.players[playerName];
         if (!player.entity) return false;
         
         const distance = getDistanceToPlayer(playerName);
         if (distance === null || distance <= targetDistance) return true;
         
         // Clear all control states first
-        minecraftBot.clearControlStates();
+        instance.minecraftBot.clearControlStates();
         
         // Look at the player
-        await minecraftBot.lookAt(player.entity.position.offset(0, player.entity.height, 0));
+        await instance.minecraftBot.lookAt(player.entity.position.offset(0, player.entity.height, 0));
         
         // Move forward towards the player (since we're now facing them)
-        minecraftBot.setControlState('forward', true);
+        instance.minecraftBot.setControlState('forward', true);
         
         return false;
       };
@@ -1629,7 +2565,7 @@ export function createRoutes(storage: IStorage, io?: any) {
       const startAntiAFKBehaviors = () => {
         // Random movement every 3-8 seconds (much more active like a real player)
         const movementInterval = setInterval(async () => {
-          if (!minecraftBot || !minecraftBot.entity) return;
+          if (!instance.minecraftBot || !instance.minecraftBot.entity) return;
           
           // Skip movement if already approaching a player
           if (isApproachingPlayer) return;
@@ -1659,34 +2595,34 @@ export function createRoutes(storage: IStorage, io?: any) {
                   if (timeoutIndex > -1) afkIntervals.splice(timeoutIndex, 1);
                   isApproachingPlayer = false;
                   currentTarget = null;
-                  if (minecraftBot) minecraftBot.clearControlStates();
+                  if (instance.minecraftBot) instance.minecraftBot.clearControlStates();
                 };
                 
                 const approachInterval = setInterval(async () => {
-                  if (!currentTarget || !minecraftBot) {
+                  if (!currentTarget || !instance.minecraftBot) {
                     cleanupApproach();
                     return;
                   }
                   
                   // Validate target still exists and is reachable
-                  if (!minecraftBot.players[currentTarget]?.entity) {
-                    await addLog('minecraft', 'warn', `Target ${currentTarget} disappeared during approach`);
+                  if (!instance.minecraftBot.players[currentTarget]?.entity) {
+                    await addBotLog(instance, 'minecraft', 'warn', `Target ${currentTarget} disappeared during approach`);
                     cleanupApproach();
                     return;
                   }
                   
                   const distance = getDistanceToPlayer(currentTarget);
                   if (distance && distance > 120) {
-                    await addLog('minecraft', 'warn', `Target ${currentTarget} too far away (${distance.toFixed(1)} blocks)`);
+                    await addBotLog(instance, 'minecraft', 'warn', `Target ${currentTarget} too far away (${distance.toFixed(1)} blocks)`);
                     cleanupApproach();
                     return;
                   }
                   
                   const reachedTarget = await moveTowardsPlayer(currentTarget, 3);
                   if (reachedTarget) {
-                    minecraftBot.clearControlStates();
-                    minecraftBot.chat('hi');
-                    await addLog('minecraft', 'info', `👋 Said hi to ${currentTarget} up close`);
+                    instance.minecraftBot.clearControlStates();
+                    instance.minecraftBot.chat('hi');
+                    await addBotLog(instance, 'minecraft', 'info', `👋 Said hi to ${currentTarget} up close`);
                     cleanupApproach();
                   }
                 }, 1000);
@@ -1695,7 +2631,7 @@ export function createRoutes(storage: IStorage, io?: any) {
                 
                 // Safety timeout
                 safetyTimeout = setTimeout(() => {
-                  addLog('minecraft', 'info', 'Approach timeout - returned to normal behavior');
+                  addBotLog(instance, 'minecraft', 'info', 'Approach timeout - returned to normal behavior');
                   cleanupApproach();
                 }, 30000);
                 
@@ -1714,55 +2650,55 @@ export function createRoutes(storage: IStorage, io?: any) {
                   if (timeoutIndex > -1) afkIntervals.splice(timeoutIndex, 1);
                   isApproachingPlayer = false;
                   currentTarget = null;
-                  if (minecraftBot) {
-                    minecraftBot.clearControlStates();
-                    minecraftBot.setControlState('sneak', false);
+                  if (instance.minecraftBot) {
+                    instance.minecraftBot.clearControlStates();
+                    instance.minecraftBot.setControlState('sneak', false);
                   }
                 };
                 
                 const approachInterval = setInterval(async () => {
-                  if (!currentTarget || !minecraftBot) {
+                  if (!currentTarget || !instance.minecraftBot) {
                     cleanupLoveApproach();
                     return;
                   }
                   
                   // Validate target still exists and is reachable
-                  if (!minecraftBot.players[currentTarget]?.entity) {
-                    await addLog('minecraft', 'warn', `Target ${currentTarget} disappeared during approach`);
+                  if (!instance.minecraftBot.players[currentTarget]?.entity) {
+                    await addBotLog(instance, 'minecraft', 'warn', `Target ${currentTarget} disappeared during approach`);
                     cleanupLoveApproach();
                     return;
                   }
                   
                   const distance = getDistanceToPlayer(currentTarget);
                   if (distance && distance > 120) {
-                    await addLog('minecraft', 'warn', `Target ${currentTarget} too far away (${distance.toFixed(1)} blocks)`);
+                    await addBotLog(instance, 'minecraft', 'warn', `Target ${currentTarget} too far away (${distance.toFixed(1)} blocks)`);
                     cleanupLoveApproach();
                     return;
                   }
                   
                   const reachedTarget = await moveTowardsPlayer(currentTarget, 5);
                   if (reachedTarget) {
-                    minecraftBot.clearControlStates();
-                    minecraftBot.setControlState('sneak', true); // Shift
+                    instance.minecraftBot.clearControlStates();
+                    instance.minecraftBot.setControlState('sneak', true); // Shift
                     
                     // Look at player
-                    if (minecraftBot.players[currentTarget]?.entity) {
-                      await minecraftBot.lookAt(minecraftBot.players[currentTarget].entity.position.offset(0, minecraftBot.players[currentTarget].entity.height, 0));
+                    if (instance.minecraftBot.players[currentTarget]?.entity) {
+                      await instance.minecraftBot.lookAt(instance.minecraftBot.players[currentTarget].entity.position.offset(0, instance.minecraftBot.players[currentTarget].entity.height, 0));
                     }
                     
                     // Wait 7 seconds then ask question
                     setTimeout(async () => {
-                      if (minecraftBot && currentTarget && !waitingForResponse.has(currentTarget)) {
-                        minecraftBot.chat(`hello ${currentTarget} do you love the server`);
+                      if (instance.minecraftBot && currentTarget && !waitingForResponse.has(currentTarget)) {
+                        instance.minecraftBot.chat(`hello ${currentTarget} do you love the server`);
                         waitingForResponse.set(currentTarget, {
                           askedAt: Date.now(),
                           scenario: 'love_question'
                         });
-                        await addLog('minecraft', 'info', `❤️ Asked ${currentTarget} if they love the server`);
+                        await addBotLog(instance, 'minecraft', 'info', `❤️ Asked ${currentTarget} if they love the server`);
                         
                         // Stop shifting after asking
                         setTimeout(() => {
-                          if (minecraftBot) minecraftBot.setControlState('sneak', false);
+                          if (instance.minecraftBot) instance.minecraftBot.setControlState('sneak', false);
                         }, 2000);
                       }
                     }, 7000);
@@ -1775,7 +2711,7 @@ export function createRoutes(storage: IStorage, io?: any) {
                 
                 // Safety timeout
                 safetyTimeout = setTimeout(() => {
-                  addLog('minecraft', 'info', 'Love question approach timeout - returned to normal behavior');
+                  addBotLog(instance, 'minecraft', 'info', 'Love question approach timeout - returned to normal behavior');
                   cleanupLoveApproach();
                 }, 45000);
                 
@@ -1788,11 +2724,11 @@ export function createRoutes(storage: IStorage, io?: any) {
           
           // Normal random movement
           const randomActions = [
-            () => minecraftBot.setControlState('forward', true),
-            () => minecraftBot.setControlState('back', true),
-            () => minecraftBot.setControlState('left', true),
-            () => minecraftBot.setControlState('right', true),
-            () => minecraftBot.setControlState('jump', true),
+            () => instance.minecraftBot.setControlState('forward', true),
+            () => instance.minecraftBot.setControlState('back', true),
+            () => instance.minecraftBot.setControlState('left', true),
+            () => instance.minecraftBot.setControlState('right', true),
+            () => instance.minecraftBot.setControlState('jump', true),
           ];
           
           // Perform random action
@@ -1801,8 +2737,8 @@ export function createRoutes(storage: IStorage, io?: any) {
           
           // Stop action after short duration (instant response like normal player)
           setTimeout(() => {
-            if (minecraftBot) {
-              minecraftBot.clearControlStates();
+            if (instance.minecraftBot) {
+              instance.minecraftBot.clearControlStates();
             }
           }, Math.random() * 1000 + 200); // 0.2-1.2 seconds (much faster)
           
@@ -1810,39 +2746,41 @@ export function createRoutes(storage: IStorage, io?: any) {
         
         // Random looking around every 2-6 seconds (like an active player)
         const lookInterval = setInterval(() => {
-          if (!minecraftBot || !minecraftBot.entity) return;
+          if (!instance.minecraftBot || !instance.minecraftBot.entity) return;
           
           const yaw = Math.random() * Math.PI * 2; // Random horizontal direction
           const pitch = (Math.random() - 0.5) * 0.5; // Random vertical look
-          minecraftBot.look(yaw, pitch);
+          instance.minecraftBot.look(yaw, pitch);
           
         }, Math.random() * 4000 + 2000); // 2-6 seconds (much more frequent)
         
         // Health and food monitoring every 5 seconds
         const healthInterval = setInterval(async () => {
-          if (!minecraftBot || !minecraftBot.entity) return;
+          if (!instance.minecraftBot || !instance.minecraftBot.entity) return;
           
-          const health = minecraftBot.health;
-          const food = minecraftBot.food;
+          const health = instance.minecraftBot.health;
+          const food = instance.minecraftBot.food;
+          
+          alerts.trigger('low_health', alertContext(instance, `Health is down to ${health}/20`, health));
           
           if (health <= 10) {
-            await addLog('minecraft', 'warn', `⚠️ Low health: ${health}/20`);
+            await addBotLog(instance, 'minecraft', 'warn', `⚠️ Low health: ${health}/20`);
           }
           
           if (food <= 6) {
-            await addLog('minecraft', 'warn', `🍖 Low food: ${food}/20`);
+            await addBotLog(instance, 'minecraft', 'warn', `🍖 Low food: ${food}/20`);
             // Try to eat if we have food
-            const foodItems = minecraftBot.inventory.items().filter(item => 
+            const foodItems = instance.minecraftBot.inventory.items().filter(item => 
               item.name.includes('bread') || item.name.includes('apple') || 
               item.name.includes('carrot') || item.name.includes('potato')
             );
             if (foodItems.length > 0) {
               try {
-                await minecraftBot.equip(foodItems[0], 'hand');
-                minecraftBot.activateItem();
-                await addLog('minecraft', 'info', `🍽️ Eating ${foodItems[0].name}`);
+                await instance.minecraftBot.equip(foodItems[0], 'hand');
+                instance.minecraftBot.activateItem();
+                await addBotLog(instance, 'minecraft', 'info', `🍽️ Eating ${foodItems[0].name}`);
               } catch (err) {
-                await addLog('minecraft', 'warn', `Failed to eat: ${err.message}`);
+                await addBotLog(instance, 'minecraft', 'warn', `Failed to eat: ${err.message}`);
               }
             }
           }
@@ -1851,9 +2789,9 @@ export function createRoutes(storage: IStorage, io?: any) {
         
         // Server love message every 7 minutes
         const serverLoveInterval = setInterval(() => {
-          if (minecraftBot) {
-            minecraftBot.chat('I love this server very much');
-            addLog('minecraft', 'info', '💖 Expressed love for the server');
+          if (instance.minecraftBot) {
+            instance.minecraftBot.chat('I love this server very much');
+            addBotLog(instance, 'minecraft', 'info', '💖 Expressed love for the server');
           }
         }, 7 * 60 * 1000); // 7 minutes
         
@@ -1861,31 +2799,36 @@ export function createRoutes(storage: IStorage, io?: any) {
       };
       
       // Setup event handlers
-      minecraftBot.on('spawn', async () => {
-        await addLog('minecraft', 'info', `🎮 Bot ${config.username} joined the server!`);
+      instance.minecraftBot.once('login', () => {
+        instance.connectedAt = Date.now();
+      });
+      
+      instance.minecraftBot.on('spawn', async () => {
+        await addBotLog(instance, 'minecraft', 'info', `🎮 Bot ${config.username} joined the server!`);
         
         // Update inventory when spawned
         setTimeout(async () => {
           try {
-            const items = minecraftBot.inventory.items().map(item => ({
-              id: Date.now() + Math.random(),
+            const items = instance.minecraftBot.inventory.items().map(item => ({
+              id: String(Date.now() + Math.random()),
               name: item.name,
               count: item.count,
-              slot: minecraftBot.inventory.slots.indexOf(item)
+              slot: instance.minecraftBot.inventory.slots.indexOf(item)
             }));
-            await storage.updateInventory(items);
-            await addLog('minecraft', 'info', `📦 Inventory updated: ${items.length} items`);
+            await storage.updateInventory(items, instance.id);
+            await addBotLog(instance, 'minecraft', 'info', `📦 Inventory updated: ${items.length} items`);
           } catch (err) {
-            await addLog('minecraft', 'warn', `Failed to update inventory: ${err.message}`);
+            await addBotLog(instance, 'minecraft', 'warn', `Failed to update inventory: ${err.message}`);
           }
         }, 2000);
       });
 
       // Log all chat messages from server
-      minecraftBot.on('message', async (message) => {
+      instance.minecraftBot.on('message', async (message) => {
         const chatMsg = message.toString();
         if (chatMsg && chatMsg.trim()) {
-          await addLog('minecraft', 'info', `💬 ${chatMsg}`);
+          instance.recordChat(chatMsg);
+          await addBotLog(instance, 'minecraft', 'info', `💬 ${chatMsg}`);
           
           // Check for goto session responses
           const chatLower = chatMsg.toLowerCase();
@@ -1897,17 +2840,17 @@ export function createRoutes(storage: IStorage, io?: any) {
             const messageLower = playerMessage.toLowerCase().trim();
             
             // Check if this player has an active goto session awaiting reply
-            for (const [sessionId, session] of activeGotoSessions.entries()) {
+            for (const [sessionId, session] of instance.activeGotoSessions.entries()) {
               if (session.targetPlayer === playerName && session.state === 'awaiting_reply') {
                 if (messageLower === 'yes') {
-                  minecraftBot.chat('me too i loved the server very much');
-                  await addLog('minecraft', 'info', `✅ ${playerName} said yes - bot responded positively`);
-                  cleanupGotoSession(sessionId);
+                  instance.minecraftBot.chat('me too i loved the server very much');
+                  await addBotLog(instance, 'minecraft', 'info', `✅ ${playerName} said yes - bot responded positively`);
+                  cleanupGotoSession(instance, sessionId);
                   break;
                 } else if (messageLower === 'no') {
-                  minecraftBot.chat('I HATE YOU');
-                  await addLog('minecraft', 'info', `❌ ${playerName} said no - bot responded negatively`);
-                  cleanupGotoSession(sessionId);
+                  instance.minecraftBot.chat('I HATE YOU');
+                  await addBotLog(instance, 'minecraft', 'info', `❌ ${playerName} said no - bot responded negatively`);
+                  cleanupGotoSession(instance, sessionId);
                   break;
                 }
               }
@@ -1920,37 +2863,31 @@ export function createRoutes(storage: IStorage, io?: any) {
           // Skip join/leave messages (they're handled by playerJoined/playerLeft events)
           const isJoinLeave = chatMsg.match(/^\w{1,16} (joined|left) the (game|server)/i);
           
-          if (!isPlayerChat && !isJoinLeave && logChannel && discordBot) {
-            try {
-              const channel = await discordBot.channels.fetch(logChannel);
-              if (channel && channel.isTextBased() && 'send' in channel) {
-                // Send system messages in code blocks
-                await channel.send(`\`\`\`${chatMsg}\`\`\``);
-              }
-            } catch (err) {
-              console.log('Failed to send to Discord log channel:', err.message);
-            }
+          if (!isPlayerChat && !isJoinLeave) {
+            // Send system messages in code blocks
+            await discordChannels.notify('server_message', `\`\`\`${chatMsg}\`\`\``, instance.id);
           }
         }
       });
 
       // Handle password login/register and start behaviors after spawn
-      minecraftBot.once('spawn', async () => {
-        await addLog('minecraft', 'info', `🎮 Bot ${config.username} spawned successfully!`);
+      instance.minecraftBot.once('spawn', async () => {
+        instance.startStableTimer();
+        await addBotLog(instance, 'minecraft', 'info', `🎮 Bot ${config.username} spawned successfully!`);
         
         if (config.password) {
           // Wait a moment for the server to be ready
           setTimeout(async () => {
             try {
               if (config.shouldRegister) {
-                minecraftBot.chat(`/register ${config.password} ${config.password}`);
-                await addLog('minecraft', 'info', '📝 Attempting to register with password');
+                instance.minecraftBot.chat(`/register ${config.password} ${config.password}`);
+                await addBotLog(instance, 'minecraft', 'info', '📝 Attempting to register with password');
               } else {
-                minecraftBot.chat(`/login ${config.password}`);
-                await addLog('minecraft', 'info', '🔐 Attempting to login with password');
+                instance.minecraftBot.chat(`/login ${config.password}`);
+                await addBotLog(instance, 'minecraft', 'info', '🔐 Attempting to login with password');
               }
             } catch (error) {
-              await addLog('minecraft', 'error', `Authentication failed: ${error.message}`);
+              await addBotLog(instance, 'minecraft', 'error', `Authentication failed: ${error.message}`);
             }
           }, 2000); // Wait 2 seconds after spawn
         }
@@ -1958,18 +2895,18 @@ export function createRoutes(storage: IStorage, io?: any) {
         // Start anti-AFK behaviors
         setTimeout(() => {
           startAntiAFKBehaviors();
-          addLog('minecraft', 'info', '🤖 Anti-AFK behaviors activated');
+          addBotLog(instance, 'minecraft', 'info', '🤖 Anti-AFK behaviors activated');
         }, 5000); // Wait 5 seconds after spawn
         
         // Save config
         await storage.saveMinecraftConfig({
           ...config,
           isConnected: true,
-          ping: '0ms',
+          ping: instance.serverStatus && instance.serverStatus.latency !== null ? `${instance.serverStatus.latency}ms` : 'N/A',
           uptime: '0m',
-          playersOnline: minecraftBot.players ? Object.keys(minecraftBot.players).length + '/100' : '1/100',
+          playersOnline: playerCount(instance),
           lastConnected: new Date().toISOString(),
-        });
+        }, instance.id);
 
         // Update bot status
         await storage.updateBotStatus({
@@ -1980,9 +2917,9 @@ export function createRoutes(storage: IStorage, io?: any) {
         });
       });
 
-      minecraftBot.on('chat', async (username, message) => {
-        if (username === minecraftBot.username) return;
-        await addLog('minecraft', 'info', `<${username}> ${message}`);
+      instance.minecraftBot.on('chat', async (username, message) => {
+        if (username === instance.minecraftBot.username) return;
+        await addBotLog(instance, 'minecraft', 'info', `<${username}> ${message}`);
         lastPlayerInteraction = Date.now();
         
         // Handle /moveto command
@@ -1992,87 +2929,87 @@ export function createRoutes(storage: IStorage, io?: any) {
             const targetPlayer = args[1];
             
             // Check if target player exists and is online
-            if (!minecraftBot.players[targetPlayer]) {
-              minecraftBot.chat(`Player ${targetPlayer} is not online or not found`);
-              await addLog('minecraft', 'warn', `🚫 /moveto failed: Player ${targetPlayer} not found`);
+            if (!instance.minecraftBot.players[targetPlayer]) {
+              instance.minecraftBot.chat(`Player ${targetPlayer} is not online or not found`);
+              await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto failed: Player ${targetPlayer} not found`);
               return;
             }
             
             const distance = getDistanceToPlayer(targetPlayer);
             if (distance === null) {
-              minecraftBot.chat(`Cannot get distance to ${targetPlayer}`);
-              await addLog('minecraft', 'warn', `🚫 /moveto failed: Cannot calculate distance to ${targetPlayer}`);
+              instance.minecraftBot.chat(`Cannot get distance to ${targetPlayer}`);
+              await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto failed: Cannot calculate distance to ${targetPlayer}`);
               return;
             }
             
             if (distance > 40) {
-              minecraftBot.chat(`${targetPlayer} is too far away (${distance.toFixed(1)} blocks, max 40)`);
-              await addLog('minecraft', 'warn', `🚫 /moveto failed: ${targetPlayer} is ${distance.toFixed(1)} blocks away (exceeds 40 block limit)`);
+              instance.minecraftBot.chat(`${targetPlayer} is too far away (${distance.toFixed(1)} blocks, max 40)`);
+              await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto failed: ${targetPlayer} is ${distance.toFixed(1)} blocks away (exceeds 40 block limit)`);
               return;
             }
             
             // Start moving to player with collision detection
-            await addLog('minecraft', 'info', `🏃 Moving to ${targetPlayer} (${distance.toFixed(1)} blocks away)`);
-            minecraftBot.chat(`Moving to ${targetPlayer}...`);
+            await addBotLog(instance, 'minecraft', 'info', `🏃 Moving to ${targetPlayer} (${distance.toFixed(1)} blocks away)`);
+            instance.minecraftBot.chat(`Moving to ${targetPlayer}...`);
             
             let moveStartTime = Date.now();
-            let lastPosition = minecraftBot.entity.position.clone();
+            let lastPosition = instance.minecraftBot.entity.position.clone();
             let stuckCounter = 0;
             const maxStuckTime = 2000; // 2 seconds without progress = stuck
             
             const moveInterval = setInterval(async () => {
-              if (!minecraftBot || !minecraftBot.entity) {
+              if (!instance.minecraftBot || !instance.minecraftBot.entity) {
                 clearInterval(moveInterval);
                 return;
               }
               
               // Check if target player still exists
-              if (!minecraftBot.players[targetPlayer] || !minecraftBot.players[targetPlayer].entity) {
+              if (!instance.minecraftBot.players[targetPlayer] || !instance.minecraftBot.players[targetPlayer].entity) {
                 clearInterval(moveInterval);
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`${targetPlayer} is no longer online`);
-                await addLog('minecraft', 'warn', `🚫 /moveto cancelled: ${targetPlayer} went offline`);
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`${targetPlayer} is no longer online`);
+                await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto cancelled: ${targetPlayer} went offline`);
                 return;
               }
               
               const currentDistance = getDistanceToPlayer(targetPlayer);
               if (currentDistance === null) {
                 clearInterval(moveInterval);
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`Lost track of ${targetPlayer}`);
-                await addLog('minecraft', 'warn', `🚫 /moveto cancelled: Lost track of ${targetPlayer}`);
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`Lost track of ${targetPlayer}`);
+                await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto cancelled: Lost track of ${targetPlayer}`);
                 return;
               }
               
               // Check if target moved too far during movement
               if (currentDistance > 45) {
                 clearInterval(moveInterval);
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`${targetPlayer} moved too far away`);
-                await addLog('minecraft', 'warn', `🚫 /moveto cancelled: ${targetPlayer} moved beyond 45 blocks`);
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`${targetPlayer} moved too far away`);
+                await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto cancelled: ${targetPlayer} moved beyond 45 blocks`);
                 return;
               }
               
               // Check if we reached the target (within 2 blocks)
               if (currentDistance <= 2) {
                 clearInterval(moveInterval);
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`Reached ${targetPlayer}!`);
-                await addLog('minecraft', 'info', `✅ /moveto completed: Reached ${targetPlayer}`);
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`Reached ${targetPlayer}!`);
+                await addBotLog(instance, 'minecraft', 'info', `✅ /moveto completed: Reached ${targetPlayer}`);
                 return;
               }
               
               // Check for wall collision / being stuck
-              const currentPosition = minecraftBot.entity.position;
+              const currentPosition = instance.minecraftBot.entity.position;
               const moved = currentPosition.distanceTo(lastPosition);
               
               if (moved < 0.1) { // Barely moved
                 stuckCounter += 200; // Add interval time
                 if (stuckCounter >= maxStuckTime) {
                   clearInterval(moveInterval);
-                  minecraftBot.clearControlStates();
-                  minecraftBot.chat(`Can't reach ${targetPlayer} - path blocked`);
-                  await addLog('minecraft', 'warn', `🚫 /moveto cancelled: Path to ${targetPlayer} is blocked or stuck`);
+                  instance.minecraftBot.clearControlStates();
+                  instance.minecraftBot.chat(`Can't reach ${targetPlayer} - path blocked`);
+                  await addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto cancelled: Path to ${targetPlayer} is blocked or stuck`);
                   return;
                 }
               } else {
@@ -2084,9 +3021,9 @@ export function createRoutes(storage: IStorage, io?: any) {
               const reachedTarget = await moveTowardsPlayer(targetPlayer, 2);
               if (reachedTarget) {
                 clearInterval(moveInterval);
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`Reached ${targetPlayer}!`);
-                await addLog('minecraft', 'info', `✅ /moveto completed: Reached ${targetPlayer}`);
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`Reached ${targetPlayer}!`);
+                await addBotLog(instance, 'minecraft', 'info', `✅ /moveto completed: Reached ${targetPlayer}`);
               }
               
             }, 200); // Check every 200ms
@@ -2094,17 +3031,17 @@ export function createRoutes(storage: IStorage, io?: any) {
             // Safety timeout after 30 seconds
             setTimeout(() => {
               clearInterval(moveInterval);
-              if (minecraftBot) {
-                minecraftBot.clearControlStates();
-                minecraftBot.chat(`Movement to ${targetPlayer} timed out`);
-                addLog('minecraft', 'warn', `🚫 /moveto timed out: Could not reach ${targetPlayer} within 30 seconds`);
+              if (instance.minecraftBot) {
+                instance.minecraftBot.clearControlStates();
+                instance.minecraftBot.chat(`Movement to ${targetPlayer} timed out`);
+                addBotLog(instance, 'minecraft', 'warn', `🚫 /moveto timed out: Could not reach ${targetPlayer} within 30 seconds`);
               }
             }, 30000);
             
             return; // Don't process other chat logic for this command
           } else {
-            minecraftBot.chat('Usage: /moveto <playername>');
-            await addLog('minecraft', 'warn', '🚫 /moveto failed: Invalid syntax. Usage: /moveto <playername>');
+            instance.minecraftBot.chat('Usage: /moveto <playername>');
+            await addBotLog(instance, 'minecraft', 'warn', '🚫 /moveto failed: Invalid syntax. Usage: /moveto <playername>');
             return;
           }
         }
@@ -2129,16 +3066,16 @@ export function createRoutes(storage: IStorage, io?: any) {
               
               if (hasYes && !hasNo) {
                 setTimeout(() => {
-                  if (minecraftBot) {
-                    minecraftBot.chat('Me too I loved this server very much !');
-                    addLog('minecraft', 'info', `💝 ${username} loves the server - positive response given`);
+                  if (instance.minecraftBot) {
+                    instance.minecraftBot.chat('Me too I loved this server very much !');
+                    addBotLog(instance, 'minecraft', 'info', `💝 ${username} loves the server - positive response given`);
                   }
                 }, Math.random() * 1500 + 500); // 0.5-2 second delay
               } else if (hasNo && !hasYes) {
                 setTimeout(() => {
-                  if (minecraftBot) {
-                    minecraftBot.chat('IF YOU DON\'T LOVE THE SERVER THEN GET OUT');
-                    addLog('minecraft', 'info', `😠 ${username} doesn't love the server - negative response given`);
+                  if (instance.minecraftBot) {
+                    instance.minecraftBot.chat('IF YOU DON\'T LOVE THE SERVER THEN GET OUT');
+                    addBotLog(instance, 'minecraft', 'info', `😠 ${username} doesn't love the server - negative response given`);
                   }
                 }, Math.random() * 1500 + 500); // 0.5-2 second delay
               }
@@ -2162,7 +3099,7 @@ export function createRoutes(storage: IStorage, io?: any) {
         if (!greetedPlayers.has(username)) {
           greetedPlayers.add(username);
           setTimeout(() => {
-            if (minecraftBot) {
+            if (instance.minecraftBot) {
               const greetings = [
                 `Hello ${username}! Welcome to the server! 👋`,
                 `Hey ${username}! Good to see you here!`,
@@ -2170,7 +3107,7 @@ export function createRoutes(storage: IStorage, io?: any) {
                 `Welcome ${username}! Nice to meet you!`
               ];
               const greeting = greetings[Math.floor(Math.random() * greetings.length)];
-              minecraftBot.chat(greeting);
+              instance.minecraftBot.chat(greeting);
             }
           }, Math.random() * 3000 + 2000); // 2-5 seconds delay
         }
@@ -2178,15 +3115,15 @@ export function createRoutes(storage: IStorage, io?: any) {
         // Respond to mentions or direct messages
         if (lowerMessage.includes(botName) || lowerMessage.includes('bot')) {
           setTimeout(() => {
-            if (minecraftBot) {
+            if (instance.minecraftBot) {
               if (lowerMessage.includes('hello') || lowerMessage.includes('hi')) {
-                minecraftBot.chat(`Hello ${username}! How can I help you? 😊`);
+                instance.minecraftBot.chat(`Hello ${username}! How can I help you? 😊`);
               } else if (lowerMessage.includes('how are you')) {
-                minecraftBot.chat(`I'm doing great, thanks for asking ${username}! Just enjoying the server 🎮`);
+                instance.minecraftBot.chat(`I'm doing great, thanks for asking ${username}! Just enjoying the server 🎮`);
               } else if (lowerMessage.includes('help')) {
-                minecraftBot.chat(`I'm just a friendly bot hanging out here! Talk to the server admins for game help 📚`);
+                instance.minecraftBot.chat(`I'm just a friendly bot hanging out here! Talk to the server admins for game help 📚`);
               } else if (lowerMessage.includes('bye') || lowerMessage.includes('goodbye')) {
-                minecraftBot.chat(`See you later ${username}! Take care! 👋`);
+                instance.minecraftBot.chat(`See you later ${username}! Take care! 👋`);
               } else {
                 const responses = [
                   `Yes ${username}?`,
@@ -2195,134 +3132,101 @@ export function createRoutes(storage: IStorage, io?: any) {
                   `How can I help you ${username}?`
                 ];
                 const response = responses[Math.floor(Math.random() * responses.length)];
-                minecraftBot.chat(response);
+                instance.minecraftBot.chat(response);
               }
             }
           }, Math.random() * 2000 + 1000); // 1-3 seconds delay
         }
         
-        // Forward to Discord log channel if configured
-        if (discordBot && discordBot.user && logChannel) {
-          try {
-            const channel = await discordBot.channels.fetch(logChannel);
-            if (channel && channel.isTextBased() && 'send' in channel) {
-              await channel.send(`💬 **${username}**: ${message}`);
-            }
-          } catch (error) {
-            console.log('Failed to send chat to Discord:', error.message);
-          }
-        }
+        // Forward to the Discord log channel through the chat bridge
+        await chatBridge.relayToDiscord(instance, username, message);
       });
       
       // Player join/leave notifications
-      minecraftBot.on('playerJoined', async (player) => {
-        await addLog('minecraft', 'info', `🟢 ${player.username} joined the server`);
+      instance.minecraftBot.on('playerJoined', async (player) => {
+        await addBotLog(instance, 'minecraft', 'info', `🟢 ${player.username} joined the server`);
         
         // Send welcome message in Minecraft chat
-        if (player.username !== minecraftBot.username) {
+        if (player.username !== instance.minecraftBot.username) {
           setTimeout(() => {
             try {
-              minecraftBot.chat(`Welcome ${player.username}!`);
+              instance.minecraftBot.chat(`Welcome ${player.username}!`);
             } catch (error) {
               console.log('Failed to send welcome message:', error.message);
             }
           }, 1000); // Small delay to ensure player is fully loaded
         }
         
-        // Forward to Discord log channel
-        if (discordBot && discordBot.user && logChannel) {
-          try {
-            const channel = await discordBot.channels.fetch(logChannel);
-            if (channel && channel.isTextBased() && 'send' in channel) {
-              await channel.send(`🟢 **${player.username}** joined the server`);
-            }
-          } catch (error) {
-            console.log('Failed to send join notification to Discord:', error.message);
-          }
-        }
+        // Forward to the channels bound for join/leave notices
+        await discordChannels.notify('join_leave', `🟢 **${player.username}** joined the server`, instance.id);
         
         // Update player count
-        if (minecraftBot.players) {
-          const playerCount = Object.keys(minecraftBot.players).length;
+        if (instance.minecraftBot.players) {
           await storage.updateMinecraftConfig({ 
-            playersOnline: `${playerCount}/100`
-          });
+            playersOnline: playerCount(instance)
+          }, instance.id);
         }
       });
       
-      minecraftBot.on('playerLeft', async (player) => {
-        await addLog('minecraft', 'info', `🔴 ${player.username} left the server`);
+      instance.minecraftBot.on('playerLeft', async (player) => {
+        await addBotLog(instance, 'minecraft', 'info', `🔴 ${player.username} left the server`);
         greetedPlayers.delete(player.username); // Remove from greeted list
         
-        // Forward to Discord log channel
-        if (discordBot && discordBot.user && logChannel) {
-          try {
-            const channel = await discordBot.channels.fetch(logChannel);
-            if (channel && channel.isTextBased() && 'send' in channel) {
-              await channel.send(`🔴 **${player.username}** left the server`);
-            }
-          } catch (error) {
-            console.log('Failed to send leave notification to Discord:', error.message);
-          }
-        }
+        // Forward to the channels bound for join/leave notices
+        await discordChannels.notify('join_leave', `🔴 **${player.username}** left the server`, instance.id);
         
         // Update player count
-        if (minecraftBot.players) {
-          const playerCount = Object.keys(minecraftBot.players).length;
+        if (instance.minecraftBot.players) {
           await storage.updateMinecraftConfig({ 
-            playersOnline: `${playerCount}/100`
-          });
+            playersOnline: playerCount(instance)
+          }, instance.id);
         }
       });
 
-      minecraftBot.on('health', async () => {
-        if (minecraftBot.health <= 5) {
-          await addLog('minecraft', 'warn', `Low health: ${minecraftBot.health}/20`);
+      instance.minecraftBot.on('health', async () => {
+        if (instance.minecraftBot.health <= 5) {
+          await addBotLog(instance, 'minecraft', 'warn', `Low health: ${instance.minecraftBot.health}/20`);
         }
       });
 
-      minecraftBot.on('death', async () => {
-        await addLog('minecraft', 'warn', 'Bot died! Respawning...');
-        minecraftBot.respawn();
+      instance.minecraftBot.on('death', async () => {
+        await addBotLog(instance, 'minecraft', 'warn', 'Bot died! Respawning...');
+        alerts.trigger('death', alertContext(instance, `**${instance.id}** died and is respawning`));
+        instance.minecraftBot.respawn();
       });
 
-      minecraftBot.on('kicked', async (reason) => {
-        kickCount++;
-        await addLog('minecraft', 'error', `⚠️ Bot was kicked (${kickCount}/3): ${reason}`);
+      instance.minecraftBot.on('kicked', async (reason) => {
+        kicked = true;
+        const kickCount = instance.recordKick();
+        await addBotLog(instance, 'minecraft', 'error', `⚠️ Bot was kicked (${kickCount}/3): ${reason}`);
+        await discordChannels.notify('alert', `⚠️ **${instance.id}** was kicked (${kickCount}/3): ${reason}`, instance.id);
+        await alerts.trigger('kick', alertContext(instance, `Kicked (${kickCount}/3): ${reason}`, kickCount));
         
         // Clear intervals
         afkIntervals.forEach(interval => clearInterval(interval));
         afkIntervals = [];
         
-        await storage.updateMinecraftConfig({ isConnected: false });
+        await storage.updateMinecraftConfig({ isConnected: false }, instance.id);
         
         // Kick protection: stop reconnecting after 3 kicks
         if (kickCount >= 3) {
-          await addLog('minecraft', 'error', '🚫 Too many kicks detected. Stopping auto-reconnect to prevent ban.');
-          await storage.clearLogs('minecraft');
+          await addBotLog(instance, 'minecraft', 'error', '🚫 Too many kicks detected. Stopping auto-reconnect to prevent ban.');
+          await alerts.trigger('reconnect_failed', alertContext(instance, `Stopped auto-reconnect after ${kickCount} kicks. Last reason: ${reason}`));
+          await storage.clearLogs('minecraft', instance.id);
           return;
         }
         
         // Clear Minecraft logs when kicked
-        await storage.clearLogs('minecraft');
+        await storage.clearLogs('minecraft', instance.id);
         
         // Auto-reconnect with delay if enabled
         if (config.autoReconnect && kickCount < 3) {
           const delay = kickCount * 30000; // Increase delay with each kick (30s, 60s, 90s)
-          await addLog('minecraft', 'info', `🔄 Auto-reconnecting in ${delay/1000} seconds...`);
-          setTimeout(async () => {
-            try {
-              // Recreate bot connection using stored config
-              await connectToMinecraftServer(config, true, kickCount);
-              // The new bot will have fresh event handlers
-            } catch (error) {
-              await addLog('minecraft', 'error', `Failed to reconnect: ${error.message}`);
-            }
-          }, delay);
+          await lifecycle.scheduleReconnect(instance.id, delay, 'Kicked');
         }
       });
 
-      minecraftBot.on('error', async (err) => {
+      instance.minecraftBot.on('error', async (err: NodeJS.ErrnoException) => {
         console.error('Minecraft bot error:', err);
         
         // Ensure error gets logged even if addLog fails
@@ -2350,7 +3254,9 @@ export function createRoutes(storage: IStorage, io?: any) {
             errorMessage = '🚀 Host unreachable - check network connection';
             break;
           default:
-            if (err.message.includes('Invalid username')) {
+            if (err instanceof ProxyError) {
+              errorMessage = `🧦 Proxy error - ${err.message}`;
+            } else if (err.message.includes('Invalid username')) {
               errorMessage = '👤 Invalid username - please check username format';
             } else if (err.message.includes('authentication')) {
               errorMessage = '🔐 Authentication failed - check password';
@@ -2362,7 +3268,7 @@ export function createRoutes(storage: IStorage, io?: any) {
             break;
         }
         
-          await addLog('minecraft', errorType === 'warn' ? 'warn' : 'error', errorMessage);
+          await addBotLog(instance, 'minecraft', errorType === 'warn' ? 'warn' : 'error', errorMessage);
         } catch (logError) {
           console.error('Failed to log minecraft error:', logError);
         }
@@ -2370,7 +3276,7 @@ export function createRoutes(storage: IStorage, io?: any) {
         // Handle specific connection reset issues
         if (err.code === 'ECONNRESET') {
           // This often happens when server rejects the connection immediately
-          await addLog('minecraft', 'warn', '🔄 Connection reset by server - this may be due to authentication issues, server overload, or version mismatch. Auto-reconnect will retry...');
+          await addBotLog(instance, 'minecraft', 'warn', '🔄 Connection reset by server - this may be due to authentication issues, server overload, or version mismatch. Auto-reconnect will retry...');
         }
         
         // Update connection status when error occurs
@@ -2379,47 +3285,47 @@ export function createRoutes(storage: IStorage, io?: any) {
           ping: 'N/A',
           uptime: 'N/A',
           playersOnline: '0/0'
-        });
+        }, instance.id);
         
         await storage.updateBotStatus({
           discordConnected: (await storage.getBotStatus())?.discordConnected || false,
-          minecraftConnected: false,
+          minecraftConnected: registry.hasConnectedBot(),
           lastActivity: new Date().toISOString(),
           totalUptime: (await storage.getBotStatus())?.totalUptime || '0m',
         });
       });
 
-      minecraftBot.on('end', async () => {
-        await addLog('minecraft', 'info', '🔌 Minecraft bot disconnected');
+      instance.minecraftBot.on('end', async () => {
+        // A manual disconnect or a new connection already let go of this bot
+        const dropped = instance.minecraftBot === bot;
+        await addBotLog(instance, 'minecraft', 'info', '🔌 Minecraft bot disconnected');
+        instance.connectedAt = null;
+        if (dropped) instance.minecraftBot = null;
         
         // Clear intervals
         afkIntervals.forEach(interval => clearInterval(interval));
         afkIntervals = [];
         greetedPlayers.clear();
         
-        await storage.updateMinecraftConfig({ isConnected: false });
-        await storage.clearLogs('minecraft');
+        await storage.updateMinecraftConfig({ isConnected: false }, instance.id);
+        await storage.clearLogs('minecraft', instance.id);
         
-        // Auto-reconnect if enabled and not kicked too many times
+        // Auto-reconnect if enabled and not kicked too many times (a kick has already scheduled one)
+        if (!dropped || kicked) return;
+        instance.cancelStableTimer();
+        const kickCount = instance.consecutiveKicks;
         if (config.autoReconnect && kickCount < 3) {
-          const delay = Math.min(kickCount * 10000, 30000); // Max 30 second delay
-          await addLog('minecraft', 'info', `🔄 Auto-reconnecting in ${delay/1000} seconds...`);
-          setTimeout(async () => {
-            try {
-              await addLog('minecraft', 'info', 'Attempting to reconnect...');
-              // Would need to call the connect function again
-            } catch (error) {
-              await addLog('minecraft', 'error', `Failed to reconnect: ${error.message}`);
-            }
-          }, delay);
+          const delay = Math.min((kickCount + 1) * 10000, 30000); // Max 30 second delay
+          await lifecycle.scheduleReconnect(instance.id, delay, 'Disconnected');
         } else if (kickCount >= 3) {
-          await addLog('minecraft', 'warn', '🚫 Auto-reconnect disabled due to repeated kicks');
+          await addBotLog(instance, 'minecraft', 'warn', '🚫 Auto-reconnect disabled due to repeated kicks');
         }
       });
     }; // End of setupBotEventHandlers function
 
   // Main Minecraft Connection Endpoint with Retry Logic
-  router.post('/api/minecraft/connect', async (req, res) => {
+  botRouter.post('/minecraft/connect', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const config = insertMinecraftServerConfigSchema.parse(req.body);
       
@@ -2427,46 +3333,37 @@ export function createRoutes(storage: IStorage, io?: any) {
         return res.status(400).json({ error: 'Server IP, port, and username are required' });
       }
 
+      try {
+        parseServerAddress(config.serverIP, config.serverPort);
+      } catch (error) {
+        return res.status(400).json({ error: 'Invalid server address', details: error.message });
+      }
+
       if (config.password && config.password.length < 4) {
         return res.status(400).json({ error: 'Password must be at least 4 characters' });
       }
 
+      try {
+        proxyFromConfig(config);
+      } catch (error) {
+        return res.status(400).json({ error: 'Invalid proxy settings', details: error.message });
+      }
+
+      // Keep the bot's display name and proxy password when the form doesn't send them
+      const existingConfig = await storage.getMinecraftConfig(instance.id);
+      if (config.name === undefined) {
+        config.name = existingConfig?.name;
+      }
+      if (config.proxyPassword === undefined) {
+        config.proxyPassword = existingConfig?.proxyPassword;
+      }
+
       // Save initial configuration
-      await storage.saveMinecraftConfig({ ...config, isConnected: false });
+      await storage.saveMinecraftConfig({ ...config, isConnected: false }, instance.id);
       
-      // Initial connection attempt
-      await addLog('minecraft', 'info', `🚀 Starting connection to ${config.serverIP}:${config.serverPort}...`);
-      
-      const attemptConnection = async (retryCount = 0): Promise<void> => {
-        const result = await connectToMinecraftServer(config, retryCount > 0, retryCount);
-        
-        if (result.success) {
-          // Connection successful
-          await addLog('minecraft', 'info', `🎮 Successfully connected! ${result.message}`);
-          await storage.updateMinecraftConfig({ ...config, isConnected: true });
-          return;
-        } else if (result.shouldRetry && retryCount < maxRetries) {
-          // Retry connection
-          const delay = Math.min(30000 * Math.pow(2, retryCount), 300000); // Exponential backoff, max 5 minutes
-          await addLog('minecraft', 'warn', `⏳ Retry ${retryCount + 1}/${maxRetries} in ${delay/1000} seconds: ${result.message}`);
-          
-          setTimeout(async () => {
-            try {
-              await attemptConnection(retryCount + 1);
-            } catch (error) {
-              await addLog('minecraft', 'error', `Retry ${retryCount + 1} failed: ${error.message}`);
-            }
-          }, delay);
-        } else {
-          // Max retries reached or shouldn't retry
-          await addLog('minecraft', 'error', `❌ Connection failed after ${retryCount + 1} attempts: ${result.message}`);
-          await storage.updateMinecraftConfig({ ...config, isConnected: false });
-        }
-      };
-
       // Start the connection process asynchronously
-      attemptConnection().catch(async (error) => {
-        await addLog('minecraft', 'error', `Connection process failed: ${error.message}`);
+      lifecycle.connect(instance.id, config).catch(async (error) => {
+        await addBotLog(instance, 'minecraft', 'error', `Connection process failed: ${error.message}`);
       });
 
       // Immediate response to user
@@ -2474,53 +3371,41 @@ export function createRoutes(storage: IStorage, io?: any) {
         success: true, 
         message: 'Connection process started. Check logs for status updates.',
         retryEnabled: true,
-        maxRetries 
+        maxRetries: lifecycle.maxRetries
       });
       
     } catch (error) {
-      await addLog('minecraft', 'error', `Failed to start connection: ${error.message}`);
+      await addBotLog(instance, 'minecraft', 'error', `Failed to start connection: ${error.message}`);
       res.status(500).json({ error: 'Failed to start connection process', details: error.message });
     }
   });
 
-  router.post('/api/minecraft/disconnect', async (req, res) => {
+  botRouter.post('/minecraft/disconnect', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      // Clear any pending reconnection attempts
-      if (reconnectTimeout) {
-        clearTimeout(reconnectTimeout);
-        reconnectTimeout = null;
-      }
-      isReconnecting = false;
-      connectionAttempts = 0;
-      
-      if (minecraftBot) {
-        minecraftBot.quit();
-        minecraftBot = null;
-        
-        await storage.updateMinecraftConfig({ isConnected: false });
-        await storage.updateBotStatus({
-          discordConnected: (await storage.getBotStatus())?.discordConnected || false,
-          minecraftConnected: false,
-          lastActivity: new Date().toISOString(),
-          totalUptime: (await storage.getBotStatus())?.totalUptime || '0m',
-        });
-        
-        await addLog('minecraft', 'info', '🛑 Minecraft bot manually disconnected');
-        await storage.clearLogs('minecraft');
-      }
-      
-      res.json({ success: true, message: 'Minecraft bot disconnected' });
+      const result = await lifecycle.disconnect(instance.id);
+      res.json({ success: true, result, message: result === 'cancelled' ? 'Connection attempt cancelled' : 'Minecraft bot disconnected' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to disconnect Minecraft bot' });
     }
   });
 
+  botRouter.get('/minecraft/lifecycle', requireRole('viewer', 'status:read'), async (req, res) => {
+    const instance = botOf(res);
+    try {
+      res.json(await lifecycle.status(instance.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get bot status', details: error.message });
+    }
+  });
+
   // Console Commands
-  router.post('/api/console/command', async (req, res) => {
+  botRouter.post('/console/command', requireRole('operator', 'console:write'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const { command } = insertConsoleCommandSchema.parse(req.body);
       
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Minecraft bot is not connected' });
       }
 
@@ -2529,14 +3414,14 @@ export function createRoutes(storage: IStorage, io?: any) {
 
       try {
         // Execute command
-        minecraftBot.chat(`/${command}`);
+        instance.minecraftBot.chat(`/${command}`);
         response = `Command executed: /${command}`;
         success = true;
         
-        await addLog('minecraft', 'info', `Console command executed: /${command}`);
+        await addBotLog(instance, 'minecraft', 'info', `Console command executed: /${command}`);
       } catch (error) {
         response = `Failed to execute command: ${error.message}`;
-        await addLog('error', 'error', `Console command failed: /${command}`, error.message);
+        await addBotLog(instance, 'error', 'error', `Console command failed: /${command}`, error.message);
       }
 
       const commandRecord = await storage.addConsoleCommand({
@@ -2553,7 +3438,8 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // New endpoint that handles both commands and chat messages
-  router.post('/api/console/send', async (req, res) => {
+  botRouter.post('/console/send', requireRole('operator', 'console:write'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const { content } = req.body;
       
@@ -2561,7 +3447,7 @@ export function createRoutes(storage: IStorage, io?: any) {
         return res.status(400).json({ error: 'Content is required' });
       }
       
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Minecraft bot is not connected', success: false });
       }
 
@@ -2582,7 +3468,7 @@ export function createRoutes(storage: IStorage, io?: any) {
               success = false;
             } else {
               const targetPlayer = parts[1];
-              const result = await handleGotoCommand(targetPlayer, 'console_user');
+              const result = await handleGotoCommand(instance, targetPlayer, 'console_user');
               response = result.message;
               success = result.success;
             }
@@ -2591,24 +3477,24 @@ export function createRoutes(storage: IStorage, io?: any) {
             success = false;
           }
           
-          await addLog('minecraft', 'info', `Custom command: ${content} - ${response}`);
+          await addBotLog(instance, 'minecraft', 'info', `Custom command: ${content} - ${response}`);
         } else if (isCommand) {
           // It's a regular / command - send as is
-          minecraftBot.chat(content);
+          instance.minecraftBot.chat(content);
           response = `Command executed: ${content}`;
-          await addLog('minecraft', 'info', `Console command executed: ${content}`);
+          await addBotLog(instance, 'minecraft', 'info', `Console command executed: ${content}`);
           success = true;
         } else {
           // It's a chat message - send without prefix
-          minecraftBot.chat(content);
+          instance.minecraftBot.chat(content);
           response = `Message sent: ${content}`;
-          await addLog('minecraft', 'info', `Chat message sent: ${content}`);
+          await addBotLog(instance, 'minecraft', 'info', `Chat message sent: ${content}`);
           success = true;
         }
       } catch (error) {
         const commandType = isCustomCommand ? 'custom command' : (isCommand ? 'command' : 'message');
         response = `Failed to send ${commandType}: ${error.message}`;
-        await addLog('minecraft', 'error', `Console ${commandType} failed: ${content}`, error.message);
+        await addBotLog(instance, 'minecraft', 'error', `Console ${commandType} failed: ${content}`, error.message);
       }
 
       const commandRecord = await storage.addConsoleCommand({
@@ -2624,7 +3510,7 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.get('/api/console/commands', async (req, res) => {
+  router.get('/api/console/commands', requireRole('viewer'), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
       const commands = await storage.getConsoleCommands(limit);
@@ -2635,21 +3521,24 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // Logs
-  router.get('/api/logs', async (req, res) => {
+  // ?type=&level=warn,error&search=&from=&to=&botId=&cursor=&limit= - newest first
+  router.get('/api/logs', requireRole('viewer'), async (req, res) => {
     try {
-      const type = req.query.type as 'discord' | 'minecraft' | 'system' | 'error' | undefined;
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-      const logs = await storage.getLogs(type, limit);
-      res.json(logs);
+      const query = LogQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid log query', details: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+      }
+      res.json(await storage.queryLogs(query.data));
     } catch (error) {
       res.status(500).json({ error: 'Failed to get logs' });
     }
   });
 
-  router.delete('/api/logs', async (req, res) => {
+  router.delete('/api/logs', requireRole('admin'), async (req, res) => {
     try {
       const type = req.query.type as 'discord' | 'minecraft' | 'system' | 'error' | undefined;
-      await storage.clearLogs(type);
+      const botId = req.query.botId as string | undefined;
+      await storage.clearLogs(type, botId);
       res.json({ success: true, message: 'Logs cleared' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to clear logs' });
@@ -2657,15 +3546,16 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // Inventory
-  router.get('/api/inventory', async (req, res) => {
+  botRouter.get('/inventory', requireRole('viewer', 'status:read'), async (req, res) => {
+    const instance = botOf(res);
     try {
       // Only return inventory if bot is actually connected
-      if (!minecraftBot || !minecraftBot.inventory) {
+      if (!instance.minecraftBot || !instance.minecraftBot.inventory) {
         return res.json([]); // Return empty array when not connected
       }
       
       // Get real inventory from connected bot
-      const items = minecraftBot.inventory.items();
+      const items = instance.minecraftBot.inventory.items();
       const inventory = items.map((item, index) => ({
         id: `${item.type}_${index}`,
         name: item.name || item.displayName || 'Unknown',
@@ -2676,7 +3566,7 @@ export function createRoutes(storage: IStorage, io?: any) {
       }));
       
       // Save to storage for caching
-      await storage.updateInventory(inventory);
+      await storage.updateInventory(inventory, instance.id);
       
       res.json(inventory);
     } catch (error) {
@@ -2701,62 +3591,39 @@ export function createRoutes(storage: IStorage, io?: any) {
   }
 
   // Drop item endpoint
-  router.post('/api/inventory/drop', async (req, res) => {
+  botRouter.post('/inventory/drop', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot || !minecraftBot.inventory) {
-        return res.status(400).json({ error: 'Bot not connected' });
-      }
-
       const { slot, count } = req.body;
-      
-      if (slot === undefined) {
-        return res.status(400).json({ error: 'Slot is required' });
-      }
-
-      const item = minecraftBot.inventory.slots[slot];
-      if (!item) {
-        return res.status(400).json({ error: 'No item in specified slot' });
-      }
-
-      const dropCount = count || item.count;
-      
-      // Drop the item(s)
-      if (dropCount >= item.count) {
-        await minecraftBot.tossStack(item);
-        await addLog('minecraft', 'info', `Dropped all ${item.count} ${item.name} from slot ${slot}`);
-      } else {
-        await minecraftBot.toss(item.type, null, dropCount);
-        await addLog('minecraft', 'info', `Dropped ${dropCount} ${item.name} from slot ${slot}`);
-      }
-
-      // Emit real-time update
-      if (io) {
-        io.emit('inventory_updated');
+      const result = await dropItem(instance, slot, count);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.message });
       }
 
-      res.json({ success: true, message: `Dropped ${dropCount} ${item.name}` });
+      res.json({ success: true, message: result.message });
     } catch (error) {
-      await addLog('minecraft', 'error', `Failed to drop item: ${error.message}`);
+      await addBotLog(instance, 'minecraft', 'error', `Failed to drop item: ${error.message}`);
       res.status(500).json({ error: 'Failed to drop item', details: error.message });
     }
   });
 
   // Movement control endpoints
-  router.post('/api/movement/control', async (req, res) => {
+  botRouter.post('/movement/control', requireRole('operator', 'control:movement'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
 
       const { action, key, pressed } = req.body;
       
       if (action === 'movement' && key && typeof pressed === 'boolean') {
-        currentMovementStates[key] = pressed;
-        updateBotMovement();
+        instance.currentMovementStates[key] = pressed;
+        updateBotMovement(instance);
         
         // Emit real-time update
         if (io) {
-          io.emit('bot_movement_update', currentMovementStates);
+          io.to(instance.room).emit('bot_movement_update', instance.currentMovementStates);
         }
         
         res.json({ success: true, message: `Movement ${key} ${pressed ? 'started' : 'stopped'}` });
@@ -2769,7 +3636,7 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // AI Copilot endpoints
-  router.post('/api/ai/chat', async (req, res) => {
+  router.post('/api/ai/chat', requireRole('operator'), async (req, res) => {
     try {
       const { message, context } = req.body;
       
@@ -2785,9 +3652,10 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/ai/execute', async (req, res) => {
+  botRouter.post('/ai/execute', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
 
@@ -2800,16 +3668,16 @@ export function createRoutes(storage: IStorage, io?: any) {
       // Execute the AI-suggested command
       try {
         if (intent === 'command') {
-          minecraftBot.chat(`/${command}`);
-          await addLog('minecraft', 'info', `AI suggested command executed: /${command}`);
+          instance.minecraftBot.chat(`/${command}`);
+          await addBotLog(instance, 'minecraft', 'info', `AI suggested command executed: /${command}`);
         } else if (intent === 'movement') {
           // Handle movement commands here
-          await addLog('minecraft', 'info', `AI movement suggestion: ${command}`);
+          await addBotLog(instance, 'minecraft', 'info', `AI movement suggestion: ${command}`);
         }
         
         res.json({ success: true, message: `Executed: ${command}` });
       } catch (execError) {
-        await addLog('minecraft', 'error', `Failed to execute AI command: ${execError.message}`);
+        await addBotLog(instance, 'minecraft', 'error', `Failed to execute AI command: ${execError.message}`);
         res.status(500).json({ error: 'Command execution failed', details: execError.message });
       }
     } catch (error) {
@@ -2818,105 +3686,26 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // Use item endpoint (with food consumption logic)
-  router.post('/api/inventory/use', async (req, res) => {
+  botRouter.post('/inventory/use', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot || !minecraftBot.inventory) {
-        return res.status(400).json({ error: 'Bot not connected' });
-      }
-
-      const { slot } = req.body;
-      
-      if (slot === undefined) {
-        return res.status(400).json({ error: 'Slot is required' });
-      }
-
-      const item = minecraftBot.inventory.slots[slot];
-      if (!item) {
-        return res.status(400).json({ error: 'No item in specified slot' });
-      }
-
-      const itemName = item.name || item.displayName || 'Unknown';
-      
-      // Check if item is food
-      if (isFood(itemName)) {
-        try {
-          // Equip the food item to hand
-          await minecraftBot.equip(item, 'hand');
-          await addLog('minecraft', 'info', `Equipped ${itemName} to hand`);
-          
-          // Start eating
-          await minecraftBot.activateItem();
-          await addLog('minecraft', 'info', `Started eating ${itemName}`);
-          
-          // Keep eating until food/health is full or item is consumed
-          const eatInterval = setInterval(async () => {
-            try {
-              if (!minecraftBot || minecraftBot.food >= 20 || minecraftBot.health >= 20) {
-                clearInterval(eatInterval);
-                minecraftBot.deactivateItem();
-                await addLog('minecraft', 'info', 'Stopped eating - full or healthy');
-                return;
-              }
-              
-              // Check if we still have the food item
-              const currentItem = minecraftBot.heldItem;
-              if (!currentItem || !isFood(currentItem.name || '')) {
-                clearInterval(eatInterval);
-                await addLog('minecraft', 'info', 'Stopped eating - no food item in hand');
-                return;
-              }
-            } catch (error) {
-              clearInterval(eatInterval);
-              await addLog('minecraft', 'error', `Error during eating: ${error.message}`);
-            }
-          }, 1000);
-          
-          // Auto-stop after 30 seconds to prevent infinite eating
-          setTimeout(() => {
-            clearInterval(eatInterval);
-            if (minecraftBot) {
-              minecraftBot.deactivateItem();
-            }
-          }, 30000);
-          
-        } catch (error) {
-          await addLog('minecraft', 'error', `Failed to eat ${itemName}: ${error.message}`);
-        }
-      } else {
-        // For non-food items, just equip and use
-        try {
-          await minecraftBot.equip(item, 'hand');
-          await minecraftBot.activateItem();
-          await addLog('minecraft', 'info', `Used ${itemName}`);
-          
-          // Deactivate after a short time
-          setTimeout(() => {
-            if (minecraftBot) {
-              minecraftBot.deactivateItem();
-            }
-          }, 2000);
-        } catch (error) {
-          await addLog('minecraft', 'error', `Failed to use ${itemName}: ${error.message}`);
-        }
-      }
-
-      // Emit real-time update
-      if (io) {
-        io.emit('inventory_updated');
-        io.emit('bot_status_updated');
+      const result = await useItem(instance, req.body.slot);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.message });
       }
 
-      res.json({ success: true, message: `Used ${itemName}` });
+      res.json({ success: true, message: result.message });
     } catch (error) {
-      await addLog('minecraft', 'error', `Failed to use item: ${error.message}`);
+      await addBotLog(instance, 'minecraft', 'error', `Failed to use item: ${error.message}`);
       res.status(500).json({ error: 'Failed to use item', details: error.message });
     }
   });
 
   // Bot viewer endpoint (3D world view)
-  router.get('/api/viewer', async (req, res) => {
+  botRouter.get('/viewer', requireRole('viewer'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.json({ 
           connected: false,
           position: { x: 0, y: 0, z: 0 },
@@ -2931,12 +3720,12 @@ export function createRoutes(storage: IStorage, io?: any) {
       // Return basic viewer info - actual rendering handled by prismarine-viewer
       const viewerData = {
         connected: true,
-        position: minecraftBot.entity ? minecraftBot.entity.position : { x: 0, y: 0, z: 0 },
-        yaw: minecraftBot.entity ? minecraftBot.entity.yaw : 0,
-        pitch: minecraftBot.entity ? minecraftBot.entity.pitch : 0,
-        dimension: minecraftBot.dimension || 'overworld',
-        health: minecraftBot.health || 0,
-        food: minecraftBot.food || 0
+        position: instance.minecraftBot.entity ? instance.minecraftBot.entity.position : { x: 0, y: 0, z: 0 },
+        yaw: instance.minecraftBot.entity ? instance.minecraftBot.entity.yaw : 0,
+        pitch: instance.minecraftBot.entity ? instance.minecraftBot.entity.pitch : 0,
+        dimension: instance.minecraftBot.game?.dimension || 'overworld',
+        health: instance.minecraftBot.health || 0,
+        food: instance.minecraftBot.food || 0
       };
 
       res.json(viewerData);
@@ -2947,19 +3736,23 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // Bot Status
-  router.get('/api/status', async (req, res) => {
+  router.get('/api/status', requireRole('viewer', 'status:read'), async (req, res) => {
     try {
       const status = await storage.getBotStatus();
       const discordConfig = await storage.getDiscordConfig();
       const minecraftConfig = await storage.getMinecraftConfig();
       
+      // Viewers can read this, so leave out the Discord token and the server and proxy passwords
+      const { token: _token, ...safeDiscordConfig } = discordConfig || {} as Partial<DiscordBotConfig>;
+      const { password: _password, proxyPassword: _proxyPassword, ...safeMinecraftConfig } = minecraftConfig || {} as Partial<MinecraftServerConfig>;
+      
       res.json({
         ...status,
-        discord: discordConfig,
-        minecraft: minecraftConfig,
+        discord: discordConfig ? safeDiscordConfig : null,
+        minecraft: minecraftConfig ? safeMinecraftConfig : null,
         bots: {
           discord: !!discordBot,
-          minecraft: !!minecraftBot,
+          minecraft: registry.hasConnectedBot(),
         }
       });
     } catch (error) {
@@ -2968,86 +3761,87 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // Control endpoints
-  router.post('/api/control/enable', async (req, res) => {
+  botRouter.post('/control/enable', requireRole('operator', 'control:movement'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const { clientId } = req.body;
       
-      if (isControlLockValid()) {
+      if (instance.isControlLockValid()) {
         return res.status(409).json({ 
           error: 'Control already locked', 
-          owner: controlLock.owner 
+          owner: instance.controlLock.owner 
         });
       }
       
-      controlLock.owner = clientId || 'web-user';
-      controlLock.ownerId = clientId || 'web-user';
-      controlLock.lastHeartbeat = Date.now();
-      isManualControl = true;
+      instance.controlLock.owner = clientId || 'web-user';
+      instance.controlLock.ownerId = clientId || 'web-user';
+      instance.controlLock.lastHeartbeat = Date.now();
+      instance.isManualControl = true;
       
       res.json({ 
         success: true, 
         message: 'Control granted',
-        owner: controlLock.owner 
+        owner: instance.controlLock.owner 
       });
     } catch (error) {
       res.status(500).json({ error: 'Failed to enable control' });
     }
   });
 
-  router.post('/api/control/release', async (req, res) => {
+  botRouter.post('/control/release', requireRole('operator', 'control:movement'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      releaseControlLock();
+      releaseControlLock(instance);
       res.json({ success: true, message: 'Control released' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to release control' });
     }
   });
 
-  router.post('/api/control/stop', async (req, res) => {
+  botRouter.post('/control/stop', requireRole('operator', 'control:movement'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
-      Object.keys(currentMovementStates).forEach(key => {
-        currentMovementStates[key] = false;
-      });
-      updateBotMovement();
-      
+      stopMovement(instance);
       res.json({ success: true, message: 'All movement stopped' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to stop movement' });
     }
   });
 
-  router.post('/api/look', async (req, res) => {
+  botRouter.post('/look', requireRole('operator', 'control:movement'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
       const { yaw, pitch } = req.body;
       
-      if (yaw !== undefined) botLook.yaw = yaw;
+      if (yaw !== undefined) instance.botLook.yaw = yaw;
       if (pitch !== undefined) {
-        botLook.pitch = Math.max(-Math.PI/2, Math.min(Math.PI/2, pitch));
+        instance.botLook.pitch = Math.max(-Math.PI/2, Math.min(Math.PI/2, pitch));
       }
       
-      await minecraftBot.look(botLook.yaw, botLook.pitch);
-      res.json({ success: true, yaw: botLook.yaw, pitch: botLook.pitch });
+      await instance.minecraftBot.look(instance.botLook.yaw, instance.botLook.pitch);
+      res.json({ success: true, yaw: instance.botLook.yaw, pitch: instance.botLook.pitch });
     } catch (error) {
       res.status(500).json({ error: 'Failed to control look direction' });
     }
   });
 
   // Enhanced inventory management
-  router.get('/api/inventory/refresh', async (req, res) => {
+  botRouter.get('/inventory/refresh', requireRole('viewer'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
-      const inventory = minecraftBot.inventory.slots.map((item, index) => {
+      const inventory = instance.minecraftBot.inventory.slots.map((item, index) => {
         if (!item) return null;
         return {
           slot: index,
@@ -3069,9 +3863,10 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/inventory/hotbar', async (req, res) => {
+  botRouter.post('/inventory/hotbar', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
@@ -3081,10 +3876,10 @@ export function createRoutes(storage: IStorage, io?: any) {
         return res.status(400).json({ error: 'Invalid hotbar slot (0-8)' });
       }
       
-      minecraftBot.setQuickBarSlot(slot);
-      await addLog('minecraft', 'info', `Selected hotbar slot ${slot}`);
+      instance.minecraftBot.setQuickBarSlot(slot);
+      await addBotLog(instance, 'minecraft', 'info', `Selected hotbar slot ${slot}`);
       
-      if (io) io.emit('inventory_updated');
+      if (io) io.to(instance.room).emit('inventory_updated');
       
       res.json({ success: true, selectedSlot: slot });
     } catch (error) {
@@ -3092,23 +3887,24 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/inventory/equip', async (req, res) => {
+  botRouter.post('/inventory/equip', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
       const { slot, destination = 'hand' } = req.body;
-      const item = minecraftBot.inventory.slots[slot];
+      const item = instance.minecraftBot.inventory.slots[slot];
       
       if (!item) {
         return res.status(400).json({ error: 'No item in specified slot' });
       }
       
-      await minecraftBot.equip(item, destination);
-      await addLog('minecraft', 'info', `Equipped ${item.name} to ${destination}`);
+      await instance.minecraftBot.equip(item, destination);
+      await addBotLog(instance, 'minecraft', 'info', `Equipped ${item.name} to ${destination}`);
       
-      if (io) io.emit('inventory_updated');
+      if (io) io.to(instance.room).emit('inventory_updated');
       
       res.json({ success: true, equipped: item.name, destination });
     } catch (error) {
@@ -3116,17 +3912,18 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/inventory/unequip', async (req, res) => {
+  botRouter.post('/inventory/unequip', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
       const { destination = 'hand' } = req.body;
-      await minecraftBot.unequip(destination);
-      await addLog('minecraft', 'info', `Unequipped ${destination}`);
+      await instance.minecraftBot.unequip(destination);
+      await addBotLog(instance, 'minecraft', 'info', `Unequipped ${destination}`);
       
-      if (io) io.emit('inventory_updated');
+      if (io) io.to(instance.room).emit('inventory_updated');
       
       res.json({ success: true, message: `Unequipped ${destination}` });
     } catch (error) {
@@ -3135,95 +3932,55 @@ export function createRoutes(storage: IStorage, io?: any) {
   });
 
   // PvP system endpoints
-  router.post('/api/pvp/enable', async (req, res) => {
+  botRouter.post('/pvp/enable', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
+      if (!instance.minecraftBot) {
         return res.status(400).json({ error: 'Bot not connected' });
       }
       
-      pvpEnabled = true;
-      await addLog('minecraft', 'info', 'PvP mode enabled');
-      
-      if (io) {
-        io.emit('pvp_status', { enabled: pvpEnabled, target: pvpTarget });
-      }
-      
-      res.json({ success: true, enabled: pvpEnabled });
+      await setPvpEnabled(instance, true);
+      res.json({ success: true, enabled: instance.pvpEnabled });
     } catch (error) {
       res.status(500).json({ error: 'Failed to enable PvP' });
     }
   });
 
-  router.post('/api/pvp/disable', async (req, res) => {
+  botRouter.post('/pvp/disable', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      pvpEnabled = false;
-      pvpTarget = null;
-      
-      if (minecraftBot && (minecraftBot as any).pvp) {
-        (minecraftBot as any).pvp.stop();
-      }
-      
-      await addLog('minecraft', 'info', 'PvP mode disabled');
-      
-      if (io) {
-        io.emit('pvp_status', { enabled: pvpEnabled, target: pvpTarget });
-      }
-      
-      res.json({ success: true, enabled: pvpEnabled });
+      await setPvpEnabled(instance, false);
+      res.json({ success: true, enabled: instance.pvpEnabled });
     } catch (error) {
       res.status(500).json({ error: 'Failed to disable PvP' });
     }
   });
 
-  router.post('/api/pvp/target', async (req, res) => {
+  botRouter.post('/pvp/target', requireRole('operator'), async (req, res) => {
+    const instance = botOf(res);
     try {
-      if (!minecraftBot) {
-        return res.status(400).json({ error: 'Bot not connected' });
-      }
-      
-      const { username } = req.body;
-      
-      if (!username) {
-        pvpTarget = null;
-        res.json({ success: true, target: null, message: 'Target cleared' });
-        return;
+      const result = await setPvpTarget(instance, req.body.username);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.message });
       }
       
-      const targetEntity = Object.values(minecraftBot.entities).find(
-        (entity: any) => entity.username === username
-      );
-      
-      if (!targetEntity) {
-        return res.status(404).json({ error: 'Target player not found' });
-      }
-      
-      pvpTarget = username;
-      await addLog('minecraft', 'info', `PvP target set to ${username}`);
-      
-      if (pvpEnabled && (minecraftBot as any).pvp) {
-        (minecraftBot as any).pvp.attack(targetEntity);
-      }
-      
-      if (io) {
-        io.emit('pvp_status', { enabled: pvpEnabled, target: pvpTarget });
-      }
-      
-      res.json({ success: true, target: pvpTarget });
+      res.json({ success: true, target: instance.pvpTarget, message: result.message });
     } catch (error) {
       res.status(500).json({ error: 'Failed to set PvP target' });
     }
   });
 
-  router.get('/api/pvp/status', async (req, res) => {
+  botRouter.get('/pvp/status', requireRole('viewer', 'status:read'), async (req, res) => {
+    const instance = botOf(res);
     try {
       const nearbyPlayers = [];
       
-      if (minecraftBot) {
-        for (const [username, player] of Object.entries(minecraftBot.players)) {
-          if ((player as any).entity && username !== minecraftBot.username) {
+      if (instance.minecraftBot) {
+        for (const [username, player] of Object.entries(instance.minecraftBot.players)) {
+          if ((player as any).entity && username !== instance.minecraftBot.username) {
             const entity = (player as any).entity;
-            const distance = minecraftBot.entity ? 
-              minecraftBot.entity.position.distanceTo(entity.position) : 0;
+            const distance = instance.minecraftBot.entity ? 
+              instance.minecraftBot.entity.position.distanceTo(entity.position) : 0;
             
             nearbyPlayers.push({
               username,
@@ -3236,8 +3993,8 @@ export function createRoutes(storage: IStorage, io?: any) {
       }
       
       res.json({
-        enabled: pvpEnabled,
-        target: pvpTarget,
+        enabled: instance.pvpEnabled,
+        target: instance.pvpTarget,
         nearbyPlayers: nearbyPlayers.slice(0, 10) // Limit to 10 for performance
       });
     } catch (error) {
@@ -3245,11 +4002,14 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  // Aternos API endpoints
-  router.get('/api/aternos/config', async (req, res) => {
+  // Aternos API endpoints (server power control through the configured ServerProvider)
+  router.get('/api/aternos/config', requireRole('viewer'), async (req, res) => {
     try {
-      const config = await storage.getAternosConfig?.() || {};
-      res.json(config);
+      const { password, ...config } = await storage.getAternosConfig?.() || {} as Partial<AternosConfig>;
+      const provider = await getServerProvider();
+      
+      // Live status from the provider rather than the last stored value
+      res.json({ provider: 'local', ...config, hasPassword: !!password, serverStatus: await provider.status() });
     } catch (error) {
       res.json({
         username: '',
@@ -3261,62 +4021,110 @@ export function createRoutes(storage: IStorage, io?: any) {
     }
   });
 
-  router.post('/api/aternos/config', async (req, res) => {
+  router.post('/api/aternos/config', requireRole('admin'), async (req, res) => {
     try {
-      const { username, password, serverName, autoStart } = req.body;
+      const { username, password, serverName, autoStart, autoStartTimeout, provider, localCommand, localWorkingDir, localStopCommand } = req.body;
+      const existingConfig = await storage.getAternosConfig();
+      // Fields the form leaves out keep their configured values
+      const providerType = provider === undefined ? existingConfig?.provider ?? 'local' : provider === 'mock' ? 'mock' : 'local';
       
       if (storage.saveAternosConfig) {
         await storage.saveAternosConfig({
-          username,
-          password,
-          serverName,
-          autoStart,
-          isLoggedIn: false
+          username: username ?? existingConfig?.username,
+          // Keep the saved password when the form leaves it blank
+          password: password || existingConfig?.password,
+          serverName: serverName ?? existingConfig?.serverName,
+          autoStart: autoStart ?? existingConfig?.autoStart,
+          autoStartTimeout: parseInt(autoStartTimeout) || existingConfig?.autoStartTimeout || 300,
+          provider: providerType,
+          localCommand: localCommand ?? existingConfig?.localCommand,
+          localWorkingDir: localWorkingDir ?? existingConfig?.localWorkingDir,
+          localStopCommand: localStopCommand || existingConfig?.localStopCommand || 'stop',
+          isLoggedIn: false,
+          serverStatus: existingConfig?.serverStatus || 'unknown',
+          playerCount: existingConfig?.playerCount || '0/20',
         });
       }
       
-      await addLog('system', 'info', `Aternos config saved for user: ${username}`);
+      await addLog('system', 'info', `Server provider config saved (${providerType})`);
       res.json({ success: true, message: 'Aternos configuration saved' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to save Aternos configuration' });
     }
   });
 
-  router.post('/api/aternos/start', async (req, res) => {
+  // Stopping a local server waits for the process to exit (up to a minute and more), so the
+  // request only waits until the provider has taken the action; what comes after is reported
+  // through server_status, and a late failure through the logs
+  const beginServerPowerAction = async (action: 'stop' | 'restart'): Promise<ServerProvider> => {
+    const provider = await getServerProvider();
+    const running = provider[action]();
+    const settled = await Promise.race([
+      running.then(() => true),
+      new Promise<false>(resolve => setImmediate(() => resolve(false))),
+    ]);
+    if (!settled) {
+      running.catch(error => addLog('error', 'error', `Failed to ${action} server`, error.message));
+    }
+    return provider;
+  };
+
+  router.post('/api/aternos/start', requireRole('operator', 'server:power'), async (req, res) => {
     try {
-      await addLog('system', 'info', 'Aternos server start requested');
-      res.json({ 
-        success: true, 
-        message: 'Aternos integration requires external API setup. This feature is currently limited.' 
-      });
+      await addLog('system', 'info', 'Server start requested');
+      const provider = await getServerProvider();
+      await provider.start();
+      res.json({ success: true, message: 'Server is starting', status: await provider.status() });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to start Aternos server' });
+      await addLog('error', 'error', 'Failed to start server', error.message);
+      res.status(400).json({ error: 'Failed to start server', details: error.message });
     }
   });
 
-  router.post('/api/aternos/stop', async (req, res) => {
+  router.post('/api/aternos/stop', requireRole('operator', 'server:power'), async (req, res) => {
     try {
-      await addLog('system', 'info', 'Aternos server stop requested');
-      res.json({ 
-        success: true, 
-        message: 'Aternos integration requires external API setup. This feature is currently limited.' 
-      });
+      await addLog('system', 'info', 'Server stop requested');
+      const provider = await beginServerPowerAction('stop');
+      res.json({ success: true, message: 'Server is stopping', status: await provider.status() });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to stop Aternos server' });
+      await addLog('error', 'error', 'Failed to stop server', error.message);
+      res.status(400).json({ error: 'Failed to stop server', details: error.message });
     }
   });
 
-  router.post('/api/aternos/restart', async (req, res) => {
+  router.post('/api/aternos/restart', requireRole('operator', 'server:power'), async (req, res) => {
     try {
-      await addLog('system', 'info', 'Aternos server restart requested');
-      res.json({ 
-        success: true, 
-        message: 'Aternos integration requires external API setup. This feature is currently limited.' 
-      });
+      await addLog('system', 'info', 'Server restart requested');
+      const provider = await beginServerPowerAction('restart');
+      res.json({ success: true, message: 'Server is restarting', status: await provider.status() });
+    } catch (error) {
+      await addLog('error', 'error', 'Failed to restart server', error.message);
+      res.status(400).json({ error: 'Failed to restart server', details: error.message });
+    }
+  });
+
+  router.get('/api/aternos/players', requireRole('viewer', 'status:read'), async (req, res) => {
+    try {
+      const provider = await getServerProvider();
+      res.json(await provider.players());
     } catch (error) {
-      res.status(500).json({ error: 'Failed to restart Aternos server' });
+      res.status(500).json({ error: 'Failed to get players', details: error.message });
     }
   });
 
+  // Resolve the bot for bot-scoped routes; unknown ids are rejected
+  const resolveBot: express.RequestHandler = async (req, res, next) => {
+    const botId = (req.params as { botId?: string }).botId || DEFAULT_BOT_ID;
+    if (botId !== DEFAULT_BOT_ID && !(await storage.getMinecraftConfig(botId))) {
+      res.status(404).json({ error: `Bot ${botId} not found` });
+      return;
+    }
+    res.locals.bot = registry.get(botId);
+    next();
+  };
+
+  router.use('/api/bots/:botId', resolveBot, botRouter);
+  router.use('/api', resolveBot, botRouter);
+
   return router;
 }
\ No newline at end of file
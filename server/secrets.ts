@@ -0,0 +1,77 @@
+import { randomBytes, createCipheriv, createDecipheriv, scryptSync } from 'node:crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const DEFAULT_KEY_FILE = './.master.key';
+
+// Field names that must never leave the server in a GET response
+const SECRET_FIELDS = new Set(['token', 'password', 'passwordHash', 'keyHash', 'proxyPassword']);
+
+// AES-256-GCM for secret fields at rest, stored as enc:v1:<iv>:<tag>:<ciphertext> (base64)
+export class SecretCipher {
+  constructor(private readonly key: Buffer) {
+    if (key.length !== 32) {
+      throw new Error('Master key must be 32 bytes');
+    }
+  }
+
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  }
+
+  decrypt(value: string): string {
+    if (!SecretCipher.isEncrypted(value)) return value;
+    const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
+
+// AFK_MASTER_KEY (64 hex chars, or any passphrase) wins; otherwise a keyfile
+// at AFK_MASTER_KEY_FILE is used, and generated on first run
+export async function loadMasterKey(): Promise<Buffer> {
+  const envKey = process.env.AFK_MASTER_KEY;
+  if (envKey) {
+    return /^[0-9a-f]{64}$/i.test(envKey)
+      ? Buffer.from(envKey, 'hex')
+      : scryptSync(envKey, 'afk-dashboard-master-key', 32);
+  }
+
+  const keyFile = process.env.AFK_MASTER_KEY_FILE || DEFAULT_KEY_FILE;
+  try {
+    const stored = (await fs.readFile(keyFile, 'utf-8')).trim();
+    return Buffer.from(stored, 'hex');
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  const key = randomBytes(32);
+  await fs.mkdir(path.dirname(keyFile), { recursive: true });
+  await fs.writeFile(keyFile, key.toString('hex') + '\n', { mode: 0o600, flag: 'wx' });
+  console.log(`🔐 Generated master key at ${keyFile} - back it up separately from the data folder`);
+  return key;
+}
+
+// Deep copy without secret fields, for anything served to clients
+export function stripSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => stripSecrets(item)) as T;
+  }
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !SECRET_FIELDS.has(key))
+        .map(([key, item]) => [key, stripSecrets(item)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AddressError, AddressResolver, parseServerAddress } from './serverAddress';
+import type { DnsLookup, SrvRecord } from './serverAddress';
+
+// Answers SRV lookups from a table; names missing from it fail like NXDOMAIN
+function fakeDns(records: Record<string, SrvRecord[]>): DnsLookup & { lookups: string[] } {
+  const lookups: string[] = [];
+  return {
+    lookups,
+    async resolveSrv(hostname) {
+      lookups.push(hostname);
+      const answer = records[hostname];
+      if (!answer) throw Object.assign(new Error(`queryEsrv ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+      return answer;
+    },
+  };
+}
+
+const srv = (name: string, port: number, priority = 0, weight = 0): SrvRecord => ({ name, port, priority, weight });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseServerAddress', () => {
+  it('reads hostnames and IPv4 with or without a port', () => {
+    expect(parseServerAddress('play.example.com')).toEqual({ host: 'play.example.com', port: 25565, explicitPort: false });
+    expect(parseServerAddress('play.example.com:25570')).toEqual({ host: 'play.example.com', port: 25570, explicitPort: true });
+    expect(parseServerAddress(' 10.0.0.5 ', '25566')).toEqual({ host: '10.0.0.5', port: 25566, explicitPort: true });
+    expect(parseServerAddress('play.example.com.')).toMatchObject({ host: 'play.example.com' });
+  });
+
+  it('reads bracketed and bare IPv6', () => {
+    expect(parseServerAddress('[2001:db8::1]:25570')).toEqual({ host: '2001:db8::1', port: 25570, explicitPort: true });
+    expect(parseServerAddress('[2001:db8::1]')).toEqual({ host: '2001:db8::1', port: 25565, explicitPort: false });
+    expect(parseServerAddress('2001:db8::1', '25570')).toEqual({ host: '2001:db8::1', port: 25570, explicitPort: true });
+    expect(parseServerAddress('::1')).toEqual({ host: '::1', port: 25565, explicitPort: false });
+  });
+
+  it('prefers a port in the address over the port field', () => {
+    expect(parseServerAddress('play.example.com:25570', '25566')).toMatchObject({ port: 25570, explicitPort: true });
+    expect(parseServerAddress('[2001:db8::1]:25570', '25566')).toMatchObject({ port: 25570, explicitPort: true });
+  });
+
+  it('treats the default port in the port field as no port', () => {
+    expect(parseServerAddress('play.example.com', '25565')).toEqual({ host: 'play.example.com', port: 25565, explicitPort: false });
+  });
+
+  it('rejects invalid hosts', () => {
+    expect(() => parseServerAddress('')).toThrow('Server address is required');
+    expect(() => parseServerAddress('play example.com')).toThrow(AddressError);
+    expect(() => parseServerAddress('-bad-.example.com')).toThrow('is not a valid hostname or IP address');
+    expect(() => parseServerAddress('[play.example.com]:25565')).toThrow('is not an IPv6 address');
+    expect(() => parseServerAddress('2001:db8::1:25565:x')).toThrow(AddressError);
+    expect(() => parseServerAddress('fe80::zz')).toThrow(AddressError);
+  });
+
+  it('rejects invalid ports', () => {
+    expect(() => parseServerAddress('play.example.com:abc')).toThrow('Port "abc" is not a number');
+    expect(() => parseServerAddress('play.example.com:0')).toThrow('Port 0 is out of range (1-65535)');
+    expect(() => parseServerAddress('[2001:db8::1]:70000')).toThrow('Port 70000 is out of range (1-65535)');
+    expect(() => parseServerAddress('play.example.com', '-1')).toThrow('Server port "-1" is not a number');
+    expect(() => parseServerAddress('play.example.com:')).toThrow(AddressError);
+  });
+});
+
+describe('AddressResolver', () => {
+  it('follows the SRV record of a hostname without a port', async () => {
+    const dns = fakeDns({ '_minecraft._tcp.example.org': [srv('mc1.example.org.', 25570)] });
+    const resolved = await new AddressResolver({ dns }).resolve('example.org');
+
+    expect(resolved).toEqual({
+      host: 'mc1.example.org',
+      port: 25570,
+      explicitPort: false,
+      srv: '_minecraft._tcp.example.org',
+      display: 'mc1.example.org:25570',
+    });
+  });
+
+  it('picks the lowest priority, then by weight', async () => {
+    const dns = fakeDns({
+      '_minecraft._tcp.example.org': [
+        srv('backup.example.org', 25565, 20, 100),
+        srv('light.example.org', 25566, 10, 1),
+        srv('heavy.example.org', 25567, 10, 3),
+      ],
+    });
+    const resolver = new AddressResolver({ dns });
+    const random = vi.spyOn(Math, 'random');
+
+    // A roll over the total weight (4) of priority 10: [0, 1) is light, [1, 4) is heavy
+    random.mockReturnValue(0.1);
+    expect(await resolver.resolve('example.org')).toMatchObject({ host: 'light.example.org', port: 25566 });
+    random.mockReturnValue(0.3);
+    expect(await resolver.resolve('example.org')).toMatchObject({ host: 'heavy.example.org', port: 25567 });
+    random.mockReturnValue(0.99);
+    expect(await resolver.resolve('example.org')).toMatchObject({ host: 'heavy.example.org', port: 25567 });
+  });
+
+  it('takes the first record when every weight is zero', async () => {
+    const dns = fakeDns({ '_minecraft._tcp.example.org': [srv('a.example.org', 25566), srv('b.example.org', 25567)] });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(await new AddressResolver({ dns }).resolve('example.org')).toMatchObject({ host: 'a.example.org' });
+  });
+
+  it('skips the lookup when a port is given', async () => {
+    const dns = fakeDns({ '_minecraft._tcp.example.org': [srv('mc1.example.org', 25570)] });
+    const resolver = new AddressResolver({ dns });
+
+    expect(await resolver.resolve('example.org:25580')).toMatchObject({ host: 'example.org', port: 25580, srv: null });
+    expect(await resolver.resolve('example.org', '25581')).toMatchObject({ host: 'example.org', port: 25581, srv: null });
+    expect(dns.lookups).toEqual([]);
+  });
+
+  it('still looks up SRV when the port field holds the default port', async () => {
+    const dns = fakeDns({ '_minecraft._tcp.example.org': [srv('mc1.example.org', 25570)] });
+
+    expect(await new AddressResolver({ dns }).resolve('example.org', '25565')).toMatchObject({ host: 'mc1.example.org', port: 25570 });
+  });
+
+  it('never looks up IP addresses or localhost', async () => {
+    const dns = fakeDns({});
+    const resolver = new AddressResolver({ dns });
+
+    expect(await resolver.resolve('10.0.0.5')).toMatchObject({ display: '10.0.0.5:25565', srv: null });
+    expect(await resolver.resolve('2001:db8::1')).toMatchObject({ display: '[2001:db8::1]:25565', srv: null });
+    expect(await resolver.resolve('[2001:db8::1]:25570')).toMatchObject({ display: '[2001:db8::1]:25570', srv: null });
+    expect(await resolver.resolve('localhost')).toMatchObject({ display: 'localhost:25565', srv: null });
+    expect(dns.lookups).toEqual([]);
+  });
+
+  it('falls back to the host itself without a usable SRV record', async () => {
+    const dns = fakeDns({ '_minecraft._tcp.empty.example.org': [srv('', 25570), srv('mc.example.org', 0)] });
+    const resolver = new AddressResolver({ dns });
+
+    expect(await resolver.resolve('missing.example.org')).toEqual({
+      host: 'missing.example.org',
+      port: 25565,
+      explicitPort: false,
+      srv: null,
+      display: 'missing.example.org:25565',
+    });
+    expect(await resolver.resolve('empty.example.org')).toMatchObject({ host: 'empty.example.org', port: 25565, srv: null });
+  });
+
+  it('rejects invalid addresses before any lookup', async () => {
+    const dns = fakeDns({});
+    const resolver = new AddressResolver({ dns });
+
+    await expect(resolver.resolve('bad host')).rejects.toThrow(AddressError);
+    await expect(resolver.resolve('example.org', '99999')).rejects.toThrow('Server port 99999 is out of range (1-65535)');
+    expect(dns.lookups).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Resolver } from 'node:dns/promises';
+import net from 'node:net';
+
+export const DEFAULT_PORT = 25565;
+const SRV_PREFIX = '_minecraft._tcp.';
+const SRV_TIMEOUT = 3000;
+// RFC 1123 labels; underscores show up in some hosting panels' names, so they pass too
+const HOSTNAME_LABEL = /^[A-Za-z0-9_]([A-Za-z0-9_-]{0,61}[A-Za-z0-9_])?$/;
+
+export interface SrvRecord {
+  name: string;
+  port: number;
+  priority: number;
+  weight: number;
+}
+
+// The DNS lookups the resolver needs; swapped for a fake in tests
+export interface DnsLookup {
+  resolveSrv(hostname: string): Promise<SrvRecord[]>;
+}
+
+export interface ParsedAddress {
+  host: string; // Without brackets for IPv6
+  port: number;
+  explicitPort: boolean; // Port came from the address or a non-default port field, so no SRV lookup
+}
+
+export interface ResolvedAddress extends ParsedAddress {
+  srv: string | null; // SRV record name the target came from
+  display: string; // "mc.example.org:25570", "[2001:db8::1]:25565"
+}
+
+// Invalid server address or port, worded for the dashboard
+export class AddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AddressError';
+  }
+}
+
+interface AddressResolverOptions {
+  dns?: DnsLookup;
+}
+
+// "[2001:db8::1]:25565" for IPv6, "host:port" otherwise
+export function formatAddress(host: string, port: number): string {
+  return net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+function parsePort(value: string, source: string): number {
+  if (!/^\d+$/.test(value)) throw new AddressError(`${source} "${value}" is not a number`);
+  const port = parseInt(value);
+  if (port < 1 || port > 65535) throw new AddressError(`${source} ${port} is out of range (1-65535)`);
+  return port;
+}
+
+function isHostname(host: string): boolean {
+  return host.length <= 253 && host.split('.').every(label => HOSTNAME_LABEL.test(label));
+}
+
+// Splits what was typed in the IP and port fields: "play.example.com", "play.example.com:25566",
+// "10.0.0.5", "[2001:db8::1]:25566" or a bare "2001:db8::1". A port in the address wins over the port field
+export function parseServerAddress(serverIP: string, serverPort = ''): ParsedAddress {
+  const address = (serverIP ?? '').trim();
+  const portField = (serverPort ?? '').trim();
+  if (!address) throw new AddressError('Server address is required');
+
+  let host = address;
+  let portText: string | null = null;
+  const bracketed = /^\[([^\]]+)\](?::(.*))?$/.exec(address);
+  if (bracketed) {
+    host = bracketed[1];
+    portText = bracketed[2] ?? null;
+    if (!net.isIPv6(host)) throw new AddressError(`"${host}" is not an IPv6 address`);
+  } else if (net.isIPv6(address)) {
+    host = address;
+  } else if (address.includes(':')) {
+    const separator = address.lastIndexOf(':');
+    host = address.slice(0, separator);
+    portText = address.slice(separator + 1);
+    if (host.includes(':')) throw new AddressError('IPv6 addresses with a port need brackets, like [2001:db8::1]:25565');
+  }
+
+  host = host.replace(/\.$/, '');
+  if (!net.isIP(host) && !isHostname(host)) throw new AddressError(`"${host}" is not a valid hostname or IP address`);
+
+  if (portText !== null) return { host, port: parsePort(portText, 'Port'), explicitPort: true };
+  if (portField) {
+    const port = parsePort(portField, 'Server port');
+    return { host, port, explicitPort: port !== DEFAULT_PORT };
+  }
+  return { host, port: DEFAULT_PORT, explicitPort: false };
+}
+
+// RFC 2782: lowest priority first, then a weighted pick among that priority
+function pickSrvRecord(records: SrvRecord[]): SrvRecord {
+  const lowest = Math.min(...records.map(record => record.priority));
+  const candidates = records.filter(record => record.priority === lowest);
+  const total = candidates.reduce((sum, record) => sum + record.weight, 0);
+  let roll = Math.random() * total;
+  for (const record of candidates) {
+    roll -= record.weight;
+    if (roll < 0) return record;
+  }
+  return candidates[0];
+}
+
+// Turns the configured address into where to connect. Like the vanilla client, hostnames
+// without a port look up their _minecraft._tcp SRV record first and fall back to port 25565
+export class AddressResolver {
+  private readonly dns: DnsLookup;
+
+  constructor(options: AddressResolverOptions = {}) {
+    this.dns = options.dns ?? new Resolver({ timeout: SRV_TIMEOUT, tries: 2 });
+  }
+
+  async resolve(serverIP: string, serverPort?: string): Promise<ResolvedAddress> {
+    const parsed = parseServerAddress(serverIP, serverPort);
+    if (parsed.explicitPort || net.isIP(parsed.host) || parsed.host === 'localhost') {
+      return { ...parsed, srv: null, display: formatAddress(parsed.host, parsed.port) };
+    }
+
+    const name = `${SRV_PREFIX}${parsed.host}`;
+    try {
+      const records = (await this.dns.resolveSrv(name)).filter(record => record.name && record.port > 0);
+      if (records.length > 0) {
+        const record = pickSrvRecord(records);
+        const host = record.name.replace(/\.$/, '');
+        return { host, port: record.port, explicitPort: false, srv: name, display: formatAddress(host, record.port) };
+      }
+    } catch {
+      // No SRV record (or no answer); connect to the host itself
+    }
+    return { ...parsed, srv: null, display: formatAddress(parsed.host, parsed.port) };
+  }
+}
@@ -0,0 +1,288 @@
+import net from 'node:net';
+
+const DEFAULT_TIMEOUT = 5000;
+// Handshake protocol number; by convention -1 asks the server for its own version
+const STATUS_PROTOCOL = -1;
+// 1.6.4, the newest version that only answers the legacy ping
+const LEGACY_PROTOCOL = 78;
+// Status responses carry a base64 favicon, so they can be large, but not this large
+const MAX_PACKET = 1024 * 1024;
+
+export interface ServerPingResult {
+  motd: string;
+  version: string;
+  protocol: number | null; // null for servers older than 1.4
+  latency: number | null;
+  playersOnline: number;
+  playersMax: number;
+  sample: string[]; // Some of the online players' names, when the server shares them
+  favicon: string | null; // data:image/png;base64 URL
+  legacy: boolean; // Answered the pre-1.7 ping
+}
+
+// Opens the TCP connection a ping goes over, resolving once it's connected; swapped to ping
+// through a fake server or a proxy
+export type SocketFactory = (host: string, port: number, timeoutMs: number) => Promise<net.Socket>;
+
+export interface PingOptions {
+  timeoutMs?: number;
+  connect?: SocketFactory;
+}
+
+type ChatComponent = string | { text?: string; extra?: ChatComponent[] };
+
+interface StatusResponse {
+  version?: { name?: string; protocol?: number };
+  players?: { online?: number; max?: number; sample?: { name?: string }[] };
+  description?: ChatComponent;
+  favicon?: string;
+}
+
+// Plain text of a chat component, without § formatting codes
+export function motdText(component: ChatComponent | undefined): string {
+  if (!component) return '';
+  const text = typeof component === 'string'
+    ? component
+    : (component.text ?? '') + (component.extra ?? []).map(motdText).join('');
+  return text.replace(/§./g, '');
+}
+
+// "Paper 1.20.4 · 3/20 players · 42ms" for logs
+export function describeServerStatus(status: ServerPingResult): string {
+  const latency = status.latency !== null ? ` · ${status.latency}ms` : '';
+  return `${status.version} · ${status.playersOnline}/${status.playersMax} players${latency}`;
+}
+
+function varInt(value: number): Buffer {
+  const bytes: number[] = [];
+  let rest = value >>> 0;
+  do {
+    let byte = rest & 0x7f;
+    rest >>>= 7;
+    if (rest !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (rest !== 0);
+  return Buffer.from(bytes);
+}
+
+// VarInt at offset and how many bytes it took; null when the buffer ends inside it
+function readVarInt(buffer: Buffer, offset: number): { value: number; size: number } | null {
+  let value = 0;
+  for (let size = 0; size < 5; size++) {
+    if (offset + size >= buffer.length) return null;
+    const byte = buffer[offset + size];
+    value |= (byte & 0x7f) << (7 * size);
+    if ((byte & 0x80) === 0) return { value, size: size + 1 };
+  }
+  throw new Error('Malformed status response (VarInt too long)');
+}
+
+function mcString(text: string): Buffer {
+  const bytes = Buffer.from(text, 'utf8');
+  return Buffer.concat([varInt(bytes.length), bytes]);
+}
+
+function packet(id: number, ...fields: Buffer[]): Buffer {
+  const body = Buffer.concat([varInt(id), ...fields]);
+  return Buffer.concat([varInt(body.length), body]);
+}
+
+// Reads one length-prefixed packet with the given id; null until all of it has arrived
+function framedPacket(expectedId: number) {
+  return (buffer: Buffer): Buffer | null => {
+    const length = readVarInt(buffer, 0);
+    if (!length) return null;
+    if (length.value > MAX_PACKET) throw new Error('Malformed status response (packet too large)');
+    const end = length.size + length.value;
+    if (buffer.length < end) return null;
+    const id = readVarInt(buffer, length.size);
+    if (!id || id.value !== expectedId) throw new Error(`Unexpected packet 0x${id?.value.toString(16)} in status response`);
+    return buffer.subarray(length.size + id.size, end);
+  };
+}
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, 'utf16le').swap16();
+}
+
+function uint16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+const connectDirect: SocketFactory = (host, port, timeoutMs) => new Promise((resolve, reject) => {
+  const socket = net.createConnection({ host, port });
+  const timer = setTimeout(() => {
+    socket.destroy();
+    reject(new Error(`Connection to ${host}:${port} timed out (${timeoutMs / 1000}s)`));
+  }, timeoutMs);
+  const onError = (error: Error) => {
+    clearTimeout(timer);
+    socket.destroy();
+    reject(error);
+  };
+  socket.once('error', onError);
+  socket.once('connect', () => {
+    clearTimeout(timer);
+    socket.off('error', onError);
+    resolve(socket);
+  });
+});
+
+async function openSocket(host: string, port: number, options: PingOptions): Promise<net.Socket> {
+  const socket = await (options.connect ?? connectDirect)(host, port, options.timeoutMs ?? DEFAULT_TIMEOUT);
+  // Later errors are reported by the exchange that is waiting; this keeps stray ones from throwing
+  socket.on('error', () => {});
+  return socket;
+}
+
+// Sends a request and collects the answer until `parse` can read all of it
+function exchange<T>(socket: net.Socket, request: Buffer, parse: (buffer: Buffer) => T | null, timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+    const finish = (error: Error | null, result?: T) => {
+      clearTimeout(timer);
+      socket.off('data', onData);
+      socket.off('close', onClose);
+      socket.off('error', onError);
+      if (error) reject(error);
+      else resolve(result);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        const result = parse(buffer);
+        if (result !== null) finish(null, result);
+      } catch (error) {
+        finish(error);
+      }
+    };
+    const onClose = () => finish(new Error('Server closed the connection before answering'));
+    const onError = (error: Error) => finish(error);
+    const timer = setTimeout(() => finish(new Error(`No answer within ${timeoutMs / 1000}s`)), timeoutMs);
+
+    socket.on('data', onData);
+    socket.once('close', onClose);
+    socket.once('error', onError);
+    socket.write(request);
+  });
+}
+
+// 1.7+ status: handshake, status request, then a ping packet to time the round trip
+async function statusPing(socket: net.Socket, host: string, port: number, timeoutMs: number): Promise<ServerPingResult> {
+  try {
+    const handshake = packet(0x00, varInt(STATUS_PROTOCOL), mcString(host), uint16(port), varInt(1));
+    const started = Date.now();
+    const payload = await exchange(socket, Buffer.concat([handshake, packet(0x00)]), framedPacket(0x00), timeoutMs);
+    let latency = Date.now() - started;
+
+    const length = readVarInt(payload, 0);
+    if (!length) throw new Error('Malformed status response (missing JSON)');
+    let status: StatusResponse;
+    try {
+      status = JSON.parse(payload.subarray(length.size, length.size + length.value).toString('utf8'));
+    } catch {
+      throw new Error('Malformed status response (invalid JSON)');
+    }
+
+    // Some servers and proxies hang up instead of answering the ping; the status round trip
+    // is then the best latency we have
+    try {
+      const sent = Date.now();
+      const payloadLong = Buffer.alloc(8);
+      payloadLong.writeBigInt64BE(BigInt(sent));
+      await exchange(socket, packet(0x01, payloadLong), framedPacket(0x01), timeoutMs);
+      latency = Date.now() - sent;
+    } catch {
+      // Keep the status round trip
+    }
+
+    return {
+      motd: motdText(status.description).trim(),
+      version: (status.version?.name ?? 'Unknown').replace(/§./g, ''),
+      protocol: typeof status.version?.protocol === 'number' ? status.version.protocol : null,
+      latency,
+      playersOnline: status.players?.online ?? 0,
+      playersMax: status.players?.max ?? 0,
+      sample: (status.players?.sample ?? [])
+        .map(player => player.name?.replace(/§./g, ''))
+        .filter(name => !!name),
+      favicon: typeof status.favicon === 'string' && status.favicon.startsWith('data:image/') ? status.favicon : null,
+      legacy: false,
+    };
+  } finally {
+    socket.destroy();
+  }
+}
+
+// Pre-1.7 ping: 0xFE 0x01 with the 1.6 MC|PingHost payload, answered by a 0xFF kick packet.
+// 1.4-1.6 servers answer "§1\0protocol\0version\0motd\0online\0max", older ones "motd§online§max"
+async function legacyPing(socket: net.Socket, host: string, port: number, timeoutMs: number): Promise<ServerPingResult> {
+  try {
+    const portBuffer = Buffer.alloc(4);
+    portBuffer.writeInt32BE(port);
+    const data = Buffer.concat([Buffer.from([LEGACY_PROTOCOL]), uint16(host.length), utf16be(host), portBuffer]);
+    const channel = 'MC|PingHost';
+    const request = Buffer.concat([Buffer.from([0xfe, 0x01, 0xfa]), uint16(channel.length), utf16be(channel), uint16(data.length), data]);
+
+    const started = Date.now();
+    const text = await exchange(socket, request, (buffer) => {
+      if (buffer.length < 3) return null;
+      if (buffer[0] !== 0xff) throw new Error('Malformed legacy ping response');
+      const end = 3 + buffer.readUInt16BE(1) * 2;
+      if (buffer.length < end) return null;
+      return Buffer.from(buffer.subarray(3, end)).swap16().toString('utf16le');
+    }, timeoutMs);
+    const latency = Date.now() - started;
+
+    if (text.startsWith('§1\0')) {
+      const [, protocol, version, motd, online, max] = text.split('\0');
+      return {
+        motd: motdText(motd).trim(),
+        version: version ?? 'Unknown',
+        protocol: parseInt(protocol) || null,
+        latency,
+        playersOnline: parseInt(online) || 0,
+        playersMax: parseInt(max) || 0,
+        sample: [],
+        favicon: null,
+        legacy: true,
+      };
+    }
+    const parts = text.split('§');
+    const max = parts.pop();
+    const online = parts.pop();
+    return {
+      motd: parts.join('§').trim(),
+      version: 'Beta 1.8 - 1.3',
+      protocol: null,
+      latency,
+      playersOnline: parseInt(online) || 0,
+      playersMax: parseInt(max) || 0,
+      sample: [],
+      favicon: null,
+      legacy: true,
+    };
+  } finally {
+    socket.destroy();
+  }
+}
+
+// Server List Ping: what the multiplayer menu shows for a server. Servers that don't
+// understand the 1.7+ status protocol are asked again with the legacy ping
+export async function pingServer(host: string, port: number, options: PingOptions = {}): Promise<ServerPingResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+  // Connection errors (refused, unknown host, connect timeout, proxy failures) mean the server
+  // can't be reached, so they skip the legacy fallback
+  const socket = await openSocket(host, port, options);
+  try {
+    return await statusPing(socket, host, port, timeoutMs);
+  } catch (error) {
+    try {
+      return await legacyPing(await openSocket(host, port, options), host, port, timeoutMs);
+    } catch {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { EventEmitter } from 'node:events';
+import { spawn, ChildProcess } from 'node:child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ServerProvider, ServerPowerState, ServerPlayers } from './serverProvider';
+
+interface LocalProcessOptions {
+  command: string;
+  cwd?: string;
+  stopCommand?: string;
+  stopTimeoutMs?: number;
+  maxCrashRestarts?: number;
+}
+
+// Vanilla/Paper/Spigot console lines
+const READY_PATTERN = /Done \([\d.,]+s\)!/;
+const JOIN_PATTERN = /:\s+(\w{1,16}) joined the game/;
+const LEAVE_PATTERN = /:\s+(\w{1,16}) left the game/;
+
+// Launches the server command on this host and supervises it:
+// tracks readiness and players from console output and restarts it after crashes
+export class LocalProcessProvider extends EventEmitter implements ServerProvider {
+  readonly name = 'local';
+  private process: ChildProcess | null = null;
+  private state: ServerPowerState = 'offline';
+  private readonly onlinePlayers = new Set<string>();
+  private readonly recentOutput: string[] = [];
+  private crashRestarts = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stopRequested = false;
+
+  constructor(private readonly options: LocalProcessOptions) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.process) {
+      throw new Error('Server is already running');
+    }
+    if (!this.options.command.trim()) {
+      throw new Error('No server start command configured');
+    }
+
+    this.stopRequested = false;
+    this.crashRestarts = 0;
+    this.launch();
+  }
+
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child) {
+      if (this.restartTimer) {
+        clearTimeout(this.restartTimer);
+        this.restartTimer = null;
+        this.setState('offline');
+        return;
+      }
+      throw new Error('Server is not running');
+    }
+
+    this.stopRequested = true;
+    this.setState('stopping');
+
+    // 'close' waits for everything holding the console pipes, so the java process too
+    const exited = new Promise<void>(resolve => child.once('close', () => resolve()));
+    child.stdin?.write(`${this.options.stopCommand || 'stop'}\n`);
+
+    // Escalate if the server ignores the console stop command
+    const timeoutMs = this.options.stopTimeoutMs ?? 60000;
+    let forceTimer: NodeJS.Timeout | null = null;
+    const killTimer = setTimeout(() => {
+      this.signal(child, 'SIGTERM');
+      forceTimer = setTimeout(() => this.signal(child, 'SIGKILL'), 10000);
+    }, timeoutMs);
+
+    await exited;
+    clearTimeout(killTimer);
+    if (forceTimer) clearTimeout(forceTimer);
+  }
+
+  async restart(): Promise<void> {
+    if (this.process) {
+      await this.stop();
+    }
+    await this.start();
+  }
+
+  async status(): Promise<ServerPowerState> {
+    return this.state;
+  }
+
+  async players(): Promise<ServerPlayers> {
+    return {
+      online: this.onlinePlayers.size,
+      max: await this.readMaxPlayers(),
+      names: Array.from(this.onlinePlayers),
+    };
+  }
+
+  // Last console lines, handy when reporting a crash
+  getRecentOutput(): string[] {
+    return [...this.recentOutput];
+  }
+
+  dispose() {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.removeAllListeners();
+  }
+
+  private launch() {
+    this.setState('starting');
+    this.onlinePlayers.clear();
+
+    // Own process group, so stop() can signal the shell and the server it started together
+    const child = spawn(this.options.command, {
+      cwd: this.options.cwd || process.cwd(),
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.process = child;
+
+    let buffered = '';
+    const onData = (chunk: Buffer) => {
+      buffered += chunk.toString();
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() || '';
+      lines.forEach(line => this.handleLine(line));
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+
+    child.on('error', (error) => {
+      this.emit('output', `Failed to launch server: ${error.message}`);
+    });
+
+    child.on('close', (code, signal) => {
+      this.process = null;
+      this.onlinePlayers.clear();
+
+      if (this.stopRequested) {
+        this.setState('offline');
+        return;
+      }
+
+      // Unexpected exit: restart with a growing delay, up to the crash limit
+      const maxRestarts = this.options.maxCrashRestarts ?? 3;
+      this.emit('crash', { code, signal, output: this.getRecentOutput() });
+      if (this.crashRestarts < maxRestarts) {
+        this.crashRestarts++;
+        const delay = this.crashRestarts * 10000;
+        this.setState('starting');
+        this.restartTimer = setTimeout(() => {
+          this.restartTimer = null;
+          this.launch();
+        }, delay);
+      } else {
+        this.setState('offline');
+      }
+    });
+  }
+
+  private handleLine(line: string) {
+    this.recentOutput.push(line);
+    if (this.recentOutput.length > 50) this.recentOutput.shift();
+    this.emit('output', line);
+
+    if (this.state === 'starting' && READY_PATTERN.test(line)) {
+      this.crashRestarts = 0;
+      this.setState('online');
+      return;
+    }
+
+    const joined = line.match(JOIN_PATTERN);
+    const left = line.match(LEAVE_PATTERN);
+    if (joined) this.onlinePlayers.add(joined[1]);
+    if (left) this.onlinePlayers.delete(left[1]);
+    if (joined || left) {
+      this.players().then(players => this.emit('players', players)).catch(() => {});
+    }
+  }
+
+  // Signals the whole process group; the shell alone would leave java running and holding the port
+  private signal(child: ChildProcess, signal: NodeJS.Signals) {
+    try {
+      if (process.platform !== 'win32' && child.pid) process.kill(-child.pid, signal);
+      else child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+
+  private setState(state: ServerPowerState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('status', state);
+  }
+
+  private async readMaxPlayers(): Promise<number> {
+    try {
+      const properties = await fs.readFile(path.join(this.options.cwd || process.cwd(), 'server.properties'), 'utf-8');
+      const match = properties.match(/^max-players=(\d+)/m);
+      return match ? parseInt(match[1]) : 20;
+    } catch {
+      return 20;
+    }
+  }
+}
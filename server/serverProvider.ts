@@ -0,0 +1,124 @@
+import { EventEmitter } from 'node:events';
+import type { AternosConfig } from '../shared/schema';
+import { LocalProcessProvider } from './serverProvider.local';
+
+export type ServerPowerState = AternosConfig['serverStatus'];
+
+export interface ServerPlayers {
+  online: number;
+  max: number;
+  names: string[];
+}
+
+// Power control for the Minecraft server the bots play on.
+// Providers emit 'status' (ServerPowerState) and 'players' (ServerPlayers) when those change.
+export interface ServerProvider extends EventEmitter {
+  readonly name: string;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  restart(): Promise<void>;
+  status(): Promise<ServerPowerState>;
+  players(): Promise<ServerPlayers>;
+  dispose(): void;
+}
+
+// In-memory provider with simulated start/stop delays, for development and tests
+export class MockServerProvider extends EventEmitter implements ServerProvider {
+  readonly name = 'mock';
+  private state: ServerPowerState = 'offline';
+  private playerNames: string[] = [];
+  private transition: NodeJS.Timeout | null = null;
+
+  constructor(private readonly delayMs = 2000, private readonly maxPlayers = 20) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.state === 'online' || this.state === 'starting') {
+      throw new Error('Server is already running');
+    }
+    this.moveTo('starting', 'online');
+  }
+
+  async stop(): Promise<void> {
+    if (this.state === 'offline' || this.state === 'stopping') {
+      throw new Error('Server is not running');
+    }
+    this.setPlayers([]);
+    this.moveTo('stopping', 'offline');
+  }
+
+  async restart(): Promise<void> {
+    if (this.state !== 'offline') {
+      await this.stop();
+      await this.waitFor('offline');
+    }
+    await this.start();
+  }
+
+  async status(): Promise<ServerPowerState> {
+    return this.state;
+  }
+
+  async players(): Promise<ServerPlayers> {
+    return { online: this.playerNames.length, max: this.maxPlayers, names: [...this.playerNames] };
+  }
+
+  // Test hook: pretend these players are online
+  setPlayers(names: string[]) {
+    this.playerNames = [...names];
+    this.emit('players', { online: names.length, max: this.maxPlayers, names: [...names] });
+  }
+
+  dispose() {
+    if (this.transition) clearTimeout(this.transition);
+    this.removeAllListeners();
+  }
+
+  private moveTo(interim: ServerPowerState, final: ServerPowerState) {
+    if (this.transition) clearTimeout(this.transition);
+    this.setState(interim);
+    this.transition = setTimeout(() => {
+      this.transition = null;
+      this.setState(final);
+    }, this.delayMs);
+  }
+
+  private setState(state: ServerPowerState) {
+    this.state = state;
+    this.emit('status', state);
+  }
+
+  private waitFor(state: ServerPowerState): Promise<void> {
+    return new Promise(resolve => {
+      const onStatus = (next: ServerPowerState) => {
+        if (next === state) {
+          this.off('status', onStatus);
+          resolve();
+        }
+      };
+      this.on('status', onStatus);
+    });
+  }
+}
+
+// Settings that require a new provider instance when they change
+export function serverProviderKey(config: AternosConfig | null): string {
+  return JSON.stringify({
+    provider: config?.provider || 'local',
+    command: config?.localCommand || '',
+    cwd: config?.localWorkingDir || '',
+    stopCommand: config?.localStopCommand || 'stop',
+  });
+}
+
+export function createServerProvider(config: AternosConfig | null): ServerProvider {
+  if (config?.provider === 'mock') {
+    return new MockServerProvider();
+  }
+  return new LocalProcessProvider({
+    command: config?.localCommand || '',
+    cwd: config?.localWorkingDir || undefined,
+    stopCommand: config?.localStopCommand || 'stop',
+  });
+}
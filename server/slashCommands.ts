@@ -0,0 +1,596 @@
+import { InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import type { APIEmbed, ChatInputCommandInteraction, SlashCommandStringOption } from 'discord.js';
+import type { IStorage } from './storage';
+import type { BotActionResult, BotInstance } from './bots';
+import type { BotLifecycle, DisconnectResult, LifecycleProgress, LifecycleStage } from './lifecycle';
+import type { ServerProvider } from './serverProvider';
+import type { LiveStatus } from './liveStatus';
+import { describeBinding, parseChannelEvents } from './discordChannels';
+import type { DiscordChannels } from './discordChannels';
+import { describeCommandPermission } from './commandPermissions';
+import type { CommandPermissions, PermissionList } from './commandPermissions';
+import { replyIfControlLocked } from './discordCommands';
+import type { CommandContext, CommandRegistry, SlashCommand } from './discordCommands';
+import { buildInventoryMessage } from './discordInventory';
+import { MAX_LOG_RESULTS, buildLogsMessage, parseSince } from './discordLogs';
+import type { LogViews } from './discordLogs';
+import { resolveInventorySlot } from './discordOptions';
+import { buildPanelMessage } from './discordPanel';
+import { ChannelEventSchema, ChannelPurposeSchema, DEFAULT_CHANNEL_EVENTS, LogEntrySchema } from '../shared/schema';
+import type { ChannelPurpose, LogEntry, LogQuery } from '../shared/schema';
+
+// Bot actions shared with the REST API and the /panel buttons
+export interface BotActions {
+  goto(instance: BotInstance, player: string, initiator: string): Promise<BotActionResult>;
+  setPvpEnabled(instance: BotInstance, enabled: boolean): Promise<void>;
+  setPvpTarget(instance: BotInstance, username: string | null): Promise<BotActionResult>;
+  dropItem(instance: BotInstance, slot: number, count?: number): Promise<BotActionResult>;
+  useItem(instance: BotInstance, slot: number): Promise<BotActionResult>;
+}
+
+export interface SlashCommandDeps {
+  storage: IStorage;
+  commands: CommandRegistry;
+  lifecycle: BotLifecycle;
+  channels: DiscordChannels;
+  liveStatus: LiveStatus;
+  permissions: CommandPermissions;
+  actions: BotActions;
+  logViews: LogViews;
+  getServerProvider: () => Promise<ServerProvider>;
+  log: (type: LogEntry['type'], level: LogEntry['level'], message: string, details?: string, botId?: string) => Promise<void>;
+}
+
+const WEBSITE_URL = process.env.REPLIT_DOMAIN || 'https://afksrbot-dashboard.replit.app';
+
+// Optional option for commands that act on a specific Minecraft bot
+const botOption = (description = 'Bot id or name (defaults to the main bot)') => (option: SlashCommandStringOption) =>
+  option.setName('bot').setDescription(description);
+
+// Required options that autocomplete from the bot's players and inventory
+const playerOption = (option: SlashCommandStringOption) =>
+  option.setName('player').setDescription('Online player').setRequired(true).setAutocomplete(true);
+const itemOption = (option: SlashCommandStringOption) =>
+  option.setName('item').setDescription('Inventory item').setRequired(true).setAutocomplete(true);
+
+const purposeChoices = ChannelPurposeSchema.options.map(purpose => ({ name: purpose, value: purpose }));
+const logTypeChoices = LogEntrySchema.shape.type.options.map(type => ({ name: type, value: type }));
+const logLevelChoices = LogEntrySchema.shape.level.options.map(level => ({ name: level, value: level }));
+
+// Edit a Discord reply as a lifecycle run goes through ping, connect and spawn
+const lifecycleStageReplies: Partial<Record<LifecycleStage, string>> = {
+  ping: '📡',
+  server: '🖥️',
+  auth: '🔑',
+  connect: '🔌',
+  spawn: '✅',
+};
+
+// /close and the panel's disconnect button
+export const disconnectReplies: Record<DisconnectResult, string> = {
+  disconnected: '✅ Minecraft bot disconnected!',
+  cancelled: '🛑 Connection attempt cancelled',
+  not_connected: '⚠️ Minecraft bot is not connected!',
+};
+
+async function replyWithLifecycle(
+  interaction: ChatInputCommandInteraction,
+  instance: BotInstance,
+  run: (onProgress: (progress: LifecycleProgress) => Promise<void>) => Promise<{ success: boolean; message: string }>
+) {
+  const result = await run(async (progress) => {
+    const icon = lifecycleStageReplies[progress.stage];
+    if (icon) await interaction.editReply(`${icon} ${progress.message}`);
+  });
+
+  if (!result.success) {
+    const retryNote = instance.isReconnecting ? '\n⏳ Retrying automatically - check the logs for progress.' : '';
+    await interaction.editReply(`❌ Connection failed: ${result.message}${retryNote}`);
+  }
+}
+
+// Server power commands reply right away and edit the reply once the provider is done
+function serverPowerCommand(
+  deps: SlashCommandDeps,
+  name: string,
+  description: string,
+  action: 'start' | 'stop' | 'restart',
+  replies: { pending: string; done: string; log: string },
+  restricted = false
+): SlashCommand {
+  return {
+    data: new SlashCommandBuilder().setName(name).setDescription(description),
+    restricted,
+    async handle({ interaction }) {
+      try {
+        await interaction.reply(replies.pending);
+        await deps.log('system', 'info', replies.log, `By user: ${interaction.user.tag}`);
+
+        const provider = await deps.getServerProvider();
+        await provider[action]();
+        await interaction.editReply(replies.done);
+      } catch (error) {
+        await interaction.editReply(`❌ Failed to ${action} server: ${error.message}`);
+        await deps.log('error', 'error', `Failed to ${action} server`, error.message);
+      }
+    },
+  };
+}
+
+// Every slash command of the Discord bot, in the order Discord lists them
+export function createSlashCommands(deps: SlashCommandDeps): SlashCommand[] {
+  const { storage, lifecycle, channels, liveStatus, actions } = deps;
+
+  const commands: SlashCommand[] = [
+    {
+      data: new SlashCommandBuilder()
+        .setName('setup')
+        .setDescription('Bind current channel for live status, events, chat or alerts')
+        .addStringOption(option => option.setName('purpose').setDescription('What the channel is for (defaults to status)').addChoices(...purposeChoices))
+        .addStringOption(option => option.setName('events').setDescription(`Comma-separated event filter: ${ChannelEventSchema.options.join(', ')}`))
+        .addStringOption(botOption('Only this bot (id or name); every bot when omitted')),
+      restricted: true,
+      async handle({ interaction, instance, botRef }) {
+        if (!interaction.guildId) {
+          await interaction.reply('❌ Channels can only be bound inside a server');
+          return;
+        }
+        const purpose = (interaction.options.getString('purpose') || 'status') as ChannelPurpose;
+        const { events, invalid } = parseChannelEvents(interaction.options.getString('events') || '');
+        if (invalid.length > 0) {
+          await interaction.reply(`❌ Unknown event(s): ${invalid.join(', ')}. Available: ${ChannelEventSchema.options.join(', ')}`);
+          return;
+        }
+
+        const binding = await channels.bind({
+          guildId: interaction.guildId,
+          channelId: interaction.channelId,
+          purpose,
+          events,
+          botId: botRef ? instance.id : undefined,
+          createdBy: interaction.user.tag,
+        });
+        await interaction.reply(`✅ This channel is now bound for **${purpose}** (${describeBinding(binding)})`);
+        await deps.log('discord', 'info', `📌 Channel ${interaction.channelId} bound for ${purpose}`, `By ${interaction.user.tag}`);
+        if (purpose === 'status') await liveStatus.refresh();
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('unsetup')
+        .setDescription('Remove the bindings of the current channel')
+        .addStringOption(option => option.setName('purpose').setDescription('Only remove this purpose (all when omitted)').addChoices(...purposeChoices)),
+      restricted: true,
+      async handle({ interaction }) {
+        const purpose = interaction.options.getString('purpose') as ChannelPurpose | null;
+        const removed = await channels.unbind(interaction.channelId, purpose ?? undefined);
+        await interaction.reply(removed.length > 0
+          ? `✅ Removed ${removed.map(binding => `**${binding.purpose}**`).join(', ')} from this channel`
+          : `ℹ️ This channel has no ${purpose ? `**${purpose}** ` : ''}binding`);
+        if (removed.length > 0) {
+          await deps.log('discord', 'info', `📌 Channel ${interaction.channelId} unbound (${removed.map(binding => binding.purpose).join(', ')})`, `By ${interaction.user.tag}`);
+        }
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('channels').setDescription('List the channels bound in this server'),
+      async handle({ interaction }) {
+        if (!interaction.guildId) {
+          await interaction.reply('❌ Channel bindings only exist inside a server');
+          return;
+        }
+        const bindings = await channels.list(interaction.guildId);
+        await interaction.reply({
+          embeds: [{
+            title: '📌 Bound Channels',
+            description: bindings.length > 0
+              ? bindings.map(binding => `<#${binding.channelId}> **${binding.purpose}**: ${describeBinding(binding)}`).join('\n')
+              : 'No channels are bound yet. Use `/setup` in a channel to bind it.',
+            color: 0x5865f2,
+          }],
+        });
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('log').setDescription('Set current channel to receive all Minecraft chat and events'),
+      restricted: true,
+      async handle({ interaction, instance, botRef }) {
+        if (!interaction.guildId) {
+          await interaction.reply('❌ Channels can only be bound inside a server');
+          return;
+        }
+        // Chat binding that also gets every event, like the old single log channel
+        await channels.bind({
+          guildId: interaction.guildId,
+          channelId: interaction.channelId,
+          purpose: 'chat',
+          events: DEFAULT_CHANNEL_EVENTS.events,
+          botId: botRef ? instance.id : undefined,
+          createdBy: interaction.user.tag,
+        });
+        await interaction.reply('✅ This channel will now receive all Minecraft chat and events, and is bridged to in-game chat when enabled on the dashboard!');
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('logs')
+        .setDescription('Search recent log entries')
+        .addStringOption(option => option.setName('type').setDescription('Only this log type').addChoices(...logTypeChoices))
+        .addStringOption(option => option.setName('level').setDescription('Only this level').addChoices(...logLevelChoices))
+        .addStringOption(option => option.setName('search').setDescription('Text in the message or details').setMaxLength(200))
+        .addStringOption(option => option.setName('since').setDescription('How far back: 30m, 2h, 7d or a date like 2026-10-01 (everything kept when omitted)'))
+        .addStringOption(botOption('Only this bot (id or name); every bot when omitted')),
+      restricted: true,
+      async handle({ interaction, instance, botRef }) {
+        const since = interaction.options.getString('since');
+        const from = since ? parseSince(since) : undefined;
+        if (from === null) {
+          await interaction.reply({ content: `❌ Can't read since "${since}". Use 30m, 2h, 7d or a date like 2026-10-01`, allowedMentions: { parse: [] } });
+          return;
+        }
+
+        const level = interaction.options.getString('level') as LogEntry['level'] | null;
+        const query: LogQuery = {
+          type: (interaction.options.getString('type') as LogEntry['type'] | null) ?? undefined,
+          level: level ? [level] : undefined,
+          search: interaction.options.getString('search')?.trim() || undefined,
+          from,
+          to: new Date(),
+          botId: botRef ? instance.id : undefined,
+          limit: MAX_LOG_RESULTS,
+        };
+        const viewId = deps.logViews.save(query);
+        await interaction.reply({ ...buildLogsMessage(await storage.queryLogs(query), query, viewId, 0), allowedMentions: { parse: [] } });
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('start').setDescription('Start the Minecraft bot connection').addStringOption(botOption()),
+      async handle({ interaction, instance }) {
+        if (instance.minecraftBot) {
+          await interaction.reply('⚠️ Minecraft bot is already connected!');
+          return;
+        }
+
+        const config = await storage.getMinecraftConfig(instance.id);
+        if (!config || !config.serverIP) {
+          await interaction.reply('❌ No Minecraft server configuration found. Please configure the server in the dashboard first.');
+          return;
+        }
+
+        await interaction.reply('🔄 Starting Minecraft bot connection...');
+        await replyWithLifecycle(interaction, instance, (onProgress) =>
+          lifecycle.connect(instance.id, config, onProgress));
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('close').setDescription('Stop the Minecraft bot').addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        await interaction.reply(disconnectReplies[await lifecycle.disconnect(instance.id)]);
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('restart').setDescription('Restart the Minecraft bot connection').addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        await interaction.reply('🔄 Restarting Minecraft bot...');
+        await replyWithLifecycle(interaction, instance, (onProgress) =>
+          lifecycle.restart(instance.id, onProgress));
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('status').setDescription('Display current bot status').addStringOption(botOption()),
+      async handle({ interaction, instance }) {
+        const discordConfig = await storage.getDiscordConfig();
+        const minecraftConfig = await storage.getMinecraftConfig(instance.id);
+        const botStatus = await storage.getBotStatus();
+
+        const embed: APIEmbed = {
+          title: '🤖 AFKsrbot Status',
+          fields: [
+            { name: '📱 Discord Bot', value: discordConfig?.isConnected ? '🟢 Connected' : '🔴 Disconnected', inline: true },
+            { name: '🎮 Minecraft Bot', value: minecraftConfig?.isConnected ? '🟢 Connected' : '🔴 Disconnected', inline: true },
+            { name: '⏱️ Uptime', value: botStatus?.totalUptime || '0m', inline: true },
+          ],
+          color: 0x00ff00,
+          timestamp: new Date().toISOString(),
+        };
+
+        if (minecraftConfig?.isConnected) {
+          embed.fields.push(
+            { name: '🏠 Server', value: `${minecraftConfig.serverIP}:${minecraftConfig.serverPort}`, inline: true },
+            { name: '👥 Players Online', value: minecraftConfig.playersOnline || '0/100', inline: true },
+            { name: '❤️ Bot Health', value: instance.minecraftBot ? `${instance.minecraftBot.health || 0}/20` : '0/20', inline: true },
+          );
+        }
+
+        await interaction.reply({ embeds: [embed] });
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('inventory').setDescription('Display bot\'s current inventory').addStringOption(botOption()),
+      aliases: ['inv'],
+      async handle({ interaction, instance }) {
+        if (!instance.minecraftBot?.entity) {
+          await interaction.reply('❌ Minecraft bot is not connected');
+          return;
+        }
+
+        await interaction.reply(buildInventoryMessage(instance.minecraftBot, instance.id, 0));
+      },
+    },
+    {
+      data: new SlashCommandBuilder().setName('panel').setDescription('Post buttons to control the Minecraft bot').addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        await interaction.reply(buildPanelMessage(instance));
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('goto')
+        .setDescription('Walk the bot to an online player')
+        .addStringOption(playerOption)
+        .addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        if (await replyIfControlLocked(interaction, instance)) return;
+        const result = await actions.goto(instance, interaction.options.getString('player', true), `discord:${interaction.user.tag}`);
+        await interaction.reply(`${result.success ? '🎯' : '❌'} ${result.message}`);
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('pvp')
+        .setDescription('Control PvP mode')
+        .addSubcommand(subcommand => subcommand.setName('on').setDescription('Enable PvP mode').addStringOption(botOption()))
+        .addSubcommand(subcommand => subcommand.setName('off').setDescription('Disable PvP mode and stop attacking').addStringOption(botOption()))
+        .addSubcommand(subcommand => subcommand
+          .setName('target')
+          .setDescription('Attack a nearby player while PvP mode is on')
+          .addStringOption(playerOption)
+          .addStringOption(botOption())),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        if (!instance.minecraftBot) {
+          await interaction.reply('❌ Minecraft bot is not connected');
+          return;
+        }
+        if (await replyIfControlLocked(interaction, instance)) return;
+
+        const subcommand = interaction.options.getSubcommand();
+        if (subcommand === 'target') {
+          const result = await actions.setPvpTarget(instance, interaction.options.getString('player', true));
+          const pvpNote = result.success && !instance.pvpEnabled ? ' - PvP mode is off, turn it on with `/pvp on`' : '';
+          await interaction.reply(`${result.success ? '🎯' : '❌'} ${result.message}${pvpNote}`);
+        } else {
+          await actions.setPvpEnabled(instance, subcommand === 'on');
+          await interaction.reply(instance.pvpEnabled ? '⚔️ PvP mode enabled' : '🛡️ PvP mode disabled');
+        }
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('drop')
+        .setDescription('Drop items from the bot\'s inventory')
+        .addStringOption(itemOption)
+        .addIntegerOption(option => option.setName('count').setDescription('How many to drop (the whole stack when omitted)').setMinValue(1).setMaxValue(64))
+        .addStringOption(botOption()),
+      restricted: true,
+      handle: context => runItemCommand(context, (instance, slot) =>
+        actions.dropItem(instance, slot, context.interaction.options.getInteger('count') ?? undefined)),
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('use')
+        .setDescription('Use or eat an item from the bot\'s inventory')
+        .addStringOption(itemOption)
+        .addStringOption(botOption()),
+      restricted: true,
+      handle: context => runItemCommand(context, (instance, slot) => actions.useItem(instance, slot)),
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('say')
+        .setDescription('Send a chat message as the bot')
+        .addStringOption(option => option.setName('text').setDescription('Message to send').setRequired(true).setMaxLength(256))
+        .addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        if (!instance.minecraftBot) {
+          await interaction.reply('❌ Minecraft bot is not connected');
+          return;
+        }
+
+        const text = interaction.options.getString('text', true).trim();
+        if (text.startsWith('/')) {
+          await interaction.reply('❌ Use `/command` to run Minecraft commands');
+          return;
+        }
+
+        instance.minecraftBot.chat(text);
+        await deps.log('minecraft', 'info', `💬 Said via Discord: ${text}`, `By ${interaction.user.tag}`, instance.id);
+        await interaction.reply({ content: `💬 Sent: ${text}`, allowedMentions: { parse: [] } });
+      },
+    },
+    {
+      data: new SlashCommandBuilder()
+        .setName('command')
+        .setDescription('Execute a Minecraft command')
+        .addStringOption(option => option.setName('cmd').setDescription('The Minecraft command to execute').setRequired(true))
+        .addStringOption(botOption()),
+      restricted: true,
+      async handle({ interaction, instance }) {
+        if (!instance.minecraftBot) {
+          await interaction.reply('❌ Minecraft bot is not connected');
+          return;
+        }
+
+        const command = interaction.options.getString('cmd');
+        if (!command) {
+          await interaction.reply('❌ Please provide a command to execute');
+          return;
+        }
+
+        try {
+          instance.minecraftBot.chat(`/${command}`);
+          await interaction.reply(`✅ Executed command: \`/${command}\``);
+          await deps.log('minecraft', 'info', `Command executed: /${command}`, `Via Discord by ${interaction.user.tag}`, instance.id);
+
+          // Log command execution to the channels bound for commands
+          await channels.notify('command', `🎮 **Command Executed**: \`/${command}\` (by ${interaction.user.tag})`, instance.id);
+        } catch (error) {
+          await interaction.reply('❌ Failed to execute command');
+          await deps.log('error', 'error', `Failed to execute command: ${command}`, error.message, instance.id);
+        }
+      },
+    },
+    serverPowerCommand(deps, 'startserver', 'Start the Minecraft server', 'start', {
+      pending: '🔄 Starting server... This may take a few minutes.',
+      done: '🚀 Server is starting... The log channel will be notified once it is online.',
+      log: 'Server start requested via Discord command',
+    }, true),
+    serverPowerCommand(deps, 'stopserver', 'Stop the Minecraft server', 'stop', {
+      pending: '🛑 Stopping server...',
+      done: '🛑 Server stopped.',
+      log: 'Server stop requested via Discord command',
+    }, true),
+    serverPowerCommand(deps, 'restartserver', 'Restart the Minecraft server', 'restart', {
+      pending: '🔄 Restarting server... This may take a few minutes.',
+      done: '🚀 Server is starting again... The log channel will be notified once it is online.',
+      log: 'Server restart requested via Discord command',
+    }, true),
+    {
+      data: new SlashCommandBuilder().setName('website').setDescription('Show the AFKSRBot website link'),
+      async handle({ interaction }) {
+        await interaction.reply({
+          embeds: [{
+            title: '🌐 AFKSRBot Website',
+            description: 'Visit our official website for more information about AFKSRBot!',
+            url: WEBSITE_URL,
+            color: 0x5865F2,
+            fields: [
+              {
+                name: '🎮 Features',
+                value: '• 24/7 AFK bot for Minecraft\n• Discord integration\n• Aternos server control\n• Live monitoring dashboard',
+                inline: false,
+              },
+              { name: '📱 Dashboard', value: `[Open Dashboard](${WEBSITE_URL})`, inline: true },
+            ],
+            footer: { text: 'AFKSRBot - Your Minecraft companion' },
+            timestamp: new Date().toISOString(),
+          }],
+        });
+      },
+    },
+  ];
+
+  // Rules are set per command; aliases share the rule of their command
+  return [...commands, permissionsCommand(deps, [...commands.map(command => command.data.name), 'permissions'])];
+}
+
+// /drop and /use: resolve the picked or typed item to a slot, then act on it
+async function runItemCommand(
+  { interaction, instance }: CommandContext,
+  act: (instance: BotInstance, slot: number) => Promise<BotActionResult>
+) {
+  if (!instance.minecraftBot) {
+    await interaction.reply('❌ Minecraft bot is not connected');
+    return;
+  }
+  if (await replyIfControlLocked(interaction, instance)) return;
+
+  const itemRef = interaction.options.getString('item', true);
+  const slot = resolveInventorySlot(instance.minecraftBot, itemRef);
+  if (slot === null) {
+    await interaction.reply({ content: `❌ No ${itemRef} in the bot's inventory`, allowedMentions: { parse: [] } });
+    return;
+  }
+
+  const result = await act(instance, slot);
+  await interaction.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+}
+
+function permissionsCommand(deps: SlashCommandDeps, ruleCommands: string[]): SlashCommand {
+  const ruleChoices = ruleCommands.map(name => ({ name, value: name }));
+  const commandOption = (option: SlashCommandStringOption) =>
+    option.setName('command').setDescription('Slash command').setRequired(true).addChoices(...ruleChoices);
+
+  return {
+    data: new SlashCommandBuilder()
+      .setName('permissions')
+      .setDescription('Choose who may use each command in this server')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setContexts(InteractionContextType.Guild)
+      .addSubcommand(subcommand => subcommand.setName('view').setDescription('Show the permission rules of this server'))
+      .addSubcommand(subcommand => subcommand
+        .setName('allow')
+        .setDescription('Allow a role, user or channel to use a command')
+        .addStringOption(commandOption)
+        .addRoleOption(option => option.setName('role').setDescription('Discord role'))
+        .addUserOption(option => option.setName('user').setDescription('Discord user'))
+        .addChannelOption(option => option.setName('channel').setDescription('Channel')))
+      .addSubcommand(subcommand => subcommand
+        .setName('revoke')
+        .setDescription('Take a role, user or channel off a command')
+        .addStringOption(commandOption)
+        .addRoleOption(option => option.setName('role').setDescription('Discord role'))
+        .addUserOption(option => option.setName('user').setDescription('Discord user'))
+        .addChannelOption(option => option.setName('channel').setDescription('Channel')))
+      .addSubcommand(subcommand => subcommand
+        .setName('reset')
+        .setDescription('Remove the rule of a command (back to the default)')
+        .addStringOption(commandOption)),
+    restricted: true,
+    async handle({ interaction }) {
+      if (!interaction.guildId) {
+        await interaction.reply('❌ Permissions are set per server');
+        return;
+      }
+      const { permissions } = deps;
+      const subcommand = interaction.options.getSubcommand();
+      if (subcommand === 'view') {
+        const rules = await permissions.list(interaction.guildId);
+        await interaction.reply({
+          embeds: [{
+            title: '🔐 Command Permissions',
+            description: rules.length > 0
+              ? rules.map(rule => `**/${rule.command}**: ${describeCommandPermission(rule)}`).join('\n')
+              : 'No rules yet. Use `/permissions allow` to add one.',
+            footer: { text: `Without a rule, ${deps.commands.restricted().map(name => `/${name}`).join(', ')} need Manage Server. A channel-only rule keeps that; allow @everyone to open one up.` },
+            color: 0x5865f2,
+          }],
+          allowedMentions: { parse: [] },
+        });
+        return;
+      }
+
+      const command = interaction.options.getString('command', true);
+      if (subcommand === 'reset') {
+        const removed = await permissions.reset(interaction.guildId, command);
+        await interaction.reply(removed ? `✅ Removed the rule for **/${command}**` : `ℹ️ **/${command}** has no rule`);
+        if (removed) await deps.log('discord', 'info', `🔐 Permission rule for /${command} removed`, `By ${interaction.user.tag}`);
+        return;
+      }
+
+      const ids: Partial<Record<PermissionList, string[]>> = {};
+      const role = interaction.options.getRole('role');
+      const targetUser = interaction.options.getUser('user');
+      const channel = interaction.options.getChannel('channel');
+      if (role) ids.roleIds = [role.id];
+      if (targetUser) ids.userIds = [targetUser.id];
+      if (channel) ids.channelIds = [channel.id];
+      if (Object.keys(ids).length === 0) {
+        await interaction.reply('❌ Pick a role, user or channel');
+        return;
+      }
+
+      const rule = await permissions.change(interaction.guildId, command, ids, subcommand === 'allow', interaction.user.tag);
+      await interaction.reply({
+        content: `✅ **/${command}**: ${rule ? describeCommandPermission(rule) : 'no rule left, back to the default'}`,
+        allowedMentions: { parse: [] },
+      });
+      await deps.log('discord', 'info', `🔐 Permission rule for /${command} updated`, `By ${interaction.user.tag}`);
+    },
+  };
+}
@@ -15,45 +15,93 @@ import type {
   InsertLogEntry,
   InsertInventoryItem,
   InsertAternosConfig,
+  User,
+  InsertUser,
+  Session,
+  ApiKey,
+  InsertApiKey,
+  ChannelBinding,
+  InsertChannelBinding,
+  CommandPermission,
+  InsertCommandPermission,
+  AlertRule,
+  InsertAlertRule,
+  LogQuery,
+  LogPage,
 } from "../shared/schema";
-import { IStorage } from './storage';
+import { DEFAULT_BOT_ID } from "../shared/schema";
+import { IStorage, normalizeUsername, queryLogEntries } from './storage';
+import { SecretCipher, loadMasterKey } from './secrets';
 
-interface StorageData {
+export interface StorageData {
   discordConfig: DiscordBotConfig | null;
-  minecraftConfig: MinecraftServerConfig | null;
+  minecraftConfigs: Record<string, MinecraftServerConfig>;
   botStatus: BotStatus | null;
   consoleCommands: ConsoleCommand[];
   logs: LogEntry[];
-  inventory: InventoryItem[];
+  inventories: Record<string, InventoryItem[]>;
   aternosConfig: AternosConfig | null;
+  users: User[];
+  sessions: Session[];
+  apiKeys: ApiKey[];
+  channelBindings: ChannelBinding[];
+  commandPermissions: CommandPermission[];
+  alertRules: AlertRule[];
+}
+
+// Shape written before multi-bot support (single bot config and inventory)
+interface LegacyStorageData {
+  minecraftConfig?: MinecraftServerConfig | null;
+  inventory?: InventoryItem[];
 }
 
 export class FileStorage implements IStorage {
-  private readonly dataDir = './data';
-  private readonly filePath = path.join(this.dataDir, 'state.json');
+  private readonly filePath: string;
   private data: StorageData = {
     discordConfig: null,
-    minecraftConfig: null,
+    minecraftConfigs: {},
     botStatus: null,
     consoleCommands: [],
     logs: [],
-    inventory: [],
+    inventories: {},
     aternosConfig: null,
+    users: [],
+    sessions: [],
+    apiKeys: [],
+    channelBindings: [],
+    commandPermissions: [],
+    alertRules: [],
   };
   private writeTimeout: NodeJS.Timeout | null = null;
+  private cipher: SecretCipher | null = null;
+
+  constructor(private readonly dataDir = './data') {
+    this.filePath = path.join(dataDir, 'state.json');
+  }
 
   async init(): Promise<void> {
     try {
       // Create data directory if it doesn't exist
       await fs.mkdir(this.dataDir, { recursive: true });
+      this.cipher = new SecretCipher(await loadMasterKey());
       
       // Try to load existing data
+      let raw: (StorageData & LegacyStorageData) | null = null;
       try {
-        const fileContent = await fs.readFile(this.filePath, 'utf-8');
-        this.data = JSON.parse(fileContent);
-        console.log('📁 Loaded existing configuration from disk');
+        raw = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
       } catch (error) {
         // File doesn't exist or is invalid, use defaults
+      }
+
+      if (raw) {
+        this.data = this.migrateData(raw);
+        const plaintextSecrets = this.openSecrets();
+        console.log('📁 Loaded existing configuration from disk');
+        if (plaintextSecrets > 0) {
+          console.log(`🔐 Encrypting ${plaintextSecrets} plaintext secret(s) in ${this.filePath}`);
+          await this.persistData();
+        }
+      } else {
         console.log('📁 Creating new configuration file');
         this.data.botStatus = {
           id: 'bot_status',
@@ -69,6 +117,83 @@ export class FileStorage implements IStorage {
     }
   }
 
+  // Move single-bot fields into the per-bot maps
+  private migrateData(raw: StorageData & LegacyStorageData): StorageData {
+    const { minecraftConfig, inventory, ...data } = raw;
+    data.minecraftConfigs = data.minecraftConfigs || {};
+    data.inventories = data.inventories || {};
+    data.users = (data.users || []).map(user => ({ ...user, username: normalizeUsername(user.username) }));
+    data.sessions = data.sessions || [];
+    data.apiKeys = data.apiKeys || [];
+    data.channelBindings = data.channelBindings || [];
+    data.commandPermissions = data.commandPermissions || [];
+    data.alertRules = data.alertRules || [];
+
+    if (minecraftConfig && !data.minecraftConfigs[minecraftConfig.id || DEFAULT_BOT_ID]) {
+      const botId = minecraftConfig.id || DEFAULT_BOT_ID;
+      data.minecraftConfigs[botId] = { ...minecraftConfig, id: botId };
+      console.log(`📁 Migrated single bot config to bot "${botId}"`);
+    }
+    if (inventory && !data.inventories[DEFAULT_BOT_ID]) {
+      data.inventories[DEFAULT_BOT_ID] = inventory;
+    }
+
+    return data;
+  }
+
+  // Decrypted copy of everything, for importing into another backend
+  snapshot(): StorageData {
+    return structuredClone(this.data);
+  }
+
+  // Fields holding secrets: encrypted on disk, plaintext in memory
+  private secretFields(data: StorageData): [Record<string, unknown>, string][] {
+    const fields: [Record<string, unknown> | null, string][] = [
+      [data.discordConfig, 'token'],
+      ...Object.values(data.minecraftConfigs).flatMap((config): [Record<string, unknown>, string][] => [[config, 'password'], [config, 'proxyPassword']]),
+      [data.aternosConfig, 'password'],
+    ];
+    return fields.filter(([holder]) => !!holder);
+  }
+
+  // Decrypts secrets in place; returns how many were still plaintext on disk
+  private openSecrets(): number {
+    let plaintext = 0;
+    for (const [holder, field] of this.secretFields(this.data)) {
+      const value = holder[field];
+      if (SecretCipher.isEncrypted(value)) {
+        try {
+          holder[field] = this.cipher.decrypt(value);
+        } catch (error) {
+          // Refuse to start rather than overwrite secrets we can't read
+          throw new Error(`Cannot decrypt secrets in ${this.filePath} - check AFK_MASTER_KEY or the master keyfile`);
+        }
+      } else if (typeof value === 'string' && value) {
+        plaintext++;
+      }
+    }
+    return plaintext;
+  }
+
+  // Copy of the data with every secret encrypted, for writing to disk
+  private sealedData(): StorageData {
+    const sealed: StorageData = {
+      ...this.data,
+      discordConfig: this.data.discordConfig && { ...this.data.discordConfig },
+      minecraftConfigs: Object.fromEntries(
+        Object.entries(this.data.minecraftConfigs).map(([botId, config]) => [botId, { ...config }])
+      ),
+      aternosConfig: this.data.aternosConfig && { ...this.data.aternosConfig },
+    };
+    for (const [holder, field] of this.secretFields(sealed)) {
+      const value = holder[field];
+      if (typeof value === 'string' && value && !SecretCipher.isEncrypted(value)) {
+        holder[field] = this.cipher.encrypt(value);
+      }
+    }
+    return sealed;
+  }
+
   private async persistData(): Promise<void> {
     // Debounce writes to avoid excessive disk I/O
     if (this.writeTimeout) {
@@ -87,7 +212,7 @@ export class FileStorage implements IStorage {
 
         // Atomic write: write to temp file then rename
         const tempPath = this.filePath + '.tmp';
-        await fs.writeFile(tempPath, JSON.stringify(this.data, null, 2), 'utf-8');
+        await fs.writeFile(tempPath, JSON.stringify(this.sealedData(), null, 2), 'utf-8');
         await fs.rename(tempPath, this.filePath);
       } catch (error) {
         console.error('Failed to persist data:', error);
@@ -120,21 +245,25 @@ export class FileStorage implements IStorage {
     return this.data.discordConfig;
   }
 
-  async getMinecraftConfig(): Promise<MinecraftServerConfig | null> {
-    return this.data.minecraftConfig;
+  async getMinecraftConfigs(): Promise<MinecraftServerConfig[]> {
+    return Object.values(this.data.minecraftConfigs);
+  }
+
+  async getMinecraftConfig(botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig | null> {
+    return this.data.minecraftConfigs[botId] || null;
   }
 
-  async saveMinecraftConfig(config: InsertMinecraftServerConfig): Promise<MinecraftServerConfig> {
-    this.data.minecraftConfig = { id: 'minecraft_server', ...config };
+  async saveMinecraftConfig(config: InsertMinecraftServerConfig, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    this.data.minecraftConfigs[botId] = { ...config, id: botId };
     await this.persistData();
-    return this.data.minecraftConfig;
+    return this.data.minecraftConfigs[botId];
   }
 
-  async updateMinecraftConfig(updates: Partial<MinecraftServerConfig>): Promise<MinecraftServerConfig> {
-    if (!this.data.minecraftConfig) {
+  async updateMinecraftConfig(updates: Partial<MinecraftServerConfig>, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    const existing = this.data.minecraftConfigs[botId];
+    if (!existing) {
       // If no config exists yet, create a default one and apply updates
-      this.data.minecraftConfig = {
-        id: 'minecraft_server',
+      this.data.minecraftConfigs[botId] = {
         serverIP: '',
         serverPort: '25565',
         username: '',
@@ -148,20 +277,30 @@ export class FileStorage implements IStorage {
         uptime: 'N/A',
         playersOnline: '0/0',
         shouldRegister: false,
-        ...updates
+        ...updates,
+        id: botId,
       };
       await this.persistData();
-      return this.data.minecraftConfig;
+      return this.data.minecraftConfigs[botId];
     }
     
     // Preserve existing password if updates.password is undefined (security feature)
-    if (updates.password === undefined && this.data.minecraftConfig.password) {
-      updates = { ...updates, password: this.data.minecraftConfig.password };
+    if (updates.password === undefined && existing.password) {
+      updates = { ...updates, password: existing.password };
+    }
+    if (updates.proxyPassword === undefined && existing.proxyPassword) {
+      updates = { ...updates, proxyPassword: existing.proxyPassword };
     }
     
-    this.data.minecraftConfig = { ...this.data.minecraftConfig, ...updates };
+    this.data.minecraftConfigs[botId] = { ...existing, ...updates, id: botId };
+    await this.persistData();
+    return this.data.minecraftConfigs[botId];
+  }
+
+  async deleteMinecraftConfig(botId: string): Promise<void> {
+    delete this.data.minecraftConfigs[botId];
+    delete this.data.inventories[botId];
     await this.persistData();
-    return this.data.minecraftConfig;
   }
 
   async getBotStatus(): Promise<BotStatus | null> {
@@ -189,14 +328,21 @@ export class FileStorage implements IStorage {
     return newCommand;
   }
 
-  async getLogs(type?: LogEntry['type'], limit: number = 100): Promise<LogEntry[]> {
+  async getLogs(type?: LogEntry['type'], limit: number = 100, botId?: string): Promise<LogEntry[]> {
     let filteredLogs = this.data.logs;
     if (type) {
-      filteredLogs = this.data.logs.filter(log => log.type === type);
+      filteredLogs = filteredLogs.filter(log => log.type === type);
+    }
+    if (botId) {
+      filteredLogs = filteredLogs.filter(log => log.botId === botId);
     }
     return filteredLogs.slice(-limit);
   }
 
+  async queryLogs(query: LogQuery): Promise<LogPage> {
+    return queryLogEntries(this.data.logs, query);
+  }
+
   async addLog(log: InsertLogEntry): Promise<LogEntry> {
     const newLog: LogEntry = {
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
@@ -208,21 +354,19 @@ export class FileStorage implements IStorage {
     return newLog;
   }
 
-  async clearLogs(type?: LogEntry['type']): Promise<void> {
-    if (type) {
-      this.data.logs = this.data.logs.filter(log => log.type !== type);
-    } else {
-      this.data.logs = [];
-    }
+  async clearLogs(type?: LogEntry['type'], botId?: string): Promise<void> {
+    this.data.logs = this.data.logs.filter(log =>
+      (type && log.type !== type) || (botId && log.botId !== botId)
+    );
     await this.persistData();
   }
 
-  async getInventory(): Promise<InventoryItem[]> {
-    return this.data.inventory;
+  async getInventory(botId: string = DEFAULT_BOT_ID): Promise<InventoryItem[]> {
+    return this.data.inventories[botId] || [];
   }
 
-  async updateInventory(items: InventoryItem[]): Promise<void> {
-    this.data.inventory = items;
+  async updateInventory(items: InventoryItem[], botId: string = DEFAULT_BOT_ID): Promise<void> {
+    this.data.inventories[botId] = items;
     await this.persistData();
   }
 
@@ -244,4 +388,200 @@ export class FileStorage implements IStorage {
     await this.persistData();
     return this.data.aternosConfig;
   }
+
+  async getUsers(): Promise<User[]> {
+    return this.data.users;
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.data.users.find(user => user.id === id) || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const key = normalizeUsername(username);
+    return this.data.users.find(user => user.username === key) || null;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const newUser: User = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...user,
+      username: normalizeUsername(user.username),
+    };
+    this.data.users.push(newUser);
+    await this.persistData();
+    return newUser;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const index = this.data.users.findIndex(user => user.id === id);
+    if (index === -1) {
+      throw new Error('User not found');
+    }
+    const updated = { ...this.data.users[index], ...updates, id };
+    this.data.users[index] = { ...updated, username: normalizeUsername(updated.username) };
+    await this.persistData();
+    return this.data.users[index];
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.data.users = this.data.users.filter(user => user.id !== id);
+    this.data.sessions = this.data.sessions.filter(session => session.userId !== id);
+    await this.persistData();
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.data.sessions.find(session => session.id === id) || null;
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    // Drop expired sessions while we're here
+    const now = new Date().toISOString();
+    this.data.sessions = this.data.sessions.filter(existing => existing.expiresAt > now);
+    this.data.sessions.push(session);
+    await this.persistData();
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.data.sessions = this.data.sessions.filter(session => session.id !== id);
+    await this.persistData();
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    this.data.sessions = this.data.sessions.filter(session => session.userId !== userId);
+    await this.persistData();
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return this.data.apiKeys;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return this.data.apiKeys.find(apiKey => apiKey.keyHash === keyHash) || null;
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const newKey: ApiKey = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...apiKey,
+    };
+    this.data.apiKeys.push(newKey);
+    await this.persistData();
+    return newKey;
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const index = this.data.apiKeys.findIndex(apiKey => apiKey.id === id);
+    if (index === -1) {
+      throw new Error('API key not found');
+    }
+    this.data.apiKeys[index] = { ...this.data.apiKeys[index], ...updates, id };
+    await this.persistData();
+    return this.data.apiKeys[index];
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    const before = this.data.apiKeys.length;
+    this.data.apiKeys = this.data.apiKeys.filter(apiKey => apiKey.id !== id);
+    await this.persistData();
+    return this.data.apiKeys.length < before;
+  }
+
+  async getChannelBindings(guildId?: string): Promise<ChannelBinding[]> {
+    return this.data.channelBindings.filter(binding => !guildId || binding.guildId === guildId);
+  }
+
+  async saveChannelBinding(binding: InsertChannelBinding): Promise<ChannelBinding> {
+    const index = this.data.channelBindings.findIndex(b => b.channelId === binding.channelId && b.purpose === binding.purpose);
+    const existing = this.data.channelBindings[index];
+    const saved: ChannelBinding = {
+      id: existing?.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      statusMessageId: existing?.statusMessageId,
+      ...binding,
+    };
+    if (index === -1) {
+      this.data.channelBindings.push(saved);
+    } else {
+      this.data.channelBindings[index] = saved;
+    }
+    await this.persistData();
+    return saved;
+  }
+
+  async deleteChannelBinding(id: string): Promise<boolean> {
+    const before = this.data.channelBindings.length;
+    this.data.channelBindings = this.data.channelBindings.filter(binding => binding.id !== id);
+    await this.persistData();
+    return this.data.channelBindings.length < before;
+  }
+
+  async setChannelBindingMessage(id: string, messageId: string | null): Promise<void> {
+    const binding = this.data.channelBindings.find(b => b.id === id);
+    if (!binding) return;
+    binding.statusMessageId = messageId ?? undefined;
+    await this.persistData();
+  }
+
+  async getCommandPermissions(guildId?: string): Promise<CommandPermission[]> {
+    return this.data.commandPermissions.filter(rule => !guildId || rule.guildId === guildId);
+  }
+
+  async saveCommandPermission(rule: InsertCommandPermission): Promise<CommandPermission> {
+    const index = this.data.commandPermissions.findIndex(r => r.guildId === rule.guildId && r.command === rule.command);
+    const saved: CommandPermission = {
+      id: this.data.commandPermissions[index]?.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      ...rule,
+      updatedAt: new Date().toISOString(),
+    };
+    if (index === -1) {
+      this.data.commandPermissions.push(saved);
+    } else {
+      this.data.commandPermissions[index] = saved;
+    }
+    await this.persistData();
+    return saved;
+  }
+
+  async deleteCommandPermission(id: string): Promise<boolean> {
+    const before = this.data.commandPermissions.length;
+    this.data.commandPermissions = this.data.commandPermissions.filter(rule => rule.id !== id);
+    await this.persistData();
+    return this.data.commandPermissions.length < before;
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return this.data.alertRules;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const newRule: AlertRule = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...rule,
+    };
+    this.data.alertRules.push(newRule);
+    await this.persistData();
+    return newRule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule> {
+    const index = this.data.alertRules.findIndex(rule => rule.id === id);
+    if (index === -1) {
+      throw new Error('Alert rule not found');
+    }
+    this.data.alertRules[index] = { ...this.data.alertRules[index], ...updates, id };
+    await this.persistData();
+    return this.data.alertRules[index];
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const before = this.data.alertRules.length;
+    this.data.alertRules = this.data.alertRules.filter(rule => rule.id !== id);
+    await this.persistData();
+    return this.data.alertRules.length < before;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClient } from '@libsql/client';
+import type { StorageData } from './storage.file';
+import { SqliteStorage } from './storage.sqlite';
+
+const MIGRATION_VERSIONS = [1, 2, 3, 4, 5, 6];
+
+let dir: string;
+let dbPath: string;
+let statePath: string;
+
+const openStorage = async () => {
+  const storage = new SqliteStorage(dbPath, statePath);
+  await storage.init();
+  return storage;
+};
+
+// Reads the database behind the storage's back
+async function query(sql: string) {
+  const client = createClient({ url: `file:${dbPath}` });
+  try {
+    return (await client.execute(sql)).rows;
+  } finally {
+    client.close();
+  }
+}
+
+// A state.json the way FileStorage writes it, before any secrets were set
+function sampleState(): Partial<StorageData> {
+  return {
+    minecraftConfigs: {
+      main: { id: 'main', serverIP: 'play.example.com', serverPort: '25565', username: 'AFKBot' } as StorageData['minecraftConfigs'][string],
+    },
+    consoleCommands: [
+      { id: '1700000000000', command: 'list', timestamp: '2023-11-14T22:13:20.000Z', success: true, requiresOp: false },
+      { id: '1700000000000', command: 'time set day', timestamp: '2023-11-14T22:13:20.000Z', success: true, requiresOp: true },
+      { id: '1700000000001', command: 'weather clear', timestamp: '2023-11-14T22:13:20.001Z', success: false, requiresOp: true },
+    ],
+    logs: [
+      { id: 'log-1', type: 'system', level: 'info', message: 'Dashboard started', timestamp: '2023-11-14T22:13:20.000Z' },
+    ],
+    users: [
+      { id: 'user-1', username: 'Admin', passwordHash: 'hash', role: 'admin', createdAt: '2023-11-14T22:13:20.000Z' },
+    ],
+  };
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'afk-sqlite-'));
+  dbPath = path.join(dir, 'afk.db');
+  statePath = path.join(dir, 'state.json');
+  vi.stubEnv('AFK_MASTER_KEY', randomBytes(32).toString('hex'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('SqliteStorage migrations', () => {
+  it('applies every migration to a new database, once', async () => {
+    await openStorage();
+    await openStorage();
+
+    const applied = await query('SELECT version FROM schema_migrations ORDER BY version');
+    expect(applied.map(row => Number(row.version))).toEqual(MIGRATION_VERSIONS);
+  });
+
+  it('brings a database left at v1 up to date', async () => {
+    await openStorage();
+    // Roll back to the tables and usernames v1 left behind
+    const client = createClient({ url: `file:${dbPath}` });
+    await client.batch([
+      'DELETE FROM schema_migrations WHERE version > 1',
+      'DROP TABLE channel_bindings',
+      'DROP TABLE command_permissions',
+      'DROP TABLE alert_rules',
+      `INSERT INTO users (id, username, password_hash, role, created_at) VALUES ('user-1', ' Admin ', 'hash', 'admin', '2023-11-14T22:13:20.000Z')`,
+    ], 'write');
+    client.close();
+
+    const storage = await openStorage();
+    const applied = await query('SELECT version FROM schema_migrations ORDER BY version');
+    expect(applied.map(row => Number(row.version))).toEqual(MIGRATION_VERSIONS);
+    expect((await storage.getUserByUsername('ADMIN'))?.username).toBe('admin');
+    expect(await storage.getChannelBindings()).toEqual([]);
+    expect(await storage.getCommandPermissions()).toEqual([]);
+    expect(await storage.getAlertRules()).toEqual([]);
+  });
+});
+
+describe('SqliteStorage state.json import', () => {
+  it('imports everything, giving commands that share an id a fresh one', async () => {
+    await fs.writeFile(statePath, JSON.stringify(sampleState()));
+    const storage = await openStorage();
+
+    const commands = await storage.getConsoleCommands();
+    expect(commands.map(command => command.command)).toEqual(['list', 'time set day', 'weather clear']);
+    expect(new Set(commands.map(command => command.id)).size).toBe(3);
+    expect(commands[0].id).toBe('1700000000000');
+
+    expect((await storage.getMinecraftConfig('main'))?.serverIP).toBe('play.example.com');
+    expect((await storage.getLogs()).map(log => log.id)).toEqual(['log-1']);
+    expect((await storage.getUserByUsername('admin'))?.id).toBe('user-1');
+    expect(await query(`SELECT key FROM settings WHERE key = 'imported_from'`)).toHaveLength(1);
+  });
+
+  it('imports only into an empty database', async () => {
+    const storage = await openStorage();
+    await storage.addConsoleCommand({ command: 'say hi', success: true, requiresOp: true });
+    await storage.addLog({ type: 'system', level: 'info', message: 'Already here' });
+    await fs.writeFile(statePath, JSON.stringify(sampleState()));
+
+    const reopened = await openStorage();
+    expect((await reopened.getConsoleCommands()).map(command => command.command)).toEqual(['say hi']);
+    expect(await reopened.getMinecraftConfig('main')).toBeNull();
+  });
+});
+
+describe('SqliteStorage.queryLogs', () => {
+  const seed = async () => {
+    const storage = await openStorage();
+    await storage.addLog({ type: 'minecraft', level: 'info', message: 'Joined the server', botId: 'main' });
+    await storage.addLog({ type: 'minecraft', level: 'warn', message: 'Health at 100%', botId: 'main' });
+    await storage.addLog({ type: 'minecraft', level: 'error', message: 'Kicked', details: 'Health at 1000', botId: 'main' });
+    await storage.addLog({ type: 'discord', level: 'info', message: 'Slash command /status', botId: 'alt' });
+    await storage.addLog({ type: 'system', level: 'debug', message: 'Tick took 100_ms' });
+    return storage;
+  };
+
+  it('pages newest first with a cursor', async () => {
+    const storage = await seed();
+
+    const first = await storage.queryLogs({ limit: 2 });
+    expect(first.logs.map(log => log.message)).toEqual(['Tick took 100_ms', 'Slash command /status']);
+    expect(first.total).toBe(5);
+    expect(first.nextCursor).toBe(first.logs[1].id);
+
+    const second = await storage.queryLogs({ limit: 2, cursor: first.nextCursor! });
+    expect(second.logs.map(log => log.message)).toEqual(['Kicked', 'Health at 100%']);
+    const last = await storage.queryLogs({ limit: 2, cursor: second.nextCursor! });
+    expect(last.logs.map(log => log.message)).toEqual(['Joined the server']);
+    expect(last.nextCursor).toBeNull();
+
+    expect((await storage.queryLogs({ limit: 2, cursor: 'gone' })).logs).toEqual([]);
+  });
+
+  it('searches message and details, treating % and _ literally', async () => {
+    const storage = await seed();
+
+    const health = await storage.queryLogs({ limit: 100, search: 'HEALTH at' });
+    expect(health.logs.map(log => log.message)).toEqual(['Kicked', 'Health at 100%']);
+    expect((await storage.queryLogs({ limit: 100, search: '100%' })).logs.map(log => log.message)).toEqual(['Health at 100%']);
+    expect((await storage.queryLogs({ limit: 100, search: '100_' })).logs.map(log => log.message)).toEqual(['Tick took 100_ms']);
+  });
+
+  it('counts every level in scope while filtering the page by level', async () => {
+    const storage = await seed();
+
+    const page = await storage.queryLogs({ limit: 100, botId: 'main', level: ['warn', 'error'] });
+    expect(page.logs.map(log => log.level)).toEqual(['error', 'warn']);
+    expect(page.levelCounts).toEqual({ info: 1, warn: 1, error: 1, debug: 0 });
+    expect(page.total).toBe(2);
+  });
+});
@@ -0,0 +1,976 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createClient, Client, InStatement, Row } from '@libsql/client';
+import type {
+  DiscordBotConfig,
+  MinecraftServerConfig,
+  BotStatus,
+  ConsoleCommand,
+  LogEntry,
+  InventoryItem,
+  AternosConfig,
+  InsertDiscordBotConfig,
+  InsertMinecraftServerConfig,
+  InsertBotStatus,
+  InsertConsoleCommand,
+  InsertLogEntry,
+  InsertAternosConfig,
+  User,
+  InsertUser,
+  Session,
+  ApiKey,
+  InsertApiKey,
+  ChannelBinding,
+  InsertChannelBinding,
+  CommandPermission,
+  InsertCommandPermission,
+  AlertRule,
+  InsertAlertRule,
+  LogQuery,
+  LogPage,
+} from "../shared/schema";
+import { DEFAULT_BOT_ID } from "../shared/schema";
+import { IStorage, normalizeUsername } from './storage';
+import { FileStorage, StorageData } from './storage.file';
+import { SecretCipher, loadMasterKey } from './secrets';
+
+interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+// Append-only: never edit a migration that has shipped, add a new version instead
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    statements: [
+      `CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+      `CREATE TABLE minecraft_configs (bot_id TEXT PRIMARY KEY, data TEXT NOT NULL)`,
+      `CREATE TABLE console_commands (
+        id TEXT PRIMARY KEY,
+        command TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        response TEXT,
+        success INTEGER NOT NULL DEFAULT 0,
+        requires_op INTEGER NOT NULL DEFAULT 1
+      )`,
+      `CREATE TABLE logs (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        level TEXT NOT NULL,
+        message TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        details TEXT,
+        bot_id TEXT
+      )`,
+      `CREATE INDEX idx_logs_type_seq ON logs (type, seq)`,
+      `CREATE INDEX idx_logs_bot_seq ON logs (bot_id, seq)`,
+      `CREATE INDEX idx_logs_timestamp ON logs (timestamp)`,
+      `CREATE TABLE inventories (bot_id TEXT PRIMARY KEY, items TEXT NOT NULL)`,
+      `CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_login TEXT
+      )`,
+      `CREATE UNIQUE INDEX idx_users_username ON users (username COLLATE NOCASE)`,
+      `CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_sessions_user ON sessions (user_id)`,
+      `CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        last_used_at TEXT
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'discord channel bindings',
+    statements: [
+      `CREATE TABLE channel_bindings (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        events TEXT NOT NULL,
+        bot_id TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE (channel_id, purpose)
+      )`,
+      `CREATE INDEX idx_channel_bindings_guild ON channel_bindings (guild_id)`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'live status messages',
+    statements: [
+      `ALTER TABLE channel_bindings ADD COLUMN status_message_id TEXT`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'command permissions',
+    statements: [
+      `CREATE TABLE command_permissions (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        command TEXT NOT NULL,
+        role_ids TEXT NOT NULL,
+        user_ids TEXT NOT NULL,
+        channel_ids TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        UNIQUE (guild_id, command)
+      )`,
+    ],
+  },
+  {
+    version: 5,
+    name: 'alert rules',
+    statements: [
+      `CREATE TABLE alert_rules (
+        id TEXT PRIMARY KEY,
+        event TEXT NOT NULL,
+        bot_id TEXT,
+        threshold REAL,
+        cooldown INTEGER NOT NULL,
+        destination TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        channel_id TEXT,
+        enabled INTEGER NOT NULL,
+        created_by TEXT,
+        created_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'lowercase usernames',
+    statements: [
+      `UPDATE users SET username = lower(trim(username))`,
+    ],
+  },
+];
+
+// Settings rows holding single documents
+const DISCORD_CONFIG = 'discord_config';
+const BOT_STATUS = 'bot_status';
+const ATERNOS_CONFIG = 'aternos_config';
+const IMPORTED_FROM = 'imported_from';
+
+const newId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+const text = (value: Row[string]) => value === null || value === undefined ? undefined : String(value);
+
+function toLogEntry(row: Row): LogEntry {
+  return {
+    id: String(row.id),
+    type: String(row.type) as LogEntry['type'],
+    level: String(row.level) as LogEntry['level'],
+    message: String(row.message),
+    timestamp: String(row.timestamp),
+    details: text(row.details),
+    botId: text(row.bot_id),
+  };
+}
+
+function toConsoleCommand(row: Row): ConsoleCommand {
+  return {
+    id: String(row.id),
+    command: String(row.command),
+    timestamp: String(row.timestamp),
+    response: text(row.response),
+    success: !!row.success,
+    requiresOp: !!row.requires_op,
+  };
+}
+
+function toUser(row: Row): User {
+  return {
+    id: String(row.id),
+    username: String(row.username),
+    passwordHash: String(row.password_hash),
+    role: String(row.role) as User['role'],
+    createdAt: String(row.created_at),
+    lastLogin: text(row.last_login),
+  };
+}
+
+function toSession(row: Row): Session {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    createdAt: String(row.created_at),
+    expiresAt: String(row.expires_at),
+  };
+}
+
+function toApiKey(row: Row): ApiKey {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    prefix: String(row.prefix),
+    keyHash: String(row.key_hash),
+    scopes: JSON.parse(String(row.scopes)),
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+    expiresAt: text(row.expires_at),
+    lastUsedAt: text(row.last_used_at),
+  };
+}
+
+function toChannelBinding(row: Row): ChannelBinding {
+  return {
+    id: String(row.id),
+    guildId: String(row.guild_id),
+    channelId: String(row.channel_id),
+    purpose: String(row.purpose) as ChannelBinding['purpose'],
+    events: JSON.parse(String(row.events)),
+    botId: text(row.bot_id),
+    createdBy: text(row.created_by),
+    createdAt: String(row.created_at),
+    statusMessageId: text(row.status_message_id),
+  };
+}
+
+function toCommandPermission(row: Row): CommandPermission {
+  return {
+    id: String(row.id),
+    guildId: String(row.guild_id),
+    command: String(row.command),
+    roleIds: JSON.parse(String(row.role_ids)),
+    userIds: JSON.parse(String(row.user_ids)),
+    channelIds: JSON.parse(String(row.channel_ids)),
+    updatedBy: text(row.updated_by),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+function toAlertRule(row: Row): AlertRule {
+  return {
+    id: String(row.id),
+    event: String(row.event) as AlertRule['event'],
+    botId: text(row.bot_id),
+    threshold: row.threshold === null ? undefined : Number(row.threshold),
+    cooldown: Number(row.cooldown),
+    destination: String(row.destination) as AlertRule['destination'],
+    targetId: String(row.target_id),
+    channelId: text(row.channel_id),
+    enabled: Boolean(row.enabled),
+    createdBy: text(row.created_by),
+    createdAt: String(row.created_at),
+  };
+}
+
+// SQLite-backed storage: logs and commands are rows (indexed, never truncated),
+// configs are JSON documents with their secrets encrypted like FileStorage
+export class SqliteStorage implements IStorage {
+  private client: Client | null = null;
+  private cipher: SecretCipher | null = null;
+
+  constructor(
+    private readonly dbPath = './data/afk.db',
+    private readonly importFrom = './data/state.json'
+  ) {}
+
+  async init(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+      this.cipher = new SecretCipher(await loadMasterKey());
+      this.client = createClient({ url: `file:${this.dbPath}` });
+      await this.client.execute('PRAGMA foreign_keys = ON');
+      await this.client.execute('PRAGMA journal_mode = WAL');
+
+      await this.migrate();
+      await this.importStateFile();
+
+      if (!(await this.getBotStatus())) {
+        await this.updateBotStatus({
+          discordConnected: false,
+          minecraftConnected: false,
+          totalUptime: '0m',
+        });
+      }
+      console.log(`🗄️ SQLite storage ready at ${this.dbPath}`);
+    } catch (error) {
+      console.error('Failed to initialize SQLite storage:', error);
+      throw error;
+    }
+  }
+
+  private get db(): Client {
+    if (!this.client) {
+      throw new Error('SQLite storage used before init()');
+    }
+    return this.client;
+  }
+
+  // Applies pending migrations, each in its own transaction
+  private async migrate(): Promise<void> {
+    await this.db.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`);
+    const applied = await this.db.execute('SELECT version FROM schema_migrations');
+    const appliedVersions = new Set(applied.rows.map(row => Number(row.version)));
+
+    for (const migration of MIGRATIONS) {
+      if (appliedVersions.has(migration.version)) continue;
+      await this.db.batch([
+        ...migration.statements,
+        {
+          sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          args: [migration.version, migration.name, new Date().toISOString()],
+        },
+      ], 'write');
+      console.log(`🗄️ Applied migration ${migration.version}: ${migration.name}`);
+    }
+  }
+
+  // One-shot copy of data/state.json into an empty database
+  private async importStateFile(): Promise<void> {
+    if (await this.getSetting(IMPORTED_FROM)) return;
+    try {
+      await fs.access(this.importFrom);
+    } catch {
+      return;
+    }
+
+    const hasData = await this.db.execute(
+      'SELECT (SELECT COUNT(*) FROM users) + (SELECT COUNT(*) FROM minecraft_configs) + (SELECT COUNT(*) FROM logs) AS total'
+    );
+    if (Number(hasData.rows[0].total) > 0) return;
+
+    const source = new FileStorage(path.dirname(this.importFrom));
+    await source.init();
+    const data = source.snapshot();
+    await this.importSnapshot(data);
+    await this.setSetting(IMPORTED_FROM, { path: this.importFrom, importedAt: new Date().toISOString() });
+    console.log(`🗄️ Imported ${this.importFrom}: ${Object.keys(data.minecraftConfigs).length} bot(s), ${data.logs.length} log(s), ${data.users.length} user(s)`);
+  }
+
+  private async importSnapshot(data: StorageData): Promise<void> {
+    const statements: InStatement[] = [];
+    const setting = (key: string, value: unknown) => statements.push({
+      sql: 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+      args: [key, JSON.stringify(value)],
+    });
+
+    if (data.discordConfig) setting(DISCORD_CONFIG, this.seal(data.discordConfig, 'token'));
+    if (data.botStatus) setting(BOT_STATUS, data.botStatus);
+    if (data.aternosConfig) setting(ATERNOS_CONFIG, this.seal(data.aternosConfig, 'password'));
+    for (const [botId, config] of Object.entries(data.minecraftConfigs)) {
+      statements.push({
+        sql: 'INSERT INTO minecraft_configs (bot_id, data) VALUES (?, ?)',
+        args: [botId, JSON.stringify(this.seal({ ...config, id: botId }, 'password', 'proxyPassword'))],
+      });
+    }
+    for (const [botId, items] of Object.entries(data.inventories)) {
+      statements.push({ sql: 'INSERT INTO inventories (bot_id, items) VALUES (?, ?)', args: [botId, JSON.stringify(items)] });
+    }
+    // FileStorage ids are Date.now(), so commands saved in the same millisecond share one
+    const commandIds = new Set<string>();
+    for (const command of data.consoleCommands) {
+      const id = commandIds.has(command.id) ? newId() : command.id;
+      commandIds.add(id);
+      statements.push(this.insertConsoleCommandStatement({ ...command, id }));
+    }
+    for (const log of data.logs) {
+      statements.push(this.insertLogStatement(log));
+    }
+    for (const user of data.users) {
+      statements.push(this.insertUserStatement(user));
+    }
+    for (const session of data.sessions) {
+      statements.push(this.insertSessionStatement(session));
+    }
+    for (const apiKey of data.apiKeys) {
+      statements.push(this.insertApiKeyStatement(apiKey));
+    }
+    for (const binding of data.channelBindings) {
+      statements.push(this.upsertChannelBindingStatement(binding));
+    }
+    for (const rule of data.commandPermissions) {
+      statements.push(this.upsertCommandPermissionStatement(rule));
+    }
+    for (const rule of data.alertRules) {
+      statements.push(this.insertAlertRuleStatement(rule));
+    }
+
+    await this.db.batch(statements, 'write');
+  }
+
+  private seal<T extends object>(doc: T, ...fields: (keyof T & string)[]): T {
+    let sealed = doc;
+    for (const field of fields) {
+      const value = doc[field];
+      if (typeof value !== 'string' || !value || SecretCipher.isEncrypted(value)) continue;
+      sealed = { ...sealed, [field]: this.cipher.encrypt(value) };
+    }
+    return sealed;
+  }
+
+  private open<T extends object>(doc: T | null, ...fields: (keyof T & string)[]): T | null {
+    let opened = doc;
+    for (const field of fields) {
+      const value = doc?.[field];
+      if (!SecretCipher.isEncrypted(value)) continue;
+      try {
+        opened = { ...opened, [field]: this.cipher.decrypt(value) };
+      } catch (error) {
+        throw new Error(`Cannot decrypt secrets in ${this.dbPath} - check AFK_MASTER_KEY or the master keyfile`);
+      }
+    }
+    return opened;
+  }
+
+  private async getSetting<T>(key: string): Promise<T | null> {
+    const result = await this.db.execute({ sql: 'SELECT value FROM settings WHERE key = ?', args: [key] });
+    return result.rows.length ? JSON.parse(String(result.rows[0].value)) : null;
+  }
+
+  private async setSetting<T>(key: string, value: T): Promise<T> {
+    await this.db.execute({
+      sql: 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+      args: [key, JSON.stringify(value)],
+    });
+    return value;
+  }
+
+  private insertConsoleCommandStatement(command: ConsoleCommand): InStatement {
+    return {
+      sql: 'INSERT INTO console_commands (id, command, timestamp, response, success, requires_op) VALUES (?, ?, ?, ?, ?, ?)',
+      args: [command.id, command.command, command.timestamp, command.response ?? null, command.success ? 1 : 0, command.requiresOp === false ? 0 : 1],
+    };
+  }
+
+  private insertLogStatement(log: LogEntry): InStatement {
+    return {
+      sql: 'INSERT OR IGNORE INTO logs (id, type, level, message, timestamp, details, bot_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      args: [log.id, log.type, log.level, log.message, log.timestamp, log.details ?? null, log.botId ?? null],
+    };
+  }
+
+  private insertUserStatement(user: User): InStatement {
+    return {
+      sql: 'INSERT INTO users (id, username, password_hash, role, created_at, last_login) VALUES (?, ?, ?, ?, ?, ?)',
+      args: [user.id, normalizeUsername(user.username), user.passwordHash, user.role || 'viewer', user.createdAt, user.lastLogin ?? null],
+    };
+  }
+
+  private insertSessionStatement(session: Session): InStatement {
+    return {
+      sql: 'INSERT INTO sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)',
+      args: [session.id, session.userId, session.createdAt, session.expiresAt],
+    };
+  }
+
+  private insertApiKeyStatement(apiKey: ApiKey): InStatement {
+    return {
+      sql: `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_by, created_at, expires_at, last_used_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        apiKey.id, apiKey.name, apiKey.prefix, apiKey.keyHash, JSON.stringify(apiKey.scopes),
+        apiKey.createdBy, apiKey.createdAt, apiKey.expiresAt ?? null, apiKey.lastUsedAt ?? null,
+      ],
+    };
+  }
+
+  // Keeps the id and status message of an existing binding for the same channel and purpose
+  private upsertChannelBindingStatement(binding: ChannelBinding): InStatement {
+    return {
+      sql: `INSERT INTO channel_bindings (id, guild_id, channel_id, purpose, events, bot_id, created_by, created_at, status_message_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (channel_id, purpose) DO UPDATE SET
+          guild_id = excluded.guild_id, events = excluded.events, bot_id = excluded.bot_id, created_by = excluded.created_by`,
+      args: [
+        binding.id, binding.guildId, binding.channelId, binding.purpose, JSON.stringify(binding.events ?? []),
+        binding.botId ?? null, binding.createdBy ?? null, binding.createdAt, binding.statusMessageId ?? null,
+      ],
+    };
+  }
+
+  // Keeps the id of an existing rule for the same guild and command
+  private upsertCommandPermissionStatement(rule: CommandPermission): InStatement {
+    return {
+      sql: `INSERT INTO command_permissions (id, guild_id, command, role_ids, user_ids, channel_ids, updated_by, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (guild_id, command) DO UPDATE SET
+          role_ids = excluded.role_ids, user_ids = excluded.user_ids, channel_ids = excluded.channel_ids,
+          updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+      args: [
+        rule.id, rule.guildId, rule.command, JSON.stringify(rule.roleIds ?? []), JSON.stringify(rule.userIds ?? []),
+        JSON.stringify(rule.channelIds ?? []), rule.updatedBy ?? null, rule.updatedAt,
+      ],
+    };
+  }
+
+  private insertAlertRuleStatement(rule: AlertRule): InStatement {
+    return {
+      sql: `INSERT INTO alert_rules (id, event, bot_id, threshold, cooldown, destination, target_id, channel_id, enabled, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        rule.id, rule.event, rule.botId ?? null, rule.threshold ?? null, rule.cooldown ?? 300, rule.destination,
+        rule.targetId, rule.channelId ?? null, rule.enabled === false ? 0 : 1, rule.createdBy ?? null, rule.createdAt,
+      ],
+    };
+  }
+
+  async getDiscordConfig(): Promise<DiscordBotConfig | null> {
+    return this.open(await this.getSetting<DiscordBotConfig>(DISCORD_CONFIG), 'token');
+  }
+
+  async saveDiscordConfig(config: InsertDiscordBotConfig): Promise<DiscordBotConfig> {
+    const saved: DiscordBotConfig = { id: 'discord_bot', ...config };
+    await this.setSetting(DISCORD_CONFIG, this.seal(saved, 'token'));
+    return saved;
+  }
+
+  async updateDiscordConfig(updates: Partial<DiscordBotConfig>): Promise<DiscordBotConfig> {
+    const existing = await this.getDiscordConfig();
+    if (!existing) {
+      throw new Error('Discord config not found');
+    }
+
+    // Preserve existing token if updates.token is undefined (security feature)
+    if (updates.token === undefined && existing.token) {
+      updates = { ...updates, token: existing.token };
+    }
+
+    const updated = { ...existing, ...updates };
+    await this.setSetting(DISCORD_CONFIG, this.seal(updated, 'token'));
+    return updated;
+  }
+
+  async getMinecraftConfigs(): Promise<MinecraftServerConfig[]> {
+    const result = await this.db.execute('SELECT data FROM minecraft_configs ORDER BY rowid');
+    return result.rows.map(row => this.open(JSON.parse(String(row.data)) as MinecraftServerConfig, 'password', 'proxyPassword'));
+  }
+
+  async getMinecraftConfig(botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig | null> {
+    const result = await this.db.execute({ sql: 'SELECT data FROM minecraft_configs WHERE bot_id = ?', args: [botId] });
+    if (!result.rows.length) return null;
+    return this.open(JSON.parse(String(result.rows[0].data)) as MinecraftServerConfig, 'password', 'proxyPassword');
+  }
+
+  async saveMinecraftConfig(config: InsertMinecraftServerConfig, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    const saved: MinecraftServerConfig = { ...config, id: botId };
+    await this.db.execute({
+      sql: 'INSERT OR REPLACE INTO minecraft_configs (bot_id, data) VALUES (?, ?)',
+      args: [botId, JSON.stringify(this.seal(saved, 'password', 'proxyPassword'))],
+    });
+    return saved;
+  }
+
+  async updateMinecraftConfig(updates: Partial<MinecraftServerConfig>, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    const existing = await this.getMinecraftConfig(botId);
+    if (!existing) {
+      // If no config exists yet, create a default one and apply updates
+      return this.saveMinecraftConfig({
+        serverIP: '',
+        serverPort: '25565',
+        username: '',
+        version: '1.20.4',
+        platform: 'java',
+        autoReconnect: true,
+        mode24_7: true,
+        useWhitelist: false,
+        isConnected: false,
+        ping: 'N/A',
+        uptime: 'N/A',
+        playersOnline: '0/0',
+        shouldRegister: false,
+        ...updates,
+      }, botId);
+    }
+
+    // Preserve existing password if updates.password is undefined (security feature)
+    if (updates.password === undefined && existing.password) {
+      updates = { ...updates, password: existing.password };
+    }
+    if (updates.proxyPassword === undefined && existing.proxyPassword) {
+      updates = { ...updates, proxyPassword: existing.proxyPassword };
+    }
+
+    return this.saveMinecraftConfig({ ...existing, ...updates }, botId);
+  }
+
+  async deleteMinecraftConfig(botId: string): Promise<void> {
+    await this.db.batch([
+      { sql: 'DELETE FROM minecraft_configs WHERE bot_id = ?', args: [botId] },
+      { sql: 'DELETE FROM inventories WHERE bot_id = ?', args: [botId] },
+    ], 'write');
+  }
+
+  async getBotStatus(): Promise<BotStatus | null> {
+    return this.getSetting<BotStatus>(BOT_STATUS);
+  }
+
+  async updateBotStatus(status: InsertBotStatus): Promise<BotStatus> {
+    return this.setSetting<BotStatus>(BOT_STATUS, { id: 'bot_status', ...status });
+  }
+
+  async getConsoleCommands(limit: number = 100): Promise<ConsoleCommand[]> {
+    const result = await this.db.execute({
+      sql: 'SELECT * FROM console_commands ORDER BY rowid DESC LIMIT ?',
+      args: [limit],
+    });
+    return result.rows.map(toConsoleCommand).reverse();
+  }
+
+  async addConsoleCommand(command: InsertConsoleCommand): Promise<ConsoleCommand> {
+    const newCommand: ConsoleCommand = {
+      id: newId(),
+      timestamp: new Date().toISOString(),
+      ...command,
+    };
+    await this.db.execute(this.insertConsoleCommandStatement(newCommand));
+    return newCommand;
+  }
+
+  async getLogs(type?: LogEntry['type'], limit: number = 100, botId?: string): Promise<LogEntry[]> {
+    const where: string[] = [];
+    const args: string[] = [];
+    if (type) {
+      where.push('type = ?');
+      args.push(type);
+    }
+    if (botId) {
+      where.push('bot_id = ?');
+      args.push(botId);
+    }
+
+    const result = await this.db.execute({
+      sql: `SELECT * FROM logs ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY seq DESC LIMIT ?`,
+      args: [...args, limit],
+    });
+    return result.rows.map(toLogEntry).reverse();
+  }
+
+  async queryLogs(query: LogQuery): Promise<LogPage> {
+    const where: string[] = [];
+    const args: (string | number)[] = [];
+    if (query.type) {
+      where.push('type = ?');
+      args.push(query.type);
+    }
+    if (query.botId) {
+      where.push('bot_id = ?');
+      args.push(query.botId);
+    }
+    if (query.from) {
+      where.push('timestamp >= ?');
+      args.push(query.from.toISOString());
+    }
+    if (query.to) {
+      where.push('timestamp <= ?');
+      args.push(query.to.toISOString());
+    }
+    if (query.search) {
+      const pattern = `%${query.search.toLowerCase().replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      where.push(`(lower(message) LIKE ? ESCAPE '\\' OR lower(coalesce(details, '')) LIKE ? ESCAPE '\\')`);
+      args.push(pattern, pattern);
+    }
+    const baseWhere = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+    const counts = await this.db.execute({
+      sql: `SELECT level, COUNT(*) AS count FROM logs ${baseWhere} GROUP BY level`,
+      args,
+    });
+    const levelCounts: LogPage['levelCounts'] = { info: 0, warn: 0, error: 0, debug: 0 };
+    for (const row of counts.rows) {
+      levelCounts[String(row.level) as LogEntry['level']] = Number(row.count);
+    }
+
+    const pageWhere = [...where];
+    const pageArgs = [...args];
+    if (query.level?.length) {
+      pageWhere.push(`level IN (${query.level.map(() => '?').join(', ')})`);
+      pageArgs.push(...query.level);
+    }
+    if (query.cursor) {
+      // Unknown cursor compares against NULL and returns nothing, like the in-memory stores
+      pageWhere.push('seq < (SELECT seq FROM logs WHERE id = ?)');
+      pageArgs.push(query.cursor);
+    }
+    if (query.since) {
+      // Unknown "since" falls back to everything kept, like the in-memory stores
+      pageWhere.push('seq > coalesce((SELECT seq FROM logs WHERE id = ?), 0)');
+      pageArgs.push(query.since);
+    }
+
+    const limit = query.limit ?? 100;
+    const result = await this.db.execute({
+      sql: `SELECT * FROM logs ${pageWhere.length ? `WHERE ${pageWhere.join(' AND ')}` : ''} ORDER BY seq DESC LIMIT ?`,
+      args: [...pageArgs, limit + 1],
+    });
+    const logs = result.rows.slice(0, limit).map(toLogEntry);
+
+    return {
+      logs,
+      nextCursor: result.rows.length > limit ? logs[logs.length - 1].id : null,
+      total: query.level?.length
+        ? query.level.reduce((sum, level) => sum + levelCounts[level], 0)
+        : Object.values(levelCounts).reduce((sum, count) => sum + count, 0),
+      levelCounts,
+    };
+  }
+
+  async addLog(log: InsertLogEntry): Promise<LogEntry> {
+    const newLog: LogEntry = {
+      id: newId(),
+      timestamp: new Date().toISOString(),
+      ...log,
+    };
+    await this.db.execute(this.insertLogStatement(newLog));
+    return newLog;
+  }
+
+  async clearLogs(type?: LogEntry['type'], botId?: string): Promise<void> {
+    await this.db.execute({
+      sql: 'DELETE FROM logs WHERE (? IS NULL OR type = ?) AND (? IS NULL OR bot_id = ?)',
+      args: [type ?? null, type ?? null, botId ?? null, botId ?? null],
+    });
+  }
+
+  async getInventory(botId: string = DEFAULT_BOT_ID): Promise<InventoryItem[]> {
+    const result = await this.db.execute({ sql: 'SELECT items FROM inventories WHERE bot_id = ?', args: [botId] });
+    return result.rows.length ? JSON.parse(String(result.rows[0].items)) : [];
+  }
+
+  async updateInventory(items: InventoryItem[], botId: string = DEFAULT_BOT_ID): Promise<void> {
+    await this.db.execute({
+      sql: 'INSERT OR REPLACE INTO inventories (bot_id, items) VALUES (?, ?)',
+      args: [botId, JSON.stringify(items)],
+    });
+  }
+
+  async getAternosConfig(): Promise<AternosConfig | null> {
+    return this.open(await this.getSetting<AternosConfig>(ATERNOS_CONFIG), 'password');
+  }
+
+  async saveAternosConfig(config: InsertAternosConfig): Promise<AternosConfig> {
+    const saved: AternosConfig = { id: 'aternos_config', ...config };
+    await this.setSetting(ATERNOS_CONFIG, this.seal(saved, 'password'));
+    return saved;
+  }
+
+  async updateAternosConfig(updates: Partial<AternosConfig>): Promise<AternosConfig> {
+    const existing = await this.getAternosConfig();
+    if (!existing) {
+      throw new Error('Aternos config not found');
+    }
+    const updated = { ...existing, ...updates };
+    await this.setSetting(ATERNOS_CONFIG, this.seal(updated, 'password'));
+    return updated;
+  }
+
+  async getUsers(): Promise<User[]> {
+    const result = await this.db.execute('SELECT * FROM users ORDER BY created_at');
+    return result.rows.map(toUser);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM users WHERE id = ?', args: [id] });
+    return result.rows.length ? toUser(result.rows[0]) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM users WHERE username = ?', args: [normalizeUsername(username)] });
+    return result.rows.length ? toUser(result.rows[0]) : null;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const newUser: User = {
+      id: newId(),
+      createdAt: new Date().toISOString(),
+      ...user,
+      username: normalizeUsername(user.username),
+    };
+    await this.db.execute(this.insertUserStatement(newUser));
+    return newUser;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const existing = await this.getUser(id);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+    const updated = { ...existing, ...updates, id };
+    updated.username = normalizeUsername(updated.username);
+    await this.db.execute({
+      sql: 'UPDATE users SET username = ?, password_hash = ?, role = ?, last_login = ? WHERE id = ?',
+      args: [updated.username, updated.passwordHash, updated.role, updated.lastLogin ?? null, id],
+    });
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.db.batch([
+      { sql: 'DELETE FROM sessions WHERE user_id = ?', args: [id] },
+      { sql: 'DELETE FROM users WHERE id = ?', args: [id] },
+    ], 'write');
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM sessions WHERE id = ?', args: [id] });
+    return result.rows.length ? toSession(result.rows[0]) : null;
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    // Drop expired sessions while we're here
+    await this.db.batch([
+      { sql: 'DELETE FROM sessions WHERE expires_at <= ?', args: [new Date().toISOString()] },
+      this.insertSessionStatement(session),
+    ], 'write');
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.db.execute({ sql: 'DELETE FROM sessions WHERE id = ?', args: [id] });
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.db.execute({ sql: 'DELETE FROM sessions WHERE user_id = ?', args: [userId] });
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    const result = await this.db.execute('SELECT * FROM api_keys ORDER BY created_at');
+    return result.rows.map(toApiKey);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM api_keys WHERE key_hash = ?', args: [keyHash] });
+    return result.rows.length ? toApiKey(result.rows[0]) : null;
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const newKey: ApiKey = {
+      id: newId(),
+      createdAt: new Date().toISOString(),
+      ...apiKey,
+    };
+    await this.db.execute(this.insertApiKeyStatement(newKey));
+    return newKey;
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM api_keys WHERE id = ?', args: [id] });
+    if (!result.rows.length) {
+      throw new Error('API key not found');
+    }
+    const updated = { ...toApiKey(result.rows[0]), ...updates, id };
+    await this.db.execute({
+      sql: 'UPDATE api_keys SET name = ?, scopes = ?, expires_at = ?, last_used_at = ? WHERE id = ?',
+      args: [updated.name, JSON.stringify(updated.scopes), updated.expiresAt ?? null, updated.lastUsedAt ?? null, id],
+    });
+    return updated;
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    const result = await this.db.execute({ sql: 'DELETE FROM api_keys WHERE id = ?', args: [id] });
+    return result.rowsAffected > 0;
+  }
+
+  async getChannelBindings(guildId?: string): Promise<ChannelBinding[]> {
+    const result = await this.db.execute({
+      sql: 'SELECT * FROM channel_bindings WHERE (? IS NULL OR guild_id = ?) ORDER BY created_at',
+      args: [guildId ?? null, guildId ?? null],
+    });
+    return result.rows.map(toChannelBinding);
+  }
+
+  async saveChannelBinding(binding: InsertChannelBinding): Promise<ChannelBinding> {
+    await this.db.execute(this.upsertChannelBindingStatement({ id: newId(), createdAt: new Date().toISOString(), ...binding }));
+    const result = await this.db.execute({
+      sql: 'SELECT * FROM channel_bindings WHERE channel_id = ? AND purpose = ?',
+      args: [binding.channelId, binding.purpose],
+    });
+    return toChannelBinding(result.rows[0]);
+  }
+
+  async deleteChannelBinding(id: string): Promise<boolean> {
+    const result = await this.db.execute({ sql: 'DELETE FROM channel_bindings WHERE id = ?', args: [id] });
+    return result.rowsAffected > 0;
+  }
+
+  async setChannelBindingMessage(id: string, messageId: string | null): Promise<void> {
+    await this.db.execute({ sql: 'UPDATE channel_bindings SET status_message_id = ? WHERE id = ?', args: [messageId, id] });
+  }
+
+  async getCommandPermissions(guildId?: string): Promise<CommandPermission[]> {
+    const result = await this.db.execute({
+      sql: 'SELECT * FROM command_permissions WHERE (? IS NULL OR guild_id = ?) ORDER BY command',
+      args: [guildId ?? null, guildId ?? null],
+    });
+    return result.rows.map(toCommandPermission);
+  }
+
+  async saveCommandPermission(rule: InsertCommandPermission): Promise<CommandPermission> {
+    await this.db.execute(this.upsertCommandPermissionStatement({ id: newId(), ...rule, updatedAt: new Date().toISOString() }));
+    const result = await this.db.execute({
+      sql: 'SELECT * FROM command_permissions WHERE guild_id = ? AND command = ?',
+      args: [rule.guildId, rule.command],
+    });
+    return toCommandPermission(result.rows[0]);
+  }
+
+  async deleteCommandPermission(id: string): Promise<boolean> {
+    const result = await this.db.execute({ sql: 'DELETE FROM command_permissions WHERE id = ?', args: [id] });
+    return result.rowsAffected > 0;
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    const result = await this.db.execute('SELECT * FROM alert_rules ORDER BY created_at');
+    return result.rows.map(toAlertRule);
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const newRule: AlertRule = {
+      id: newId(),
+      createdAt: new Date().toISOString(),
+      ...rule,
+    };
+    await this.db.execute(this.insertAlertRuleStatement(newRule));
+    return newRule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule> {
+    const result = await this.db.execute({ sql: 'SELECT * FROM alert_rules WHERE id = ?', args: [id] });
+    if (!result.rows.length) {
+      throw new Error('Alert rule not found');
+    }
+    const updated = { ...toAlertRule(result.rows[0]), ...updates, id };
+    await this.db.execute({
+      sql: `UPDATE alert_rules SET event = ?, bot_id = ?, threshold = ?, cooldown = ?, destination = ?, target_id = ?,
+        channel_id = ?, enabled = ? WHERE id = ?`,
+      args: [
+        updated.event, updated.botId ?? null, updated.threshold ?? null, updated.cooldown, updated.destination,
+        updated.targetId, updated.channelId ?? null, updated.enabled ? 1 : 0, id,
+      ],
+    });
+    return updated;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const result = await this.db.execute({ sql: 'DELETE FROM alert_rules WHERE id = ?', args: [id] });
+    return result.rowsAffected > 0;
+  }
+}
@@ -13,7 +13,74 @@ import type {
   InsertLogEntry,
   InsertInventoryItem,
   InsertAternosConfig,
+  User,
+  InsertUser,
+  Session,
+  ApiKey,
+  InsertApiKey,
+  ChannelBinding,
+  InsertChannelBinding,
+  CommandPermission,
+  InsertCommandPermission,
+  AlertRule,
+  InsertAlertRule,
+  LogQuery,
+  LogPage,
 } from "../shared/schema";
+import { DEFAULT_BOT_ID } from "../shared/schema";
+
+// Usernames are case-insensitive in every backend: stored and looked up lowercased
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+const emptyLevelCounts = (): LogPage['levelCounts'] => ({ info: 0, warn: 0, error: 0, debug: 0 });
+
+// Every log filter except level, which queryLogs still counts per level
+export function matchesLogScope(log: LogEntry, query: LogQuery): boolean {
+  if (query.type && log.type !== query.type) return false;
+  if (query.botId && log.botId !== query.botId) return false;
+  if (query.from && log.timestamp < query.from.toISOString()) return false;
+  if (query.to && log.timestamp > query.to.toISOString()) return false;
+  if (query.search && !`${log.message} ${log.details || ''}`.toLowerCase().includes(query.search.toLowerCase())) return false;
+  return true;
+}
+
+// Log search over an in-memory list (oldest first), shared by MemStorage and FileStorage
+export function queryLogEntries(logs: LogEntry[], query: LogQuery): LogPage {
+  const levelCounts = emptyLevelCounts();
+  const matches: LogEntry[] = [];
+
+  // A cursor that's gone (trimmed or cleared) means there is nothing older to return
+  let end = logs.length;
+  if (query.cursor) {
+    const index = logs.findIndex(log => log.id === query.cursor);
+    end = index === -1 ? 0 : index;
+  }
+  // A "since" that's gone means everything kept is newer
+  const start = query.since ? logs.findIndex(log => log.id === query.since) + 1 : 0;
+
+  logs.forEach((log, index) => {
+    if (!matchesLogScope(log, query)) return;
+
+    levelCounts[log.level]++;
+    if (query.level?.length && !query.level.includes(log.level)) return;
+    if (index >= start && index < end) matches.push(log);
+  });
+
+  const total = query.level?.length
+    ? query.level.reduce((sum, level) => sum + levelCounts[level], 0)
+    : Object.values(levelCounts).reduce((sum, count) => sum + count, 0);
+  const limit = query.limit ?? 100;
+  const page = matches.slice(-limit).reverse();
+
+  return {
+    logs: page,
+    nextCursor: matches.length > limit ? page[page.length - 1].id : null,
+    total,
+    levelCounts,
+  };
+}
 
 export interface IStorage {
   // Discord Bot Config
@@ -21,10 +88,12 @@ export interface IStorage {
   saveDiscordConfig(config: InsertDiscordBotConfig): Promise<DiscordBotConfig>;
   updateDiscordConfig(updates: Partial<DiscordBotConfig>): Promise<DiscordBotConfig>;
   
-  // Minecraft Server Config
-  getMinecraftConfig(): Promise<MinecraftServerConfig | null>;
-  saveMinecraftConfig(config: InsertMinecraftServerConfig): Promise<MinecraftServerConfig>;
-  updateMinecraftConfig(updates: Partial<MinecraftServerConfig>): Promise<MinecraftServerConfig>;
+  // Minecraft Server Config (one per bot, botId defaults to DEFAULT_BOT_ID)
+  getMinecraftConfigs(): Promise<MinecraftServerConfig[]>;
+  getMinecraftConfig(botId?: string): Promise<MinecraftServerConfig | null>;
+  saveMinecraftConfig(config: InsertMinecraftServerConfig, botId?: string): Promise<MinecraftServerConfig>;
+  updateMinecraftConfig(updates: Partial<MinecraftServerConfig>, botId?: string): Promise<MinecraftServerConfig>;
+  deleteMinecraftConfig(botId: string): Promise<void>;
   
   // Bot Status
   getBotStatus(): Promise<BotStatus | null>;
@@ -35,31 +104,76 @@ export interface IStorage {
   addConsoleCommand(command: InsertConsoleCommand): Promise<ConsoleCommand>;
   
   // Logs
-  getLogs(type?: LogEntry['type'], limit?: number): Promise<LogEntry[]>;
+  getLogs(type?: LogEntry['type'], limit?: number, botId?: string): Promise<LogEntry[]>;
+  queryLogs(query: LogQuery): Promise<LogPage>;
   addLog(log: InsertLogEntry): Promise<LogEntry>;
-  clearLogs(type?: LogEntry['type']): Promise<void>;
+  clearLogs(type?: LogEntry['type'], botId?: string): Promise<void>;
   
-  // Inventory
-  getInventory(): Promise<InventoryItem[]>;
-  updateInventory(items: InventoryItem[]): Promise<void>;
+  // Inventory (cached per bot)
+  getInventory(botId?: string): Promise<InventoryItem[]>;
+  updateInventory(items: InventoryItem[], botId?: string): Promise<void>;
   
   // Aternos Config
   getAternosConfig(): Promise<AternosConfig | null>;
   saveAternosConfig(config: InsertAternosConfig): Promise<AternosConfig>;
   updateAternosConfig(updates: Partial<AternosConfig>): Promise<AternosConfig>;
   
+  // Dashboard users
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | null>;
+  getUserByUsername(username: string): Promise<User | null>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
+  deleteUser(id: string): Promise<void>;
+  
+  // Login sessions (keyed by token hash)
+  getSession(id: string): Promise<Session | null>;
+  createSession(session: Session): Promise<Session>;
+  deleteSession(id: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+  
+  // API keys for scripts (keyed lookups by key hash)
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey>;
+  deleteApiKey(id: string): Promise<boolean>;
+  
+  // Discord channel bindings (saving replaces the binding for the same channel and purpose)
+  getChannelBindings(guildId?: string): Promise<ChannelBinding[]>;
+  saveChannelBinding(binding: InsertChannelBinding): Promise<ChannelBinding>;
+  deleteChannelBinding(id: string): Promise<boolean>;
+  setChannelBindingMessage(id: string, messageId: string | null): Promise<void>;
+  
+  // Slash command permission rules (saving replaces the rule for the same guild and command)
+  getCommandPermissions(guildId?: string): Promise<CommandPermission[]>;
+  saveCommandPermission(rule: InsertCommandPermission): Promise<CommandPermission>;
+  deleteCommandPermission(id: string): Promise<boolean>;
+  
+  // Discord alert rules
+  getAlertRules(): Promise<AlertRule[]>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule>;
+  deleteAlertRule(id: string): Promise<boolean>;
+  
   // Initialize storage
   init(): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private discordConfig: DiscordBotConfig | null = null;
-  private minecraftConfig: MinecraftServerConfig | null = null;
+  private minecraftConfigs = new Map<string, MinecraftServerConfig>();
   private botStatus: BotStatus | null = null;
   private consoleCommands: ConsoleCommand[] = [];
   private logs: LogEntry[] = [];
-  private inventory: InventoryItem[] = [];
+  private inventories = new Map<string, InventoryItem[]>();
   private aternosConfig: AternosConfig | null = null;
+  private users = new Map<string, User>();
+  private sessions = new Map<string, Session>();
+  private apiKeys = new Map<string, ApiKey>();
+  private channelBindings = new Map<string, ChannelBinding>();
+  private commandPermissions = new Map<string, CommandPermission>();
+  private alertRules = new Map<string, AlertRule>();
 
   async init(): Promise<void> {
     // Initialize with default values
@@ -88,21 +202,33 @@ export class MemStorage implements IStorage {
     return this.discordConfig;
   }
 
-  async getMinecraftConfig(): Promise<MinecraftServerConfig | null> {
-    return this.minecraftConfig;
+  async getMinecraftConfigs(): Promise<MinecraftServerConfig[]> {
+    return Array.from(this.minecraftConfigs.values());
+  }
+
+  async getMinecraftConfig(botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig | null> {
+    return this.minecraftConfigs.get(botId) || null;
   }
 
-  async saveMinecraftConfig(config: InsertMinecraftServerConfig): Promise<MinecraftServerConfig> {
-    this.minecraftConfig = { id: 'minecraft_server', ...config };
-    return this.minecraftConfig;
+  async saveMinecraftConfig(config: InsertMinecraftServerConfig, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    const saved = { ...config, id: botId };
+    this.minecraftConfigs.set(botId, saved);
+    return saved;
   }
 
-  async updateMinecraftConfig(updates: Partial<MinecraftServerConfig>): Promise<MinecraftServerConfig> {
-    if (!this.minecraftConfig) {
+  async updateMinecraftConfig(updates: Partial<MinecraftServerConfig>, botId: string = DEFAULT_BOT_ID): Promise<MinecraftServerConfig> {
+    const existing = this.minecraftConfigs.get(botId);
+    if (!existing) {
       throw new Error('Minecraft config not found');
     }
-    this.minecraftConfig = { ...this.minecraftConfig, ...updates };
-    return this.minecraftConfig;
+    const updated = { ...existing, ...updates, id: botId };
+    this.minecraftConfigs.set(botId, updated);
+    return updated;
+  }
+
+  async deleteMinecraftConfig(botId: string): Promise<void> {
+    this.minecraftConfigs.delete(botId);
+    this.inventories.delete(botId);
   }
 
   async getBotStatus(): Promise<BotStatus | null> {
@@ -134,14 +260,21 @@ export class MemStorage implements IStorage {
     return newCommand;
   }
 
-  async getLogs(type?: LogEntry['type'], limit: number = 100): Promise<LogEntry[]> {
+  async getLogs(type?: LogEntry['type'], limit: number = 100, botId?: string): Promise<LogEntry[]> {
     let filteredLogs = this.logs;
     if (type) {
-      filteredLogs = this.logs.filter(log => log.type === type);
+      filteredLogs = filteredLogs.filter(log => log.type === type);
+    }
+    if (botId) {
+      filteredLogs = filteredLogs.filter(log => log.botId === botId);
     }
     return filteredLogs.slice(-limit);
   }
 
+  async queryLogs(query: LogQuery): Promise<LogPage> {
+    return queryLogEntries(this.logs, query);
+  }
+
   async addLog(log: InsertLogEntry): Promise<LogEntry> {
     const newLog: LogEntry = {
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
@@ -158,20 +291,18 @@ export class MemStorage implements IStorage {
     return newLog;
   }
 
-  async clearLogs(type?: LogEntry['type']): Promise<void> {
-    if (type) {
-      this.logs = this.logs.filter(log => log.type !== type);
-    } else {
-      this.logs = [];
-    }
+  async clearLogs(type?: LogEntry['type'], botId?: string): Promise<void> {
+    this.logs = this.logs.filter(log =>
+      (type && log.type !== type) || (botId && log.botId !== botId)
+    );
   }
 
-  async getInventory(): Promise<InventoryItem[]> {
-    return this.inventory;
+  async getInventory(botId: string = DEFAULT_BOT_ID): Promise<InventoryItem[]> {
+    return this.inventories.get(botId) || [];
   }
 
-  async updateInventory(items: InventoryItem[]): Promise<void> {
-    this.inventory = items;
+  async updateInventory(items: InventoryItem[], botId: string = DEFAULT_BOT_ID): Promise<void> {
+    this.inventories.set(botId, items);
   }
 
   async getAternosConfig(): Promise<AternosConfig | null> {
@@ -190,4 +321,171 @@ export class MemStorage implements IStorage {
     this.aternosConfig = { ...this.aternosConfig, ...updates };
     return this.aternosConfig;
   }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.users.get(id) || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const key = normalizeUsername(username);
+    return Array.from(this.users.values()).find(user => user.username === key) || null;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const newUser: User = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...user,
+      username: normalizeUsername(user.username),
+    };
+    this.users.set(newUser.id, newUser);
+    return newUser;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+    const updated = { ...existing, ...updates, id };
+    updated.username = normalizeUsername(updated.username);
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.users.delete(id);
+    await this.deleteUserSessions(id);
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.sessions.get(id) || null;
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) this.sessions.delete(id);
+    }
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values());
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash) || null;
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const newKey: ApiKey = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...apiKey,
+    };
+    this.apiKeys.set(newKey.id, newKey);
+    return newKey;
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const existing = this.apiKeys.get(id);
+    if (!existing) {
+      throw new Error('API key not found');
+    }
+    const updated = { ...existing, ...updates, id };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    return this.apiKeys.delete(id);
+  }
+
+  async getChannelBindings(guildId?: string): Promise<ChannelBinding[]> {
+    return Array.from(this.channelBindings.values()).filter(binding => !guildId || binding.guildId === guildId);
+  }
+
+  async saveChannelBinding(binding: InsertChannelBinding): Promise<ChannelBinding> {
+    const existing = Array.from(this.channelBindings.values())
+      .find(b => b.channelId === binding.channelId && b.purpose === binding.purpose);
+    const saved: ChannelBinding = {
+      id: existing?.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      statusMessageId: existing?.statusMessageId,
+      ...binding,
+    };
+    this.channelBindings.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteChannelBinding(id: string): Promise<boolean> {
+    return this.channelBindings.delete(id);
+  }
+
+  async setChannelBindingMessage(id: string, messageId: string | null): Promise<void> {
+    const binding = this.channelBindings.get(id);
+    if (binding) {
+      this.channelBindings.set(id, { ...binding, statusMessageId: messageId ?? undefined });
+    }
+  }
+
+  async getCommandPermissions(guildId?: string): Promise<CommandPermission[]> {
+    return Array.from(this.commandPermissions.values()).filter(rule => !guildId || rule.guildId === guildId);
+  }
+
+  async saveCommandPermission(rule: InsertCommandPermission): Promise<CommandPermission> {
+    const existing = Array.from(this.commandPermissions.values())
+      .find(r => r.guildId === rule.guildId && r.command === rule.command);
+    const saved: CommandPermission = {
+      id: existing?.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      ...rule,
+      updatedAt: new Date().toISOString(),
+    };
+    this.commandPermissions.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteCommandPermission(id: string): Promise<boolean> {
+    return this.commandPermissions.delete(id);
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values());
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const newRule: AlertRule = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      ...rule,
+    };
+    this.alertRules.set(newRule.id, newRule);
+    return newRule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<AlertRule>): Promise<AlertRule> {
+    const existing = this.alertRules.get(id);
+    if (!existing) {
+      throw new Error('Alert rule not found');
+    }
+    const updated = { ...existing, ...updates, id };
+    this.alertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.alertRules.delete(id);
+  }
 }
\ No newline at end of file
@@ -1,5 +1,21 @@
 import { z } from 'zod';
 
+// Id of the bot that existed before multi-bot support; legacy routes act on it
+export const DEFAULT_BOT_ID = 'minecraft_server';
+
+// Minecraft <-> Discord chat bridge, run through the channels bound for chat.
+// minecraftFormat takes {prefix}, {user} and {message}; discordFormat (used when
+// not posting through a webhook) takes {player}, {message} and {bot}.
+export const ChatBridgeConfigSchema = z.object({
+  toDiscord: z.boolean().default(true),
+  toMinecraft: z.boolean().default(false),
+  useWebhook: z.boolean().default(true), // Post as the player, with their skin as avatar
+  botId: z.string().default(DEFAULT_BOT_ID), // Bridged bot for chat channels bound without one
+  minecraftPrefix: z.string().max(32).default('[Discord]'),
+  minecraftFormat: z.string().min(1).max(100).default('{prefix} <{user}> {message}'),
+  discordFormat: z.string().min(1).max(200).default('💬 **{player}**: {message}'),
+});
+
 // Discord Bot Configuration Schema
 export const DiscordBotConfigSchema = z.object({
   id: z.string().default('discord_bot'),
@@ -11,18 +27,87 @@ export const DiscordBotConfigSchema = z.object({
   commandsExecuted: z.number().default(0),
   uptime: z.string().default('0m'),
   lastConnected: z.string().optional(),
+  chatBridge: ChatBridgeConfigSchema.default({}),
+  statusInterval: z.number().int().min(10).max(3600).default(30), // Seconds between live status refreshes
+  globalCommands: z.boolean().default(false), // Register slash commands globally instead of per guild
+});
+
+// Discord channels bound with /setup, several per guild and purpose
+export const ChannelPurposeSchema = z.enum(['status', 'events', 'chat', 'alerts']);
+export const ChannelEventSchema = z.enum(['chat', 'join_leave', 'server_message', 'server_power', 'command', 'alert']);
+
+export const ChannelBindingSchema = z.object({
+  id: z.string(),
+  guildId: z.string(),
+  channelId: z.string(),
+  purpose: ChannelPurposeSchema,
+  events: z.array(ChannelEventSchema).default([]), // Empty means the purpose's default events
+  botId: z.string().optional(), // Only this bot's events; every bot when unset
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+  statusMessageId: z.string().optional(), // Live status message edited in place (status bindings)
+});
+
+// Events a binding receives when it has no filter of its own
+export const DEFAULT_CHANNEL_EVENTS: Record<z.infer<typeof ChannelPurposeSchema>, z.infer<typeof ChannelEventSchema>[]> = {
+  status: [],
+  events: ['chat', 'join_leave', 'server_message', 'server_power', 'command'],
+  chat: ['chat', 'join_leave'],
+  alerts: ['alert', 'server_power'],
+};
+
+// Who may run a slash command in a guild; empty lists don't restrict
+export const CommandPermissionSchema = z.object({
+  id: z.string(),
+  guildId: z.string(),
+  command: z.string().min(1),
+  roleIds: z.array(z.string()).default([]),
+  userIds: z.array(z.string()).default([]),
+  channelIds: z.array(z.string()).default([]),
+  updatedBy: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+// Discord alerts for critical bot events. The threshold is the health at or below which
+// low_health fires, or the kicks in a row from which kick fires; death and reconnect_failed
+// ignore it. Destinations: a channel, a user's DMs, or a role mentioned in a channel.
+export const AlertEventSchema = z.enum(['death', 'kick', 'low_health', 'reconnect_failed']);
+export const AlertDestinationSchema = z.enum(['channel', 'user', 'role']);
+
+export const AlertRuleSchema = z.object({
+  id: z.string(),
+  event: AlertEventSchema,
+  botId: z.string().optional(), // Only this bot; every bot when unset
+  threshold: z.number().min(0).max(20).optional(), // Per-event default when unset
+  cooldown: z.number().int().min(0).max(86400).default(300), // Seconds before the rule fires again for a bot
+  destination: AlertDestinationSchema,
+  targetId: z.string().regex(/^\d{17,20}$/, 'Must be a Discord id'), // Channel, user or role id
+  channelId: z.string().regex(/^\d{17,20}$/, 'Must be a Discord id').optional(), // Channel role mentions are posted in
+  enabled: z.boolean().default(true),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
 });
 
-// Minecraft Server Configuration Schema
+// Minecraft Server Configuration Schema (one per bot, id is the bot id)
 export const MinecraftServerConfigSchema = z.object({
-  id: z.string().default('minecraft_server'),
+  id: z.string().default(DEFAULT_BOT_ID),
+  name: z.string().optional(),
   serverIP: z.string().min(1, 'Server IP is required'),
   serverPort: z.string().min(1, 'Server port is required'),
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(4, 'Password must be at least 4 characters').optional(),
   shouldRegister: z.boolean().default(false),
+  // 'microsoft' signs in with a device code for online-mode servers; username is then the account email
+  auth: z.enum(['offline', 'microsoft']).default('offline'),
+  // 'auto' joins as the version the server reports in its Server List Ping
   version: z.string().default('1.20.4'),
   platform: z.string().default('java'),
+  // Pings and the game connection go out through this proxy, for a different egress IP
+  proxyType: z.enum(['none', 'socks5', 'http']).default('none'),
+  proxyHost: z.string().optional(),
+  proxyPort: z.string().optional(),
+  proxyUsername: z.string().optional(),
+  proxyPassword: z.string().optional(),
   autoReconnect: z.boolean().default(true),
   mode24_7: z.boolean().default(true),
   useWhitelist: z.boolean().default(false),
@@ -60,6 +145,25 @@ export const LogEntrySchema = z.object({
   message: z.string(),
   timestamp: z.string(),
   details: z.string().optional(),
+  botId: z.string().optional(),
+});
+
+// Log search query (GET /api/logs). Pages run newest first; cursor is the id of
+// the last entry received, pass back nextCursor to get older entries
+export const LogQuerySchema = z.object({
+  type: LogEntrySchema.shape.type.optional(),
+  level: z.preprocess(
+    (value) => typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+    z.array(LogEntrySchema.shape.level)
+  ).optional(),
+  search: z.string().trim().max(200).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  botId: z.string().optional(),
+  cursor: z.string().optional(),
+  // Only entries newer than this log id (backlog after a reconnect)
+  since: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
 });
 
 // Inventory Item Schema
@@ -74,18 +178,64 @@ export const InventoryItemSchema = z.object({
 // Aternos Configuration Schema
 export const AternosConfigSchema = z.object({
   id: z.string().default('aternos_config'),
-  username: z.string().min(1, 'Aternos username is required'),
-  password: z.string().min(1, 'Aternos password is required'),
+  // Account credentials, only needed by account-based providers
+  username: z.string().optional(),
+  password: z.string().optional(),
   serverName: z.string().optional(),
+  // Which ServerProvider drives start/stop/status
+  provider: z.enum(['local', 'mock']).default('local'),
+  // Local process provider: command to launch, its working directory, and console stop command
+  localCommand: z.string().optional(),
+  localWorkingDir: z.string().optional(),
+  localStopCommand: z.string().default('stop'),
   isLoggedIn: z.boolean().default(false),
   lastLogin: z.string().optional(),
   serverStatus: z.enum(['offline', 'starting', 'online', 'stopping', 'unknown']).default('unknown'),
+  // Start the server when a bot finds it offline, then wait up to autoStartTimeout seconds
   autoStart: z.boolean().default(false),
+  autoStartTimeout: z.number().int().positive().default(300),
   playerCount: z.string().default('0/20'),
   serverIP: z.string().optional(),
   version: z.string().optional(),
 });
 
+// Dashboard roles, lowest to highest privilege
+export const UserRoleSchema = z.enum(['viewer', 'operator', 'admin']);
+
+// Dashboard User Schema
+export const UserSchema = z.object({
+  id: z.string(),
+  username: z.string().min(3, 'Username must be at least 3 characters').max(32),
+  passwordHash: z.string(),
+  role: UserRoleSchema.default('viewer'),
+  createdAt: z.string(),
+  lastLogin: z.string().optional(),
+});
+
+// Login Session Schema (id is the SHA-256 of the session token, never the token itself)
+export const SessionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+// What an API key may do; keys never act with a user's role
+export const ApiKeyScopeSchema = z.enum(['status:read', 'console:write', 'control:movement', 'server:power']);
+
+// API Key Schema (keyHash is the SHA-256 of the key; prefix is kept to tell keys apart)
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(64),
+  prefix: z.string(),
+  keyHash: z.string(),
+  scopes: z.array(ApiKeyScopeSchema).min(1),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  lastUsedAt: z.string().optional(),
+});
+
 // Insert schemas using zod - make token optional for reconnection
 export const insertDiscordBotConfigSchema = DiscordBotConfigSchema.omit({ id: true }).extend({
   token: z.string().optional(), // Allow optional token for reconnection
@@ -96,15 +246,34 @@ export const insertConsoleCommandSchema = ConsoleCommandSchema.omit({ id: true,
 export const insertLogEntrySchema = LogEntrySchema.omit({ id: true, timestamp: true });
 export const insertInventoryItemSchema = InventoryItemSchema.omit({ id: true });
 export const insertAternosConfigSchema = AternosConfigSchema.omit({ id: true });
+export const insertUserSchema = UserSchema.omit({ id: true, createdAt: true });
+export const insertApiKeySchema = ApiKeySchema.omit({ id: true, createdAt: true });
+export const insertChannelBindingSchema = ChannelBindingSchema.omit({ id: true, createdAt: true, statusMessageId: true });
+export const insertCommandPermissionSchema = CommandPermissionSchema.omit({ id: true, updatedAt: true });
+export const insertAlertRuleSchema = AlertRuleSchema.omit({ id: true, createdAt: true });
 
 // Types
 export type DiscordBotConfig = z.infer<typeof DiscordBotConfigSchema>;
+export type ChatBridgeConfig = z.infer<typeof ChatBridgeConfigSchema>;
 export type MinecraftServerConfig = z.infer<typeof MinecraftServerConfigSchema>;
 export type BotStatus = z.infer<typeof BotStatusSchema>;
 export type ConsoleCommand = z.infer<typeof ConsoleCommandSchema>;
 export type LogEntry = z.infer<typeof LogEntrySchema>;
+export type LogQuery = z.infer<typeof LogQuerySchema>;
 export type InventoryItem = z.infer<typeof InventoryItemSchema>;
 export type AternosConfig = z.infer<typeof AternosConfigSchema>;
+export type UserRole = z.infer<typeof UserRoleSchema>;
+export type User = z.infer<typeof UserSchema>;
+export type Session = z.infer<typeof SessionSchema>;
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type ChannelPurpose = z.infer<typeof ChannelPurposeSchema>;
+export type ChannelEvent = z.infer<typeof ChannelEventSchema>;
+export type ChannelBinding = z.infer<typeof ChannelBindingSchema>;
+export type CommandPermission = z.infer<typeof CommandPermissionSchema>;
+export type AlertEvent = z.infer<typeof AlertEventSchema>;
+export type AlertDestination = z.infer<typeof AlertDestinationSchema>;
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
 
 export type InsertDiscordBotConfig = z.infer<typeof insertDiscordBotConfigSchema>;
 export type InsertMinecraftServerConfig = z.infer<typeof insertMinecraftServerConfigSchema>;
@@ -112,4 +281,17 @@ export type InsertBotStatus = z.infer<typeof insertBotStatusSchema>;
 export type InsertConsoleCommand = z.infer<typeof insertConsoleCommandSchema>;
 export type InsertLogEntry = z.infer<typeof insertLogEntrySchema>;
 export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
-export type InsertAternosConfig = z.infer<typeof insertAternosConfigSchema>;
\ No newline at end of file
+export type InsertAternosConfig = z.infer<typeof insertAternosConfigSchema>;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type InsertChannelBinding = z.infer<typeof insertChannelBindingSchema>;
+export type InsertCommandPermission = z.infer<typeof insertCommandPermissionSchema>;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+
+export interface LogPage {
+  logs: LogEntry[];
+  nextCursor: string | null;
+  // Entries matching every filter, and per level ignoring the level filter
+  total: number;
+  levelCounts: Record<LogEntry['level'], number>;
+}
\ No newline at end of file
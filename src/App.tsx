@@ -5,6 +5,10 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { queryClient } from "@/lib/queryClient";
+import SelectedBotProvider from "@/components/SelectedBotProvider";
+import AuthProvider from "@/components/AuthProvider";
+import { useAuth } from "@/hooks/useAuth";
+import { Loader2 } from "lucide-react";
 import Index from "./pages/Index";
 import DiscordBot from "./pages/DiscordBot";
 import ServerConfig from "./pages/ServerConfig";
@@ -12,11 +16,28 @@ import Aternos from "./pages/Aternos";
 import Inventory from "./pages/Inventory";
 import DiscordLogs from "./pages/DiscordLogs";
 import MinecraftLogs from "./pages/MinecraftLogs";
+import Logs from "./pages/Logs";
 import Console from "./pages/Console";
 import Settings from "./pages/Settings";
 import HowToUse from "./pages/HowToUse";
 import BotView from "./pages/BotView";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+
+// Every page needs a signed-in user; show the login (or first-run setup) screen otherwise
+const AuthGate = ({ children }: { children: JSX.Element }) => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return user ? children : <Login />;
+};
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -27,8 +48,11 @@ const App = () => (
       disableTransitionOnChange
     >
       <TooltipProvider>
+        <AuthProvider>
+        <SelectedBotProvider>
         <Toaster />
         <Sonner />
+        <AuthGate>
         <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
@@ -38,6 +62,7 @@ const App = () => (
           <Route path="/inventory" element={<Inventory />} />
           <Route path="/discord-logs" element={<DiscordLogs />} />
           <Route path="/minecraft-logs" element={<MinecraftLogs />} />
+          <Route path="/logs" element={<Logs />} />
           <Route path="/console" element={<Console />} />
           <Route path="/bot-view" element={<BotView />} />
           <Route path="/settings" element={<Settings />} />
@@ -46,6 +71,9 @@ const App = () => (
           <Route path="*" element={<NotFound />} />
         </Routes>
         </BrowserRouter>
+        </AuthGate>
+        </SelectedBotProvider>
+        </AuthProvider>
       </TooltipProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { BotSummary } from "@/hooks/useSelectedBot";
+import { Siren, Trash2 } from "lucide-react";
+
+type AlertEvent = "death" | "kick" | "low_health" | "reconnect_failed";
+type AlertDestination = "channel" | "user" | "role";
+
+interface AlertRule {
+  id: string;
+  event: AlertEvent;
+  botId?: string;
+  threshold?: number;
+  cooldown: number;
+  destination: AlertDestination;
+  targetId: string;
+  channelId?: string;
+  enabled: boolean;
+  createdBy?: string;
+}
+
+interface GuildOption {
+  id: string;
+  name: string;
+  roles: { id: string; name: string }[];
+  channels: { id: string; name: string }[];
+}
+
+interface AlertsResponse {
+  rules: AlertRule[];
+  guilds: GuildOption[];
+}
+
+const ALL_BOTS = "__all__";
+
+const events: { value: AlertEvent; label: string; threshold?: string; defaultThreshold?: number }[] = [
+  { value: "death", label: "Bot died" },
+  { value: "kick", label: "Bot was kicked", threshold: "Kicks in a row", defaultThreshold: 1 },
+  { value: "low_health", label: "Low health", threshold: "Health at or below", defaultThreshold: 6 },
+  { value: "reconnect_failed", label: "Gave up reconnecting" },
+];
+
+const destinations: { value: AlertDestination; label: string }[] = [
+  { value: "channel", label: "Channel" },
+  { value: "user", label: "User DM" },
+  { value: "role", label: "Role mention" },
+];
+
+interface Draft {
+  event: AlertEvent;
+  botId: string;
+  threshold: string;
+  cooldown: string;
+  destination: AlertDestination;
+  guildId: string;
+  targetId: string;
+  channelId: string;
+}
+
+const emptyDraft: Draft = {
+  event: "death",
+  botId: ALL_BOTS,
+  threshold: "",
+  cooldown: "300",
+  destination: "channel",
+  guildId: "",
+  targetId: "",
+  channelId: "",
+};
+
+// Rule fields as the API takes them
+const ruleBody = (rule: Omit<AlertRule, "id" | "createdBy">) => ({
+  event: rule.event,
+  botId: rule.botId,
+  threshold: rule.threshold,
+  cooldown: rule.cooldown,
+  destination: rule.destination,
+  targetId: rule.targetId,
+  channelId: rule.channelId,
+  enabled: rule.enabled,
+});
+
+// Discord alerts for deaths, kicks, low health and reconnect give-ups (admins can edit)
+export default function AlertRules() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isAdmin = useAuth().hasRole('admin');
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const { data } = useQuery<AlertsResponse>({
+    queryKey: ['/api/discord/alerts'],
+  });
+
+  const { data: bots = [] } = useQuery<BotSummary[]>({
+    queryKey: ['/api/bots'],
+  });
+
+  const rules = data?.rules ?? [];
+  const guilds = data?.guilds ?? [];
+  const guild = guilds.find(g => g.id === draft.guildId) ?? guilds[0];
+  const eventInfo = events.find(e => e.value === draft.event);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/discord/alerts'] });
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('/api/discord/alerts', {
+      method: 'POST',
+      body: JSON.stringify(ruleBody({
+        event: draft.event,
+        botId: draft.botId === ALL_BOTS ? undefined : draft.botId,
+        threshold: eventInfo?.threshold && draft.threshold !== "" ? Number(draft.threshold) : undefined,
+        cooldown: Number(draft.cooldown),
+        destination: draft.destination,
+        targetId: draft.targetId.trim(),
+        channelId: draft.destination === "role" ? draft.channelId : undefined,
+        enabled: true,
+      })),
+    }),
+    onSuccess: () => {
+      invalidate();
+      setDraft(prev => ({ ...emptyDraft, guildId: prev.guildId }));
+      toast({ title: "Alert Rule Added", description: `${eventInfo?.label} alerts are on` });
+    },
+    onError: onError("Failed to Add Alert Rule"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: AlertRule) => apiRequest(`/api/discord/alerts/${rule.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(ruleBody({ ...rule, enabled: !rule.enabled })),
+    }),
+    onSuccess: invalidate,
+    onError: onError("Failed to Update Alert Rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => apiRequest(`/api/discord/alerts/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError: onError("Failed to Remove Alert Rule"),
+  });
+
+  const channelName = (id?: string) => {
+    const channel = guilds.flatMap(g => g.channels).find(c => c.id === id);
+    return `#${channel?.name ?? id}`;
+  };
+  const roleName = (id: string) => `@${guilds.flatMap(g => g.roles).find(r => r.id === id)?.name ?? id}`;
+
+  const describe = (rule: AlertRule) => {
+    const target = rule.destination === "user"
+      ? `DM to ${rule.targetId}`
+      : rule.destination === "role"
+        ? `${roleName(rule.targetId)} in ${channelName(rule.channelId)}`
+        : channelName(rule.targetId);
+    const info = events.find(e => e.value === rule.event);
+    const threshold = info?.threshold ? ` · ${info.threshold.toLowerCase()} ${rule.threshold ?? info.defaultThreshold}` : "";
+    return `${target}${threshold} · every ${rule.cooldown}s at most · ${rule.botId ?? "all bots"}`;
+  };
+
+  const canSave = draft.targetId.trim() !== ""
+    && (draft.destination !== "role" || draft.channelId !== "")
+    && draft.cooldown !== "" && !isNaN(Number(draft.cooldown));
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-2 flex items-center gap-2">
+        <Siren className="w-5 h-5 text-primary" />
+        Alert Rules
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Send deaths, kicks, low health and reconnect give-ups to a channel, a user's DMs or a role. Alerts include the reason, position and last 10 chat lines.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alert rules yet.</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 p-3 bg-muted/30 rounded-lg">
+                <div className="min-w-0">
+                  <Badge variant="outline">{events.find(e => e.value === rule.event)?.label ?? rule.event}</Badge>
+                  <p className="text-xs text-muted-foreground truncate mt-1">{describe(rule)}</p>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(rule)}
+                      disabled={toggleMutation.isPending}
+                    />
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {isAdmin && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Event</Label>
+                <Select value={draft.event} onValueChange={(event) => setDraft(prev => ({ ...prev, event: event as AlertEvent, threshold: "" }))}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {events.map((e) => (
+                      <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Bot</Label>
+                <Select value={draft.botId} onValueChange={(botId) => setDraft(prev => ({ ...prev, botId }))}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_BOTS}>All bots</SelectItem>
+                    {bots.map((bot) => (
+                      <SelectItem key={bot.id} value={bot.id}>{bot.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {eventInfo?.threshold && (
+                <div>
+                  <Label htmlFor="alert-threshold">{eventInfo.threshold}</Label>
+                  <Input
+                    id="alert-threshold"
+                    type="number"
+                    min={0}
+                    max={20}
+                    className="mt-1"
+                    placeholder={String(eventInfo.defaultThreshold)}
+                    value={draft.threshold}
+                    onChange={(e) => setDraft(prev => ({ ...prev, threshold: e.target.value }))}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="alert-cooldown">Cooldown (seconds)</Label>
+                <Input
+                  id="alert-cooldown"
+                  type="number"
+                  min={0}
+                  max={86400}
+                  className="mt-1"
+                  value={draft.cooldown}
+                  onChange={(e) => setDraft(prev => ({ ...prev, cooldown: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Send to</Label>
+                <Select
+                  value={draft.destination}
+                  onValueChange={(destination) => setDraft(prev => ({ ...prev, destination: destination as AlertDestination, targetId: "", channelId: "" }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {destinations.map((d) => (
+                      <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.destination !== "user" && guilds.length > 0 && (
+                <div>
+                  <Label>Server</Label>
+                  <Select value={guild?.id ?? ""} onValueChange={(guildId) => setDraft(prev => ({ ...prev, guildId, targetId: "", channelId: "" }))}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {guilds.map((g) => (
+                        <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {draft.destination === "user" ? (
+              <div>
+                <Label htmlFor="alert-user">Discord user ID</Label>
+                <Input
+                  id="alert-user"
+                  className="mt-1 font-mono"
+                  placeholder="123456789012345678"
+                  value={draft.targetId}
+                  onChange={(e) => setDraft(prev => ({ ...prev, targetId: e.target.value }))}
+                />
+              </div>
+            ) : !guild ? (
+              <p className="text-sm text-muted-foreground">Connect the Discord bot to pick a channel or role.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {draft.destination === "role" && (
+                  <div>
+                    <Label>Role</Label>
+                    <Select value={draft.targetId} onValueChange={(targetId) => setDraft(prev => ({ ...prev, targetId }))}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue placeholder="Pick a role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {guild.roles.map((role) => (
+                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label>Channel</Label>
+                  <Select
+                    value={draft.destination === "role" ? draft.channelId : draft.targetId}
+                    onValueChange={(id) => setDraft(prev => prev.destination === "role" ? { ...prev, channelId: id } : { ...prev, targetId: id })}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Pick a channel" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {guild.channels.map((channel) => (
+                        <SelectItem key={channel.id} value={channel.id}>#{channel.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <Button onClick={() => createMutation.mutate()} disabled={!canSave || createMutation.isPending}>
+              {createMutation.isPending ? "Adding..." : "Add alert rule"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Trash2, Copy } from "lucide-react";
+
+type ApiKeyScope = "status:read" | "console:write" | "control:movement" | "server:power";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+}
+
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: "status:read", label: "Read status" },
+  { value: "console:write", label: "Send console commands" },
+  { value: "control:movement", label: "Control movement" },
+  { value: "server:power", label: "Start/stop server" },
+];
+
+// Admin-only card for API keys used by scripts (Authorization: Bearer <key>)
+export default function ApiKeyManagement() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["status:read"]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data: apiKeys = [] } = useQuery<ApiKey[]>({
+    queryKey: ['/api/auth/keys'],
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/keys', {
+      body: JSON.stringify({
+        name,
+        scopes,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined,
+      }),
+    }),
+    onSuccess: (result: { key: string; apiKey: ApiKey }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/keys'] });
+      setCreatedKey(result.key);
+      setName("");
+      setExpiresAt("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to Create API Key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: (keyId: string) => apiRequest(`/api/auth/keys/${keyId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/auth/keys'] }),
+    onError: (error: Error) => {
+      toast({ title: "Failed to Revoke API Key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({ title: "Copied", description: "API key copied to clipboard" });
+  };
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+        <KeyRound className="w-5 h-5 text-primary" />
+        API Keys
+      </h3>
+
+      {createdKey && (
+        <div className="mb-4 p-3 rounded-lg border border-success/20 bg-success/10">
+          <p className="text-sm text-foreground mb-2">Copy this key now - it won't be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={createdKey} className="font-mono text-xs" />
+            <Button size="icon" variant="outline" onClick={copyKey} title="Copy key">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 mb-6">
+        {apiKeys.length === 0 && (
+          <p className="text-sm text-muted-foreground">No API keys yet</p>
+        )}
+        {apiKeys.map((apiKey) => {
+          const isExpired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() < Date.now();
+          return (
+            <div key={apiKey.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">
+                  {apiKey.name} <span className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</span>
+                </p>
+                <p className="text-xs text-muted-foreground">{apiKey.scopes.join(", ")}</p>
+                <p className={isExpired ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                  {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "Never used"}
+                  {" · "}
+                  {apiKey.expiresAt
+                    ? `${isExpired ? "Expired" : "Expires"} ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                    : "No expiry"}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={() => revokeKeyMutation.mutate(apiKey.id)}
+                disabled={revokeKeyMutation.isPending}
+                title="Revoke key"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <Input placeholder="Key name (e.g. home-assistant)" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} title="Expiry (optional)" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {SCOPES.map((scope) => (
+            <div key={scope.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`scope-${scope.value}`}
+                checked={scopes.includes(scope.value)}
+                onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+              />
+              <Label htmlFor={`scope-${scope.value}`} className="text-sm">
+                {scope.label} <span className="font-mono text-xs text-muted-foreground">{scope.value}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+        <Button
+          onClick={() => createKeyMutation.mutate()}
+          disabled={!name || scopes.length === 0 || createKeyMutation.isPending}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Create API Key
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { useCallback, ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthContext, AuthUser, UserRole } from "@/hooks/useAuth";
+
+interface AuthStatus {
+  needsSetup: boolean;
+  user: AuthUser | null;
+}
+
+// Mirrors the server's role ordering: viewer < operator < admin
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery<AuthStatus>({
+    queryKey: ['/api/auth/status'],
+    staleTime: 60 * 1000,
+  });
+
+  const user = data?.user || null;
+
+  // Session cookie is set by the server; drop cached data from the previous user
+  const refresh = useCallback(async () => {
+    queryClient.clear();
+    await queryClient.invalidateQueries({ queryKey: ['/api/auth/status'] });
+  }, [queryClient]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    await apiRequest('/api/auth/login', { body: JSON.stringify({ username, password }) });
+    await refresh();
+  }, [refresh]);
+
+  const setup = useCallback(async (username: string, password: string) => {
+    await apiRequest('/api/auth/setup', { body: JSON.stringify({ username, password }) });
+    await refresh();
+  }, [refresh]);
+
+  const logout = useCallback(async () => {
+    await apiRequest('/api/auth/logout');
+    await refresh();
+  }, [refresh]);
+
+  const hasRole = useCallback(
+    (role: UserRole) => !!user && ROLE_RANK[user.role] >= ROLE_RANK[role],
+    [user]
+  );
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      needsSetup: data?.needsSetup || false,
+      isLoading,
+      login,
+      setup,
+      logout,
+      hasRole,
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Hash, Trash2 } from "lucide-react";
+
+interface ChannelBinding {
+  id: string;
+  guildId: string;
+  guildName: string | null;
+  channelId: string;
+  channelName: string | null;
+  purpose: "status" | "events" | "chat" | "alerts";
+  events: string[];
+  botId?: string;
+  createdBy?: string;
+}
+
+// Channels bound with /setup and /log in every guild; admins can remove them
+export default function ChannelBindings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isAdmin = useAuth().hasRole('admin');
+
+  const { data: bindings = [] } = useQuery<ChannelBinding[]>({
+    queryKey: ['/api/discord/channels'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (bindingId: string) => apiRequest(`/api/discord/channels/${bindingId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/discord/channels'] }),
+    onError: (error: Error) => {
+      toast({ title: "Failed to Remove Binding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Hash className="w-5 h-5 text-primary" />
+        Bound Channels
+      </h3>
+      {bindings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No channels bound yet. Run <code className="font-mono text-primary">/setup</code> or <code className="font-mono text-primary">/log</code> in a Discord channel.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {bindings.map((binding) => (
+            <div key={binding.id} className="flex items-center justify-between gap-3 p-3 bg-muted/30 rounded-lg">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">#{binding.channelName || binding.channelId}</span>
+                  <Badge variant="outline" className="capitalize">{binding.purpose}</Badge>
+                  {binding.botId && <Badge variant="outline">{binding.botId}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {binding.guildName || binding.guildId} · {binding.events.length > 0 ? binding.events.join(", ") : "default events"}
+                </p>
+              </div>
+              {isAdmin && (
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate(binding.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Remove binding"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
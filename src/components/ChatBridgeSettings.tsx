@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { BotSummary, DEFAULT_BOT_ID } from "@/hooks/useSelectedBot";
+import { ArrowLeftRight } from "lucide-react";
+
+export interface ChatBridgeConfig {
+  toDiscord: boolean;
+  toMinecraft: boolean;
+  useWebhook: boolean;
+  botId: string;
+  minecraftPrefix: string;
+  minecraftFormat: string;
+  discordFormat: string;
+}
+
+const defaultBridge: ChatBridgeConfig = {
+  toDiscord: true,
+  toMinecraft: false,
+  useWebhook: true,
+  botId: DEFAULT_BOT_ID,
+  minecraftPrefix: "[Discord]",
+  minecraftFormat: "{prefix} <{user}> {message}",
+  discordFormat: "💬 **{player}**: {message}",
+};
+
+type TextField = "minecraftPrefix" | "minecraftFormat" | "discordFormat";
+
+// Two-way Minecraft/Discord chat relay through the channels bound for chat (admins can edit)
+export default function ChatBridgeSettings({ bridge, hasToken }: { bridge?: ChatBridgeConfig; hasToken: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isAdmin = useAuth().hasRole('admin');
+  const current = { ...defaultBridge, ...bridge };
+  const [drafts, setDrafts] = useState<Pick<ChatBridgeConfig, TextField>>(current);
+
+  const { data: bots = [] } = useQuery<BotSummary[]>({
+    queryKey: ['/api/bots'],
+  });
+
+  // Text fields are edited locally and saved on blur
+  useEffect(() => {
+    setDrafts({
+      minecraftPrefix: current.minecraftPrefix,
+      minecraftFormat: current.minecraftFormat,
+      discordFormat: current.discordFormat,
+    });
+  }, [current.minecraftPrefix, current.minecraftFormat, current.discordFormat]);
+
+  const updateMutation = useMutation({
+    mutationFn: (chatBridge: Partial<ChatBridgeConfig>) => apiRequest('/api/discord/config', {
+      method: 'PATCH',
+      body: JSON.stringify({ chatBridge }),
+    }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/discord/config'] }),
+    onError: (error: Error) => {
+      toast({ title: "Failed to Update Chat Bridge", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disabled = !isAdmin || !hasToken || updateMutation.isPending;
+
+  const saveDraft = (field: TextField) => {
+    if (drafts[field] !== current[field]) {
+      updateMutation.mutate({ [field]: drafts[field] });
+    }
+  };
+
+  const switches: { field: "toDiscord" | "toMinecraft" | "useWebhook"; label: string; description: string }[] = [
+    { field: "toDiscord", label: "Minecraft → Discord", description: "Post in-game chat to channels bound with /log or /setup purpose:chat" },
+    { field: "toMinecraft", label: "Discord → Minecraft", description: "Say messages from chat channels in game" },
+    { field: "useWebhook", label: "Post as players", description: "Use a webhook with the player's name and skin (needs Manage Webhooks)" },
+  ];
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+        <ArrowLeftRight className="w-5 h-5 text-primary" />
+        Chat Bridge
+      </h3>
+      {!hasToken && (
+        <p className="text-sm text-muted-foreground mb-4">Connect the Discord bot once before configuring the bridge.</p>
+      )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {switches.map(({ field, label, description }) => (
+            <div key={field} className="flex items-center justify-between">
+              <div>
+                <Label htmlFor={`bridge-${field}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`bridge-${field}`}
+                checked={current[field]}
+                onCheckedChange={(checked) => updateMutation.mutate({ [field]: checked })}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          <div>
+            <Label>Bridged bot</Label>
+            <p className="text-xs text-muted-foreground">For chat channels bound without a bot</p>
+            <Select value={current.botId} onValueChange={(botId) => updateMutation.mutate({ botId })} disabled={disabled}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {bots.map((bot) => (
+                  <SelectItem key={bot.id} value={bot.id}>{bot.name || bot.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="bridge-prefix">In-game prefix</Label>
+            <Input
+              id="bridge-prefix"
+              className="mt-1"
+              value={drafts.minecraftPrefix}
+              maxLength={32}
+              onChange={(e) => setDrafts(prev => ({ ...prev, minecraftPrefix: e.target.value }))}
+              onBlur={() => saveDraft("minecraftPrefix")}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bridge-minecraft-format">In-game format</Label>
+            <Input
+              id="bridge-minecraft-format"
+              className="mt-1 font-mono"
+              value={drafts.minecraftFormat}
+              maxLength={100}
+              onChange={(e) => setDrafts(prev => ({ ...prev, minecraftFormat: e.target.value }))}
+              onBlur={() => saveDraft("minecraftFormat")}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">Placeholders: {"{prefix}"}, {"{user}"}, {"{message}"}</p>
+          </div>
+          <div>
+            <Label htmlFor="bridge-discord-format">Discord format</Label>
+            <Input
+              id="bridge-discord-format"
+              className="mt-1 font-mono"
+              value={drafts.discordFormat}
+              maxLength={200}
+              onChange={(e) => setDrafts(prev => ({ ...prev, discordFormat: e.target.value }))}
+              onBlur={() => saveDraft("discordFormat")}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Used when not posting as players. Placeholders: {"{player}"}, {"{message}"}, {"{bot}"}
+            </p>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
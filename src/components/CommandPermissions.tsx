@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Lock, Trash2 } from "lucide-react";
+
+interface CommandPermission {
+  id: string;
+  guildId: string;
+  command: string;
+  roleIds: string[];
+  userIds: string[];
+  channelIds: string[];
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+interface GuildOption {
+  id: string;
+  name: string;
+  roles: { id: string; name: string }[];
+  channels: { id: string; name: string }[];
+}
+
+interface PermissionsResponse {
+  rules: CommandPermission[];
+  commands: string[];
+  restricted: string[];
+  guilds: GuildOption[];
+}
+
+interface Draft {
+  roleIds: string[];
+  channelIds: string[];
+  userIds: string;
+}
+
+const emptyDraft: Draft = { roleIds: [], channelIds: [], userIds: "" };
+
+const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+// Per-guild rules for who may run each slash command (same rules as /permissions in Discord)
+export default function CommandPermissions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isAdmin = useAuth().hasRole('admin');
+  const [guildId, setGuildId] = useState("");
+  const [command, setCommand] = useState("");
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const { data } = useQuery<PermissionsResponse>({
+    queryKey: ['/api/discord/permissions'],
+  });
+
+  const guilds = data?.guilds ?? [];
+  const guild = guilds.find(g => g.id === guildId);
+  const rules = (data?.rules ?? []).filter(rule => rule.guildId === guildId);
+
+  // Start on the first server, and move off one the bot has left
+  useEffect(() => {
+    const servers = data?.guilds ?? [];
+    if (servers.length > 0 && !servers.some(g => g.id === guildId)) setGuildId(servers[0].id);
+  }, [data, guildId]);
+
+  // Picking a command loads its rule into the editor
+  const editRule = (name: string) => {
+    const rule = rules.find(r => r.command === name);
+    setCommand(name);
+    setDraft(rule ? { roleIds: rule.roleIds, channelIds: rule.channelIds, userIds: rule.userIds.join(", ") } : emptyDraft);
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/discord/permissions'] });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('/api/discord/permissions', {
+      method: 'PUT',
+      body: JSON.stringify({
+        guildId,
+        command,
+        roleIds: draft.roleIds,
+        channelIds: draft.channelIds,
+        userIds: draft.userIds.split(",").map(id => id.trim()).filter(Boolean),
+      }),
+    }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Permissions Saved", description: `Rule for /${command} updated` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to Save Permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => apiRequest(`/api/discord/permissions/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to Remove Rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const roleName = (id: string) => guild?.roles.find(role => role.id === id)?.name ?? id;
+  const channelName = (id: string) => `#${guild?.channels.find(channel => channel.id === id)?.name ?? id}`;
+
+  const describe = (rule: CommandPermission) => [
+    rule.roleIds.length > 0 && `roles: ${rule.roleIds.map(roleName).join(", ")}`,
+    rule.userIds.length > 0 && `users: ${rule.userIds.join(", ")}`,
+    rule.channelIds.length > 0 && `channels: ${rule.channelIds.map(channelName).join(", ")}`,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-2 flex items-center gap-2">
+        <Lock className="w-5 h-5 text-primary" />
+        Command Permissions
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Members with Manage Server can always use every command. Without a rule,{" "}
+        {(data?.restricted ?? []).map(name => `/${name}`).join(", ")} need Manage Server and the rest are open to everyone.
+        A rule that only picks channels keeps that default; allow @everyone to open a command to all members there.
+      </p>
+
+      {guilds.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Connect the Discord bot to manage command permissions.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div>
+              <Label>Server</Label>
+              <Select value={guildId} onValueChange={(id) => { setGuildId(id); setCommand(""); setDraft(emptyDraft); }}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {guilds.map((g) => (
+                    <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rules in this server.</p>
+            ) : (
+              rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between gap-3 p-3 bg-muted/30 rounded-lg">
+                  <button type="button" className="min-w-0 text-left" onClick={() => editRule(rule.command)}>
+                    <Badge variant="outline" className="font-mono">/{rule.command}</Badge>
+                    <p className="text-xs text-muted-foreground truncate mt-1">{describe(rule)}</p>
+                  </button>
+                  {isAdmin && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {isAdmin && guild && (
+            <div className="space-y-3">
+              <div>
+                <Label>Command</Label>
+                <Select value={command} onValueChange={editRule}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Pick a command" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(data?.commands ?? []).map((name) => (
+                      <SelectItem key={name} value={name}>/{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {command && (
+                <>
+                  <div>
+                    <Label>Allowed roles</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {guild.roles.map((role) => (
+                        <Badge
+                          key={role.id}
+                          variant={draft.roleIds.includes(role.id) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => setDraft(prev => ({ ...prev, roleIds: toggle(prev.roleIds, role.id) }))}
+                        >
+                          {role.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Allowed channels</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {guild.channels.map((channel) => (
+                        <Badge
+                          key={channel.id}
+                          variant={draft.channelIds.includes(channel.id) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => setDraft(prev => ({ ...prev, channelIds: toggle(prev.channelIds, channel.id) }))}
+                        >
+                          #{channel.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="permission-users">Allowed user IDs</Label>
+                    <Input
+                      id="permission-users"
+                      className="mt-1 font-mono"
+                      placeholder="Comma-separated Discord user IDs"
+                      value={draft.userIds}
+                      onChange={(e) => setDraft(prev => ({ ...prev, userIds: e.target.value }))}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Members need one of the roles or user IDs, and must use the command in one of the channels. Empty lists don't restrict; saving with everything empty removes the rule.
+                  </p>
+                  <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                    {saveMutation.isPending ? "Saving..." : `Save rule for /${command}`}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Pause, Play } from "lucide-react";
+
+interface LiveLogToggleProps {
+  paused: boolean;
+  connected: boolean;
+  onPausedChange: (paused: boolean) => void;
+}
+
+// Live/paused indicator with a pause/resume button for pages using useLogStream
+export default function LiveLogToggle({ paused, connected, onPausedChange }: LiveLogToggleProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Badge
+        variant="outline"
+        className={!paused && connected
+          ? "bg-success/10 text-success border-success/20"
+          : "bg-muted/10 text-muted-foreground border-border"}
+      >
+        {paused ? "Paused" : connected ? "Live" : "Reconnecting..."}
+      </Badge>
+      <Button variant="outline" onClick={() => onPausedChange(!paused)}>
+        {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+        {paused ? "Resume" : "Pause"}
+      </Button>
+    </div>
+  );
+}
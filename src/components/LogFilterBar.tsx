@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { LOG_LEVELS, LogLevel } from "@/hooks/useLogs";
+import { Search } from "lucide-react";
+
+interface LogFilterBarProps {
+  search: string;
+  onSearchChange: (search: string) => void;
+  levels: LogLevel[];
+  onLevelsChange: (levels: LogLevel[]) => void;
+  levelCounts: Record<LogLevel, number>;
+  from: string;
+  onFromChange: (from: string) => void;
+  to: string;
+  onToChange: (to: string) => void;
+  placeholder?: string;
+}
+
+// Search box, level toggles (with counts) and time range shared by the log pages
+export default function LogFilterBar({
+  search,
+  onSearchChange,
+  levels,
+  onLevelsChange,
+  levelCounts,
+  from,
+  onFromChange,
+  to,
+  onToChange,
+  placeholder = "Search messages and details...",
+}: LogFilterBarProps) {
+  const toggleLevel = (level: LogLevel) => {
+    onLevelsChange(levels.includes(level) ? levels.filter(l => l !== level) : [...levels, level]);
+  };
+
+  return (
+    <Card className="glass-effect p-4 space-y-4">
+      <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
+        <div className="relative flex-1 w-full">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder={placeholder}
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <span className="text-sm text-muted-foreground px-2 py-1">Level:</span>
+          <Button
+            variant={levels.length === 0 ? "default" : "outline"}
+            size="sm"
+            onClick={() => onLevelsChange([])}
+          >
+            All
+          </Button>
+          {LOG_LEVELS.map((level) => (
+            <Button
+              key={level}
+              variant={levels.includes(level) ? "default" : "outline"}
+              size="sm"
+              onClick={() => toggleLevel(level)}
+              className="capitalize"
+            >
+              {level} ({levelCounts[level]})
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <span className="text-sm text-muted-foreground">From</span>
+        <Input type="datetime-local" value={from} onChange={(e) => onFromChange(e.target.value)} className="sm:w-56" />
+        <span className="text-sm text-muted-foreground">To</span>
+        <Input type="datetime-local" value={to} onChange={(e) => onToChange(e.target.value)} className="sm:w-56" />
+        {(from || to) && (
+          <Button variant="ghost" size="sm" onClick={() => { onFromChange(""); onToChange(""); }}>
+            Clear range
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
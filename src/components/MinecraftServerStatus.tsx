@@ -0,0 +1,87 @@
+import { useServerStatus } from "@/hooks/useServerStatus";
+import { Loader2, Signal, Users, WifiOff } from "lucide-react";
+
+const MAX_SAMPLE = 12;
+
+// The selected bot's server as the multiplayer menu shows it: icon, MOTD, version, players, latency
+export default function MinecraftServerStatus() {
+  const { data: status, isLoading } = useServerStatus();
+  const server = status?.server;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Pinging server...
+      </div>
+    );
+  }
+
+  if (!status?.online || !server) {
+    return (
+      <div className="flex items-start gap-3" data-testid="server-status-offline">
+        <div className="w-16 h-16 rounded-md bg-muted flex items-center justify-center shrink-0">
+          <WifiOff className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div className="min-w-0">
+          <p className="font-medium text-foreground">{status?.address || "No server configured"}</p>
+          <p className="text-sm text-error">Can't reach server</p>
+          {status?.error && <p className="text-xs text-muted-foreground break-words">{status.error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="server-status-online">
+      <div className="flex items-start gap-3">
+        {server.favicon ? (
+          <img src={server.favicon} alt="" className="w-16 h-16 rounded-md shrink-0 [image-rendering:pixelated]" />
+        ) : (
+          <div className="w-16 h-16 rounded-md bg-muted shrink-0" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-medium text-foreground truncate">{status.address}</p>
+            <span className="flex items-center gap-1 text-sm text-muted-foreground shrink-0">
+              <Signal className="w-4 h-4 text-success" />
+              {server.latency !== null ? `${server.latency}ms` : "N/A"}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground whitespace-pre-line break-words">{server.motd || "A Minecraft Server"}</p>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Version</span>
+          <span className="font-medium text-foreground">{server.version}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Protocol</span>
+          <span className="font-medium text-foreground">
+            {server.protocol ?? "N/A"}{server.legacy ? " (legacy)" : ""}
+          </span>
+        </div>
+        <div className="flex justify-between col-span-2">
+          <span className="text-muted-foreground flex items-center gap-1">
+            <Users className="w-4 h-4" />
+            Players
+          </span>
+          <span className="font-medium text-foreground">{server.playersOnline}/{server.playersMax}</span>
+        </div>
+      </div>
+      {server.sample.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {server.sample.slice(0, MAX_SAMPLE).map(name => (
+            <span key={name} className="px-2 py-0.5 rounded bg-muted text-xs text-foreground">{name}</span>
+          ))}
+          {server.playersOnline > Math.min(server.sample.length, MAX_SAMPLE) && (
+            <span className="px-2 py-0.5 text-xs text-muted-foreground">
+              +{server.playersOnline - Math.min(server.sample.length, MAX_SAMPLE)} more
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
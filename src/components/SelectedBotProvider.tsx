@@ -0,0 +1,27 @@
+import { useCallback, useState, ReactNode } from "react";
+import { DEFAULT_BOT_ID, SELECTED_BOT_KEY, SelectedBotContext } from "@/hooks/useSelectedBot";
+
+export default function SelectedBotProvider({ children }: { children: ReactNode }) {
+  const [botId, setBotIdState] = useState<string>(() => {
+    try {
+      return localStorage.getItem(SELECTED_BOT_KEY) || DEFAULT_BOT_ID;
+    } catch {
+      return DEFAULT_BOT_ID;
+    }
+  });
+
+  const setBotId = useCallback((id: string) => {
+    try {
+      localStorage.setItem(SELECTED_BOT_KEY, id);
+    } catch (error) {
+      console.error('Failed to remember selected bot:', error);
+    }
+    setBotIdState(id);
+  }, []);
+
+  return (
+    <SelectedBotContext.Provider value={{ botId, setBotId }}>
+      {children}
+    </SelectedBotContext.Provider>
+  );
+}
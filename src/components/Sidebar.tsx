@@ -1,6 +1,14 @@
+import { useEffect } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { BRAND } from "@/lib/constants";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BotSummary, DEFAULT_BOT_ID, useSelectedBot } from "@/hooks/useSelectedBot";
+import { useAuth } from "@/hooks/useAuth";
 import { 
   Home, 
   Settings, 
@@ -12,7 +20,10 @@ import {
   Shield,
   HelpCircle,
   Cloud,
-  Eye
+  Eye,
+  Plus,
+  LogOut,
+  ScrollText
 } from "lucide-react";
 
 const navigation = [
@@ -23,6 +34,7 @@ const navigation = [
   { name: "Inventory", href: "/inventory", icon: Package },
   { name: "Discord Logs", href: "/discord-logs", icon: FileText },
   { name: "Minecraft Logs", href: "/minecraft-logs", icon: Activity },
+  { name: "System Logs", href: "/logs", icon: ScrollText },
   { name: "Console", href: "/console", icon: Shield },
   { name: "Bot Control", href: "/bot-view", icon: Eye },
   { name: "Settings", href: "/settings", icon: Settings },
@@ -35,6 +47,45 @@ interface SidebarProps {
 
 export default function Sidebar({ onNavigate }: SidebarProps) {
   const location = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { botId, setBotId } = useSelectedBot();
+  const { user, logout, hasRole } = useAuth();
+
+  const { data: bots = [] } = useQuery<BotSummary[]>({
+    queryKey: ['/api/bots'],
+    refetchInterval: 10000,
+  });
+
+  // Fall back to the default bot if the remembered one was removed
+  useEffect(() => {
+    if (bots.length > 0 && !bots.some(bot => bot.id === botId)) {
+      setBotId(DEFAULT_BOT_ID);
+    }
+  }, [bots, botId, setBotId]);
+
+  const addBotMutation = useMutation({
+    mutationFn: () => apiRequest('/api/bots', {
+      body: JSON.stringify({ name: `Bot ${bots.length + 1}` }),
+    }),
+    onSuccess: (bot: BotSummary) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bots'] });
+      setBotId(bot.id);
+      toast({
+        title: "Bot Added",
+        description: `${bot.name} created - configure it on the Server Config page`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Bot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedBot = bots.find(bot => bot.id === botId);
 
   return (
     <div className="w-64 bg-sidebar border-r border-sidebar-border flex flex-col h-full">
@@ -51,6 +102,36 @@ export default function Sidebar({ onNavigate }: SidebarProps) {
         </div>
       </div>
 
+      {/* Bot switcher */}
+      <div className="p-4 border-b border-sidebar-border">
+        <p className="text-xs font-medium text-muted-foreground mb-2">Active Bot</p>
+        <div className="flex items-center gap-2">
+          <Select value={botId} onValueChange={setBotId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select bot" />
+            </SelectTrigger>
+            <SelectContent>
+              {bots.map((bot) => (
+                <SelectItem key={bot.id} value={bot.id}>
+                  {bot.isConnected ? "🟢" : "⚪"} {bot.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasRole('admin') && (
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => addBotMutation.mutate()}
+              disabled={addBotMutation.isPending}
+              title="Add bot"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-2">
         {navigation.map((item) => {
@@ -77,13 +158,31 @@ export default function Sidebar({ onNavigate }: SidebarProps) {
 
       {/* Status */}
       <div className="p-4 border-t border-sidebar-border">
-        <div className="flex items-center gap-3 p-3 bg-success/10 rounded-lg border border-success/20">
-          <Activity className="w-4 h-4 text-success" />
+        <div className={cn(
+          "flex items-center gap-3 p-3 rounded-lg border",
+          selectedBot?.isConnected ? "bg-success/10 border-success/20" : "bg-muted/50 border-border"
+        )}>
+          <Activity className={cn("w-4 h-4", selectedBot?.isConnected ? "text-success" : "text-muted-foreground")} />
           <div className="flex-1">
-            <p className="text-sm font-medium text-sidebar-foreground">Bot Status</p>
-            <p className="text-xs text-success">Connected</p>
+            <p className="text-sm font-medium text-sidebar-foreground">{selectedBot?.name || "Bot Status"}</p>
+            <p className={cn("text-xs", selectedBot?.isConnected ? "text-success" : "text-muted-foreground")}>
+              {selectedBot?.isConnected ? "Connected" : "Disconnected"}
+            </p>
           </div>
         </div>
+
+        {/* Signed-in user */}
+        {user && (
+          <div className="flex items-center gap-2 mt-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-sidebar-foreground truncate">{user.username}</p>
+              <p className="text-xs text-muted-foreground capitalize">{user.role}</p>
+            </div>
+            <Button size="icon" variant="ghost" onClick={() => logout()} title="Sign out">
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
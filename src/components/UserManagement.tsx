@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AuthUser, UserRole, useAuth } from "@/hooks/useAuth";
+import { Users, UserPlus, Trash2 } from "lucide-react";
+
+const ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+// Admin-only card for dashboard accounts and their roles
+export default function UserManagement() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/auth/users'],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/users', {
+      body: JSON.stringify({ username, password, role }),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/users'] });
+      toast({ title: "User Created", description: `${username} can now sign in as ${role}` });
+      setUsername("");
+      setPassword("");
+    },
+    onError: onError("Failed to Create User"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: UserRole }) => apiRequest(`/api/auth/users/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/auth/users'] }),
+    onError: onError("Failed to Change Role"),
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest(`/api/auth/users/${userId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/auth/users'] }),
+    onError: onError("Failed to Delete User"),
+  });
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Users className="w-5 h-5 text-primary" />
+        Users &amp; Roles
+      </h3>
+
+      <div className="space-y-2 mb-6">
+        {users.map((user) => (
+          <div key={user.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{user.username}</p>
+              <p className="text-xs text-muted-foreground">
+                {user.lastLogin ? `Last login ${new Date(user.lastLogin).toLocaleString()}` : "Never signed in"}
+              </p>
+            </div>
+            <Select
+              value={user.role}
+              onValueChange={(value) => updateRoleMutation.mutate({ userId: user.id, role: value as UserRole })}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((r) => (
+                  <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => deleteUserMutation.mutate(user.id)}
+              disabled={user.id === currentUser?.id || deleteUserMutation.isPending}
+              title="Delete user"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <Input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+        <Input
+          type="password"
+          placeholder="Password (8+ characters)"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLES.map((r) => (
+              <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => createUserMutation.mutate()}
+          disabled={!username || !password || createUserMutation.isPending}
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add User
+        </Button>
+      </div>
+    </Card>
+  );
+}
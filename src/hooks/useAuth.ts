@@ -0,0 +1,32 @@
+import { createContext, useContext } from "react";
+
+export type UserRole = "viewer" | "operator" | "admin";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  lastLogin?: string;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  needsSetup: boolean;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  setup: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  hasRole: (role: UserRole) => boolean;
+}
+
+// Provided by AuthProvider
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+}
@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSelectedBot } from './useSelectedBot';
 
 interface InventoryItem {
   id: string;
@@ -9,10 +10,12 @@ interface InventoryItem {
 }
 
 export function useInventory() {
+  const { botId, apiPath } = useSelectedBot();
+
   return useQuery({
-    queryKey: ['inventory'],
+    queryKey: ['inventory', botId],
     queryFn: async (): Promise<InventoryItem[]> => {
-      const response = await fetch('/api/inventory');
+      const response = await fetch(apiPath('/inventory'));
       if (!response.ok) {
         throw new Error('Failed to fetch inventory');
       }
@@ -25,17 +28,18 @@ export function useInventory() {
 
 export function useRefreshInventory() {
   const queryClient = useQueryClient();
+  const { botId, apiPath } = useSelectedBot();
   
   return useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/inventory');
+      const response = await fetch(apiPath('/inventory'));
       if (!response.ok) {
         throw new Error('Failed to refresh inventory');
       }
       return response.json();
     },
     onSuccess: (data) => {
-      queryClient.setQueryData(['inventory'], data);
+      queryClient.setQueryData(['inventory', botId], data);
     },
   });
 }
\ No newline at end of file
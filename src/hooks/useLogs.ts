@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { InfiniteData, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import io from 'socket.io-client';
+import { apiRequest } from '@/lib/queryClient';
+
+export type LogType = 'discord' | 'minecraft' | 'system' | 'error';
+export type LogLevel = 'info' | 'warn' | 'error' | 'debug';
+
+export interface LogEntry {
+  id: string;
+  type: LogType;
+  level: LogLevel;
+  message: string;
+  timestamp: string;
+  details?: string;
+  botId?: string;
+}
+
+export interface LogPage {
+  logs: LogEntry[];
+  nextCursor: string | null;
+  total: number;
+  levelCounts: Record<LogLevel, number>;
+}
+
+export interface LogFilters {
+  type?: LogType;
+  levels?: LogLevel[];
+  search?: string;
+  from?: string;
+  to?: string;
+  botId?: string;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error', 'debug'];
+
+// Query parameters shared by GET /api/logs and the /logs socket subscription
+function logParams(filters: LogFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.type) params.type = filters.type;
+  if (filters.levels?.length) params.level = filters.levels.join(',');
+  if (filters.search?.trim()) params.search = filters.search.trim();
+  if (filters.from) params.from = new Date(filters.from).toISOString();
+  if (filters.to) params.to = new Date(filters.to).toISOString();
+  if (filters.botId) params.botId = filters.botId;
+  return params;
+}
+
+export function buildLogQuery(filters: LogFilters, cursor?: string | null, limit = 50): string {
+  const params = new URLSearchParams({ limit: String(limit), ...logParams(filters) });
+  if (cursor) params.set('cursor', cursor);
+  return `/api/logs?${params.toString()}`;
+}
+
+// Server-side log search, newest first; fetchNextPage loads older entries
+export function useLogSearch(filters: LogFilters, options: { refetchInterval?: number; limit?: number } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: ['/api/logs', filters],
+    queryFn: ({ pageParam }) => apiRequest(buildLogQuery(filters, pageParam, options.limit), { method: 'GET' }) as Promise<LogPage>,
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    refetchInterval: options.refetchInterval,
+  });
+
+  const firstPage = query.data?.pages[0];
+  return {
+    ...query,
+    logs: query.data?.pages.flatMap(page => page.logs) ?? [],
+    total: firstPage?.total ?? 0,
+    levelCounts: firstPage?.levelCounts ?? { info: 0, warn: 0, error: 0, debug: 0 },
+  };
+}
+
+// Most backlog a reconnecting page will merge; beyond that it reloads from scratch
+const STREAM_BACKLOG_LIMIT = 500;
+
+// Put new entries in front of the first page of a useLogSearch result, skipping ones already there
+function prependLogs(data: InfiniteData<LogPage> | undefined, entries: LogEntry[]): InfiniteData<LogPage> | undefined {
+  if (!data?.pages.length) return data;
+  const [first, ...rest] = data.pages;
+  const known = new Set(first.logs.map(log => log.id));
+  const fresh = entries.filter(entry => !known.has(entry.id));
+  if (!fresh.length) return data;
+
+  const levelCounts = { ...first.levelCounts };
+  fresh.forEach(entry => levelCounts[entry.level]++);
+  return {
+    ...data,
+    pages: [{ ...first, logs: [...fresh, ...first.logs], total: first.total + fresh.length, levelCounts }, ...rest],
+  };
+}
+
+// Appends entries matching the filters to useLogSearch(filters) as they are logged.
+// Pausing drops the subscription; resuming or reconnecting fetches what was missed.
+export function useLogStream(filters: LogFilters, { paused = false }: { paused?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    if (paused) return;
+    const streamFilters: LogFilters = JSON.parse(filtersKey);
+    const queryKey = ['/api/logs', streamFilters];
+    const socket = io('/logs', {
+      path: '/socket.io',
+      transports: ['websocket', 'polling'],
+    });
+
+    const subscribe = () => {
+      const newest = queryClient.getQueryData<InfiniteData<LogPage>>(queryKey)?.pages[0]?.logs[0];
+      const params = newest
+        ? { ...logParams(streamFilters), since: newest.id, limit: String(STREAM_BACKLOG_LIMIT) }
+        : logParams(streamFilters);
+
+      socket.emit('logs_subscribe', params, (reply: { backlog?: LogPage; error?: string }) => {
+        if (!reply?.backlog) return;
+        if (reply.backlog.nextCursor) {
+          // Missed more than one backlog page: start over rather than leave a gap
+          queryClient.invalidateQueries({ queryKey });
+        } else {
+          queryClient.setQueryData<InfiniteData<LogPage>>(queryKey, data => prependLogs(data, reply.backlog!.logs));
+        }
+      });
+    };
+
+    socket.on('connect', () => {
+      setConnected(true);
+      subscribe();
+    });
+    socket.on('disconnect', () => setConnected(false));
+    socket.on('log_entry', (entry: LogEntry) => {
+      queryClient.setQueryData<InfiniteData<LogPage>>(queryKey, data => prependLogs(data, [entry]));
+    });
+
+    return () => {
+      socket.disconnect();
+      setConnected(false);
+    };
+  }, [filtersKey, paused, queryClient]);
+
+  return { connected };
+}
+
+// Ref for a sentinel element at the end of a list; loads the next page while it is in view
+export function useLoadMoreRef(hasNextPage: boolean, isFetchingNextPage: boolean, fetchNextPage: () => void) {
+  const [node, setNode] = useState<HTMLElement | null>(null);
+
+  // Re-observing after each page fires again if the sentinel is still visible
+  useEffect(() => {
+    if (!node || !hasNextPage || isFetchingNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) fetchNextPage();
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return setNode;
+}
+
+export function useDebouncedValue<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+  return debounced;
+}
@@ -0,0 +1,41 @@
+import { createContext, useCallback, useContext } from "react";
+
+// Matches DEFAULT_BOT_ID on the server - the bot legacy /api routes act on
+export const DEFAULT_BOT_ID = "minecraft_server";
+
+// localStorage key remembering the selected bot between visits
+export const SELECTED_BOT_KEY = "selected_bot_id";
+
+export interface BotSummary {
+  id: string;
+  name: string;
+  serverIP: string;
+  serverPort: string;
+  username: string;
+  isConnected: boolean;
+  controlLocked: boolean;
+  isDefault: boolean;
+}
+
+interface SelectedBotContextValue {
+  botId: string;
+  setBotId: (botId: string) => void;
+}
+
+// Provided by SelectedBotProvider
+export const SelectedBotContext = createContext<SelectedBotContextValue>({
+  botId: DEFAULT_BOT_ID,
+  setBotId: () => {},
+});
+
+// Bot-scoped API path, e.g. botApiPath("alt-1", "/minecraft/config")
+export function botApiPath(botId: string, path: string) {
+  return `/api/bots/${encodeURIComponent(botId)}${path}`;
+}
+
+export function useSelectedBot() {
+  const { botId, setBotId } = useContext(SelectedBotContext);
+  const apiPath = useCallback((path: string) => botApiPath(botId, path), [botId]);
+
+  return { botId, setBotId, apiPath };
+}
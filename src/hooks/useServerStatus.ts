@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSelectedBot } from './useSelectedBot';
+
+export interface ServerPingResult {
+  motd: string;
+  version: string;
+  protocol: number | null;
+  latency: number | null;
+  playersOnline: number;
+  playersMax: number;
+  sample: string[];
+  favicon: string | null;
+  legacy: boolean;
+}
+
+// Version the bot would join as with version "auto"; null when none speaks the server's protocol
+export interface VersionMatch {
+  protocol: number | null;
+  version: string | null;
+  tested: boolean;
+}
+
+export interface ServerStatus {
+  online: boolean;
+  address: string | null;
+  error: string | null;
+  server: ServerPingResult | null;
+  match: VersionMatch | null;
+  supportedVersions: string; // "1.8.8 - 1.21.4"
+}
+
+// Server List Ping of the selected bot's server
+export function useServerStatus() {
+  const { apiPath } = useSelectedBot();
+
+  return useQuery<ServerStatus>({
+    queryKey: [apiPath('/minecraft/status')],
+    staleTime: 10 * 1000, // 10 seconds
+    refetchInterval: 30 * 1000, // Ping again every 30 seconds
+  });
+}
@@ -39,7 +39,8 @@ const defaultFetcher = async (url: string, options?: RequestInit) => {
   });
 
   if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    // Keep the status so retry logic and callers can tell 401/403 apart
+    throw Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), { status: response.status });
   }
 
   return response.json();
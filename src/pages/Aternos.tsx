@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import Layout from "@/components/Layout";
 import { Card } from "@/components/ui/card";
@@ -7,15 +7,22 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Eye, EyeOff, Play, Square, RotateCcw, Globe, AlertTriangle, Server, Activity } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
 
 interface AternosSettings {
   username: string;
   password: string;
   serverName: string;
   autoStart: boolean;
+  autoStartTimeout: string;
+  provider: "local" | "mock";
+  localCommand: string;
+  localWorkingDir: string;
+  localStopCommand: string;
 }
 
 const defaultSettings: AternosSettings = {
@@ -23,19 +30,33 @@ const defaultSettings: AternosSettings = {
   password: "",
   serverName: "",
   autoStart: false,
+  autoStartTimeout: "300",
+  provider: "local",
+  localCommand: "",
+  localWorkingDir: "",
+  localStopCommand: "stop",
 };
 
 export default function Aternos() {
   const [showPassword, setShowPassword] = useState(false);
   const [settings, setSettings] = useState<AternosSettings>(defaultSettings);
+  const formLoadedRef = useRef(false);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole('admin');
+  const canOperate = hasRole('operator');
   const queryClient = useQueryClient();
 
   // Get current Aternos config
   const { data: config, isLoading } = useQuery({
     queryKey: ['/api/aternos/config'],
-    queryFn: () => apiRequest('/api/aternos/config'),
     retry: false,
+    refetchInterval: 5000, // Follow live server status
+  });
+
+  const { data: players } = useQuery<{ online: number; max: number; names: string[] }>({
+    queryKey: ['/api/aternos/players'],
+    refetchInterval: 5000,
   });
 
   // Type the config
@@ -43,6 +64,11 @@ export default function Aternos() {
     username?: string;
     serverName?: string;
     autoStart?: boolean;
+    autoStartTimeout?: number;
+    provider?: "local" | "mock";
+    localCommand?: string;
+    localWorkingDir?: string;
+    localStopCommand?: string;
     isLoggedIn?: boolean;
     serverStatus?: string;
     playerCount?: string;
@@ -51,14 +77,20 @@ export default function Aternos() {
     lastLogin?: string;
   } | undefined;
 
-  // Update settings when config loads
+  // Fill the form once when config loads (status polling must not wipe unsaved edits)
   useEffect(() => {
-    if (typedConfig) {
+    if (typedConfig && !formLoadedRef.current) {
+      formLoadedRef.current = true;
       setSettings(prev => ({
         ...prev,
         username: typedConfig.username || "",
         serverName: typedConfig.serverName || "",
         autoStart: typedConfig.autoStart || false,
+        autoStartTimeout: String(typedConfig.autoStartTimeout || 300),
+        provider: typedConfig.provider || "local",
+        localCommand: typedConfig.localCommand || "",
+        localWorkingDir: typedConfig.localWorkingDir || "",
+        localStopCommand: typedConfig.localStopCommand || "stop",
         // Don't auto-fill password for security
       }));
     }
@@ -150,10 +182,10 @@ export default function Aternos() {
   });
 
   const handleSaveConfig = () => {
-    if (!settings.username || !settings.password) {
+    if (settings.provider === "local" && !settings.localCommand.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please provide both username and password",
+        description: "Please provide the command that starts your server",
         variant: "destructive",
       });
       return;
@@ -222,7 +254,63 @@ export default function Aternos() {
 
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="aternos-username">Aternos Username</Label>
+                  <Label>Server Provider</Label>
+                  <Select
+                    value={settings.provider}
+                    onValueChange={(value: "local" | "mock") => setSettings(prev => ({ ...prev, provider: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="local">Local process</SelectItem>
+                      <SelectItem value="mock">Mock (simulated)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Local process launches and supervises the server on this machine
+                  </p>
+                </div>
+
+                {settings.provider === "local" && (
+                  <>
+                    <div>
+                      <Label htmlFor="local-command">Start Command</Label>
+                      <Input
+                        id="local-command"
+                        type="text"
+                        placeholder="java -Xmx2G -jar server.jar nogui"
+                        value={settings.localCommand}
+                        onChange={(e) => setSettings(prev => ({ ...prev, localCommand: e.target.value }))}
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="local-cwd">Working Directory (optional)</Label>
+                      <Input
+                        id="local-cwd"
+                        type="text"
+                        placeholder="/home/minecraft/server"
+                        value={settings.localWorkingDir}
+                        onChange={(e) => setSettings(prev => ({ ...prev, localWorkingDir: e.target.value }))}
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="local-stop">Console Stop Command</Label>
+                      <Input
+                        id="local-stop"
+                        type="text"
+                        placeholder="stop"
+                        value={settings.localStopCommand}
+                        onChange={(e) => setSettings(prev => ({ ...prev, localStopCommand: e.target.value }))}
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label htmlFor="aternos-username">Aternos Username (optional)</Label>
                   <Input
                     id="aternos-username"
                     type="text"
@@ -233,7 +321,7 @@ export default function Aternos() {
                 </div>
 
                 <div>
-                  <Label htmlFor="aternos-password">Aternos Password</Label>
+                  <Label htmlFor="aternos-password">Aternos Password (optional)</Label>
                   <div className="relative">
                     <Input
                       id="aternos-password"
@@ -276,12 +364,28 @@ export default function Aternos() {
                     checked={settings.autoStart}
                     onCheckedChange={(checked) => setSettings(prev => ({ ...prev, autoStart: checked }))}
                   />
-                  <Label htmlFor="auto-start">Auto-start server when bot connects</Label>
+                  <Label htmlFor="auto-start">Auto-start server when a bot finds it offline</Label>
                 </div>
 
+                {settings.autoStart && (
+                  <div>
+                    <Label htmlFor="auto-start-timeout">Startup Timeout (seconds)</Label>
+                    <Input
+                      id="auto-start-timeout"
+                      type="number"
+                      min={30}
+                      value={settings.autoStartTimeout}
+                      onChange={(e) => setSettings(prev => ({ ...prev, autoStartTimeout: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      How long bots wait for the server to come online before giving up
+                    </p>
+                  </div>
+                )}
+
                 <Button 
                   onClick={handleSaveConfig}
-                  disabled={saveConfigMutation.isPending}
+                  disabled={!isAdmin || saveConfigMutation.isPending}
                   className="w-full"
                 >
                   {saveConfigMutation.isPending ? "Saving..." : "Save Configuration"}
@@ -298,7 +402,7 @@ export default function Aternos() {
                 <h3 className="text-lg font-semibold">Server Status</h3>
               </div>
 
-              {typedConfig?.isLoggedIn ? (
+              {typedConfig?.isLoggedIn || typedConfig?.localCommand || typedConfig?.provider === "mock" ? (
                 <div className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div className="p-3 bg-background/50 rounded-lg">
@@ -312,10 +416,19 @@ export default function Aternos() {
                     </div>
 
                     <div className="p-3 bg-background/50 rounded-lg">
-                      <div className="font-medium">{typedConfig.playerCount || '0/20'}</div>
+                      <div className="font-medium">
+                        {players ? `${players.online}/${players.max}` : typedConfig.playerCount || '0/20'}
+                      </div>
                       <p className="text-xs text-muted-foreground">Players Online</p>
                     </div>
 
+                    {players && players.names.length > 0 && (
+                      <div className="p-3 bg-background/50 rounded-lg col-span-2">
+                        <div className="font-medium text-sm">{players.names.join(", ")}</div>
+                        <p className="text-xs text-muted-foreground">Players</p>
+                      </div>
+                    )}
+
                     {typedConfig.serverIP && (
                       <div className="p-3 bg-background/50 rounded-lg col-span-2">
                         <div className="font-medium text-sm">{typedConfig.serverIP}</div>
@@ -327,7 +440,7 @@ export default function Aternos() {
                   <div className="grid grid-cols-3 gap-2">
                     <Button
                       onClick={() => startServerMutation.mutate()}
-                      disabled={startServerMutation.isPending || typedConfig.serverStatus === 'online'}
+                      disabled={!canOperate || startServerMutation.isPending || typedConfig.serverStatus === 'online'}
                       variant="outline"
                       size="sm"
                     >
@@ -337,7 +450,7 @@ export default function Aternos() {
 
                     <Button
                       onClick={() => stopServerMutation.mutate()}
-                      disabled={stopServerMutation.isPending || typedConfig.serverStatus === 'offline'}
+                      disabled={!canOperate || stopServerMutation.isPending || typedConfig.serverStatus === 'offline'}
                       variant="outline"
                       size="sm"
                     >
@@ -347,7 +460,7 @@ export default function Aternos() {
 
                     <Button
                       onClick={() => restartServerMutation.mutate()}
-                      disabled={restartServerMutation.isPending}
+                      disabled={!canOperate || restartServerMutation.isPending}
                       variant="outline"
                       size="sm"
                     >
@@ -360,7 +473,7 @@ export default function Aternos() {
                 <div className="text-center py-8">
                   <Server className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
                   <p className="text-muted-foreground">
-                    Configure your Aternos account to manage your server
+                    Configure a server provider to manage your server
                   </p>
                 </div>
               )}
@@ -380,9 +493,9 @@ export default function Aternos() {
               <div className="space-y-2">
                 <h4 className="font-medium">Discord Commands</h4>
                 <div className="space-y-1 text-sm text-muted-foreground">
-                  <div><code>/startserver</code> - Start the Aternos server</div>
-                  <div><code>/stopserver</code> - Stop the Aternos server</div>
-                  <div><code>/restartserver</code> - Restart the Aternos server</div>
+                  <div><code>/startserver</code> - Start the server</div>
+                  <div><code>/stopserver</code> - Stop the server</div>
+                  <div><code>/restartserver</code> - Restart the server</div>
                   <div><code>/website</code> - Show the bot website</div>
                 </div>
               </div>
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedBot } from "@/hooks/useSelectedBot";
+import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import io from 'socket.io-client';
 import { 
@@ -59,26 +61,29 @@ export default function ControlBot() {
   const [inventory, setInventory] = useState({ inventory: [], hotbar: [] });
   const [selectedHotbarSlot, setSelectedHotbarSlot] = useState(0);
   const { toast } = useToast();
+  const { botId, apiPath } = useSelectedBot();
+  const { user, hasRole } = useAuth();
+  const canControl = hasRole('operator'); // Viewers only watch the radar
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const pressedKeys = useRef(new Set<string>());
 
   // Get bot viewer data
   const { data: viewerData, isLoading } = useQuery({
-    queryKey: ['/api/viewer'],
+    queryKey: [apiPath('/viewer')],
     refetchInterval: 1000, // Refresh every second
     staleTime: 0,
   });
 
   // Get inventory data when showing inventory
   const { data: inventoryData, refetch: refetchInventory } = useQuery({
-    queryKey: ['/api/inventory/refresh'],
+    queryKey: [apiPath('/inventory/refresh')],
     enabled: showInventory && isManualControl,
     refetchInterval: showInventory ? 2000 : false, // Refresh every 2 seconds when open
   });
 
   // Get PvP status
   const { data: pvpData } = useQuery({
-    queryKey: ['/api/pvp/status'],
+    queryKey: [apiPath('/pvp/status')],
     enabled: isManualControl,
     refetchInterval: isManualControl ? 3000 : false,
   });
@@ -91,7 +96,8 @@ export default function ControlBot() {
     if (!socketRef.current) {
       socketRef.current = io({
         path: '/socket.io',
-        transports: ['websocket', 'polling']
+        transports: ['websocket', 'polling'],
+        query: { botId } // Scopes control and world events to the selected bot
       });
 
       const socket = socketRef.current;
@@ -175,13 +181,13 @@ export default function ControlBot() {
         socketRef.current = null;
       }
     };
-  }, []);
+  }, [botId]);
 
   // Control functions
   const requestControl = useCallback(async () => {
     try {
       if (socketRef.current) {
-        socketRef.current.emit('control_request', { clientId: 'web-user' });
+        socketRef.current.emit('control_request', { clientId: user?.username });
       }
     } catch (error) {
       toast({
@@ -190,7 +196,7 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, []);
+  }, [user?.username]);
 
   const releaseControl = useCallback(async () => {
     try {
@@ -226,7 +232,7 @@ export default function ControlBot() {
   // Inventory management functions
   const dropItem = useCallback(async (slot: number, count?: number) => {
     try {
-      const response = await fetch('/api/inventory/drop', {
+      const response = await fetch(apiPath('/inventory/drop'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot, count })
@@ -250,11 +256,11 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, [refetchInventory]);
+  }, [apiPath, refetchInventory]);
 
   const changeHotbarSlot = useCallback(async (slot: number) => {
     try {
-      const response = await fetch('/api/inventory/hotbar', {
+      const response = await fetch(apiPath('/inventory/hotbar'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot })
@@ -271,11 +277,11 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, []);
+  }, [apiPath]);
 
   const equipItem = useCallback(async (slot: number, destination = 'hand') => {
     try {
-      const response = await fetch('/api/inventory/equip', {
+      const response = await fetch(apiPath('/inventory/equip'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot, destination })
@@ -292,11 +298,11 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, [refetchInventory]);
+  }, [apiPath, refetchInventory]);
 
   const useItem = useCallback(async (slot: number) => {
     try {
-      const response = await fetch('/api/inventory/use', {
+      const response = await fetch(apiPath('/inventory/use'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot })
@@ -313,12 +319,12 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, [refetchInventory]);
+  }, [apiPath, refetchInventory]);
 
   // PvP management functions
   const togglePvP = useCallback(async () => {
     try {
-      const endpoint = pvpEnabled ? '/api/pvp/disable' : '/api/pvp/enable';
+      const endpoint = pvpEnabled ? apiPath('/pvp/disable') : apiPath('/pvp/enable');
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' }
@@ -340,11 +346,11 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, [pvpEnabled]);
+  }, [apiPath, pvpEnabled]);
 
   const setPvPTarget = useCallback(async (username: string | null) => {
     try {
-      const response = await fetch('/api/pvp/target', {
+      const response = await fetch(apiPath('/pvp/target'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ username })
@@ -366,7 +372,7 @@ export default function ControlBot() {
         variant: "destructive"
       });
     }
-  }, []);
+  }, [apiPath]);
 
   // Update PvP data when received
   useEffect(() => {
@@ -678,7 +684,7 @@ export default function ControlBot() {
             </Badge>
             {controlLocked && controlOwner && (
               <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400">
-                {controlOwner === 'web-user' ? 'You have control' : `Controlled by ${controlOwner}`}
+                {controlOwner === user?.username ? 'You have control' : `Controlled by ${controlOwner}`}
               </Badge>
             )}
             {isManualControl && (
@@ -696,7 +702,7 @@ export default function ControlBot() {
                 variant="default" 
                 size="sm"
                 onClick={requestControl}
-                disabled={controlLocked && controlOwner !== 'web-user'}
+                disabled={!canControl || (controlLocked && controlOwner !== user?.username)}
               >
                 <Lock className="w-4 h-4 mr-2" />
                 Control Bot
@@ -991,7 +997,7 @@ export default function ControlBot() {
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Controlled by</span>
                     <Badge variant="outline" className="text-xs">
-                      {controlOwner === 'web-user' ? 'You' : controlOwner}
+                      {controlOwner === user?.username ? 'You' : controlOwner}
                     </Badge>
                   </div>
                 )}
@@ -1044,6 +1050,7 @@ export default function ControlBot() {
                       size="sm" 
                       variant={pvpEnabled ? "destructive" : "outline"}
                       onClick={togglePvP}
+                      disabled={!canControl}
                     >
                       {pvpEnabled ? 'Enabled' : 'Disabled'}
                     </Button>
@@ -1130,6 +1137,7 @@ export default function ControlBot() {
                     size="sm" 
                     className="w-full"
                     onClick={togglePvP}
+                    disabled={!canControl}
                   >
                     <Sword className="w-4 h-4 mr-2" />
                     {pvpEnabled ? 'Disable' : 'Enable'} PvP
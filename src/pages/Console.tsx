@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import Layout from "@/components/Layout";
+import LiveLogToggle from "@/components/LiveLogToggle";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,7 +9,10 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedBot } from "@/hooks/useSelectedBot";
+import { useAuth } from "@/hooks/useAuth";
 import { useAutosave } from "@/hooks/useAutosave";
+import { useLogSearch, useLogStream } from "@/hooks/useLogs";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { 
@@ -51,6 +55,8 @@ export default function Console() {
   const [aiSuggestion, setAiSuggestion] = useState(null);
   const [isLoadingAI, setIsLoadingAI] = useState(false);
   const { toast } = useToast();
+  const { botId, apiPath } = useSelectedBot();
+  const canSend = useAuth().hasRole('operator'); // Viewers can read the console but not send
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   
   // Quick Commands slider state
@@ -71,16 +77,16 @@ export default function Console() {
   const commandsPerSlide = 4;
   const totalSlides = Math.ceil(quickCommands.length / commandsPerSlide);
 
-  // Get real logs from backend including chat messages
-  const { data: logs = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/logs?type=minecraft&limit=100'],
-    refetchInterval: 2000, // Auto-refresh every 2 seconds
-    staleTime: 0, // Always fetch fresh data
-  });
+  // Get real logs from backend including chat messages, with new lines streamed in
+  const [paused, setPaused] = useState(false);
+  const logFilters = { type: "minecraft" as const, botId };
+  const { logs: newestFirst, isLoading } = useLogSearch(logFilters, { limit: 100 });
+  const { connected } = useLogStream(logFilters, { paused });
+  const logs = [...newestFirst].reverse(); // API pages are newest first
 
   // Get bot connection status
   const { data: config } = useQuery({
-    queryKey: ['/api/minecraft/config'],
+    queryKey: [apiPath('/minecraft/config')],
     refetchInterval: 3000, // Refresh status every 3 seconds
     staleTime: 0, // Always fetch fresh data
   });
@@ -95,7 +101,7 @@ export default function Console() {
   );
 
   // Convert backend logs to console entries for display
-  const allConsoleEntries: ConsoleEntry[] = [...(logs as any[]).map((log: any, index: number) => {
+  const allConsoleEntries: ConsoleEntry[] = [...logs.map((log, index) => {
     let type = 'info';
     let content = log.message || '';
     
@@ -111,7 +117,7 @@ export default function Console() {
         const message = chatMatch[2];
         return {
           id: index + 1000,
-          timestamp: new Date(log.createdAt).toLocaleTimeString("en-US", { 
+          timestamp: new Date(log.timestamp).toLocaleTimeString("en-US", { 
             hour12: false, 
             hour: "2-digit", 
             minute: "2-digit", 
@@ -132,7 +138,7 @@ export default function Console() {
     
     return {
       id: index + 1000, // Use offset to avoid conflicts
-      timestamp: new Date(log.createdAt).toLocaleTimeString("en-US", { 
+      timestamp: new Date(log.timestamp).toLocaleTimeString("en-US", { 
         hour12: false, 
         hour: "2-digit", 
         minute: "2-digit", 
@@ -240,7 +246,7 @@ export default function Console() {
     if (!aiSuggestion) return;
     
     try {
-      const response = await fetch('/api/ai/execute', {
+      const response = await fetch(apiPath('/ai/execute'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
@@ -300,7 +306,7 @@ export default function Console() {
     
     try {
       // Send raw content to server for classification
-      const response = await fetch('/api/console/send', {
+      const response = await fetch(apiPath('/console/send'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ content: command })
@@ -422,6 +428,7 @@ export default function Console() {
               />
               <span className="text-sm text-muted-foreground">AI Copilot</span>
             </div>
+            <LiveLogToggle paused={paused} connected={connected} onPausedChange={setPaused} />
             <Button variant="outline" onClick={clearConsole}>
               <Trash2 className="w-4 h-4 mr-2" />
               Clear
@@ -495,6 +502,7 @@ export default function Console() {
                     <Button 
                       size="sm" 
                       onClick={executeAISuggestion}
+                      disabled={!canSend}
                       className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
                     >
                       <ThumbsUp className="w-3 h-3 mr-1" />
@@ -520,12 +528,12 @@ export default function Console() {
               <div className="relative flex-1">
                 <Terminal className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Type '/command' for server commands or just 'message' to chat..."
+                  placeholder={canSend ? "Type '/command' for server commands or just 'message' to chat..." : "Viewers can't send commands"}
                   value={command}
                   onChange={(e) => setCommand(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && !isExecuting && executeCommand()}
                   className="pl-10 font-mono transition-all duration-150 ease-out focus-visible:ring-2 focus-visible:ring-primary"
-                  disabled={!isConnected || isExecuting}
+                  disabled={!canSend || !isConnected || isExecuting}
                 />
                 {isExecuting && (
                   <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
@@ -535,7 +543,7 @@ export default function Console() {
               </div>
               <Button 
                 onClick={executeCommand} 
-                disabled={!command.trim() || !isConnected || isExecuting}
+                disabled={!canSend || !command.trim() || !isConnected || isExecuting}
                 className="gradient-gaming glow-primary transition-all duration-150 ease-out hover:scale-105"
               >
                 <Send className="w-4 h-4 mr-2" />
@@ -616,7 +624,7 @@ export default function Console() {
                             size="sm"
                             onClick={() => handleCommandClick(quickCmd.cmd, globalIndex)}
                             className="text-xs h-10 transition-all duration-150 ease-out hover:scale-105"
-                            disabled={!isConnected}
+                            disabled={!canSend || !isConnected}
                             data-cmd={globalIndex}
                           >
                             {quickCmd.label}
@@ -1,8 +1,10 @@
 import Layout from "@/components/Layout";
 import StatCard from "@/components/StatCard";
+import MinecraftServerStatus from "@/components/MinecraftServerStatus";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedBot } from "@/hooks/useSelectedBot";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { BRAND } from "@/lib/constants";
@@ -15,11 +17,13 @@ import {
   Pause, 
   RotateCcw,
   Activity,
-  XCircle
+  XCircle,
+  Globe
 } from "lucide-react";
 
 export default function Dashboard() {
   const { toast } = useToast();
+  const { apiPath } = useSelectedBot();
   const queryClient = useQueryClient();
 
   // Get Discord bot config and status
@@ -31,7 +35,7 @@ export default function Dashboard() {
 
   // Get Minecraft bot config and status
   const { data: minecraftConfig, isLoading: minecraftLoading } = useQuery({
-    queryKey: ['/api/minecraft/config'],
+    queryKey: [apiPath('/minecraft/config')],
     refetchInterval: 3000, // Refresh every 3 seconds for real-time status
     staleTime: 0, // Always fetch fresh data
   });
@@ -195,6 +199,15 @@ export default function Dashboard() {
           />
         </div>
 
+        {/* Minecraft server as the multiplayer menu shows it */}
+        <Card className="glass-effect p-6">
+          <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+            <Globe className="w-5 h-5 text-primary" />
+            Minecraft Server
+          </h3>
+          <MinecraftServerStatus />
+        </Card>
+
         {/* Quick Actions & Logs */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Quick Actions */}
@@ -2,6 +2,10 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Layout from "@/components/Layout";
+import ChatBridgeSettings, { ChatBridgeConfig } from "@/components/ChatBridgeSettings";
+import ChannelBindings from "@/components/ChannelBindings";
+import CommandPermissions from "@/components/CommandPermissions";
+import AlertRules from "@/components/AlertRules";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -67,9 +71,18 @@ export default function DiscordBot() {
     uptime?: string;
     lastConnected?: string;
     hasToken?: boolean;
+    chatBridge?: ChatBridgeConfig;
+    statusInterval?: number;
+    globalCommands?: boolean;
   } | undefined;
 
   const isConnected = typedConfig?.isConnected || false;
+  const savedStatusInterval = typedConfig?.statusInterval ?? 30;
+  const [statusIntervalDraft, setStatusIntervalDraft] = useState(String(savedStatusInterval));
+
+  useEffect(() => {
+    setStatusIntervalDraft(String(savedStatusInterval));
+  }, [savedStatusInterval]);
 
   // Update settings when config loads
   useEffect(() => {
@@ -94,6 +107,23 @@ export default function DiscordBot() {
     updateSettingsMutation.mutate({ logCommands: checked });
   };
   
+  // Saved on blur; the server accepts 10 to 3600 seconds
+  const handleStatusIntervalBlur = () => {
+    const seconds = Number(statusIntervalDraft);
+    if (!Number.isInteger(seconds) || seconds < 10 || seconds > 3600) {
+      toast({
+        title: "Invalid Interval",
+        description: "Status refresh must be between 10 and 3600 seconds",
+        variant: "destructive",
+      });
+      setStatusIntervalDraft(String(savedStatusInterval));
+      return;
+    }
+    if (seconds !== savedStatusInterval) {
+      updateSettingsMutation.mutate({ statusInterval: seconds });
+    }
+  };
+  
   const handleTokenChange = (value: string) => {
     setSettings(prev => ({ ...prev, botToken: value }));
   };
@@ -311,6 +341,37 @@ export default function DiscordBot() {
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="status-interval">Status refresh (seconds)</Label>
+                  <p className="text-xs text-muted-foreground">How often the pinned status message in /setup channels is edited</p>
+                </div>
+                <Input
+                  id="status-interval"
+                  type="number"
+                  min={10}
+                  max={3600}
+                  className="w-24"
+                  value={statusIntervalDraft}
+                  onChange={(e) => setStatusIntervalDraft(e.target.value)}
+                  onBlur={handleStatusIntervalBlur}
+                  disabled={isLoading || !typedConfig?.hasToken || updateSettingsMutation.isPending}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="global-commands">Global slash commands</Label>
+                  <p className="text-xs text-muted-foreground">Register commands for every server at once; updates can take up to an hour instead of showing up instantly</p>
+                </div>
+                <Switch
+                  id="global-commands"
+                  checked={typedConfig?.globalCommands ?? false}
+                  onCheckedChange={(checked) => updateSettingsMutation.mutate({ globalCommands: checked })}
+                  disabled={isLoading || !typedConfig?.hasToken || updateSettingsMutation.isPending}
+                />
+              </div>
+
               <div className="flex gap-2 pt-4">
                 {!isConnected ? (
                   <Button 
@@ -371,6 +432,18 @@ export default function DiscordBot() {
           </Card>
         </div>
 
+        {/* Chat Bridge */}
+        <ChatBridgeSettings bridge={typedConfig?.chatBridge} hasToken={!!typedConfig?.hasToken} />
+
+        {/* Channel Bindings */}
+        <ChannelBindings />
+
+        {/* Command Permissions */}
+        <CommandPermissions />
+
+        {/* Alert Rules */}
+        <AlertRules />
+
         {/* Required Permissions */}
         <Card className="glass-effect p-6">
           <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -384,6 +457,7 @@ export default function DiscordBot() {
               "Send Embeds",
               "Read Message History",
               "Manage Messages",
+              "Manage Webhooks",
               "Add Reactions",
               "View Channels",
               "Connect",
@@ -405,13 +479,23 @@ export default function DiscordBot() {
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {[
-              { command: "/setup", description: "Configure live status monitoring channel" },
-              { command: "/log", description: "Set channel for Minecraft chat logging" },
+              { command: "/setup [purpose] [events] [bot]", description: "Bind channel for status, events, chat or alerts" },
+              { command: "/unsetup [purpose]", description: "Remove this channel's bindings" },
+              { command: "/channels", description: "List channels bound in this server" },
+              { command: "/permissions", description: "Choose who may use each command (Manage Server)" },
+              { command: "/log", description: "Set channel for Minecraft chat logging and the chat bridge" },
+              { command: "/logs", description: "Search recent logs with paging and .txt/.json export" },
               { command: "/start", description: "Start the Minecraft bot" },
               { command: "/stop", description: "Stop the Minecraft bot" },
+              { command: "/panel", description: "Post a button panel to control the bot" },
               { command: "/restart", description: "Restart the bot connection" },
-              { command: "/inventory", description: "Display bot's inventory" },
+              { command: "/inventory", description: "Browse the live inventory with durability, paged" },
               { command: "/command <cmd>", description: "Execute Minecraft command" },
+              { command: "/goto <player>", description: "Walk the bot to an online player" },
+              { command: "/pvp on|off|target <player>", description: "Control PvP mode and its target" },
+              { command: "/drop <item> [count]", description: "Drop items from the inventory" },
+              { command: "/use <item>", description: "Use or eat an inventory item" },
+              { command: "/say <text>", description: "Send a chat message as the bot" },
               { command: "/status", description: "Show bot connection status" }
             ].map((cmd) => (
               <div key={cmd.command} className="p-3 bg-muted/30 rounded-lg">
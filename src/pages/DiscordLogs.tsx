@@ -1,5 +1,7 @@
 import { useState } from "react";
 import Layout from "@/components/Layout";
+import LogFilterBar from "@/components/LogFilterBar";
+import LiveLogToggle from "@/components/LiveLogToggle";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -14,28 +16,21 @@ import {
   Clock
 } from "lucide-react";
 
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { LogLevel, useDebouncedValue, useLoadMoreRef, useLogSearch, useLogStream } from "@/hooks/useLogs";
 
 export default function DiscordLogs() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedStatus, setSelectedStatus] = useState("all");
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [paused, setPaused] = useState(false);
+  const search = useDebouncedValue(searchTerm);
 
-  // Fetch real logs from backend
-  const { data: logs = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/logs', 'discord'],
-    queryFn: () => apiRequest('/api/logs?type=discord&limit=100'),
-    refetchInterval: 2000, // Auto-refresh every 2 seconds
-  });
-
-  const filteredLogs = logs.filter((log: any) => {
-    const searchText = `${log.message || ''} ${log.details || ''}`.toLowerCase();
-    const matchesSearch = searchText.includes(searchTerm.toLowerCase());
-    const matchesStatus = selectedStatus === "all" || log.level === selectedStatus;
-    return matchesSearch && matchesStatus;
-  });
-
-  const statusTypes = ["all", "success", "error"];
+  // Server-side search over Discord logs, newest first, with new entries streamed in
+  const filters = { type: "discord" as const, levels, search, from, to };
+  const { logs, total, levelCounts, isLoading, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, refetch } = useLogSearch(filters);
+  const { connected } = useLogStream(filters, { paused });
+  const loadMoreRef = useLoadMoreRef(hasNextPage, isFetchingNextPage, fetchNextPage);
 
   return (
     <Layout>
@@ -47,6 +42,7 @@ export default function DiscordLogs() {
             <p className="text-muted-foreground">Monitor Discord bot commands and interactions</p>
           </div>
           <div className="flex gap-2">
+            <LiveLogToggle paused={paused} connected={connected} onPausedChange={setPaused} />
             <Button variant="outline">
               <Download className="w-4 h-4 mr-2" />
               Export
@@ -54,43 +50,28 @@ export default function DiscordLogs() {
             <Button 
               variant="outline" 
               onClick={() => refetch()}
-              disabled={isLoading}
+              disabled={isFetching}
               className="transition-all duration-150 ease-out hover:scale-105"
             >
-              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              {isLoading ? 'Refreshing...' : 'Refresh'}
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              {isFetching ? 'Refreshing...' : 'Refresh'}
             </Button>
           </div>
         </div>
 
         {/* Filters */}
-        <Card className="glass-effect p-4">
-          <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search commands, users, or channels..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <div className="flex gap-2">
-              <span className="text-sm text-muted-foreground px-2 py-1">Status:</span>
-              {statusTypes.map((status) => (
-                <Button
-                  key={status}
-                  variant={selectedStatus === status ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedStatus(status)}
-                  className="capitalize"
-                >
-                  {status}
-                </Button>
-              ))}
-            </div>
-          </div>
-        </Card>
+        <LogFilterBar
+          search={searchTerm}
+          onSearchChange={setSearchTerm}
+          levels={levels}
+          onLevelsChange={setLevels}
+          levelCounts={levelCounts}
+          from={from}
+          onFromChange={setFrom}
+          to={to}
+          onToChange={setTo}
+          placeholder="Search commands, users, or channels..."
+        />
 
         {/* Command Logs */}
         <Card className="glass-effect">
@@ -112,18 +93,15 @@ export default function DiscordLogs() {
                   </div>
                 </div>
               ))
-            ) : filteredLogs.length === 0 ? (
+            ) : logs.length === 0 ? (
               <div className="p-12 text-center">
                 <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-foreground mb-2">No Discord Logs</h3>
-                <p className="text-muted-foreground">No Discord activity found. Connect your bot to see logs here.</p>
+                <p className="text-muted-foreground">No Discord activity matches these filters. Connect your bot to see logs here.</p>
               </div>
             ) : (
-              filteredLogs.map((log) => {
-                // Parse timestamp if it's a string
-                const timestamp = typeof log.createdAt === 'string' 
-                  ? new Date(log.createdAt).toLocaleString()
-                  : log.timestamp || 'Unknown time';
+              logs.map((log) => {
+                const timestamp = new Date(log.timestamp).toLocaleString();
                   
                 return (
                   <div key={log.id} className="p-4 hover:bg-muted/50 transition-all duration-150 ease-out">
@@ -160,6 +138,9 @@ export default function DiscordLogs() {
                 );
               })
             )}
+            <div ref={loadMoreRef} className="p-4 text-center text-xs text-muted-foreground">
+              {isFetchingNextPage ? "Loading older entries..." : hasNextPage ? "Scroll for older entries" : null}
+            </div>
           </div>
         </Card>
 
@@ -170,9 +151,9 @@ export default function DiscordLogs() {
               <MessageSquare className="w-8 h-8 text-primary" />
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {logs.length}
+                  {total}
                 </p>
-                <p className="text-sm text-muted-foreground">Total Commands</p>
+                <p className="text-sm text-muted-foreground">Matching Entries</p>
               </div>
             </div>
           </Card>
@@ -182,9 +163,9 @@ export default function DiscordLogs() {
               <User className="w-8 h-8 text-success" />
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {new Set(logs.map((log: any) => log.message)).size}
+                  {levelCounts.warn}
                 </p>
-                <p className="text-sm text-muted-foreground">Active Users</p>
+                <p className="text-sm text-muted-foreground">Warnings</p>
               </div>
             </div>
           </Card>
@@ -194,9 +175,9 @@ export default function DiscordLogs() {
               <Hash className="w-8 h-8 text-accent" />
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {new Set(logs.map((log: any) => log.level)).size}
+                  {levelCounts.error}
                 </p>
-                <p className="text-sm text-muted-foreground">Channels Used</p>
+                <p className="text-sm text-muted-foreground">Errors</p>
               </div>
             </div>
           </Card>
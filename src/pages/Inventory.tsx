@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedBot } from "@/hooks/useSelectedBot";
+import { useAuth } from "@/hooks/useAuth";
 import { useInventory, useRefreshInventory } from "@/hooks/useInventory";
 import { 
   Package, 
@@ -76,6 +78,8 @@ export default function Inventory() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedType, setSelectedType] = useState("all");
   const { toast } = useToast();
+  const { apiPath } = useSelectedBot();
+  const canManage = useAuth().hasRole('operator');
   const { data: inventoryItems = [], isLoading, error, refetch } = useInventory();
   const refreshInventory = useRefreshInventory();
 
@@ -110,7 +114,7 @@ export default function Inventory() {
 
   const handleDropItem = async (slot: number, count: number) => {
     try {
-      const response = await fetch('/api/inventory/drop', {
+      const response = await fetch(apiPath('/inventory/drop'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot, count })
@@ -142,7 +146,7 @@ export default function Inventory() {
 
   const handleUseItem = async (slot: number) => {
     try {
-      const response = await fetch('/api/inventory/use', {
+      const response = await fetch(apiPath('/inventory/use'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ slot })
@@ -295,7 +299,7 @@ export default function Inventory() {
                   variant="outline" 
                   className="flex-1"
                   onClick={() => handleDropItem(item.slot, item.count)}
-                  disabled={!item.slot}
+                  disabled={!canManage || !item.slot}
                 >
                   <Edit className="w-3 h-3 mr-1" />
                   Drop Item
@@ -305,7 +309,7 @@ export default function Inventory() {
                   variant="outline" 
                   className={`${item.isFood ? 'text-green-400 hover:text-green-300' : 'text-primary hover:text-primary'}`}
                   onClick={() => handleUseItem(item.slot)}
-                  disabled={!item.slot}
+                  disabled={!canManage || !item.slot}
                 >
                   <Trash2 className="w-3 h-3" />
                   {item.isFood ? 'Eat' : 'Use'}
@@ -0,0 +1,112 @@
+import { useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { BRAND } from "@/lib/constants";
+import { Shield, Loader2 } from "lucide-react";
+
+export default function Login() {
+  const { needsSetup, login, setup } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (needsSetup && password !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please type the same password twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (needsSetup) {
+        await setup(username, password);
+      } else {
+        await login(username, password);
+      }
+    } catch (error) {
+      toast({
+        title: needsSetup ? "Setup Failed" : "Sign In Failed",
+        description: needsSetup
+          ? "Use at least 3 characters for the username and 8 for the password"
+          : "Invalid username or password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Card className="glass-effect p-8 w-full max-w-sm">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center glow-primary">
+            <Shield className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold text-foreground">{BRAND.FULL_NAME}</h1>
+            <p className="text-sm text-muted-foreground">
+              {needsSetup ? "Create the first admin account" : "Sign in to continue"}
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="login-username">Username</Label>
+            <Input
+              id="login-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete={needsSetup ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          {needsSetup && (
+            <div>
+              <Label htmlFor="login-confirm">Confirm Password</Label>
+              <Input
+                id="login-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {needsSetup ? "Create Admin Account" : "Sign In"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -1,123 +1,55 @@
 import { useState } from "react";
 import Layout from "@/components/Layout";
+import LogFilterBar from "@/components/LogFilterBar";
+import LiveLogToggle from "@/components/LiveLogToggle";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { 
-  FileText, 
-  Search, 
-  Filter, 
-  Download, 
+import { LogLevel, LogType, useDebouncedValue, useLoadMoreRef, useLogSearch, useLogStream } from "@/hooks/useLogs";
+import {
+  FileText,
+  Download,
   RefreshCw,
-  CheckCircle,
+  Bug,
   XCircle,
   AlertTriangle,
-  Info
+  Info,
+  Loader2
 } from "lucide-react";
 
-const logEntries = [
-  {
-    id: 1,
-    timestamp: "2024-01-15 14:32:15",
-    type: "success",
-    source: "Bot",
-    message: "Discord bot token connected!",
-    user: "System"
-  },
-  {
-    id: 2,
-    timestamp: "2024-01-15 14:31:45",
-    type: "info",
-    source: "Bot",
-    message: "Bot initialization started",
-    user: "System"
-  },
-  {
-    id: 3,
-    timestamp: "2024-01-15 14:30:12",
-    type: "info",
-    source: "Command",
-    message: "User executed !help command",
-    user: "Player123"
-  },
-  {
-    id: 4,
-    timestamp: "2024-01-15 14:29:33",
-    type: "warning",
-    source: "Server",
-    message: "High memory usage detected (85%)",
-    user: "System"
-  },
-  {
-    id: 5,
-    timestamp: "2024-01-15 14:28:21",
-    type: "info",
-    source: "Command",
-    message: "User executed !inventory command",
-    user: "Player456"
-  },
-  {
-    id: 6,
-    timestamp: "2024-01-15 14:27:54",
-    type: "error",
-    source: "Command",
-    message: "Failed to execute !trade command - insufficient permissions",
-    user: "Player789"
-  },
-  {
-    id: 7,
-    timestamp: "2024-01-15 14:26:18",
-    type: "success",
-    source: "Server",
-    message: "Player connected to server",
-    user: "Player123"
-  },
-  {
-    id: 8,
-    timestamp: "2024-01-15 14:25:42",
-    type: "info",
-    source: "Bot",
-    message: "Scheduled backup completed successfully",
-    user: "System"
-  }
-];
-
-const getLogIcon = (type: string) => {
-  switch (type) {
-    case "success": return <CheckCircle className="w-4 h-4 text-success" />;
+const getLogIcon = (level: string) => {
+  switch (level) {
     case "error": return <XCircle className="w-4 h-4 text-error" />;
-    case "warning": return <AlertTriangle className="w-4 h-4 text-warning" />;
+    case "warn": return <AlertTriangle className="w-4 h-4 text-warning" />;
     case "info": return <Info className="w-4 h-4 text-primary" />;
-    default: return <Info className="w-4 h-4 text-muted-foreground" />;
+    default: return <Bug className="w-4 h-4 text-muted-foreground" />;
   }
 };
 
-const getLogBadge = (type: string) => {
-  switch (type) {
-    case "success": return "bg-success/10 text-success border-success/20";
+const getLogBadge = (level: string) => {
+  switch (level) {
     case "error": return "bg-error/10 text-error border-error/20";
-    case "warning": return "bg-warning/10 text-warning border-warning/20";
+    case "warn": return "bg-warning/10 text-warning border-warning/20";
     case "info": return "bg-primary/10 text-primary border-primary/20";
     default: return "bg-muted/10 text-muted-foreground border-border";
   }
 };
 
+const logSources: ("all" | LogType)[] = ["all", "system", "minecraft", "discord", "error"];
+
 export default function Logs() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedType, setSelectedType] = useState("all");
-  const [selectedSource, setSelectedSource] = useState("all");
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [selectedSource, setSelectedSource] = useState<"all" | LogType>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [paused, setPaused] = useState(false);
+  const search = useDebouncedValue(searchTerm);
 
-  const filteredLogs = logEntries.filter(log => {
-    const matchesSearch = log.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         log.user.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = selectedType === "all" || log.type === selectedType;
-    const matchesSource = selectedSource === "all" || log.source === selectedSource;
-    return matchesSearch && matchesType && matchesSource;
-  });
-
-  const logTypes = ["all", "success", "error", "warning", "info"];
-  const logSources = ["all", "Bot", "Server", "Command"];
+  const filters = { type: selectedSource === "all" ? undefined : selectedSource, levels, search, from, to };
+  const { logs, total, levelCounts, isLoading, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, refetch } = useLogSearch(filters);
+  const { connected } = useLogStream(filters, { paused });
+  const loadMoreRef = useLoadMoreRef(hasNextPage, isFetchingNextPage, fetchNextPage);
 
   return (
     <Layout>
@@ -129,147 +61,146 @@ export default function Logs() {
             <p className="text-muted-foreground">Monitor bot activity and system events</p>
           </div>
           <div className="flex gap-2">
+            <LiveLogToggle paused={paused} connected={connected} onPausedChange={setPaused} />
             <Button variant="outline">
               <Download className="w-4 h-4 mr-2" />
               Export
             </Button>
-            <Button variant="outline">
-              <RefreshCw className="w-4 h-4 mr-2" />
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
           </div>
         </div>
 
         {/* Filters */}
-        <Card className="glass-effect p-4">
-          <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search logs..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <div className="flex flex-wrap gap-2">
-              <div className="flex gap-1">
-                <span className="text-sm text-muted-foreground px-2 py-1">Type:</span>
-                {logTypes.map((type) => (
-                  <Button
-                    key={type}
-                    variant={selectedType === type ? "default" : "outline"}
-                    size="sm"
-                    onClick={() => setSelectedType(type)}
-                    className="capitalize"
-                  >
-                    {type}
-                  </Button>
-                ))}
-              </div>
-              <div className="flex gap-1">
-                <span className="text-sm text-muted-foreground px-2 py-1">Source:</span>
-                {logSources.map((source) => (
-                  <Button
-                    key={source}
-                    variant={selectedSource === source ? "default" : "outline"}
-                    size="sm"
-                    onClick={() => setSelectedSource(source)}
-                    className="capitalize"
-                  >
-                    {source}
-                  </Button>
-                ))}
-              </div>
-            </div>
-          </div>
-        </Card>
+        <LogFilterBar
+          search={searchTerm}
+          onSearchChange={setSearchTerm}
+          levels={levels}
+          onLevelsChange={setLevels}
+          levelCounts={levelCounts}
+          from={from}
+          onFromChange={setFrom}
+          to={to}
+          onToChange={setTo}
+        />
+        <div className="flex flex-wrap gap-1">
+          <span className="text-sm text-muted-foreground px-2 py-1">Source:</span>
+          {logSources.map((source) => (
+            <Button
+              key={source}
+              variant={selectedSource === source ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedSource(source)}
+              className="capitalize"
+            >
+              {source}
+            </Button>
+          ))}
+        </div>
 
         {/* Logs List */}
         <Card className="glass-effect">
+          <div className="px-4 py-3 border-b border-border text-sm text-muted-foreground">
+            Showing {logs.length} of {total} entries
+          </div>
           <div className="divide-y divide-border">
-            {filteredLogs.map((log) => (
-              <div key={log.id} className="p-4 hover:bg-muted/50 transition-smooth">
-                <div className="flex items-start gap-3">
-                  <div className="mt-0.5">
-                    {getLogIcon(log.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <Badge className={getLogBadge(log.type)} variant="outline">
-                        {log.type}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">
-                        {log.source}
-                      </Badge>
-                      <span className="text-xs text-muted-foreground">
-                        {log.timestamp}
-                      </span>
+            {isLoading ? (
+              <div className="p-8 text-center text-muted-foreground">Loading logs...</div>
+            ) : logs.length === 0 ? (
+              <div className="p-12 text-center">
+                <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No logs match these filters.</p>
+              </div>
+            ) : (
+              logs.map((log) => (
+                <div key={log.id} className="p-4 hover:bg-muted/50 transition-smooth">
+                  <div className="flex items-start gap-3">
+                    <div className="mt-0.5">
+                      {getLogIcon(log.level)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge className={getLogBadge(log.level)} variant="outline">
+                          {log.level}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {log.type}
+                        </Badge>
+                        {log.botId && (
+                          <Badge variant="outline" className="text-xs">
+                            {log.botId}
+                          </Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(log.timestamp).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-sm text-foreground font-medium mb-1 break-words">
+                        {log.message}
+                      </p>
+                      {log.details && (
+                        <p className="text-xs text-muted-foreground break-words">
+                          {log.details}
+                        </p>
+                      )}
                     </div>
-                    <p className="text-sm text-foreground font-medium mb-1">
-                      {log.message}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      by {log.user}
-                    </p>
                   </div>
                 </div>
-              </div>
-            ))}
+              ))
+            )}
+            <div ref={loadMoreRef} className="p-4 text-center text-xs text-muted-foreground">
+              {isFetchingNextPage ? (
+                <Loader2 className="w-4 h-4 animate-spin mx-auto" />
+              ) : hasNextPage ? "Scroll for older entries" : logs.length > 0 ? "No older entries" : null}
+            </div>
           </div>
         </Card>
 
         {/* Log Statistics */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <Card className="glass-effect p-4">
-            <div className="flex items-center gap-3">
-              <CheckCircle className="w-8 h-8 text-success" />
-              <div>
-                <p className="text-2xl font-bold text-foreground">
-                  {logEntries.filter(log => log.type === "success").length}
-                </p>
-                <p className="text-sm text-muted-foreground">Success</p>
-              </div>
-            </div>
-          </Card>
-          
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
               <Info className="w-8 h-8 text-primary" />
               <div>
-                <p className="text-2xl font-bold text-foreground">
-                  {logEntries.filter(log => log.type === "info").length}
-                </p>
+                <p className="text-2xl font-bold text-foreground">{levelCounts.info}</p>
                 <p className="text-sm text-muted-foreground">Info</p>
               </div>
             </div>
           </Card>
-          
+
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
               <AlertTriangle className="w-8 h-8 text-warning" />
               <div>
-                <p className="text-2xl font-bold text-foreground">
-                  {logEntries.filter(log => log.type === "warning").length}
-                </p>
+                <p className="text-2xl font-bold text-foreground">{levelCounts.warn}</p>
                 <p className="text-sm text-muted-foreground">Warning</p>
               </div>
             </div>
           </Card>
-          
+
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
               <XCircle className="w-8 h-8 text-error" />
               <div>
-                <p className="text-2xl font-bold text-foreground">
-                  {logEntries.filter(log => log.type === "error").length}
-                </p>
+                <p className="text-2xl font-bold text-foreground">{levelCounts.error}</p>
                 <p className="text-sm text-muted-foreground">Errors</p>
               </div>
             </div>
           </Card>
+
+          <Card className="glass-effect p-4">
+            <div className="flex items-center gap-3">
+              <Bug className="w-8 h-8 text-muted-foreground" />
+              <div>
+                <p className="text-2xl font-bold text-foreground">{levelCounts.debug}</p>
+                <p className="text-sm text-muted-foreground">Debug</p>
+              </div>
+            </div>
+          </Card>
         </div>
       </div>
     </Layout>
   );
-}
\ No newline at end of file
+}
@@ -1,5 +1,7 @@
-import { useState, useEffect, useRef } from "react";
+import { useState } from "react";
 import Layout from "@/components/Layout";
+import LogFilterBar from "@/components/LogFilterBar";
+import LiveLogToggle from "@/components/LiveLogToggle";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -22,14 +24,15 @@ import {
   Info
 } from "lucide-react";
 
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useSelectedBot } from "@/hooks/useSelectedBot";
+import { LogLevel, useDebouncedValue, useLoadMoreRef, useLogSearch, useLogStream } from "@/hooks/useLogs";
 
 interface ConsoleEntry {
-  id: number;
+  id: string;
   timestamp: string;
   type: "command" | "response" | "error" | "info" | "chat" | "join" | "leave";
   content: string;
+  details?: string;
   user?: string;
 }
 
@@ -46,18 +49,21 @@ const getTypeColor = (type: string) => {
 
 export default function MinecraftLogs() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedType, setSelectedType] = useState("all");
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [paused, setPaused] = useState(false);
+  const search = useDebouncedValue(searchTerm);
+  const { botId } = useSelectedBot();
 
-  // Fetch real logs from backend
-  const { data: logs = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/logs', 'minecraft'],
-    queryFn: () => apiRequest('/api/logs?type=minecraft&limit=100'),
-    refetchInterval: 2000, // Auto-refresh every 2 seconds
-  });
+  // Server-side search over this bot's Minecraft logs, newest first, with new lines streamed in
+  const filters = { type: "minecraft" as const, botId, levels, search, from, to };
+  const { logs, total, levelCounts, isLoading, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, refetch } = useLogSearch(filters);
+  const { connected } = useLogStream(filters, { paused });
+  const loadMoreRef = useLoadMoreRef(hasNextPage, isFetchingNextPage, fetchNextPage);
 
   // Convert backend logs to console entries for display (same as Console.tsx)
-  const allConsoleEntries: ConsoleEntry[] = logs.map((log: any, index: number) => {
+  const consoleEntries: ConsoleEntry[] = logs.map((log) => {
     let type = 'info';
     let content = log.message || '';
     
@@ -80,38 +86,22 @@ export default function MinecraftLogs() {
     }
     
     return {
-      id: index + 1000, // Use offset to avoid conflicts
-      timestamp: new Date(log.createdAt).toLocaleTimeString("en-US", { 
+      id: log.id,
+      timestamp: new Date(log.timestamp).toLocaleString("en-US", { 
         hour12: false, 
+        month: "short",
+        day: "numeric",
         hour: "2-digit", 
         minute: "2-digit", 
         second: "2-digit" 
       }),
       type: type as "command" | "response" | "error" | "info" | "chat" | "join" | "leave",
       content: content,
+      details: log.details,
       user: type === 'chat' ? 'Game' : undefined
     };
   });
 
-  // Auto-scroll to bottom when new entries arrive
-  useEffect(() => {
-    if (scrollAreaRef.current) {
-      const scrollContainer = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
-      if (scrollContainer) {
-        scrollContainer.scrollTop = scrollContainer.scrollHeight;
-      }
-    }
-  }, [allConsoleEntries]);
-
-  const filteredEntries = allConsoleEntries.filter((entry) => {
-    const searchText = entry.content.toLowerCase();
-    const matchesSearch = searchText.includes(searchTerm.toLowerCase());
-    const matchesType = selectedType === "all" || entry.type === selectedType;
-    return matchesSearch && matchesType;
-  });
-
-  const logTypes = ["all", "chat", "join", "leave", "error", "command", "info"];
-
   const getEntryIcon = (type: string) => {
     switch (type) {
       case "command": return <Terminal className="w-4 h-4 text-primary" />;
@@ -146,6 +136,7 @@ export default function MinecraftLogs() {
             <p className="text-muted-foreground">Monitor in-game chat, events, and player activity</p>
           </div>
           <div className="flex gap-2">
+            <LiveLogToggle paused={paused} connected={connected} onPausedChange={setPaused} />
             <Button variant="outline">
               <Download className="w-4 h-4 mr-2" />
               Export
@@ -153,43 +144,28 @@ export default function MinecraftLogs() {
             <Button 
               variant="outline" 
               onClick={() => refetch()}
-              disabled={isLoading}
+              disabled={isFetching}
               className="transition-all duration-150 ease-out hover:scale-105"
             >
-              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              {isLoading ? 'Refreshing...' : 'Refresh'}
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              {isFetching ? 'Refreshing...' : 'Refresh'}
             </Button>
           </div>
         </div>
 
         {/* Filters */}
-        <Card className="glass-effect p-4">
-          <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search messages, players, or events..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <div className="flex flex-wrap gap-2">
-              <span className="text-sm text-muted-foreground px-2 py-1">Type:</span>
-              {logTypes.map((type) => (
-                <Button
-                  key={type}
-                  variant={selectedType === type ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedType(type)}
-                  className="capitalize"
-                >
-                  {type}
-                </Button>
-              ))}
-            </div>
-          </div>
-        </Card>
+        <LogFilterBar
+          search={searchTerm}
+          onSearchChange={setSearchTerm}
+          levels={levels}
+          onLevelsChange={setLevels}
+          levelCounts={levelCounts}
+          from={from}
+          onFromChange={setFrom}
+          to={to}
+          onToChange={setTo}
+          placeholder="Search messages, players, or events..."
+        />
 
         {/* Console Output - Read Only */}
         <Card className="glass-effect p-6">
@@ -199,23 +175,23 @@ export default function MinecraftLogs() {
               <h2 className="text-xl font-semibold text-foreground">Minecraft Console (Read-Only)</h2>
             </div>
             <div className="text-sm text-muted-foreground">
-              {filteredEntries.length} entries
+              {consoleEntries.length} of {total} entries
             </div>
           </div>
           
           <div className="bg-background/80 border border-border rounded-lg overflow-hidden">
-            <ScrollArea className="h-[500px]" ref={scrollAreaRef}>
+            <ScrollArea className="h-[500px]">
               <div className="p-4 space-y-1 font-mono text-sm">
                 {isLoading ? (
                   <div className="text-muted-foreground">Loading console logs...</div>
-                ) : filteredEntries.length === 0 ? (
+                ) : consoleEntries.length === 0 ? (
                   <div className="text-center py-8">
                     <Terminal className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                    <div className="text-muted-foreground">No Minecraft logs available.</div>
+                    <div className="text-muted-foreground">No Minecraft logs match these filters.</div>
                     <div className="text-muted-foreground text-xs mt-2">Connect the bot to a server to see live logs here.</div>
                   </div>
                 ) : (
-                  filteredEntries.map((entry) => (
+                  consoleEntries.map((entry) => (
                     <div key={entry.id} className="flex items-start gap-3 hover:bg-muted/30 px-2 py-1 rounded transition-colors">
                       <span className="text-muted-foreground text-xs mt-0.5 min-w-[60px]">
                         {entry.timestamp}
@@ -230,10 +206,18 @@ export default function MinecraftLogs() {
                             ({entry.user})
                           </span>
                         )}
+                        {entry.details && (
+                          <span className="text-muted-foreground text-xs break-all">
+                            {entry.details}
+                          </span>
+                        )}
                       </div>
                     </div>
                   ))
                 )}
+                <div ref={loadMoreRef} className="py-2 text-center text-xs text-muted-foreground">
+                  {isFetchingNextPage ? "Loading older entries..." : hasNextPage ? "Scroll for older entries" : null}
+                </div>
               </div>
             </ScrollArea>
           </div>
@@ -246,40 +230,40 @@ export default function MinecraftLogs() {
           </div>
         </Card>
 
-        {/* Event Statistics */}
+        {/* Event Statistics (all matching entries, not just the loaded pages) */}
         <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
-              <MessageCircle className="w-6 h-6 text-primary" />
+              <Terminal className="w-6 h-6 text-primary" />
               <div>
                 <p className="text-xl font-bold text-foreground">
-                  {filteredEntries.filter(entry => entry.type === 'chat').length}
+                  {total}
                 </p>
-                <p className="text-xs text-muted-foreground">Chat Messages</p>
+                <p className="text-xs text-muted-foreground">Total Entries</p>
               </div>
             </div>
           </Card>
           
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
-              <UserPlus className="w-6 h-6 text-success" />
+              <Info className="w-6 h-6 text-primary" />
               <div>
                 <p className="text-xl font-bold text-foreground">
-                  {filteredEntries.filter(entry => entry.type === 'join').length}
+                  {levelCounts.info}
                 </p>
-                <p className="text-xs text-muted-foreground">Player Joins</p>
+                <p className="text-xs text-muted-foreground">Info</p>
               </div>
             </div>
           </Card>
           
           <Card className="glass-effect p-4">
             <div className="flex items-center gap-3">
-              <UserMinus className="w-6 h-6 text-warning" />
+              <AlertTriangle className="w-6 h-6 text-warning" />
               <div>
                 <p className="text-xl font-bold text-foreground">
-                  {filteredEntries.filter(entry => entry.type === 'leave').length}
+                  {levelCounts.warn}
                 </p>
-                <p className="text-xs text-muted-foreground">Player Leaves</p>
+                <p className="text-xs text-muted-foreground">Warnings</p>
               </div>
             </div>
           </Card>
@@ -289,7 +273,7 @@ export default function MinecraftLogs() {
               <Skull className="w-6 h-6 text-error" />
               <div>
                 <p className="text-xl font-bold text-foreground">
-                  {filteredEntries.filter(entry => entry.type === 'error').length}
+                  {levelCounts.error}
                 </p>
                 <p className="text-xs text-muted-foreground">Errors</p>
               </div>
@@ -301,9 +285,9 @@ export default function MinecraftLogs() {
               <Zap className="w-6 h-6 text-accent" />
               <div>
                 <p className="text-xl font-bold text-foreground">
-                  {filteredEntries.filter(entry => entry.type === 'command').length}
+                  {levelCounts.debug}
                 </p>
-                <p className="text-xs text-muted-foreground">Commands</p>
+                <p className="text-xs text-muted-foreground">Debug</p>
               </div>
             </div>
           </Card>
@@ -2,13 +2,17 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Layout from "@/components/Layout";
+import MinecraftServerStatus from "@/components/MinecraftServerStatus";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_BOT_ID, useSelectedBot } from "@/hooks/useSelectedBot";
 import { useAutosave } from "@/hooks/useAutosave";
+import { useAuth } from "@/hooks/useAuth";
+import { useServerStatus } from "@/hooks/useServerStatus";
 import { 
   Server, 
   Globe, 
@@ -20,50 +24,102 @@ import {
   EyeOff,
   Save,
   XCircle,
-  Loader2
+  Loader2,
+  Trash2,
+  KeyRound,
+  ExternalLink,
+  LogOut
 } from "lucide-react";
 
+type AuthMode = "offline" | "microsoft";
+type ProxyType = "none" | "socks5" | "http";
+
 interface ServerSettings {
+  name: string;
   serverIP: string;
   serverPort: string;
   username: string;
   password: string;
   shouldRegister: boolean;
+  auth: AuthMode;
   useWhitelist: boolean;
   autoReconnect: boolean;
   version: string;
   platform: string;
+  proxyType: ProxyType;
+  proxyHost: string;
+  proxyPort: string;
+  proxyUsername: string;
+  proxyPassword: string;
+}
+
+interface MicrosoftAuthStatus {
+  state: "signed_out" | "pending" | "signed_in";
+  prompt: { userCode: string; verificationUri: string; expiresAt: string; message: string } | null;
+  profileName: string | null;
+  lastError: string | null;
+}
+
+// Where the typed address connects to, from /minecraft/resolve
+interface ResolvedAddress {
+  valid: boolean;
+  error: string | null;
+  display?: string;
+  srv?: string | null;
 }
 
 const defaultSettings: ServerSettings = {
+  name: "",
   serverIP: "127.0.0.1",
   serverPort: "25565",
   username: "",
   password: "",
   shouldRegister: false,
+  auth: "offline",
   useWhitelist: false,
   autoReconnect: true,
   version: "1.20.4",
-  platform: "java"
+  platform: "java",
+  proxyType: "none",
+  proxyHost: "",
+  proxyPort: "",
+  proxyUsername: "",
+  proxyPassword: ""
 };
 
+// The backend never returns the proxy password, so an empty field keeps the saved one
+const withSavedProxyPassword = (data: ServerSettings) => ({ ...data, proxyPassword: data.proxyPassword || undefined });
+
+// Remount the form when switching bots so autosave never writes one bot's settings to another
 export default function ServerConfig() {
+  const { botId } = useSelectedBot();
+  return <ServerConfigForm key={botId} />;
+}
+
+function ServerConfigForm() {
   const [showPassword, setShowPassword] = useState(false);
   const { toast } = useToast();
+  const { botId, setBotId, apiPath } = useSelectedBot();
+  const isDefaultBot = botId === DEFAULT_BOT_ID;
+  const { hasRole } = useAuth();
+  const canOperate = hasRole('operator');
   
   // Auto-save server settings - saves to localStorage AND backend
   const { data: settings, setData: setSettings, isLoading: isAutoSaving, lastSaved } = useAutosave<ServerSettings>(
-    'minecraft-server-settings',
+    isDefaultBot ? 'minecraft-server-settings' : `minecraft-server-settings:${botId}`,
     defaultSettings,
     {
       debounceMs: 1500,
       onSave: async (data) => {
-        // Also save to backend
+        // Also save to backend (viewers only keep the local draft)
+        if (!canOperate) return;
         try {
-          await apiRequest('/api/minecraft/config', {
+          await apiRequest(apiPath('/minecraft/config'), {
             method: 'PATCH',
-            body: JSON.stringify(data),
+            body: JSON.stringify(withSavedProxyPassword(data)),
           });
+          // Ping the new address (and re-check the version) right away
+          queryClient.invalidateQueries({ queryKey: [apiPath('/minecraft/status')] });
         } catch (error) {
           console.error('Failed to sync settings to backend:', error);
         }
@@ -73,20 +129,27 @@ export default function ServerConfig() {
 
   // Get current config
   const { data: config, isLoading } = useQuery({
-    queryKey: ['/api/minecraft/config'],
+    queryKey: [apiPath('/minecraft/config')],
   });
 
   // Type the config
   const typedConfig = config as {
+    name?: string;
     serverIP?: string;
     serverPort?: string;
     username?: string;
     password?: string;
     shouldRegister?: boolean;
+    auth?: AuthMode;
     useWhitelist?: boolean;
     autoReconnect?: boolean;
     version?: string;
     platform?: string;
+    proxyType?: ProxyType;
+    proxyHost?: string;
+    proxyPort?: string;
+    proxyUsername?: string;
+    hasProxyPassword?: boolean;
     isConnected?: boolean;
     ping?: string;
     uptime?: string;
@@ -98,22 +161,28 @@ export default function ServerConfig() {
     if (typedConfig) {
       setSettings(prev => ({
         ...prev,
+        name: typedConfig.name || prev.name,
         serverIP: typedConfig.serverIP || prev.serverIP,
         serverPort: typedConfig.serverPort || prev.serverPort,
         username: typedConfig.username || prev.username,
         password: typedConfig.password || prev.password,
         shouldRegister: typedConfig.shouldRegister ?? prev.shouldRegister,
+        auth: typedConfig.auth || prev.auth,
         useWhitelist: typedConfig.useWhitelist ?? prev.useWhitelist,
         autoReconnect: typedConfig.autoReconnect ?? prev.autoReconnect,
         version: typedConfig.version || prev.version,
         platform: typedConfig.platform || prev.platform,
+        proxyType: typedConfig.proxyType || prev.proxyType,
+        proxyHost: typedConfig.proxyHost || prev.proxyHost,
+        proxyPort: typedConfig.proxyPort || prev.proxyPort,
+        proxyUsername: typedConfig.proxyUsername || prev.proxyUsername,
       }));
     }
   }, [typedConfig, setSettings]);
 
   // Connect mutation
   const connectMutation = useMutation({
-    mutationFn: (data: any) => apiRequest('/api/minecraft/connect', {
+    mutationFn: (data: any) => apiRequest(apiPath('/minecraft/connect'), {
       method: 'POST',
       body: JSON.stringify(data),
     }),
@@ -122,7 +191,7 @@ export default function ServerConfig() {
         title: "Connected!",
         description: "🎮 Bot connected to server! Check Minecraft Logs to see activity.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/minecraft/config'] });
+      queryClient.invalidateQueries({ queryKey: [apiPath('/minecraft/config')] });
     },
     onError: (error: any) => {
       const errorMsg = error.message || "Failed to connect";
@@ -146,7 +215,7 @@ export default function ServerConfig() {
 
   // Disconnect mutation
   const disconnectMutation = useMutation({
-    mutationFn: () => apiRequest('/api/minecraft/disconnect', {
+    mutationFn: () => apiRequest(apiPath('/minecraft/disconnect'), {
       method: 'POST',
     }),
     onSuccess: () => {
@@ -154,7 +223,7 @@ export default function ServerConfig() {
         title: "Disconnected",
         description: "Disconnected from Minecraft server",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/minecraft/config'] });
+      queryClient.invalidateQueries({ queryKey: [apiPath('/minecraft/config')] });
     },
     onError: (error: any) => {
       toast({
@@ -166,12 +235,67 @@ export default function ServerConfig() {
   });
 
   const isConnected = typedConfig?.isConnected || false;
+  const isMicrosoft = settings.auth === "microsoft";
+  const usesProxy = settings.proxyType !== "none";
+  const { data: serverStatus } = useServerStatus();
+
+  // Resolve the typed address once typing pauses, so SRV targets and typos show before connecting
+  const [addressDraft, setAddressDraft] = useState({ serverIP: settings.serverIP, serverPort: settings.serverPort });
+  useEffect(() => {
+    const timer = setTimeout(() => setAddressDraft({ serverIP: settings.serverIP, serverPort: settings.serverPort }), 600);
+    return () => clearTimeout(timer);
+  }, [settings.serverIP, settings.serverPort]);
+  const { data: resolvedAddress } = useQuery<ResolvedAddress>({
+    queryKey: [apiPath(`/minecraft/resolve?${new URLSearchParams(addressDraft)}`)],
+    enabled: !!addressDraft.serverIP.trim(),
+    staleTime: 60 * 1000,
+  });
+  const versionMatch = serverStatus?.match;
+
+  // Microsoft sign-in state; polled quickly while a device code waits to be entered.
+  // Operators only: the device code signs the bot's account in
+  const { data: microsoftAuth } = useQuery<MicrosoftAuthStatus>({
+    queryKey: [apiPath('/auth/microsoft')],
+    enabled: isMicrosoft && canOperate,
+    refetchInterval: (query) => query.state.data?.state === "pending" || connectMutation.isPending ? 2000 : 5000,
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: () => apiRequest(apiPath('/auth/microsoft'), {
+      method: 'DELETE',
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Signed Out",
+        description: "The bot will ask for a new sign-in code on its next connect",
+      });
+      queryClient.invalidateQueries({ queryKey: [apiPath('/auth/microsoft')] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out",
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleConnect = () => {
     if (!settings.serverIP.trim() || !settings.serverPort.trim() || !settings.username.trim()) {
       toast({
         title: "Error",
-        description: "Please enter server IP, port, and username",
+        description: settings.auth === "microsoft"
+          ? "Please enter server IP, port, and Microsoft account"
+          : "Please enter server IP, port, and username",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (resolvedAddress?.valid === false) {
+      toast({
+        title: "Error",
+        description: resolvedAddress.error,
         variant: "destructive"
       });
       return;
@@ -186,14 +310,29 @@ export default function ServerConfig() {
       return;
     }
 
+    if (usesProxy && !settings.proxyHost.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter the proxy host or turn the proxy off",
+        variant: "destructive"
+      });
+      return;
+    }
+
     connectMutation.mutate({
       serverIP: settings.serverIP,
       serverPort: settings.serverPort,
       username: settings.username,
       password: settings.password || undefined,
       shouldRegister: settings.shouldRegister,
+      auth: settings.auth,
       version: settings.version,
       platform: settings.platform,
+      proxyType: settings.proxyType,
+      proxyHost: settings.proxyHost,
+      proxyPort: settings.proxyPort,
+      proxyUsername: settings.proxyUsername,
+      proxyPassword: settings.proxyPassword || undefined,
       autoReconnect: settings.autoReconnect,
       useWhitelist: settings.useWhitelist,
       mode24_7: true,
@@ -206,7 +345,7 @@ export default function ServerConfig() {
 
   // Manual save mutation
   const saveSettingsMutation = useMutation({
-    mutationFn: (data: any) => apiRequest('/api/minecraft/config', {
+    mutationFn: (data: any) => apiRequest(apiPath('/minecraft/config'), {
       method: 'PATCH',
       body: JSON.stringify(data),
     }),
@@ -215,7 +354,8 @@ export default function ServerConfig() {
         title: "✅ Settings Saved!",
         description: "Your server configuration has been saved successfully.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/minecraft/config'] });
+      queryClient.invalidateQueries({ queryKey: [apiPath('/minecraft/config')] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bots'] });
     },
     onError: (error: any) => {
       toast({
@@ -227,9 +367,32 @@ export default function ServerConfig() {
   });
 
   const handleSave = () => {
-    saveSettingsMutation.mutate(settings);
+    saveSettingsMutation.mutate(withSavedProxyPassword(settings));
   };
 
+  // Remove bot mutation (the default bot cannot be removed)
+  const removeBotMutation = useMutation({
+    mutationFn: () => apiRequest(apiPath(''), {
+      method: 'DELETE',
+    }),
+    onSuccess: () => {
+      localStorage.removeItem(`autosave_minecraft-server-settings:${botId}`);
+      toast({
+        title: "Bot Removed",
+        description: `${settings.name || botId} has been disconnected and removed`,
+      });
+      setBotId(DEFAULT_BOT_ID);
+      queryClient.invalidateQueries({ queryKey: ['/api/bots'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove bot",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <Layout>
       <div className="p-6 space-y-6">
@@ -254,6 +417,16 @@ export default function ServerConfig() {
                 {isConnected ? "Connected" : "Disconnected"}
               </span>
             </div>
+            {!isDefaultBot && hasRole('admin') && (
+              <Button
+                variant="destructive"
+                onClick={() => removeBotMutation.mutate()}
+                disabled={removeBotMutation.isPending}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove Bot
+              </Button>
+            )}
           </div>
         </div>
 
@@ -266,6 +439,22 @@ export default function ServerConfig() {
             </h3>
             
             <div className="space-y-4">
+              <div>
+                <Label htmlFor="botName" className="text-sm font-medium text-foreground">
+                  Bot Name
+                </Label>
+                <Input
+                  id="botName"
+                  value={settings.name ?? ""}
+                  onChange={(e) => setSettings(prev => ({ ...prev, name: e.target.value }))}
+                  className="mt-1"
+                  placeholder="Main bot"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Shown in the bot switcher and usable in Discord commands
+                </p>
+              </div>
+
               <div>
                 <Label htmlFor="serverIP" className="text-sm font-medium text-foreground">
                   Server IP Address
@@ -277,9 +466,19 @@ export default function ServerConfig() {
                   className="mt-1"
                   placeholder="127.0.0.1"
                 />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Enter the IP address of your game server
-                </p>
+                {resolvedAddress?.valid === false ? (
+                  <p className="text-xs text-error mt-1" data-testid="address-invalid">
+                    ⚠️ {resolvedAddress.error}
+                  </p>
+                ) : resolvedAddress?.valid ? (
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="address-resolved">
+                    Connects to {resolvedAddress.display}{resolvedAddress.srv ? ` (SRV record ${resolvedAddress.srv})` : ""}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Hostname or IP of your game server; a port or [IPv6]:port here wins over the port field
+                  </p>
+                )}
               </div>
 
               <div>
@@ -298,23 +497,100 @@ export default function ServerConfig() {
                 </p>
               </div>
 
+              <div>
+                <Label htmlFor="auth" className="text-sm font-medium text-foreground">
+                  Authentication
+                </Label>
+                <select
+                  id="auth"
+                  value={settings.auth}
+                  onChange={(e) => setSettings(prev => ({ ...prev, auth: e.target.value as AuthMode }))}
+                  className="w-full mt-1 px-3 py-2 bg-background border border-input rounded-md text-sm"
+                  data-testid="select-auth"
+                >
+                  <option value="offline">Offline (cracked servers)</option>
+                  <option value="microsoft">Microsoft account (online-mode servers)</option>
+                </select>
+              </div>
+
               <div>
                 <Label htmlFor="username" className="text-sm font-medium text-foreground">
-                  Bot Username
+                  {isMicrosoft ? "Microsoft Account" : "Bot Username"}
                 </Label>
                 <Input
                   id="username"
                   value={settings.username}
                   onChange={(e) => setSettings(prev => ({ ...prev, username: e.target.value }))}
                   className="mt-1"
-                  placeholder="Enter bot username"
+                  placeholder={isMicrosoft ? "you@example.com" : "Enter bot username"}
                   data-testid="input-username"
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Username for the bot to join the server
+                  {isMicrosoft
+                    ? "Email of the account that owns Minecraft; the bot joins with its profile name"
+                    : "Username for the bot to join the server"}
                 </p>
               </div>
 
+              {isMicrosoft && canOperate && (
+                <div className="p-4 rounded-lg bg-muted/50 space-y-2" data-testid="microsoft-auth-status">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-foreground flex items-center gap-2">
+                      <KeyRound className="w-4 h-4 text-primary" />
+                      Microsoft Sign-in
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {microsoftAuth?.state === "pending" ? "Waiting for sign-in" :
+                        microsoftAuth?.state === "signed_in" ? `Signed in${microsoftAuth.profileName ? ` as ${microsoftAuth.profileName}` : ""}` :
+                        "Not signed in"}
+                    </span>
+                  </div>
+                  {microsoftAuth?.prompt && (
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        Open the link and enter this code to let the bot use your account:
+                      </p>
+                      <div className="flex items-center justify-between gap-2">
+                        <code className="text-lg font-mono font-semibold text-foreground tracking-widest">
+                          {microsoftAuth.prompt.userCode}
+                        </code>
+                        <a
+                          href={microsoftAuth.prompt.verificationUri}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sm text-primary flex items-center gap-1 hover:underline"
+                        >
+                          {microsoftAuth.prompt.verificationUri}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Expires at {new Date(microsoftAuth.prompt.expiresAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                  )}
+                  {!microsoftAuth?.prompt && microsoftAuth?.state === "signed_out" && (
+                    <p className="text-xs text-muted-foreground">
+                      A sign-in code shows up here when the bot connects
+                    </p>
+                  )}
+                  {microsoftAuth?.lastError && !microsoftAuth.prompt && (
+                    <p className="text-xs text-error">⚠️ {microsoftAuth.lastError}</p>
+                  )}
+                  {microsoftAuth?.state === "signed_in" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => signOutMutation.mutate()}
+                      disabled={signOutMutation.isPending}
+                    >
+                      <LogOut className="w-4 h-4 mr-2" />
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="botPassword" className="text-sm font-medium text-foreground">
                   Bot Password (Optional)
@@ -382,12 +658,30 @@ export default function ServerConfig() {
                     onChange={(e) => setSettings(prev => ({ ...prev, version: e.target.value }))}
                     className="w-full mt-1 px-3 py-2 bg-background border border-input rounded-md text-sm"
                   >
+                    <option value="auto">Auto (detect from server)</option>
+                    <option value="1.21.4">1.21.4</option>
+                    <option value="1.21.1">1.21.1</option>
                     <option value="1.20.4">1.20.4</option>
                     <option value="1.20.1">1.20.1</option>
                     <option value="1.19.4">1.19.4</option>
                     <option value="1.18.2">1.18.2</option>
                     <option value="1.17.1">1.17.1</option>
                   </select>
+                  {serverStatus?.server && (
+                    !versionMatch?.version ? (
+                      <p className="text-xs text-error mt-1" data-testid="version-unsupported">
+                        ⚠️ Server runs {serverStatus.server.version}, which the bot can't join (supported: {serverStatus.supportedVersions})
+                      </p>
+                    ) : settings.version === "auto" ? (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Server runs {serverStatus.server.version}, joining as {versionMatch.version}{versionMatch.tested ? "" : " (untested)"}
+                      </p>
+                    ) : settings.version !== versionMatch.version && (
+                      <p className="text-xs text-warning mt-1">
+                        ⚠️ Server runs {serverStatus.server.version}; pick {versionMatch.version} or Auto
+                      </p>
+                    )
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="platform">Platform</Label>
@@ -403,6 +697,78 @@ export default function ServerConfig() {
                 </div>
               </div>
 
+              <div className="space-y-3" data-testid="proxy-settings">
+                <div>
+                  <Label htmlFor="proxyType" className="text-sm font-medium text-foreground">
+                    Proxy
+                  </Label>
+                  <select
+                    id="proxyType"
+                    value={settings.proxyType}
+                    onChange={(e) => setSettings(prev => ({ ...prev, proxyType: e.target.value as ProxyType }))}
+                    className="w-full mt-1 px-3 py-2 bg-background border border-input rounded-md text-sm"
+                    data-testid="select-proxy-type"
+                  >
+                    <option value="none">None (connect directly)</option>
+                    <option value="socks5">SOCKS5</option>
+                    <option value="http">HTTP (CONNECT)</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Pings and the game connection go out through the proxy's IP
+                  </p>
+                </div>
+                {usesProxy && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="md:col-span-2">
+                        <Label htmlFor="proxyHost">Proxy Host</Label>
+                        <Input
+                          id="proxyHost"
+                          value={settings.proxyHost}
+                          onChange={(e) => setSettings(prev => ({ ...prev, proxyHost: e.target.value }))}
+                          className="mt-1"
+                          placeholder="proxy.example.com"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="proxyPort">Proxy Port</Label>
+                        <Input
+                          id="proxyPort"
+                          value={settings.proxyPort}
+                          onChange={(e) => setSettings(prev => ({ ...prev, proxyPort: e.target.value }))}
+                          className="mt-1"
+                          placeholder={settings.proxyType === "socks5" ? "1080" : "8080"}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="proxyUsername">Proxy Username (Optional)</Label>
+                        <Input
+                          id="proxyUsername"
+                          value={settings.proxyUsername}
+                          onChange={(e) => setSettings(prev => ({ ...prev, proxyUsername: e.target.value }))}
+                          className="mt-1"
+                          autoComplete="off"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="proxyPassword">Proxy Password (Optional)</Label>
+                        <Input
+                          id="proxyPassword"
+                          type="password"
+                          value={settings.proxyPassword}
+                          onChange={(e) => setSettings(prev => ({ ...prev, proxyPassword: e.target.value }))}
+                          className="mt-1"
+                          placeholder={typedConfig?.hasProxyPassword ? "Saved - leave empty to keep" : ""}
+                          autoComplete="new-password"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+
               <div className="space-y-3 pt-2">
                 <div className="flex items-center justify-between">
                   <div>
@@ -441,7 +807,7 @@ export default function ServerConfig() {
                 <Button 
                   onClick={handleSave}
                   variant="outline"
-                  disabled={saveSettingsMutation.isPending}
+                  disabled={!canOperate || saveSettingsMutation.isPending}
                   className="flex-1"
                 >
                   <Save className="w-4 h-4 mr-2" />
@@ -451,7 +817,7 @@ export default function ServerConfig() {
                   <Button 
                     onClick={handleConnect}
                     className="flex-1 gradient-gaming glow-primary"
-                    disabled={connectMutation.isPending}
+                    disabled={!canOperate || connectMutation.isPending}
                   >
                     {connectMutation.isPending ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -465,7 +831,7 @@ export default function ServerConfig() {
                     onClick={handleDisconnect}
                     variant="outline"
                     className="flex-1"
-                    disabled={disconnectMutation.isPending}
+                    disabled={!canOperate || disconnectMutation.isPending}
                   >
                     <XCircle className="w-4 h-4 mr-2" />
                     {disconnectMutation.isPending ? "Disconnecting..." : "Disconnect"}
@@ -495,19 +861,19 @@ export default function ServerConfig() {
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Ping</span>
                     <span className="text-sm font-medium text-foreground">
-                      {isConnected ? "23ms" : "N/A"}
+                      {isConnected ? typedConfig?.ping || "N/A" : "N/A"}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Uptime</span>
                     <span className="text-sm font-medium text-foreground">
-                      {isConnected ? "1d 5h 23m" : "N/A"}
+                      {isConnected ? typedConfig?.uptime || "N/A" : "N/A"}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Players Online</span>
                     <span className="text-sm font-medium text-foreground">
-                      {isConnected ? "12/100" : "0/0"}
+                      {isConnected ? typedConfig?.playersOnline || "0/0" : "0/0"}
                     </span>
                   </div>
                 </div>
@@ -516,18 +882,7 @@ export default function ServerConfig() {
               <div className="p-4 rounded-lg bg-muted/50">
                 <h4 className="font-medium text-foreground mb-2">Server Details</h4>
                 <div className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Version</span>
-                    <span className="text-sm font-medium text-foreground">1.20.1</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Game Mode</span>
-                    <span className="text-sm font-medium text-foreground">Survival</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Difficulty</span>
-                    <span className="text-sm font-medium text-foreground">Normal</span>
-                  </div>
+                  <MinecraftServerStatus />
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Whitelist</span>
                     <span className="text-sm font-medium text-foreground">
@@ -10,6 +10,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAutosave } from "@/hooks/useAutosave";
+import { useAuth } from "@/hooks/useAuth";
+import UserManagement from "@/components/UserManagement";
+import ApiKeyManagement from "@/components/ApiKeyManagement";
 import { 
   Settings as SettingsIcon, 
   Bell, 
@@ -46,6 +49,7 @@ export default function Settings() {
   const { theme, setTheme, resolvedTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   
   // Autosave settings
   const { data: settings, setData: setSettings, isLoading, lastSaved, reset, save } = useAutosave<SettingsData>(
@@ -331,6 +335,13 @@ export default function Settings() {
           </Card>
         </div>
 
+        {hasRole('admin') && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <UserManagement />
+            <ApiKeyManagement />
+          </div>
+        )}
+
         {/* System Information */}
         <Card className="glass-effect p-6">
           <h3 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -14,7 +14,8 @@ export default defineConfig(({ mode }) => ({
       'Cache-Control': 'no-cache',
     },
     proxy: {
-      '/api': 'http://localhost:3001'
+      '/api': 'http://localhost:3001',
+      '/socket.io': { target: 'http://localhost:3001', ws: true },
     },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),